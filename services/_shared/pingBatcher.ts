@@ -0,0 +1,69 @@
+import type { PingStore, TrackerPing, TrackerTractor } from "./pingStore.ts";
+
+interface PendingPings {
+  tractor: TrackerTractor;
+  pings: TrackerPing[];
+  resolve: () => void;
+  reject: (error: unknown) => void;
+}
+
+export interface PingBatcher {
+  // Resolves once the pings are stored, so the caller can acknowledge them
+  add(tractor: TrackerTractor, pings: TrackerPing[]): Promise<void>;
+  flush(): Promise<void>;
+}
+
+// Groups pings from every connection into one insert per tractor, flushed when
+// maxBatch pings are waiting or flushIntervalMs after the first one arrived.
+// A failed insert rejects every waiting add, so none of them is acknowledged.
+export function createPingBatcher(
+  store: PingStore,
+  { maxBatch = 500, flushIntervalMs = 1000 }: { maxBatch?: number; flushIntervalMs?: number } = {}
+): PingBatcher {
+  let pending: PendingPings[] = [];
+  let pendingCount = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const flush = async () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    const batch = pending;
+    pending = [];
+    pendingCount = 0;
+
+    const byTractor = new Map<string, PendingPings[]>();
+    for (const entry of batch) {
+      byTractor.set(entry.tractor.id, [...(byTractor.get(entry.tractor.id) ?? []), entry]);
+    }
+
+    await Promise.all(Array.from(byTractor.values(), async (entries) => {
+      try {
+        await store.insertPings(entries[0].tractor, entries.flatMap((e) => e.pings));
+        entries.forEach((e) => e.resolve());
+      } catch (error) {
+        entries.forEach((e) => e.reject(error));
+      }
+    }));
+  };
+
+  return {
+    add(tractor, pings) {
+      if (pings.length === 0) return Promise.resolve();
+
+      const stored = new Promise<void>((resolve, reject) => {
+        pending.push({ tractor, pings, resolve, reject });
+      });
+      pendingCount += pings.length;
+
+      if (pendingCount >= maxBatch) {
+        void flush();
+      } else if (!timer) {
+        timer = setTimeout(() => void flush(), flushIntervalMs);
+      }
+      return stored;
+    },
+    flush,
+  };
+}
@@ -0,0 +1,25 @@
+// What the ingestion services store: pings bound to a tractor by its identifier
+
+import type { PingTelemetryRow } from "../../supabase/functions/_shared/pingIngest.ts";
+
+// Telemetry is stored as reported, values out of range are dropped on insert
+export interface TrackerPing extends Partial<PingTelemetryRow> {
+  ts: string;
+  lat: number;
+  lon: number;
+  // km/h
+  speed: number | null;
+}
+
+export interface TrackerTractor {
+  id: string;
+  tenant_id: string;
+}
+
+export interface PingStore {
+  // Active tractor with this identifier, null when unknown or ambiguous.
+  // Identifiers are unique per tenant only, so pass the tenant when known.
+  findTractor(identifier: string, tenantId?: string): Promise<TrackerTractor | null>;
+  // Stores the pings not yet stored for the tractor and resolves to how many were new
+  insertPings(tractor: TrackerTractor, pings: TrackerPing[]): Promise<number>;
+}
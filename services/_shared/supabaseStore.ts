@@ -0,0 +1,71 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { pingTelemetryRow } from "../../supabase/functions/_shared/pingIngest.ts";
+import type { PingStore, TrackerTractor } from "./pingStore.ts";
+
+const BATCH_SIZE = 500;
+
+// Stores pings with the service role, like the ingest-gps function. Senders
+// resend whatever was not acknowledged, so pings already stored for the
+// tractor are skipped instead of duplicated.
+export function createSupabaseStore(supabaseUrl: string, serviceRoleKey: string): PingStore {
+  const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+  return {
+    async findTractor(identifier, tenantId) {
+      let query = supabase
+        .from("tractors")
+        .select("id, tenant_id")
+        .eq("identifier", identifier)
+        .is("archived_at", null);
+      if (tenantId) query = query.eq("tenant_id", tenantId);
+
+      // Without a tenant, an identifier registered in two tenants is ambiguous
+      const { data, error } = await query.limit(2);
+
+      if (error) throw error;
+      if (!data || data.length !== 1) return null;
+      return data[0] as TrackerTractor;
+    },
+
+    async insertPings(tractor, pings) {
+      // Pings already stored are skipped by the (tractor_id, ts) constraint; only inserted rows come back
+      const inserted: { ts: string; lat: number; lon: number }[] = [];
+      for (let i = 0; i < pings.length; i += BATCH_SIZE) {
+        const { data, error } = await supabase
+          .from("gps_pings")
+          .upsert(
+            pings.slice(i, i + BATCH_SIZE).map((ping) => ({
+              tenant_id: tractor.tenant_id,
+              tractor_id: tractor.id,
+              ts: ping.ts,
+              lat: ping.lat,
+              lon: ping.lon,
+              speed: ping.speed,
+              ...pingTelemetryRow(ping),
+            })),
+            { onConflict: "tractor_id,ts", ignoreDuplicates: true }
+          )
+          .select("ts, lat, lon");
+
+        if (error) throw error;
+        inserted.push(...data);
+      }
+
+      // Move the tractor only forward in time; trackers flush old records after a gap
+      const latestPing = inserted.reduce<typeof inserted[number] | null>(
+        (latest, ping) => (!latest || new Date(ping.ts) > new Date(latest.ts) ? ping : latest),
+        null
+      );
+      if (latestPing) {
+        const ts = new Date(latestPing.ts).toISOString();
+        await supabase
+          .from("tractors")
+          .update({ last_lat: latestPing.lat, last_lon: latestPing.lon, last_seen_at: ts })
+          .eq("id", tractor.id)
+          .or(`last_seen_at.is.null,last_seen_at.lt.${ts}`);
+      }
+
+      return inserted.length;
+    },
+  };
+}
@@ -0,0 +1,125 @@
+import { concatBytes, crc16X25 } from "./bytes.ts";
+import { protocolError, type AvlDecoder, type AvlEvent, type AvlPing } from "./types.ts";
+
+// GT06 binary protocol (Concox and compatible trackers). Each packet is framed
+// as 0x7878 + 1-byte length (0x7979 + 2-byte length for long packets),
+// protocol number, content, 2-byte serial, CRC-ITU from the length to the
+// serial, and 0x0D0A. The tracker logs in with its IMEI in BCD and expects an
+// echo of the protocol number and serial for logins, heartbeats and alarms;
+// plain location packets are not answered.
+
+const LOGIN = 0x01;
+const LOCATION = [0x12, 0x22];
+const HEARTBEAT = [0x13, 0x23];
+const ALARM = [0x16, 0x26];
+
+// Degrees are sent as minutes × 30000
+const COORDINATE_SCALE = 30000 * 60;
+
+function ack(protocol: number, serial: number): Uint8Array {
+  const body = Uint8Array.of(0x05, protocol, serial >> 8, serial & 0xff);
+  const crc = crc16X25(body);
+  return Uint8Array.of(0x78, 0x78, ...body, crc >> 8, crc & 0xff, 0x0d, 0x0a);
+}
+
+// 8 BCD bytes carry 16 digits; IMEIs have 15, padded with a leading zero
+function readImei(content: Uint8Array): string {
+  const digits = Array.from(content.subarray(0, 8), (b) => b.toString(16).padStart(2, "0")).join("");
+  return digits.replace(/^0/, "");
+}
+
+// Date, fix and course block shared by location and alarm packets
+function readPosition(content: Uint8Array): AvlPing | null {
+  if (content.length < 18) return null;
+  const view = new DataView(content.buffer, content.byteOffset, content.byteLength);
+
+  const [year, month, day, hour, minute, second] = content.subarray(0, 6);
+  const satellites = content[6] & 0x0f;
+  let lat = view.getUint32(7) / COORDINATE_SCALE;
+  let lon = view.getUint32(11) / COORDINATE_SCALE;
+  const speed = content[15];
+  const courseStatus = view.getUint16(16);
+
+  const positioned = (courseStatus & 0x1000) !== 0;
+  if (!positioned) return null;
+  if ((courseStatus & 0x0400) === 0) lat = -lat;
+  if ((courseStatus & 0x0800) !== 0) lon = -lon;
+
+  return {
+    ts: new Date(Date.UTC(2000 + year, month - 1, day, hour, minute, second)).toISOString(),
+    lat,
+    lon,
+    speed,
+    heading: courseStatus & 0x03ff,
+    altitude: null,
+    satellites,
+  };
+}
+
+export function createGt06Decoder(): AvlDecoder {
+  let buffer = new Uint8Array(0);
+  let loggedIn = false;
+
+  return {
+    feed(chunk) {
+      buffer = concatBytes(buffer, chunk);
+      const events: AvlEvent[] = [];
+
+      while (buffer.length >= 5) {
+        const long = buffer[0] === 0x79 && buffer[1] === 0x79;
+        if (!long && !(buffer[0] === 0x78 && buffer[1] === 0x78)) {
+          throw protocolError("Inicio de paquete GT06 inválido");
+        }
+        const lengthSize = long ? 2 : 1;
+        const length = long ? (buffer[2] << 8) | buffer[3] : buffer[2];
+        // Protocol number, serial and CRC at least
+        if (length < 5) throw protocolError(`Longitud de paquete inválida (${length})`);
+        const total = 2 + lengthSize + length + 2;
+        if (buffer.length < total) break;
+
+        const packet = buffer.subarray(0, total);
+        buffer = buffer.subarray(total);
+
+        if (packet[total - 2] !== 0x0d || packet[total - 1] !== 0x0a) {
+          throw protocolError("Fin de paquete GT06 inválido");
+        }
+        const crc = (packet[total - 4] << 8) | packet[total - 3];
+        if (crc16X25(packet.subarray(2, total - 4)) !== crc) {
+          events.push({ kind: "invalid", reason: "CRC inválido" });
+          continue;
+        }
+
+        const protocol = packet[2 + lengthSize];
+        const content = packet.subarray(3 + lengthSize, total - 6);
+        const serial = (packet[total - 6] << 8) | packet[total - 5];
+
+        if (protocol === LOGIN) {
+          if (content.length < 8) throw protocolError("Paquete de login sin IMEI");
+          loggedIn = true;
+          events.push({
+            kind: "login",
+            imei: readImei(content),
+            reply: (accepted) => (accepted ? ack(protocol, serial) : null),
+          });
+          continue;
+        }
+        if (!loggedIn) throw protocolError("Paquete recibido antes del login");
+
+        if (LOCATION.includes(protocol) || ALARM.includes(protocol)) {
+          const ping = readPosition(content);
+          events.push({
+            kind: "records",
+            pings: ping ? [ping] : [],
+            reply: ALARM.includes(protocol) ? ack(protocol, serial) : null,
+          });
+        } else if (HEARTBEAT.includes(protocol)) {
+          events.push({ kind: "reply", reply: ack(protocol, serial) });
+        } else {
+          events.push({ kind: "invalid", reason: `Protocolo no soportado (0x${protocol.toString(16)})` });
+        }
+      }
+
+      return events;
+    },
+  };
+}
@@ -0,0 +1,99 @@
+import { createGt06Decoder } from "./gt06.ts";
+import { createPingBatcher, type PingBatcher } from "../_shared/pingBatcher.ts";
+import type { PingStore, TrackerTractor } from "../_shared/pingStore.ts";
+import { createSupabaseStore } from "../_shared/supabaseStore.ts";
+import { createTeltonikaDecoder } from "./teltonika.ts";
+import type { AvlDecoder } from "./types.ts";
+
+// TCP listener for trackers that only speak binary AVL protocols. Each protocol
+// gets its own port; the tracker's IMEI must match the identifier of exactly
+// one active tractor, and records are acknowledged only once stored.
+//
+//   deno run --allow-net --allow-env services/avl-listener/main.ts
+//
+// Environment: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, and optionally
+// TELTONIKA_PORT (5027), GT06_PORT (5023), AVL_IDLE_TIMEOUT_MS (600000).
+
+const PROTOCOLS: { name: string; portVariable: string; defaultPort: number; createDecoder: () => AvlDecoder }[] = [
+  { name: "teltonika", portVariable: "TELTONIKA_PORT", defaultPort: 5027, createDecoder: createTeltonikaDecoder },
+  { name: "gt06", portVariable: "GT06_PORT", defaultPort: 5023, createDecoder: createGt06Decoder },
+];
+
+const idleTimeoutMs = Number(Deno.env.get("AVL_IDLE_TIMEOUT_MS") ?? 10 * 60 * 1000);
+
+async function handleConnection(
+  conn: Deno.TcpConn,
+  protocol: string,
+  decoder: AvlDecoder,
+  store: PingStore,
+  batcher: PingBatcher
+) {
+  const peer = `${protocol} ${conn.remoteAddr.hostname}:${conn.remoteAddr.port}`;
+  const writer = conn.writable.getWriter();
+  let imei: string | null = null;
+  let tractor: TrackerTractor | null = null;
+
+  // Trackers that lose coverage leave half-open sockets behind
+  let idleTimer = setTimeout(() => conn.close(), idleTimeoutMs);
+
+  try {
+    for await (const chunk of conn.readable) {
+      clearTimeout(idleTimer);
+      idleTimer = setTimeout(() => conn.close(), idleTimeoutMs);
+
+      for (const event of decoder.feed(chunk)) {
+        if (event.kind === "login") {
+          imei = event.imei;
+          tractor = await store.findTractor(imei);
+          const reply = event.reply(tractor !== null);
+          if (reply) await writer.write(reply);
+          if (!tractor) {
+            console.warn(`${peer}: IMEI ${imei} has no matching active tractor`);
+            return;
+          }
+        } else if (event.kind === "records") {
+          if (!tractor) throw new Error("Records received before login");
+          await batcher.add(tractor, event.pings);
+          if (event.reply) await writer.write(event.reply);
+        } else if (event.kind === "reply") {
+          await writer.write(event.reply);
+        } else {
+          console.warn(`${peer} (${imei ?? "no login"}): packet dropped: ${event.reason}`);
+        }
+      }
+    }
+  } catch (error) {
+    // Unacknowledged records stay on the tracker and are resent on reconnect
+    console.error(`${peer} (${imei ?? "no login"}):`, error);
+  } finally {
+    clearTimeout(idleTimer);
+    try {
+      conn.close();
+    } catch {
+      // Already closed by the tracker or the idle timer
+    }
+  }
+}
+
+async function serve(
+  port: number,
+  protocol: string,
+  createDecoder: () => AvlDecoder,
+  store: PingStore,
+  batcher: PingBatcher
+) {
+  const listener = Deno.listen({ port, transport: "tcp" });
+  console.log(`Listening for ${protocol} trackers on port ${port}`);
+
+  for await (const conn of listener) {
+    conn.setKeepAlive(true);
+    void handleConnection(conn, protocol, createDecoder(), store, batcher);
+  }
+}
+
+const store = createSupabaseStore(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+const batcher = createPingBatcher(store);
+
+await Promise.all(PROTOCOLS.map(({ name, portVariable, defaultPort, createDecoder }) =>
+  serve(Number(Deno.env.get(portVariable) ?? defaultPort), name, createDecoder, store, batcher)
+));
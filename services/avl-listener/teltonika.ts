@@ -0,0 +1,159 @@
+import { concatBytes, crc16Ibm } from "./bytes.ts";
+import { protocolError, type AvlDecoder, type AvlEvent, type AvlPing } from "./types.ts";
+
+// Teltonika AVL over TCP (Codec 8 and Codec 8 Extended). The tracker opens with
+// its IMEI, answered with 0x01 (accepted) or 0x00 (rejected), then sends AVL
+// packets: 4 zero bytes, data length, codec, record count, records, record count
+// again and a CRC-16/IBM of the data. The server acknowledges a packet with the
+// number of records it took; without that reply the tracker keeps the records
+// and resends them.
+
+const CODEC_8 = 0x08;
+const CODEC_8E = 0x8e;
+// Larger packets mean a corrupt length; trackers send at most a few KB
+const MAX_DATA_LENGTH = 64 * 1024;
+
+function readRecords(data: Uint8Array, codec: number, count: number): AvlPing[] {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const extended = codec === CODEC_8E;
+  const pings: AvlPing[] = [];
+  // Codec and record count come first
+  let offset = 2;
+
+  const readId = () => {
+    const value = extended ? view.getUint16(offset) : view.getUint8(offset);
+    offset += extended ? 2 : 1;
+    return value;
+  };
+
+  for (let r = 0; r < count; r++) {
+    const timestamp = Number(view.getBigUint64(offset));
+    // Skip the priority byte
+    const lon = view.getInt32(offset + 9) / 1e7;
+    const lat = view.getInt32(offset + 13) / 1e7;
+    const altitude = view.getInt16(offset + 17);
+    const angle = view.getUint16(offset + 19);
+    const satellites = view.getUint8(offset + 21);
+    const speed = view.getUint16(offset + 22);
+    offset += 24;
+
+    // Event IO id, then total IO count
+    readId();
+    readId();
+
+    const io: Record<number, number> = {};
+    for (const size of [1, 2, 4, 8]) {
+      const n = readId();
+      for (let i = 0; i < n; i++) {
+        const id = readId();
+        io[id] = size === 1 ? view.getUint8(offset)
+          : size === 2 ? view.getUint16(offset)
+          : size === 4 ? view.getUint32(offset)
+          : Number(view.getBigUint64(offset));
+        offset += size;
+      }
+    }
+    if (extended) {
+      // Variable-length elements (NX), not used for positions
+      const n = readId();
+      for (let i = 0; i < n; i++) {
+        readId();
+        offset += 2 + view.getUint16(offset);
+      }
+    }
+
+    // Without a fix the tracker repeats the last known coordinates; drop them
+    if (satellites === 0 || (lat === 0 && lon === 0)) continue;
+    pings.push({
+      ts: new Date(timestamp).toISOString(),
+      lat,
+      lon,
+      speed,
+      heading: angle,
+      altitude,
+      satellites,
+      // IO 239 is the ignition input on every Teltonika model
+      ignition: io[239] === undefined ? null : io[239] === 1,
+      io,
+    });
+  }
+
+  if (offset + 1 !== data.length) {
+    throw new RangeError(`${data.length - offset - 1} bytes sobrantes tras los registros`);
+  }
+  return pings;
+}
+
+function ackRecords(count: number): Uint8Array {
+  const reply = new Uint8Array(4);
+  new DataView(reply.buffer).setUint32(0, count);
+  return reply;
+}
+
+export function createTeltonikaDecoder(): AvlDecoder {
+  let buffer = new Uint8Array(0);
+  let loggedIn = false;
+
+  return {
+    feed(chunk) {
+      buffer = concatBytes(buffer, chunk);
+      const events: AvlEvent[] = [];
+
+      while (true) {
+        const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+
+        if (!loggedIn) {
+          if (buffer.length < 2) break;
+          const length = view.getUint16(0);
+          if (length === 0 || length > 32) throw protocolError(`Longitud de IMEI inválida (${length})`);
+          if (buffer.length < 2 + length) break;
+
+          const imei = new TextDecoder().decode(buffer.subarray(2, 2 + length));
+          if (!/^\d+$/.test(imei)) throw protocolError("El IMEI no es numérico");
+          buffer = buffer.subarray(2 + length);
+          loggedIn = true;
+          events.push({
+            kind: "login",
+            imei,
+            reply: (accepted) => Uint8Array.of(accepted ? 0x01 : 0x00),
+          });
+          continue;
+        }
+
+        if (buffer.length < 8) break;
+        if (view.getUint32(0) !== 0) throw protocolError("Preámbulo de paquete AVL inválido");
+        const length = view.getUint32(4);
+        if (length < 3 || length > MAX_DATA_LENGTH) throw protocolError(`Longitud de datos inválida (${length})`);
+        if (buffer.length < 12 + length) break;
+
+        const data = buffer.subarray(8, 8 + length);
+        const crc = view.getUint32(8 + length);
+        buffer = buffer.subarray(12 + length);
+
+        if (crc16Ibm(data) !== (crc & 0xffff)) {
+          events.push({ kind: "invalid", reason: "CRC inválido" });
+          continue;
+        }
+        const codec = data[0];
+        const count = data[1];
+        if (codec !== CODEC_8 && codec !== CODEC_8E) {
+          // Codec 12 command responses and others carry no positions
+          events.push({ kind: "invalid", reason: `Codec no soportado (0x${codec.toString(16)})` });
+          continue;
+        }
+        if (data[data.length - 1] !== count) {
+          events.push({ kind: "invalid", reason: "Los contadores de registros no coinciden" });
+          continue;
+        }
+
+        try {
+          events.push({ kind: "records", pings: readRecords(data, codec, count), reply: ackRecords(count) });
+        } catch (error) {
+          events.push({ kind: "invalid", reason: error instanceof Error ? error.message : "Registros ilegibles" });
+        }
+      }
+
+      return events;
+    },
+  };
+}
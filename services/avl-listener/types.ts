@@ -0,0 +1,33 @@
+import type { TrackerPing } from "../_shared/pingStore.ts";
+
+// Position decoded from a tracker packet, before it is bound to a tractor
+export interface AvlPing extends TrackerPing {
+  speed: number;
+  heading: number | null;
+  altitude: number | null;
+  satellites: number | null;
+  // Raw IO elements by id (Teltonika only), e.g. 239 = ignition
+  io?: Record<number, number>;
+}
+
+export type AvlEvent =
+  // The tracker identified itself; the reply depends on whether the IMEI is known
+  | { kind: "login"; imei: string; reply: (accepted: boolean) => Uint8Array | null }
+  // Positions to store; the reply acknowledges them and must only be sent once stored
+  | { kind: "records"; pings: AvlPing[]; reply: Uint8Array | null }
+  // Keepalives and other packets answered right away
+  | { kind: "reply"; reply: Uint8Array }
+  // Packet dropped without acknowledgement, so the tracker resends it
+  | { kind: "invalid"; reason: string };
+
+// Stateful decoder for one TCP connection; chunks may split or join packets
+export interface AvlDecoder {
+  feed(chunk: Uint8Array): AvlEvent[];
+}
+
+// Broken framing; the connection can't be resynchronised and is closed
+export function protocolError(message: string): Error {
+  const error = new Error(message);
+  error.name = "ProtocolError";
+  return error;
+}
@@ -0,0 +1,210 @@
+import type { PingBatcher } from "../_shared/pingBatcher.ts";
+import type { PingStore, TrackerPing, TrackerTractor } from "../_shared/pingStore.ts";
+import type { BridgeConfig } from "./config.ts";
+import { mapPayload } from "./payloadMapping.ts";
+import { compileTopicPattern } from "./topicPattern.ts";
+
+export interface MqttMessage {
+  topic: string;
+  payload: Uint8Array;
+  qos: 0 | 1 | 2;
+}
+
+export interface MqttHandlers {
+  // QoS 1 messages are acknowledged once this resolves. When it rejects the
+  // connection is dropped unacknowledged, so the broker redelivers them.
+  onMessage(message: MqttMessage): Promise<void>;
+  // Connection lost; not called after end()
+  onClose(error: Error | null): void;
+}
+
+export interface MqttConnection {
+  subscribe(filters: string[], qos: 0 | 1): Promise<void>;
+  end(): Promise<void>;
+}
+
+// Opens one broker connection, with a persistent session so unacknowledged
+// messages survive a reconnect. Resolves once connected.
+export type MqttConnect = (handlers: MqttHandlers) => Promise<MqttConnection>;
+
+export interface MqttBridgeStats {
+  messages: number;
+  pings: number;
+  // Pings that could not be read from their message
+  rejected: number;
+  // Pings of devices that match no active tractor of the tenant
+  unknownDevice: number;
+  // QoS 0 messages dropped while the queue was full
+  dropped: number;
+  reconnects: number;
+}
+
+interface MqttBridgeOptions {
+  connect: MqttConnect;
+  config: BridgeConfig;
+  store: PingStore;
+  batcher: PingBatcher;
+  // Messages processed at once; the rest wait, unacknowledged
+  maxInFlight?: number;
+  // Waiting messages beyond which QoS 0 ones are dropped
+  maxQueued?: number;
+  minReconnectDelayMs?: number;
+  maxReconnectDelayMs?: number;
+  // How long a device lookup, found or not, is reused
+  tractorCacheMs?: number;
+}
+
+export interface MqttBridge {
+  // Connects and keeps reconnecting until stop(); resolves once stopped
+  run(): Promise<void>;
+  stop(): Promise<void>;
+  stats: MqttBridgeStats;
+}
+
+/**
+ * Subscribes to the configured topics and stores the pings of every message
+ * for the tractor whose identifier is the message's device. Messages are
+ * acknowledged only after their pings are stored. Backpressure comes from
+ * that: at most maxInFlight messages are processed at once and the broker
+ * stops sending QoS 1 messages once its in-flight window is full of
+ * unacknowledged ones. Lost connections are retried with exponential backoff.
+ */
+export function createMqttBridge({
+  connect,
+  config,
+  store,
+  batcher,
+  maxInFlight = 500,
+  maxQueued = 5000,
+  minReconnectDelayMs = 1000,
+  maxReconnectDelayMs = 60_000,
+  tractorCacheMs = 5 * 60 * 1000,
+}: MqttBridgeOptions): MqttBridge {
+  const patterns = config.topics.map(compileTopicPattern);
+  const stats: MqttBridgeStats = { messages: 0, pings: 0, rejected: 0, unknownDevice: 0, dropped: 0, reconnects: 0 };
+  const tractors = new Map<string, { tractor: TrackerTractor | null; expiresAt: number }>();
+
+  let inFlight = 0;
+  const queue: (() => void)[] = [];
+  let stopped = false;
+  let connection: MqttConnection | null = null;
+  let closeCurrent: ((error: Error | null) => void) | null = null;
+  let wake: (() => void) | null = null;
+  let running: Promise<void> | null = null;
+
+  const findTractor = async (device: string) => {
+    const cached = tractors.get(device);
+    if (cached && cached.expiresAt > Date.now()) return cached.tractor;
+
+    const tractor = await store.findTractor(device, config.tenant_id);
+    tractors.set(device, { tractor, expiresAt: Date.now() + tractorCacheMs });
+    if (!tractor) console.warn(`Device ${device} matches no active tractor`);
+    return tractor;
+  };
+
+  const processMessage = async (message: MqttMessage) => {
+    const match = patterns.map((p) => p.match(message.topic)).find((m) => m !== null);
+    const { pings, errors } = mapPayload(message.payload, config.mapping, match?.device ?? null);
+    stats.messages++;
+    stats.rejected += errors.length;
+    if (errors.length > 0) console.warn(`${message.topic}: ${errors.slice(0, 3).join("; ")}`);
+
+    const byDevice = new Map<string, TrackerPing[]>();
+    for (const { device, ping } of pings) {
+      if (!device) {
+        stats.rejected++;
+        continue;
+      }
+      byDevice.set(device, [...(byDevice.get(device) ?? []), ping]);
+    }
+
+    await Promise.all(Array.from(byDevice, async ([device, devicePings]) => {
+      const tractor = await findTractor(device);
+      if (!tractor) {
+        stats.unknownDevice += devicePings.length;
+        return;
+      }
+      await batcher.add(tractor, devicePings);
+      stats.pings += devicePings.length;
+    }));
+  };
+
+  const onMessage = async (message: MqttMessage) => {
+    if (inFlight >= maxInFlight) {
+      if (message.qos === 0 && queue.length >= maxQueued) {
+        stats.dropped++;
+        return;
+      }
+      await new Promise<void>((resolve) => queue.push(resolve));
+    } else {
+      inFlight++;
+    }
+
+    try {
+      await processMessage(message);
+    } finally {
+      // Hand the slot to the next waiting message, if any
+      const next = queue.shift();
+      if (next) next();
+      else inFlight--;
+    }
+  };
+
+  const sleep = (ms: number) => new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    wake = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+  });
+
+  const run = async () => {
+    let attempt = 0;
+
+    while (!stopped) {
+      // Settled by this connection only; a late close from an earlier one is ignored
+      let close: (error: Error | null) => void = () => {};
+      const lost = new Promise<Error | null>((resolve) => {
+        close = resolve;
+      });
+      closeCurrent = close;
+
+      try {
+        connection = await connect({ onMessage, onClose: close });
+        await connection.subscribe(patterns.map((p) => p.filter), config.qos);
+        console.log(`Subscribed to ${patterns.map((p) => p.filter).join(", ")}`);
+        attempt = 0;
+
+        const error = await lost;
+        if (!stopped) console.warn(`MQTT connection lost${error ? `: ${error.message}` : ""}`);
+      } catch (error) {
+        console.error("MQTT connection failed:", error);
+        await connection?.end().catch(() => {});
+        connection = null;
+      }
+      if (stopped) await connection?.end();
+      connection = null;
+      closeCurrent = null;
+      if (stopped) break;
+
+      stats.reconnects++;
+      await sleep(Math.min(maxReconnectDelayMs, minReconnectDelayMs * 2 ** attempt));
+      attempt++;
+    }
+  };
+
+  return {
+    stats,
+    run() {
+      if (!running) running = run();
+      return running;
+    },
+    async stop() {
+      stopped = true;
+      wake?.();
+      closeCurrent?.(null);
+      await running;
+      await batcher.flush();
+    },
+  };
+}
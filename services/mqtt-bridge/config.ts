@@ -0,0 +1,64 @@
+import type { PayloadMapping } from "./payloadMapping.ts";
+import { compileTopicPattern } from "./topicPattern.ts";
+
+// Bridge configuration, read from a JSON file:
+//
+//   {
+//     "tenant_id": "…",
+//     "topics": ["farms/north/gateways/{device}/gps"],
+//     "mapping": { "timestamp": "time", "latitude": "pos.lat", "longitude": "pos.lon", "speed": "speed" },
+//     "qos": 1
+//   }
+//
+// Devices are tractor identifiers within the tenant, taken from `{device}` in
+// the topic or from `mapping.device` in the payload.
+export interface BridgeConfig {
+  tenant_id: string;
+  topics: string[];
+  mapping: PayloadMapping;
+  qos: 0 | 1;
+}
+
+const MAPPING_FIELDS: (keyof PayloadMapping)[] = [
+  "timestamp", "coordinates", "latitude", "longitude", "speed",
+  "heading", "altitude", "hdop", "satellites", "ignition", "pto",
+  "device", "items",
+];
+
+export function parseBridgeConfig(value: unknown): BridgeConfig {
+  const config = (value ?? {}) as Record<string, unknown>;
+
+  if (typeof config.tenant_id !== "string" || !config.tenant_id) {
+    throw new Error("Falta tenant_id");
+  }
+  if (!Array.isArray(config.topics) || config.topics.length === 0 || !config.topics.every((t) => typeof t === "string" && t)) {
+    throw new Error("topics debe ser una lista de patrones de tópico");
+  }
+
+  const rawMapping = (config.mapping ?? {}) as Record<string, unknown>;
+  const mapping = {} as PayloadMapping;
+  for (const field of MAPPING_FIELDS) {
+    const path = rawMapping[field];
+    if (path === undefined || path === null) continue;
+    if (typeof path !== "string" || !path) throw new Error(`mapping.${field} debe ser una ruta como "gps.lat"`);
+    mapping[field] = path;
+  }
+  if (!mapping.timestamp) {
+    throw new Error("Falta mapping.timestamp");
+  }
+  if (!mapping.coordinates && !(mapping.latitude && mapping.longitude)) {
+    throw new Error("Se requiere mapping.coordinates o mapping.latitude y mapping.longitude");
+  }
+
+  const topics = config.topics as string[];
+  const patterns = topics.map(compileTopicPattern);
+  if (!mapping.device && patterns.some((p) => !p.pattern.split("/").includes("{device}"))) {
+    throw new Error("Cada tópico necesita {device}, o bien mapping.device");
+  }
+
+  if (config.qos !== undefined && config.qos !== 0 && config.qos !== 1) {
+    throw new Error("qos debe ser 0 o 1");
+  }
+
+  return { tenant_id: config.tenant_id, topics, mapping, qos: config.qos === 0 ? 0 : 1 };
+}
@@ -0,0 +1,44 @@
+import { createPingBatcher } from "../_shared/pingBatcher.ts";
+import { createSupabaseStore } from "../_shared/supabaseStore.ts";
+import { createMqttBridge } from "./bridge.ts";
+import { parseBridgeConfig } from "./config.ts";
+import { createMqttConnector } from "./mqttClient.ts";
+
+// Bridge from the MQTT broker of the field gateways to gps_pings.
+//
+//   deno run --allow-net --allow-env --allow-read services/mqtt-bridge/main.ts bridge.json
+//
+// The configuration file (see bridge.example.json and config.ts) sets the
+// tenant, topics and payload mapping. Environment: MQTT_URL, SUPABASE_URL,
+// SUPABASE_SERVICE_ROLE_KEY, and optionally MQTT_USERNAME, MQTT_PASSWORD and
+// MQTT_CLIENT_ID, which must stay the same across restarts for the broker to
+// keep the session.
+
+const configPath = Deno.args[0] ?? Deno.env.get("MQTT_BRIDGE_CONFIG");
+if (!configPath) {
+  console.error("Usage: main.ts <bridge.json>");
+  Deno.exit(1);
+}
+
+const config = parseBridgeConfig(JSON.parse(await Deno.readTextFile(configPath)));
+const store = createSupabaseStore(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+
+const bridge = createMqttBridge({
+  connect: createMqttConnector(Deno.env.get("MQTT_URL")!, {
+    clientId: Deno.env.get("MQTT_CLIENT_ID") ?? `gps-bridge-${config.tenant_id}`,
+    username: Deno.env.get("MQTT_USERNAME"),
+    password: Deno.env.get("MQTT_PASSWORD"),
+  }),
+  config,
+  store,
+  batcher: createPingBatcher(store),
+});
+
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+  Deno.addSignalListener(signal, () => {
+    console.log(`Stopping; stats: ${JSON.stringify(bridge.stats)}`);
+    bridge.stop().finally(() => Deno.exit(0));
+  });
+}
+
+await bridge.run();
@@ -0,0 +1,79 @@
+import mqtt from "npm:mqtt@5";
+import type { MqttConnect } from "./bridge.ts";
+
+interface MqttClientOptions {
+  clientId: string;
+  username?: string;
+  password?: string;
+}
+
+// MqttConnect over mqtt.js. Reconnection is left to the bridge, and QoS 1
+// messages are acknowledged by hand once the bridge has stored them.
+export function createMqttConnector(url: string, options: MqttClientOptions): MqttConnect {
+  return (handlers) => new Promise((resolve, reject) => {
+    let ended = false;
+    let connected = false;
+
+    const client = mqtt.connect(url, {
+      ...options,
+      // Keep the session so unacknowledged messages are redelivered on reconnect
+      clean: false,
+      reconnectPeriod: 0,
+      connectTimeout: 30_000,
+      customHandleAcks: (topic, payload, packet, done) => {
+        handlers.onMessage({ topic, payload, qos: packet.qos }).then(
+          () => done(0),
+          (error) => {
+            console.error(`${topic}: not acknowledged:`, error);
+            client.end(true);
+          }
+        );
+      },
+    });
+
+    // customHandleAcks only sees QoS 1 and 2 messages
+    client.on("message", (topic, payload, packet) => {
+      if (packet.qos !== 0) return;
+      handlers.onMessage({ topic, payload, qos: 0 }).catch((error) => {
+        console.error(`${topic}: message lost:`, error);
+      });
+    });
+
+    client.once("connect", () => {
+      connected = true;
+      resolve({
+        subscribe: (filters, qos) => new Promise((resolveSubscribe, rejectSubscribe) => {
+          client.subscribe(filters, { qos }, (error, granted) => {
+            const refused = granted?.find((g) => g.qos === 128);
+            if (error || refused) {
+              rejectSubscribe(error ?? new Error(`El broker rechazó la suscripción a ${refused!.topic}`));
+            } else {
+              resolveSubscribe();
+            }
+          });
+        }),
+        end: () => {
+          ended = true;
+          return client.endAsync();
+        },
+      });
+    });
+
+    let lastError: Error | null = null;
+    client.on("error", (error) => {
+      lastError = error;
+      if (!connected) {
+        client.end(true);
+        reject(error);
+      }
+    });
+    client.on("close", () => {
+      if (!connected) {
+        reject(lastError ?? new Error("Conexión cerrada por el broker"));
+      } else if (!ended) {
+        ended = true;
+        handlers.onClose(lastError);
+      }
+    });
+  });
+}
@@ -0,0 +1,122 @@
+import {
+  normalizeTimestamp,
+  parseOnOff,
+  validatePing,
+  type PingTelemetryRow,
+} from "../../supabase/functions/_shared/pingIngest.ts";
+import type { TrackerPing } from "../_shared/pingStore.ts";
+
+// Where each ping field is in a JSON message, like the column mapping of the
+// spreadsheet import. Fields are dot paths (`gps.lat`, `fix.0.ts`).
+export interface PayloadMapping {
+  timestamp: string;
+  // Combined "lat,lon" value; used instead of latitude and longitude
+  coordinates?: string | null;
+  latitude?: string | null;
+  longitude?: string | null;
+  speed?: string | null;
+  // Telemetry, stored when mapped; ignition and pto are on/off values
+  heading?: string | null;
+  altitude?: string | null;
+  hdop?: string | null;
+  satellites?: string | null;
+  ignition?: string | null;
+  pto?: string | null;
+  // Device id, for topics that don't carry it
+  device?: string | null;
+  // Array of pings in the message, for gateways that batch them; bare arrays are read as is
+  items?: string | null;
+}
+
+export interface MappedPing {
+  device: string | null;
+  ping: TrackerPing;
+}
+
+export function readPath(value: unknown, path: string): unknown {
+  return path.split(".").reduce<unknown>(
+    (current, key) => (current !== null && typeof current === "object" ? (current as Record<string, unknown>)[key] : undefined),
+    value
+  );
+}
+
+const NUMERIC_TELEMETRY = ["heading", "altitude", "hdop", "satellites"] as const;
+const ON_OFF_TELEMETRY = ["ignition", "pto"] as const;
+
+function toNumber(value: unknown): number {
+  if (typeof value === "number") return value;
+  if (typeof value === "string" && value.trim() !== "") return Number(value);
+  return NaN;
+}
+
+/**
+ * Pings of one MQTT message. Items without a usable timestamp or position are
+ * reported in `errors` (1-based within the message) and left out; the device
+ * in the payload, when mapped, takes precedence over the one in the topic.
+ */
+export function mapPayload(
+  payload: Uint8Array | string,
+  mapping: PayloadMapping,
+  topicDevice: string | null
+): { pings: MappedPing[]; errors: string[] } {
+  let body: unknown;
+  try {
+    body = JSON.parse(typeof payload === "string" ? payload : new TextDecoder().decode(payload));
+  } catch {
+    return { pings: [], errors: ["El mensaje no es un JSON válido"] };
+  }
+
+  const items = Array.isArray(body) ? body : mapping.items ? readPath(body, mapping.items) : [body];
+  if (!Array.isArray(items)) {
+    return { pings: [], errors: [`El mensaje no tiene un arreglo en "${mapping.items}"`] };
+  }
+
+  const pings: MappedPing[] = [];
+  const errors: string[] = [];
+
+  items.forEach((item, i) => {
+    let lat = NaN;
+    let lon = NaN;
+    if (mapping.coordinates) {
+      const parts = String(readPath(item, mapping.coordinates) ?? "").split(",");
+      if (parts.length === 2) [lat, lon] = parts.map(toNumber);
+    } else if (mapping.latitude && mapping.longitude) {
+      lat = toNumber(readPath(item, mapping.latitude));
+      lon = toNumber(readPath(item, mapping.longitude));
+    }
+
+    const speed = mapping.speed ? toNumber(readPath(item, mapping.speed)) : NaN;
+    const ping: TrackerPing = {
+      ts: normalizeTimestamp(readPath(item, mapping.timestamp)),
+      lat,
+      lon,
+      speed: Number.isFinite(speed) ? speed : null,
+    };
+
+    const validation = validatePing({ ...ping, speed: ping.speed ?? undefined }, i);
+    if (!validation.valid) {
+      errors.push(validation.reason!);
+      return;
+    }
+
+    // Unreadable telemetry is stored as NULL; the position is still good
+    const telemetry: Partial<PingTelemetryRow> = {};
+    for (const field of NUMERIC_TELEMETRY) {
+      if (!mapping[field]) continue;
+      const value = toNumber(readPath(item, mapping[field]!));
+      telemetry[field] = Number.isFinite(value) ? value : null;
+    }
+    for (const field of ON_OFF_TELEMETRY) {
+      if (mapping[field]) telemetry[field] = parseOnOff(readPath(item, mapping[field]!)) ?? null;
+    }
+
+    const payloadDevice = mapping.device ? readPath(item, mapping.device) : undefined;
+    const device = payloadDevice !== undefined && payloadDevice !== null && String(payloadDevice).trim()
+      ? String(payloadDevice).trim()
+      : topicDevice;
+
+    pings.push({ device, ping: { ...ping, ...telemetry, ts: validation.ts! } });
+  });
+
+  return { pings, errors };
+}
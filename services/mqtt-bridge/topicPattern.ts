@@ -0,0 +1,57 @@
+// Subscription pattern with the MQTT wildcards `+` (one level) and `#` (the
+// remaining levels), where one level may be `{device}` to take the tractor
+// identifier from the topic, e.g. `farms/+/gateways/{device}/gps`.
+
+export interface TopicPattern {
+  pattern: string;
+  // What is subscribed to: the pattern with `{device}` as `+`
+  filter: string;
+  // Device of a matching topic (null when the pattern has no `{device}`), or null if it doesn't match
+  match(topic: string): { device: string | null } | null;
+}
+
+const DEVICE_LEVEL = "{device}";
+
+export function compileTopicPattern(pattern: string): TopicPattern {
+  const levels = pattern.split("/");
+
+  levels.forEach((level, i) => {
+    if (level === "#" && i !== levels.length - 1) {
+      throw new Error(`"${pattern}": # solo puede ir en el último nivel`);
+    }
+    if (level !== "#" && level.includes("#")) {
+      throw new Error(`"${pattern}": # debe ocupar un nivel completo`);
+    }
+    if (level !== "+" && level.includes("+")) {
+      throw new Error(`"${pattern}": + debe ocupar un nivel completo`);
+    }
+    if (level !== DEVICE_LEVEL && /[{}]/.test(level)) {
+      throw new Error(`"${pattern}": el único marcador permitido es ${DEVICE_LEVEL}`);
+    }
+  });
+  if (levels.filter((level) => level === DEVICE_LEVEL).length > 1) {
+    throw new Error(`"${pattern}": ${DEVICE_LEVEL} solo puede aparecer una vez`);
+  }
+
+  return {
+    pattern,
+    filter: levels.map((level) => (level === DEVICE_LEVEL ? "+" : level)).join("/"),
+    match(topic) {
+      const parts = topic.split("/");
+      let device: string | null = null;
+
+      for (let i = 0; i < levels.length; i++) {
+        const level = levels[i];
+        if (level === "#") return { device };
+        if (i >= parts.length) return null;
+        if (level === DEVICE_LEVEL) {
+          if (!parts[i]) return null;
+          device = parts[i];
+        } else if (level !== "+" && level !== parts[i]) {
+          return null;
+        }
+      }
+      return parts.length === levels.length ? { device } : null;
+    },
+  };
+}
@@ -18,6 +18,7 @@ interface MapControlsProps {
   isSimulatorRunning: boolean;
   onToggleSimulator: () => void;
   onRefreshData: () => void;
+  isRefreshing?: boolean;
 }
 
 export function MapControls({
@@ -27,6 +28,7 @@ export function MapControls({
   isSimulatorRunning,
   onToggleSimulator,
   onRefreshData,
+  isRefreshing = false,
 }: MapControlsProps) {
   return (
     <div className="absolute right-4 top-4 z-20 flex flex-col gap-2">
@@ -83,11 +85,12 @@ export function MapControls({
               size="icon"
               className="rounded-none border-b border-border"
               onClick={onRefreshData}
+              disabled={isRefreshing}
             >
-              <RefreshCw className="w-4 h-4" />
+              <RefreshCw className={cn("w-4 h-4", isRefreshing && "animate-spin")} />
             </Button>
           </TooltipTrigger>
-          <TooltipContent side="left">Actualizar datos</TooltipContent>
+          <TooltipContent side="left">Actualizar pasadas con nuevos datos GPS</TooltipContent>
         </Tooltip>
 
         <Tooltip>
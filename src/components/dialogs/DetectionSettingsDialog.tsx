@@ -0,0 +1,349 @@
+import { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Drawer,
+  DrawerContent,
+  DrawerDescription,
+  DrawerFooter,
+  DrawerHeader,
+  DrawerTitle,
+} from '@/components/ui/drawer';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useIsMobile } from '@/hooks/use-mobile';
+import type { DetectionThresholdValues } from '@/hooks/useVisitDetectionSettings';
+import type { Block, VisitDetectionSettings, VisitDetectionThresholds } from '@/types/farm';
+import { resolveVisitThresholds } from '@shared/visitDetection';
+import { OPERATION_SPEED_BANDS, type OperationType } from '@shared/pingActivity';
+
+interface DetectionSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  block: Block | null;
+  tenantSettings: VisitDetectionSettings | null;
+  blockSettings: VisitDetectionSettings | null;
+  onSave: (data: {
+    tenantValues: DetectionThresholdValues;
+    blockValues: DetectionThresholdValues;
+    reprocess: boolean;
+  }) => void;
+  isLoading?: boolean;
+}
+
+// Inputs as typed; '' inherits, and the PTO requirement is 'true' or 'false'
+type FormValues = Record<keyof VisitDetectionThresholds, string>;
+
+type NumericThresholdKey = Exclude<keyof VisitDetectionThresholds, 'require_pto_for_work'>;
+
+// Select value of a PTO requirement left to the tenant default
+const INHERIT = '__inherit__';
+
+const FIELDS: { key: NumericThresholdKey; label: string; help: string; integer: boolean }[] = [
+  {
+    key: 'merge_gap_minutes',
+    label: 'Separación para unir pasadas (min)',
+    help: 'Si el tractor sale y vuelve a entrar antes de este tiempo, cuenta como la misma pasada.',
+    integer: false,
+  },
+  {
+    key: 'min_pings_for_valid_visit',
+    label: 'Pings mínimos por pasada',
+    help: 'Pasadas con menos puntos GPS se descartan como tránsito.',
+    integer: true,
+  },
+  {
+    key: 'min_duration_minutes',
+    label: 'Duración mínima (min)',
+    help: 'Pasadas más cortas se descartan como tránsito.',
+    integer: false,
+  },
+  {
+    key: 'min_penetration_depth_meters',
+    label: 'Profundidad mínima desde el borde (m)',
+    help: 'Distancia al borde del cuartel para considerar que el tractor trabajó adentro.',
+    integer: false,
+  },
+  {
+    key: 'min_deep_pings',
+    label: 'Pings mínimos en profundidad',
+    help: 'Cantidad de pings que deben superar la profundidad mínima.',
+    integer: true,
+  },
+  {
+    key: 'idle_max_speed_kmh',
+    label: 'Velocidad máxima detenido (km/h)',
+    help: 'A esta velocidad o menos el tractor se considera detenido.',
+    integer: false,
+  },
+  {
+    key: 'work_max_speed_kmh',
+    label: 'Velocidad máxima de trabajo (km/h)',
+    help: 'Sobre esta velocidad el tractor se considera en tránsito. Solo el tiempo trabajando cuenta para la pasada.',
+    integer: false,
+  },
+  {
+    key: 'turn_min_heading_change_deg',
+    label: 'Cambio de rumbo para virajes (°)',
+    help: 'Cambio de dirección entre pings que marca un viraje en cabecera.',
+    integer: false,
+  },
+  {
+    key: 'stop_radius_meters',
+    label: 'Radio de detención (m)',
+    help: 'El tractor se considera detenido mientras sus pings se mantienen dentro de este radio.',
+    integer: false,
+  },
+  {
+    key: 'stop_min_minutes',
+    label: 'Duración mínima de detención (min)',
+    help: 'Tiempo mínimo dentro del radio para registrar una detención. Se descuenta del tiempo efectivo.',
+    integer: false,
+  },
+];
+
+function toFormValues(settings: VisitDetectionSettings | null | VisitDetectionThresholds): FormValues {
+  const values = {} as FormValues;
+  for (const { key } of FIELDS) {
+    const value = settings?.[key];
+    values[key] = value === null || value === undefined ? '' : String(value);
+  }
+  const requirePto = settings?.require_pto_for_work;
+  values.require_pto_for_work = typeof requirePto === 'boolean' ? String(requirePto) : '';
+  return values;
+}
+
+// Empty inputs mean "inherit"; returns null when any value is invalid
+function parseFormValues(form: FormValues): DetectionThresholdValues | null {
+  const values = {} as DetectionThresholdValues;
+  for (const { key, integer } of FIELDS) {
+    const raw = form[key].trim().replace(',', '.');
+    if (raw === '') {
+      values[key] = null;
+      continue;
+    }
+    const parsed = Number(raw);
+    if (!Number.isFinite(parsed) || parsed < 0 || (integer && !Number.isInteger(parsed))) {
+      return null;
+    }
+    values[key] = parsed;
+  }
+  values.require_pto_for_work = form.require_pto_for_work === '' ? null : form.require_pto_for_work === 'true';
+  return values;
+}
+
+function ThresholdFields({
+  idPrefix,
+  values,
+  placeholders,
+  onChange,
+}: {
+  idPrefix: string;
+  values: FormValues;
+  placeholders: VisitDetectionThresholds;
+  onChange: (key: keyof VisitDetectionThresholds, value: string) => void;
+}) {
+  return (
+    <div className="space-y-4">
+      <div className="space-y-1.5">
+        <Label htmlFor={`${idPrefix}-operation`}>Tipo de labor</Label>
+        <Select
+          value=""
+          onValueChange={(value) => {
+            const preset = OPERATION_SPEED_BANDS[value as OperationType];
+            onChange('idle_max_speed_kmh', String(preset.idle_max_speed_kmh));
+            onChange('work_max_speed_kmh', String(preset.work_max_speed_kmh));
+          }}
+        >
+          <SelectTrigger id={`${idPrefix}-operation`}>
+            <SelectValue placeholder="Aplicar velocidades típicas de una labor" />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(OPERATION_SPEED_BANDS) as OperationType[]).map((operation) => (
+              <SelectItem key={operation} value={operation}>
+                {OPERATION_SPEED_BANDS[operation].label} (hasta {OPERATION_SPEED_BANDS[operation].work_max_speed_kmh} km/h)
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {FIELDS.map(({ key, label, help, integer }) => (
+        <div key={key} className="space-y-1.5">
+          <Label htmlFor={`${idPrefix}-${key}`}>{label}</Label>
+          <Input
+            id={`${idPrefix}-${key}`}
+            type="number"
+            min={0}
+            step={integer ? 1 : 'any'}
+            value={values[key]}
+            onChange={(e) => onChange(key, e.target.value)}
+            placeholder={String(placeholders[key])}
+          />
+          <p className="text-xs text-muted-foreground">{help}</p>
+        </div>
+      ))}
+      <div className="space-y-1.5">
+        <Label htmlFor={`${idPrefix}-require_pto_for_work`}>Exigir toma de fuerza (TDF) enganchada</Label>
+        <Select
+          value={values.require_pto_for_work || INHERIT}
+          onValueChange={(value) => onChange('require_pto_for_work', value === INHERIT ? '' : value)}
+        >
+          <SelectTrigger id={`${idPrefix}-require_pto_for_work`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={INHERIT}>Predeterminado ({placeholders.require_pto_for_work ? 'Sí' : 'No'})</SelectItem>
+            <SelectItem value="true">Sí</SelectItem>
+            <SelectItem value="false">No</SelectItem>
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          Solo los pings con la TDF enganchada cuentan como trabajo. Los de rastreadores que no la informan se evalúan por velocidad.
+        </p>
+      </div>
+    </div>
+  );
+}
+
+export function DetectionSettingsDialog({
+  open,
+  onOpenChange,
+  block,
+  tenantSettings,
+  blockSettings,
+  onSave,
+  isLoading,
+}: DetectionSettingsDialogProps) {
+  const isMobile = useIsMobile();
+  const [tenantForm, setTenantForm] = useState<FormValues>(() => toFormValues(null));
+  const [blockForm, setBlockForm] = useState<FormValues>(() => toFormValues(null));
+  const [reprocess, setReprocess] = useState(true);
+
+  // Populate form when the dialog opens
+  useEffect(() => {
+    if (open) {
+      setTenantForm(toFormValues(resolveVisitThresholds(tenantSettings)));
+      setBlockForm(toFormValues(blockSettings));
+      setReprocess(true);
+    }
+  }, [open, tenantSettings, blockSettings]);
+
+  const tenantValues = parseFormValues(tenantForm);
+  const blockValues = parseFormValues(blockForm);
+  const isValid = tenantValues !== null && blockValues !== null;
+
+  // Block inputs show the value they would inherit from the tenant form
+  const inheritedThresholds = resolveVisitThresholds(tenantValues);
+
+  const handleSubmit = (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (!block || !isValid) return;
+
+    onSave({ tenantValues, blockValues, reprocess });
+  };
+
+  const content = (
+    <Tabs defaultValue="block" className="w-full">
+      <TabsList className="grid w-full grid-cols-2">
+        <TabsTrigger value="block">Este cuartel</TabsTrigger>
+        <TabsTrigger value="tenant">Predeterminados</TabsTrigger>
+      </TabsList>
+      <TabsContent value="block" className="space-y-4 pt-2">
+        <p className="text-sm text-muted-foreground">
+          Deja un campo vacío para usar el valor predeterminado de la organización.
+        </p>
+        <ThresholdFields
+          idPrefix="block-threshold"
+          values={blockForm}
+          placeholders={inheritedThresholds}
+          onChange={(key, value) => setBlockForm(prev => ({ ...prev, [key]: value }))}
+        />
+      </TabsContent>
+      <TabsContent value="tenant" className="space-y-4 pt-2">
+        <p className="text-sm text-muted-foreground">
+          Se aplican a todos los cuarteles sin valores propios.
+        </p>
+        <ThresholdFields
+          idPrefix="tenant-threshold"
+          values={tenantForm}
+          placeholders={resolveVisitThresholds()}
+          onChange={(key, value) => setTenantForm(prev => ({ ...prev, [key]: value }))}
+        />
+      </TabsContent>
+      <div className="flex items-center gap-2 pt-4">
+        <Checkbox
+          id="reprocess-after-save"
+          checked={reprocess}
+          onCheckedChange={(checked) => setReprocess(checked === true)}
+        />
+        <Label htmlFor="reprocess-after-save" className="font-normal">
+          Reprocesar el historial del cuartel al guardar
+        </Label>
+      </div>
+    </Tabs>
+  );
+
+  const footerButtons = (
+    <>
+      <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isLoading}>
+        Cancelar
+      </Button>
+      <Button type="submit" disabled={!isValid || isLoading} onClick={handleSubmit}>
+        {isLoading ? 'Guardando...' : 'Guardar'}
+      </Button>
+    </>
+  );
+
+  if (isMobile) {
+    return (
+      <Drawer open={open} onOpenChange={onOpenChange}>
+        <DrawerContent className="max-h-[85vh]">
+          <DrawerHeader className="text-left">
+            <DrawerTitle>Detección de pasadas</DrawerTitle>
+            <DrawerDescription>
+              Umbrales para distinguir trabajo real de tránsitos en {block?.name}.
+            </DrawerDescription>
+          </DrawerHeader>
+          <ScrollArea className="flex-1 px-4 overflow-y-auto">
+            {content}
+          </ScrollArea>
+          <DrawerFooter className="flex-row gap-2">
+            {footerButtons}
+          </DrawerFooter>
+        </DrawerContent>
+      </Drawer>
+    );
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Detección de pasadas</DialogTitle>
+          <DialogDescription>
+            Umbrales para distinguir trabajo real de tránsitos en {block?.name}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {content}
+
+          <DialogFooter>
+            {footerButtons}
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,209 @@
+import { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Drawer,
+  DrawerContent,
+  DrawerDescription,
+  DrawerHeader,
+  DrawerTitle,
+} from '@/components/ui/drawer';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Separator } from '@/components/ui/separator';
+import { Copy, KeyRound, ShieldOff } from 'lucide-react';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { DEVICE_INGEST_URL } from '@/hooks/useDeviceTokens';
+import { cn } from '@/lib/utils';
+import { formatTimeSince, type Tractor, type TractorDeviceToken } from '@/types/farm';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+
+interface DeviceTokensDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  tractor: Tractor | null;
+  // Tokens of this tractor
+  tokens: TractorDeviceToken[];
+  // Plain token just created, shown until the dialog closes
+  createdToken: string | null;
+  onCreate: (name: string) => void;
+  onRevoke: (token: TractorDeviceToken) => void;
+  isCreating?: boolean;
+}
+
+function CopyButton({ value }: { value: string }) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(value);
+      setCopied(true);
+    } catch (error) {
+      console.error('Failed to copy to clipboard:', error);
+    }
+  };
+
+  return (
+    <Button variant="outline" size="icon" className="h-8 w-8 shrink-0" onClick={handleCopy} title={copied ? 'Copiado' : 'Copiar'}>
+      <Copy className="w-4 h-4" />
+    </Button>
+  );
+}
+
+export function DeviceTokensDialog({
+  open,
+  onOpenChange,
+  tractor,
+  tokens,
+  createdToken,
+  onCreate,
+  onRevoke,
+  isCreating,
+}: DeviceTokensDialogProps) {
+  const isMobile = useIsMobile();
+  const [name, setName] = useState('');
+
+  useEffect(() => {
+    if (open) setName('');
+  }, [open]);
+
+  const handleCreate = () => {
+    if (!name.trim()) return;
+    onCreate(name.trim());
+    setName('');
+  };
+
+  const content = (
+    <div className="space-y-4">
+      {createdToken && (
+        <Alert>
+          <KeyRound className="w-4 h-4" />
+          <AlertDescription className="space-y-2">
+            <p className="text-sm font-medium">Copia el token ahora; no se volverá a mostrar.</p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 min-w-0 truncate rounded bg-muted px-2 py-1 text-xs">{createdToken}</code>
+              <CopyButton value={createdToken} />
+            </div>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="device-token-name" className="text-sm">Nuevo token</Label>
+        <div className="flex gap-2">
+          <Input
+            id="device-token-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Ej: Rastreador cabina"
+            maxLength={100}
+            className="h-9"
+          />
+          <Button onClick={handleCreate} disabled={!name.trim() || isCreating}>
+            {isCreating ? 'Generando...' : 'Generar'}
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {tokens.length > 0 ? (
+          tokens.map((token) => (
+            <div
+              key={token.id}
+              className={cn('border rounded-lg p-3 flex items-center gap-3', token.revoked_at && 'opacity-60')}
+            >
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-sm truncate">{token.name}</span>
+                  <code className="text-xs text-muted-foreground">{token.token_prefix}…</code>
+                  {token.revoked_at && (
+                    <Badge variant="outline" className="text-[10px] px-1.5 py-0">Revocado</Badge>
+                  )}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  Creado el {format(new Date(token.created_at), "d MMM yyyy", { locale: es })}
+                  {' • '}
+                  {token.last_used_at ? `Último envío ${formatTimeSince(token.last_used_at)}` : 'Sin envíos'}
+                </div>
+              </div>
+              {!token.revoked_at && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-destructive"
+                  onClick={() => onRevoke(token)}
+                  title="Revocar"
+                >
+                  <ShieldOff className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+          ))
+        ) : (
+          <div className="text-center py-4 text-muted-foreground text-sm">
+            Este tractor no tiene tokens de dispositivo
+          </div>
+        )}
+      </div>
+
+      <Separator />
+
+      <div className="space-y-2 text-xs text-muted-foreground">
+        <p>
+          El rastreador envía lotes de posiciones por POST con el encabezado{' '}
+          <code>Authorization: Bearer &lt;token&gt;</code>, como JSON{' '}
+          (<code>{'{"pings": [{"ts": "2026-01-10T12:00:00Z", "lat": -33.8, "lon": -70.6, "speed": 8.5}]}'}</code>,
+          con <code>batch_id</code> opcional) o CSV (<code>ts,lat,lon,speed</code> por línea, con hora ISO 8601
+          o epoch en segundos).
+          Reenviar un lote ya recibido no duplica posiciones.
+        </p>
+        <div className="flex items-center gap-2">
+          <code className="flex-1 min-w-0 truncate rounded bg-muted px-2 py-1">{DEVICE_INGEST_URL}</code>
+          <CopyButton value={DEVICE_INGEST_URL} />
+        </div>
+      </div>
+    </div>
+  );
+
+  const title = 'Tokens de dispositivo';
+  const description = tractor ? `Rastreadores GPS que reportan como ${tractor.name}.` : '';
+
+  if (isMobile) {
+    return (
+      <Drawer open={open} onOpenChange={onOpenChange}>
+        <DrawerContent className="max-h-[85vh]">
+          <DrawerHeader className="text-left">
+            <DrawerTitle>{title}</DrawerTitle>
+            <DrawerDescription>{description}</DrawerDescription>
+          </DrawerHeader>
+          <ScrollArea className="flex-1 px-4 pb-4 overflow-y-auto">
+            {content}
+          </ScrollArea>
+        </DrawerContent>
+      </Drawer>
+    );
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+
+        {content}
+      </DialogContent>
+    </Dialog>
+  );
+}
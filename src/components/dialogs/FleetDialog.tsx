@@ -0,0 +1,219 @@
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Drawer,
+  DrawerContent,
+  DrawerDescription,
+  DrawerFooter,
+  DrawerHeader,
+  DrawerTitle,
+} from '@/components/ui/drawer';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Archive, ArchiveRestore, KeyRound, MapPin, Pencil, Plus, Tractor as TractorIcon, Users, Wrench } from 'lucide-react';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { isTractorActive } from '@/hooks/useTractors';
+import { cn } from '@/lib/utils';
+import { formatTimeSince, type Tractor } from '@/types/farm';
+
+interface FleetDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  tractors: Tractor[];
+  onCreate: () => void;
+  onEdit: (tractor: Tractor) => void;
+  onArchive: (tractor: Tractor, archived: boolean) => void;
+  onLocate: (tractor: Tractor) => void;
+  onOpenImplements?: () => void;
+  onOpenOperators?: () => void;
+  // Device tokens the tractor's GPS trackers post pings with
+  onManageTokens?: (tractor: Tractor) => void;
+  archivingTractorId?: string | null;
+}
+
+function TractorRow({
+  tractor,
+  onEdit,
+  onArchive,
+  onLocate,
+  onManageTokens,
+  isArchiving,
+}: {
+  tractor: Tractor;
+  onEdit: () => void;
+  onArchive: () => void;
+  onLocate: () => void;
+  onManageTokens?: () => void;
+  isArchiving: boolean;
+}) {
+  const active = isTractorActive(tractor);
+  const details = [tractor.metadata.brand, tractor.metadata.model].filter((v) => typeof v === 'string' && v).join(' ');
+  const hasPosition = tractor.last_lat !== null && tractor.last_lon !== null;
+
+  return (
+    <div className={cn('border rounded-lg p-3 flex items-center gap-3', !active && 'opacity-60')}>
+      <div className="w-9 h-9 bg-primary/10 rounded-full flex items-center justify-center shrink-0">
+        <TractorIcon className="w-4 h-4 text-primary" />
+      </div>
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-2">
+          <span className="font-medium text-sm truncate">{tractor.name}</span>
+          {!active && (
+            <Badge variant="outline" className="text-[10px] px-1.5 py-0">Archivado</Badge>
+          )}
+        </div>
+        <div className="text-xs text-muted-foreground truncate">
+          {tractor.identifier}
+          {details && ` • ${details}`}
+        </div>
+        <div className="text-xs text-muted-foreground">
+          Última posición: {tractor.last_seen_at ? formatTimeSince(tractor.last_seen_at) : 'sin datos'}
+        </div>
+      </div>
+      <div className="flex items-center gap-1 shrink-0">
+        {hasPosition && active && (
+          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onLocate} title="Ver en el mapa">
+            <MapPin className="w-4 h-4" />
+          </Button>
+        )}
+        {onManageTokens && active && (
+          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onManageTokens} title="Tokens de dispositivo">
+            <KeyRound className="w-4 h-4" />
+          </Button>
+        )}
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onEdit} title="Editar">
+          <Pencil className="w-4 h-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          onClick={onArchive}
+          disabled={isArchiving}
+          title={active ? 'Archivar' : 'Restaurar'}
+        >
+          {active ? <Archive className="w-4 h-4" /> : <ArchiveRestore className="w-4 h-4" />}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function FleetDialog({
+  open,
+  onOpenChange,
+  tractors,
+  onCreate,
+  onEdit,
+  onArchive,
+  onLocate,
+  onOpenImplements,
+  onOpenOperators,
+  onManageTokens,
+  archivingTractorId,
+}: FleetDialogProps) {
+  const isMobile = useIsMobile();
+  const [showArchived, setShowArchived] = useState(false);
+
+  const archivedCount = tractors.filter((t) => !isTractorActive(t)).length;
+  const visibleTractors = showArchived ? tractors : tractors.filter(isTractorActive);
+
+  const content = (
+    <div className="space-y-3">
+      {archivedCount > 0 && (
+        <div className="flex items-center gap-2">
+          <Switch id="fleet-show-archived" checked={showArchived} onCheckedChange={setShowArchived} />
+          <Label htmlFor="fleet-show-archived" className="text-sm font-normal">
+            Mostrar archivados ({archivedCount})
+          </Label>
+        </div>
+      )}
+      {visibleTractors.length > 0 ? (
+        visibleTractors.map((tractor) => (
+          <TractorRow
+            key={tractor.id}
+            tractor={tractor}
+            onEdit={() => onEdit(tractor)}
+            onArchive={() => onArchive(tractor, isTractorActive(tractor))}
+            onLocate={() => onLocate(tractor)}
+            onManageTokens={onManageTokens && (() => onManageTokens(tractor))}
+            isArchiving={archivingTractorId === tractor.id}
+          />
+        ))
+      ) : (
+        <div className="text-center py-8 text-muted-foreground text-sm">
+          No hay tractores en la flota
+        </div>
+      )}
+    </div>
+  );
+
+  const footerButton = (
+    <>
+      {onOpenOperators && (
+        <Button variant="outline" onClick={onOpenOperators} className={cn(isMobile && 'flex-1')}>
+          <Users className="w-4 h-4 mr-2" />
+          Operadores
+        </Button>
+      )}
+      {onOpenImplements && (
+        <Button variant="outline" onClick={onOpenImplements} className={cn(isMobile && 'flex-1')}>
+          <Wrench className="w-4 h-4 mr-2" />
+          Implementos
+        </Button>
+      )}
+      <Button onClick={onCreate} className={cn(isMobile && 'flex-1')}>
+        <Plus className="w-4 h-4 mr-2" />
+        Nuevo tractor
+      </Button>
+    </>
+  );
+
+  const description = 'Tractores que reportan datos GPS. Los archivados conservan su historial.';
+
+  if (isMobile) {
+    return (
+      <Drawer open={open} onOpenChange={onOpenChange}>
+        <DrawerContent className="max-h-[85vh]">
+          <DrawerHeader className="text-left">
+            <DrawerTitle>Flota</DrawerTitle>
+            <DrawerDescription>{description}</DrawerDescription>
+          </DrawerHeader>
+          <ScrollArea className="flex-1 px-4 overflow-y-auto">
+            {content}
+          </ScrollArea>
+          <DrawerFooter className="flex-row gap-2">
+            {footerButton}
+          </DrawerFooter>
+        </DrawerContent>
+      </Drawer>
+    );
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Flota</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+
+        {content}
+
+        <DialogFooter>
+          {footerButton}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
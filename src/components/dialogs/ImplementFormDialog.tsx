@@ -0,0 +1,234 @@
+import { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Drawer,
+  DrawerContent,
+  DrawerDescription,
+  DrawerFooter,
+  DrawerHeader,
+  DrawerTitle,
+} from '@/components/ui/drawer';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { IMPLEMENT_TYPE_LABELS, type Implement, type ImplementType } from '@/types/farm';
+
+export interface ImplementFormData {
+  id: string | null;
+  name: string;
+  type: ImplementType;
+  working_width_meters: number;
+  offset_back_meters: number;
+  offset_right_meters: number;
+}
+
+interface ImplementFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Implement to edit, null to create a new one
+  implement: Implement | null;
+  onSave: (data: ImplementFormData) => void;
+  isLoading?: boolean;
+}
+
+interface FormValues {
+  name: string;
+  type: ImplementType;
+  width: string;
+  offsetBack: string;
+  offsetRight: string;
+}
+
+const EMPTY_VALUES: FormValues = { name: '', type: 'other', width: '', offsetBack: '0', offsetRight: '0' };
+
+function FormContent({
+  values,
+  onChange,
+}: {
+  values: FormValues;
+  onChange: <K extends keyof FormValues>(key: K, value: FormValues[K]) => void;
+}) {
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="implement-name">Nombre *</Label>
+        <Input
+          id="implement-name"
+          value={values.name}
+          onChange={(e) => onChange('name', e.target.value)}
+          placeholder="Ej: Pulverizador 4 m"
+          required
+          maxLength={100}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Tipo</Label>
+          <Select value={values.type} onValueChange={(value) => onChange('type', value as ImplementType)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(IMPLEMENT_TYPE_LABELS) as ImplementType[]).map((type) => (
+                <SelectItem key={type} value={type}>{IMPLEMENT_TYPE_LABELS[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="implement-width">Ancho de trabajo (m) *</Label>
+          <Input
+            id="implement-width"
+            type="number"
+            min={0.1}
+            step={0.1}
+            value={values.width}
+            onChange={(e) => onChange('width', e.target.value)}
+            placeholder="Ej: 4"
+            required
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="implement-offset-back">Distancia tras la antena (m)</Label>
+          <Input
+            id="implement-offset-back"
+            type="number"
+            step={0.1}
+            value={values.offsetBack}
+            onChange={(e) => onChange('offsetBack', e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="implement-offset-right">Desplazamiento a la derecha (m)</Label>
+          <Input
+            id="implement-offset-right"
+            type="number"
+            step={0.1}
+            value={values.offsetRight}
+            onChange={(e) => onChange('offsetRight', e.target.value)}
+          />
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Posición del centro del implemento respecto de la antena GPS del tractor. Usa valores
+        negativos para implementos frontales o desplazados a la izquierda.
+      </p>
+    </div>
+  );
+}
+
+export function ImplementFormDialog({ open, onOpenChange, implement, onSave, isLoading }: ImplementFormDialogProps) {
+  const isMobile = useIsMobile();
+  const [values, setValues] = useState<FormValues>(EMPTY_VALUES);
+
+  // Populate form when opened for an implement
+  useEffect(() => {
+    if (!open) return;
+    setValues(implement
+      ? {
+          name: implement.name,
+          type: implement.type,
+          width: String(implement.working_width_meters),
+          offsetBack: String(implement.offset_back_meters),
+          offsetRight: String(implement.offset_right_meters),
+        }
+      : EMPTY_VALUES);
+  }, [open, implement]);
+
+  const handleChange = <K extends keyof FormValues>(key: K, value: FormValues[K]) => {
+    setValues(prev => ({ ...prev, [key]: value }));
+  };
+
+  const width = Number(values.width);
+  const offsetBack = Number(values.offsetBack || 0);
+  const offsetRight = Number(values.offsetRight || 0);
+  const isValid = values.name.trim() !== ''
+    && Number.isFinite(width) && width > 0
+    && Number.isFinite(offsetBack) && Number.isFinite(offsetRight);
+
+  const handleSubmit = (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (!isValid) return;
+
+    onSave({
+      id: implement?.id ?? null,
+      name: values.name.trim(),
+      type: values.type,
+      working_width_meters: width,
+      offset_back_meters: offsetBack,
+      offset_right_meters: offsetRight,
+    });
+  };
+
+  const title = implement ? 'Editar implemento' : 'Nuevo implemento';
+  const description = 'El ancho de trabajo define la superficie cubierta en cada pasada.';
+
+  const footerButtons = (
+    <>
+      <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isLoading}>
+        Cancelar
+      </Button>
+      <Button type="submit" disabled={!isValid || isLoading} onClick={handleSubmit}>
+        {isLoading ? 'Guardando...' : implement ? 'Guardar cambios' : 'Crear implemento'}
+      </Button>
+    </>
+  );
+
+  if (isMobile) {
+    return (
+      <Drawer open={open} onOpenChange={onOpenChange}>
+        <DrawerContent className="max-h-[85vh]">
+          <DrawerHeader className="text-left">
+            <DrawerTitle>{title}</DrawerTitle>
+            <DrawerDescription>{description}</DrawerDescription>
+          </DrawerHeader>
+          <ScrollArea className="flex-1 px-4 overflow-y-auto">
+            <FormContent values={values} onChange={handleChange} />
+          </ScrollArea>
+          <DrawerFooter className="flex-row gap-2">
+            {footerButtons}
+          </DrawerFooter>
+        </DrawerContent>
+      </Drawer>
+    );
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <FormContent values={values} onChange={handleChange} />
+
+          <DialogFooter>
+            {footerButtons}
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
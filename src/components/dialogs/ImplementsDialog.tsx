@@ -0,0 +1,304 @@
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Drawer,
+  DrawerContent,
+  DrawerDescription,
+  DrawerFooter,
+  DrawerHeader,
+  DrawerTitle,
+} from '@/components/ui/drawer';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Separator } from '@/components/ui/separator';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Archive, ArchiveRestore, Link2, Pencil, Plus, Trash2 } from 'lucide-react';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { cn } from '@/lib/utils';
+import {
+  IMPLEMENT_TYPE_LABELS,
+  type Implement,
+  type ImplementAssignment,
+  type Tractor,
+} from '@/types/farm';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+
+export interface ImplementAssignmentFormData {
+  implement_id: string;
+  tractor_id: string;
+  started_at: string;
+  ended_at: string | null;
+}
+
+interface ImplementsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  implementsList: Implement[];
+  assignments: ImplementAssignment[];
+  tractors: Tractor[];
+  onCreate: () => void;
+  onEdit: (implement: Implement) => void;
+  onArchive: (implement: Implement, archived: boolean) => void;
+  onAssign: (data: ImplementAssignmentFormData) => void;
+  onDeleteAssignment: (assignment: ImplementAssignment) => void;
+  isAssigning?: boolean;
+}
+
+function formatRange(assignment: ImplementAssignment): string {
+  const from = format(new Date(assignment.started_at), "d MMM yyyy, HH:mm", { locale: es });
+  return assignment.ended_at
+    ? `${from} – ${format(new Date(assignment.ended_at), "d MMM yyyy, HH:mm", { locale: es })}`
+    : `Desde ${from}`;
+}
+
+function AssignmentForm({
+  implementsList,
+  tractors,
+  onAssign,
+  isAssigning,
+}: {
+  implementsList: Implement[];
+  tractors: Tractor[];
+  onAssign: (data: ImplementAssignmentFormData) => void;
+  isAssigning?: boolean;
+}) {
+  const [tractorId, setTractorId] = useState('');
+  const [implementId, setImplementId] = useState('');
+  const [startedAt, setStartedAt] = useState('');
+  const [endedAt, setEndedAt] = useState('');
+
+  const isValid = tractorId && implementId && startedAt
+    && (!endedAt || new Date(endedAt) > new Date(startedAt));
+
+  const handleAssign = () => {
+    if (!isValid) return;
+    onAssign({
+      tractor_id: tractorId,
+      implement_id: implementId,
+      started_at: new Date(startedAt).toISOString(),
+      ended_at: endedAt ? new Date(endedAt).toISOString() : null,
+    });
+    setStartedAt('');
+    setEndedAt('');
+  };
+
+  return (
+    <div className="border rounded-lg p-3 space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1.5">
+          <Label className="text-xs">Tractor</Label>
+          <Select value={tractorId} onValueChange={setTractorId}>
+            <SelectTrigger className="h-8 text-sm">
+              <SelectValue placeholder="Selecciona" />
+            </SelectTrigger>
+            <SelectContent>
+              {tractors.map((t) => (
+                <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs">Implemento</Label>
+          <Select value={implementId} onValueChange={setImplementId}>
+            <SelectTrigger className="h-8 text-sm">
+              <SelectValue placeholder="Selecciona" />
+            </SelectTrigger>
+            <SelectContent>
+              {implementsList.map((i) => (
+                <SelectItem key={i.id} value={i.id}>{i.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="assignment-start" className="text-xs">Desde</Label>
+          <Input
+            id="assignment-start"
+            type="datetime-local"
+            className="h-8 text-sm"
+            value={startedAt}
+            onChange={(e) => setStartedAt(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="assignment-end" className="text-xs">Hasta (opcional)</Label>
+          <Input
+            id="assignment-end"
+            type="datetime-local"
+            className="h-8 text-sm"
+            value={endedAt}
+            onChange={(e) => setEndedAt(e.target.value)}
+          />
+        </div>
+      </div>
+      <Button size="sm" variant="outline" className="w-full" onClick={handleAssign} disabled={!isValid || isAssigning}>
+        <Link2 className="w-4 h-4 mr-2" />
+        {isAssigning ? 'Asignando...' : 'Asignar implemento'}
+      </Button>
+    </div>
+  );
+}
+
+export function ImplementsDialog({
+  open,
+  onOpenChange,
+  implementsList,
+  assignments,
+  tractors,
+  onCreate,
+  onEdit,
+  onArchive,
+  onAssign,
+  onDeleteAssignment,
+  isAssigning,
+}: ImplementsDialogProps) {
+  const isMobile = useIsMobile();
+  const implementById = new Map(implementsList.map((i) => [i.id, i]));
+  const tractorById = new Map(tractors.map((t) => [t.id, t]));
+  const activeImplements = implementsList.filter((i) => !i.archived_at);
+  const activeTractors = tractors.filter((t) => !t.archived_at);
+
+  const content = (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        {implementsList.length > 0 ? (
+          implementsList.map((implement) => (
+            <div
+              key={implement.id}
+              className={cn('border rounded-lg p-3 flex items-center gap-3', implement.archived_at && 'opacity-60')}
+            >
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-sm truncate">{implement.name}</span>
+                  {implement.archived_at && (
+                    <Badge variant="outline" className="text-[10px] px-1.5 py-0">Archivado</Badge>
+                  )}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {IMPLEMENT_TYPE_LABELS[implement.type]} • {implement.working_width_meters} m de ancho
+                </div>
+              </div>
+              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onEdit(implement)} title="Editar">
+                <Pencil className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                onClick={() => onArchive(implement, !implement.archived_at)}
+                title={implement.archived_at ? 'Restaurar' : 'Archivar'}
+              >
+                {implement.archived_at ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+              </Button>
+            </div>
+          ))
+        ) : (
+          <div className="text-center py-4 text-muted-foreground text-sm">
+            No hay implementos registrados
+          </div>
+        )}
+      </div>
+
+      <Separator />
+
+      <div className="space-y-2">
+        <h4 className="font-medium text-sm">Asignaciones a tractores</h4>
+        <p className="text-xs text-muted-foreground">
+          Cada pasada usa el implemento enganchado a su tractor al momento de iniciar, salvo que se elija otro en la pasada.
+        </p>
+        {activeImplements.length > 0 && activeTractors.length > 0 && (
+          <AssignmentForm
+            implementsList={activeImplements}
+            tractors={activeTractors}
+            onAssign={onAssign}
+            isAssigning={isAssigning}
+          />
+        )}
+        {assignments.map((assignment) => (
+          <div key={assignment.id} className="flex items-center gap-2 text-sm border-b last:border-0 py-2">
+            <div className="flex-1 min-w-0">
+              <div className="truncate">
+                <span className="font-medium">{tractorById.get(assignment.tractor_id)?.name ?? 'Tractor desconocido'}</span>
+                {' → '}
+                {implementById.get(assignment.implement_id)?.name ?? 'Implemento desconocido'}
+              </div>
+              <div className="text-xs text-muted-foreground">{formatRange(assignment)}</div>
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 text-destructive"
+              onClick={() => onDeleteAssignment(assignment)}
+              title="Eliminar asignación"
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+
+  const footerButton = (
+    <Button onClick={onCreate} className={cn(isMobile && 'flex-1')}>
+      <Plus className="w-4 h-4 mr-2" />
+      Nuevo implemento
+    </Button>
+  );
+
+  const description = 'Implementos de la flota y los tractores a los que se enganchan.';
+
+  if (isMobile) {
+    return (
+      <Drawer open={open} onOpenChange={onOpenChange}>
+        <DrawerContent className="max-h-[85vh]">
+          <DrawerHeader className="text-left">
+            <DrawerTitle>Implementos</DrawerTitle>
+            <DrawerDescription>{description}</DrawerDescription>
+          </DrawerHeader>
+          <ScrollArea className="flex-1 px-4 overflow-y-auto">
+            {content}
+          </ScrollArea>
+          <DrawerFooter className="flex-row gap-2">
+            {footerButton}
+          </DrawerFooter>
+        </DrawerContent>
+      </Drawer>
+    );
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Implementos</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+
+        {content}
+
+        <DialogFooter>
+          {footerButton}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,5 +1,5 @@
-import { useState, useCallback, useMemo } from 'react';
-import { Upload, FileSpreadsheet, AlertCircle, CheckCircle, Loader2, Tractor, RefreshCw } from 'lucide-react';
+import { useState, useCallback, useMemo, useEffect } from 'react';
+import { Upload, FileSpreadsheet, AlertCircle, CheckCircle, Loader2, Plus, Tractor, RefreshCw, Route, Filter, CloudUpload, Save, Trash2, Bookmark } from 'lucide-react';
 import * as XLSX from 'xlsx';
 import {
   Dialog,
@@ -29,11 +29,54 @@ import {
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useGpsImport } from '@/hooks/useGpsImport';
-import { useQuery } from '@tanstack/react-query';
-import { supabase } from '@/integrations/supabase/client';
+import { useGpsFileImport } from '@/hooks/useGpsFileImport';
+import { useImportBatches, isFileImportActive, isFileImportResumable } from '@/hooks/useImportBatches';
+import {
+  useImportMappingProfiles,
+  useSaveImportMappingProfile,
+  useDeleteImportMappingProfile,
+} from '@/hooks/useImportMappingProfiles';
+import { useStartProcessingJob } from '@/hooks/useProcessingJobs';
+import { useTractors, useCreateTractor, isTractorActive, isDuplicateIdentifierError } from '@/hooks/useTractors';
 import { useTenant } from '@/hooks/useTenant';
+import {
+  detectTrackFormat,
+  groupDeviceTracks,
+  matchTractorByIdentifier,
+  parseTrackFile,
+  TRACK_FORMAT_LABELS,
+  type DeviceTrack,
+  type ParsedPing,
+  type TrackFormat,
+} from '@/lib/gpsTrackFormats';
+import { isLargeDelimitedFile, readFilePreview } from '@/lib/largeGpsFiles';
+import {
+  EMPTY_COLUMN_MAPPING,
+  matchMappingProfile,
+  profileColumnMapping,
+  suggestColumnMapping,
+  type ColumnMapping,
+} from '@/lib/columnMapping';
+import {
+  csvRowToPing,
+  DEFAULT_VALUE_FORMAT,
+  type CoordinateOrder,
+  type CsvDelimiter,
+  type CsvValueFormat,
+  type DecimalSeparator,
+} from '@shared/csvImport';
+import { parseTimestamp, TIMESTAMP_FORMAT_LABELS, type TimestampFormat } from '@shared/timestamps';
+import type { ImportBatch, ImportMappingProfile } from '@/types/farm';
+import {
+  DEFAULT_PING_CLEANING,
+  PING_QUALITY_LABELS,
+  type PingCleaningOptions,
+  type PingQualityFlag,
+} from '@shared/pingCleaning';
+import { format } from 'date-fns';
 
 interface ImportGpsDataDialogProps {
   open: boolean;
@@ -41,26 +84,55 @@ interface ImportGpsDataDialogProps {
   onSuccess?: () => void;
 }
 
-interface ParsedPing {
-  ts: string;
-  lat: number;
-  lon: number;
-  speed?: number;
-}
+type ImportStep = 'upload' | 'configure' | 'importing' | 'complete';
 
-interface ColumnMapping {
-  timestamp: string | null;
-  coordinates: string | null; // For combined lat,lon format
-  latitude: string | null;
-  longitude: string | null;
-  speed: string | null;
-}
+// Device left out of the import
+const SKIP_DEVICE = '__skip__';
+// Device imported into a new tractor named after it
+const CREATE_TRACTOR = '__create__';
 
-type ImportStep = 'upload' | 'configure' | 'importing' | 'complete';
+// Time zones offered for timestamps written without an offset
+const TIME_ZONES = [
+  { value: 'America/Santiago', label: 'Chile continental' },
+  { value: 'America/Punta_Arenas', label: 'Magallanes' },
+  { value: 'Pacific/Easter', label: 'Isla de Pascua' },
+  { value: 'America/Argentina/Buenos_Aires', label: 'Argentina' },
+  { value: 'America/Lima', label: 'Perú' },
+  { value: 'UTC', label: 'UTC' },
+];
+
+// Optional tracker telemetry, mapped like the speed
+const TELEMETRY_FIELDS: { key: 'heading' | 'altitude' | 'hdop' | 'satellites' | 'ignition' | 'pto'; label: string }[] = [
+  { key: 'heading', label: 'Rumbo (°)' },
+  { key: 'altitude', label: 'Altitud (m)' },
+  { key: 'hdop', label: 'HDOP' },
+  { key: 'satellites', label: 'Satélites' },
+  { key: 'ignition', label: 'Contacto / ignición' },
+  { key: 'pto', label: 'Toma de fuerza (TDF)' },
+];
+
+// Files are read in the browser's time zone unless another one is chosen
+const BROWSER_TIME_ZONE = Intl.DateTimeFormat().resolvedOptions().timeZone;
+const INITIAL_VALUE_FORMAT: CsvValueFormat = { ...DEFAULT_VALUE_FORMAT, timezone: BROWSER_TIME_ZONE };
+
+interface TractorImportStats {
+  tractorName: string;
+  inserted: number;
+  duplicates: number;
+  errors: number;
+  // Pings dropped or flagged by the cleaning, per reason
+  cleaned?: Partial<Record<PingQualityFlag, number>>;
+  // Set when the device's tractor could not be created
+  failure?: string;
+}
 
 export function ImportGpsDataDialog({ open, onOpenChange, onSuccess }: ImportGpsDataDialogProps) {
   const { tenantId } = useTenant();
   const { importPings, isImporting, progress, reset } = useGpsImport();
+  const { startFileImport, resumeFileImport, resumeFileProcessing, uploadProgress, reset: resetFileImport } = useGpsFileImport();
+  const startProcessingJob = useStartProcessingJob();
+  // Polled while a large file is parsed on the server
+  const { data: importBatches = [] } = useImportBatches(tenantId);
 
   const [step, setStep] = useState<ImportStep>('upload');
   const [fileName, setFileName] = useState<string>('');
@@ -68,77 +140,53 @@ export function ImportGpsDataDialog({ open, onOpenChange, onSuccess }: ImportGps
   const [rawPreview, setRawPreview] = useState<any[][]>([]); // Raw rows for header selection
   const [headerRowIndex, setHeaderRowIndex] = useState<number>(0); // 0-indexed
   const [columns, setColumns] = useState<string[]>([]);
-  const [columnMapping, setColumnMapping] = useState<ColumnMapping>({
-    timestamp: null,
-    coordinates: null,
-    latitude: null,
-    longitude: null,
-    speed: null,
-  });
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping>(EMPTY_COLUMN_MAPPING);
+  const [valueFormat, setValueFormat] = useState<CsvValueFormat>(INITIAL_VALUE_FORMAT);
+  // Mapping profile applied to this file, and the name it is saved under
+  const [appliedProfileId, setAppliedProfileId] = useState<string | null>(null);
+  const [profileName, setProfileName] = useState('');
+  const [profileError, setProfileError] = useState<string | null>(null);
   const [selectedTractorId, setSelectedTractorId] = useState<string>('');
   const [parsedPings, setParsedPings] = useState<ParsedPing[]>([]);
   const [parseErrors, setParseErrors] = useState<string[]>([]);
   const [importStats, setImportStats] = useState<any>(null);
   const [processVisitsAfterImport, setProcessVisitsAfterImport] = useState(true);
+  const [cleaning, setCleaning] = useState<PingCleaningOptions>(DEFAULT_PING_CLEANING);
   const [workbook, setWorkbook] = useState<XLSX.WorkBook | null>(null);
+  // Set for GPX/KML/KMZ/NMEA/TaskData files, which are parsed on upload without column mapping
+  const [trackFormat, setTrackFormat] = useState<TrackFormat | null>(null);
+  // Devices of a track file that identifies them (ISOBUS TaskData)
+  const [trackDevices, setTrackDevices] = useState<DeviceTrack[]>([]);
+  // Tractor chosen for a device instead of the one matching its identifier
+  const [deviceTractorOverrides, setDeviceTractorOverrides] = useState<Record<string, string>>({});
+  const [tractorStats, setTractorStats] = useState<TractorImportStats[]>([]);
+  // Large CSV uploaded in parts and parsed by the server: its first lines, read
+  // for the column mapping, and the import batch whose progress is shown
+  const [largeFile, setLargeFile] = useState<File | null>(null);
+  const [largeFilePreview, setLargeFilePreview] = useState<string[][]>([]);
+  const [csvDelimiter, setCsvDelimiter] = useState<CsvDelimiter>(',');
+  const [fileBatchId, setFileBatchId] = useState<string | null>(null);
+  const [fileImportError, setFileImportError] = useState<string | null>(null);
 
-  // Fetch tractors
-  const { data: tractors = [] } = useQuery({
-    queryKey: ['tractors', tenantId],
-    queryFn: async () => {
-      if (!tenantId) return [];
-      const { data, error } = await supabase
-        .from('tractors')
-        .select('id, name, identifier')
-        .eq('tenant_id', tenantId)
-        .order('name');
-      if (error) throw error;
-      return data;
-    },
-    enabled: !!tenantId && open,
-  });
-
-  // Auto-detect columns
-  const autoDetectColumns = useCallback((cols: string[]) => {
-    const mapping: ColumnMapping = {
-      timestamp: null,
-      coordinates: null,
-      latitude: null,
-      longitude: null,
-      speed: null,
-    };
+  const fileBatch = importBatches.find((batch) => batch.id === (fileBatchId ?? uploadProgress?.batchId));
+  // Large files left uploading, parsing or stopped, from this or an earlier session
+  const unfinishedImports = useMemo(() => importBatches.filter((batch) =>
+    isFileImportActive(batch) || isFileImportResumable(batch)
+  ), [importBatches]);
 
-    for (const col of cols) {
-      const lower = col.toLowerCase();
-      
-      // Timestamp patterns
-      if (lower.includes('fecha') || lower.includes('date') || lower.includes('time') || 
-          lower.includes('timestamp') || lower.includes('hora')) {
-        mapping.timestamp = col;
-      }
-      
-      // Combined coordinates pattern
-      if (lower.includes('coord') || lower.includes('ubicacion') || lower.includes('location') ||
-          lower.includes('posicion') || lower.includes('position')) {
-        mapping.coordinates = col;
-      }
-      
-      // Separate lat/lon patterns
-      if (lower.includes('lat') || lower === 'y') {
-        mapping.latitude = col;
-      }
-      if (lower.includes('lon') || lower.includes('lng') || lower === 'x') {
-        mapping.longitude = col;
-      }
-      
-      // Speed patterns
-      if (lower.includes('speed') || lower.includes('velocidad') || lower.includes('vel')) {
-        mapping.speed = col;
-      }
-    }
+  // Archived tractors no longer receive data
+  const { data: allTractors = [] } = useTractors(tenantId);
+  const tractors = useMemo(() => allTractors.filter(isTractorActive), [allTractors]);
+  const createTractor = useCreateTractor();
 
-    return mapping;
-  }, []);
+  const { data: mappingProfiles = [] } = useImportMappingProfiles(tenantId);
+  const saveMappingProfile = useSaveImportMappingProfile();
+  const deleteMappingProfile = useDeleteImportMappingProfile();
+  // Profile saved from a file with the same headers, offered until one is applied
+  const suggestedProfile = useMemo(() =>
+    trackFormat ? null : matchMappingProfile(mappingProfiles, rawPreview)
+  , [trackFormat, mappingProfiles, rawPreview]);
+  const appliedProfile = mappingProfiles.find((profile) => profile.id === appliedProfileId) ?? null;
 
   // Reparse with selected header row
   const reparseWithHeaderRow = useCallback((wb: XLSX.WorkBook, headerRow: number) => {
@@ -154,18 +202,66 @@ export function ImportGpsDataDialog({ open, onOpenChange, onSuccess }: ImportGps
     
     if (jsonData.length === 0) {
       setParseErrors(['No hay datos después de la fila de encabezados seleccionada']);
-      return;
+      return null;
     }
 
     // Get column names from first data row
     const cols = Object.keys(jsonData[0]);
     setColumns(cols);
     setRawData(jsonData);
-    
-    // Auto-detect column mapping
-    const detected = autoDetectColumns(cols);
-    setColumnMapping(detected);
-  }, [autoDetectColumns]);
+    setColumnMapping(suggestColumnMapping(cols));
+    return cols;
+  }, []);
+
+  // Columns and sample rows of a large file from its first lines
+  const applyPreviewHeaderRow = useCallback((rows: string[][], headerRow: number) => {
+    if (rows.length <= headerRow + 1) {
+      setParseErrors(['No hay datos después de la fila de encabezados seleccionada']);
+      return null;
+    }
+
+    // Unnamed columns get a name so they can still be mapped
+    const cols = rows[headerRow].map((col, i) => col || `Columna ${i + 1}`);
+    setColumns(cols);
+    setRawData(rows.slice(headerRow + 1).map((row) => Object.fromEntries(cols.map((col, i) => [col, row[i] ?? '']))));
+    // The server imports the whole file into one tractor
+    setColumnMapping({ ...suggestColumnMapping(cols), device: null });
+    return cols;
+  }, []);
+
+  // Upload the parts of an interrupted large file still missing
+  const continueFileUpload = useCallback(async (file: File, batch: ImportBatch) => {
+    setFileName(file.name);
+    setLargeFile(file);
+    setFileBatchId(batch.id);
+    setFileImportError(null);
+    setStep('importing');
+    try {
+      await resumeFileImport(file, batch);
+    } catch (error) {
+      console.error('Failed to resume GPS file upload:', error);
+      setFileImportError(error instanceof Error ? error.message : 'No se pudo subir el archivo');
+    }
+  }, [resumeFileImport]);
+
+  // Follow the progress of a large file being parsed
+  const showFileImport = useCallback((batch: ImportBatch) => {
+    setFileName(batch.file_name);
+    setFileBatchId(batch.id);
+    setFileImportError(null);
+    setStep('importing');
+  }, []);
+
+  // Parse the parts left by a failed or stalled import of a large file
+  const continueFileProcessing = useCallback(async (batch: ImportBatch) => {
+    showFileImport(batch);
+    try {
+      await resumeFileProcessing(batch.id);
+    } catch (error) {
+      console.error('Failed to resume GPS file processing:', error);
+      setFileImportError('No se pudo reanudar el procesamiento del archivo');
+    }
+  }, [showFileImport, resumeFileProcessing]);
 
   // Handle file upload
   const handleFileUpload = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
@@ -173,11 +269,50 @@ export function ImportGpsDataDialog({ open, onOpenChange, onSuccess }: ImportGps
     if (!file) return;
 
     setFileName(file.name);
-    
+    setParseErrors([]);
+
+    // Large CSV files are not read whole: the server parses them after upload
+    if (isLargeDelimitedFile(file)) {
+      const interrupted = importBatches.find((batch) =>
+        batch.status === 'uploading' && batch.file_name === file.name && batch.file_size === file.size
+      );
+      if (interrupted) {
+        continueFileUpload(file, interrupted);
+        return;
+      }
+
+      readFilePreview(file)
+        .then(({ rows, delimiter }) => {
+          setLargeFile(file);
+          setLargeFilePreview(rows);
+          setCsvDelimiter(delimiter);
+          setRawPreview(rows.slice(0, 10));
+          setHeaderRowIndex(0);
+          applyPreviewHeaderRow(rows, 0);
+          setStep('configure');
+        })
+        .catch((error) => setParseErrors([`Error al leer el archivo: ${error.message}`]));
+      return;
+    }
+
     const reader = new FileReader();
     reader.onload = (e) => {
+      const buffer = e.target?.result as ArrayBuffer;
+      const firstLine = new TextDecoder().decode(buffer.slice(0, 200)).split(/\r?\n/)[0];
+      const detectedFormat = detectTrackFormat(file.name, firstLine);
+
+      if (detectedFormat) {
+        const track = parseTrackFile(detectedFormat, buffer);
+        setTrackFormat(detectedFormat);
+        setParsedPings(track.pings);
+        setParseErrors(track.errors.slice(0, 20)); // Limit displayed errors
+        setTrackDevices(track.devices ?? []);
+        setStep('configure');
+        return;
+      }
+
       try {
-        const data = new Uint8Array(e.target?.result as ArrayBuffer);
+        const data = new Uint8Array(buffer);
         const wb = XLSX.read(data, { type: 'array', cellDates: true });
         setWorkbook(wb);
         
@@ -205,20 +340,77 @@ export function ImportGpsDataDialog({ open, onOpenChange, onSuccess }: ImportGps
     };
     
     reader.readAsArrayBuffer(file);
-  }, [reparseWithHeaderRow]);
+  }, [reparseWithHeaderRow, importBatches, continueFileUpload, applyPreviewHeaderRow]);
 
   // Handle header row change
   const handleHeaderRowChange = useCallback((value: string) => {
     const newIndex = parseInt(value, 10);
     setHeaderRowIndex(newIndex);
-    if (workbook) {
+    if (largeFile) {
+      applyPreviewHeaderRow(largeFilePreview, newIndex);
+    } else if (workbook) {
       reparseWithHeaderRow(workbook, newIndex);
     }
-  }, [workbook, reparseWithHeaderRow]);
+  }, [workbook, reparseWithHeaderRow, largeFile, largeFilePreview, applyPreviewHeaderRow]);
+
+  // Header row, columns and number format of a saved profile
+  const applyMappingProfile = useCallback((profile: ImportMappingProfile) => {
+    const cols = largeFile
+      ? applyPreviewHeaderRow(largeFilePreview, profile.header_row)
+      : workbook && reparseWithHeaderRow(workbook, profile.header_row);
+    if (!cols) return;
+
+    const mapping = profileColumnMapping(profile, cols);
+    setHeaderRowIndex(profile.header_row);
+    setColumnMapping(largeFile ? { ...mapping, device: null } : mapping);
+    setValueFormat({
+      coordinate_order: profile.coordinate_order,
+      decimal_separator: profile.decimal_separator,
+      timestamp_format: profile.timestamp_format,
+      timezone: profile.timezone,
+    });
+    setAppliedProfileId(profile.id);
+    setProfileName(profile.name);
+    setProfileError(null);
+  }, [largeFile, largeFilePreview, applyPreviewHeaderRow, workbook, reparseWithHeaderRow]);
+
+  // Save the current mapping under a name, replacing a profile with that name
+  const handleSaveProfile = useCallback(async () => {
+    const name = profileName.trim();
+    if (!tenantId || !name) return;
+
+    setProfileError(null);
+    try {
+      const profile = await saveMappingProfile.mutateAsync({
+        tenant_id: tenantId,
+        name,
+        headers: columns,
+        header_row: headerRowIndex,
+        column_mapping: { ...columnMapping },
+        ...valueFormat,
+      });
+      setAppliedProfileId(profile.id);
+    } catch (error) {
+      console.error('Failed to save mapping profile:', error);
+      setProfileError('No se pudo guardar el perfil');
+    }
+  }, [tenantId, profileName, saveMappingProfile, columns, headerRowIndex, columnMapping, valueFormat]);
+
+  const handleDeleteProfile = useCallback(async (profile: ImportMappingProfile) => {
+    setProfileError(null);
+    try {
+      await deleteMappingProfile.mutateAsync({ id: profile.id, tenant_id: profile.tenant_id });
+      setAppliedProfileId(null);
+    } catch (error) {
+      console.error('Failed to delete mapping profile:', error);
+      setProfileError('No se pudo eliminar el perfil');
+    }
+  }, [deleteMappingProfile]);
 
   // Parse data with current mapping
   const parseData = useCallback(() => {
     const pings: ParsedPing[] = [];
+    const deviceEntries: { device: string; ping: ParsedPing }[] = [];
     const errors: string[] = [];
 
     for (let i = 0; i < rawData.length; i++) {
@@ -226,53 +418,23 @@ export function ImportGpsDataDialog({ open, onOpenChange, onSuccess }: ImportGps
       const rowNum = i + headerRowIndex + 2; // Excel row number (1-indexed + header row offset)
 
       try {
-        // Get timestamp
-        let timestamp: string | null = null;
-        if (columnMapping.timestamp && row[columnMapping.timestamp]) {
-          const tsValue = row[columnMapping.timestamp];
-          const date = new Date(tsValue);
-          if (!isNaN(date.getTime())) {
-            timestamp = date.toISOString();
-          }
-        }
-
-        if (!timestamp) {
-          errors.push(`Fila ${rowNum}: Timestamp inválido o faltante`);
+        const fields = columns.map((col) => String(row[col] ?? ''));
+        const parsed = csvRowToPing(fields, columns, columnMapping, valueFormat);
+        if ('reason' in parsed) {
+          errors.push(`Fila ${rowNum}: ${parsed.reason}`);
           continue;
         }
 
-        // Get coordinates
-        let lat: number | null = null;
-        let lon: number | null = null;
-
-        if (columnMapping.coordinates && row[columnMapping.coordinates]) {
-          // Parse combined format like "-37.799782,-72.659876"
-          const coordStr = String(row[columnMapping.coordinates]);
-          const parts = coordStr.split(',').map(p => parseFloat(p.trim()));
-          if (parts.length === 2 && !isNaN(parts[0]) && !isNaN(parts[1])) {
-            lat = parts[0];
-            lon = parts[1];
+        const ping: ParsedPing = parsed.ping;
+        if (columnMapping.device) {
+          const device = String(row[columnMapping.device] ?? '').trim();
+          if (!device) {
+            errors.push(`Fila ${rowNum}: Dispositivo faltante`);
+            continue;
           }
-        } else if (columnMapping.latitude && columnMapping.longitude) {
-          lat = parseFloat(row[columnMapping.latitude]);
-          lon = parseFloat(row[columnMapping.longitude]);
+          deviceEntries.push({ device, ping });
         }
-
-        if (lat === null || lon === null || isNaN(lat) || isNaN(lon)) {
-          errors.push(`Fila ${rowNum}: Coordenadas inválidas o faltantes`);
-          continue;
-        }
-
-        // Get speed (optional)
-        let speed: number | undefined;
-        if (columnMapping.speed && row[columnMapping.speed]) {
-          const speedVal = parseFloat(row[columnMapping.speed]);
-          if (!isNaN(speedVal)) {
-            speed = speedVal;
-          }
-        }
-
-        pings.push({ ts: timestamp, lat, lon, speed });
+        pings.push(ping);
 
       } catch (error: any) {
         errors.push(`Fila ${rowNum}: ${error.message}`);
@@ -282,48 +444,211 @@ export function ImportGpsDataDialog({ open, onOpenChange, onSuccess }: ImportGps
     setParsedPings(pings);
     setParseErrors(errors.slice(0, 20)); // Limit displayed errors
 
-    return pings;
-  }, [rawData, columnMapping, headerRowIndex]);
+    return { pings, devices: groupDeviceTracks(deviceEntries) };
+  }, [rawData, columns, columnMapping, valueFormat, headerRowIndex]);
 
   // Preview data
   const previewData = useMemo(() => {
     return rawData.slice(0, 5);
   }, [rawData]);
 
+  // Timestamps of the preview rows as they will be stored, in UTC
+  const timestampPreview = useMemo(() => {
+    if (!columnMapping.timestamp) return [];
+    return previewData.map((row) => {
+      const value = String(row[columnMapping.timestamp!] ?? '').trim();
+      return { value, utc: value ? parseTimestamp(value, valueFormat) : null };
+    });
+  }, [previewData, columnMapping.timestamp, valueFormat]);
+
+  // The chosen time zone is offered even when it is not in the list
+  const timeZones = useMemo(() => {
+    const extra = [BROWSER_TIME_ZONE, valueFormat.timezone]
+      .filter((zone, i, zones) => zones.indexOf(zone) === i && !TIME_ZONES.some((z) => z.value === zone));
+    return [...TIME_ZONES, ...extra.map((zone) => ({ value: zone, label: zone }))];
+  }, [valueFormat.timezone]);
+
+  // Devices of the file with their point counts: TaskData devices, or the
+  // values of the device column, read before the rows are parsed
+  const devices = useMemo(() => {
+    if (trackFormat) {
+      return trackDevices.map(({ pings, ...device }) => ({ ...device, count: pings.length }));
+    }
+    if (!columnMapping.device) return [];
+
+    const counts = new Map<string, number>();
+    for (const row of rawData) {
+      const device = String(row[columnMapping.device] ?? '').trim();
+      if (device) counts.set(device, (counts.get(device) ?? 0) + 1);
+    }
+    return Array.from(counts, ([device, count]) => ({ deviceKey: device, label: device, identifiers: [device], count }))
+      .sort((a, b) => a.label.localeCompare(b.label, undefined, { numeric: true }));
+  }, [trackFormat, trackDevices, columnMapping.device, rawData]);
+
+  // Tractor per device: the user's choice, else the one with a matching identifier
+  const deviceTractorIds = useMemo(() => Object.fromEntries(devices.map((device) => [
+    device.deviceKey,
+    deviceTractorOverrides[device.deviceKey]
+      ?? matchTractorByIdentifier(device.identifiers, tractors)?.id
+      ?? SKIP_DEVICE,
+  ])), [devices, deviceTractorOverrides, tractors]);
+
+  // Unmatched devices that can get a new tractor; an archived tractor keeps its identifier
+  const missingDevices = useMemo(() => devices.filter((device) =>
+    !matchTractorByIdentifier(device.identifiers, allTractors)
+  ), [devices, allTractors]);
+
+  const assignedDevices = devices.filter((device) => deviceTractorIds[device.deviceKey] !== SKIP_DEVICE);
+  const canImport = devices.length > 0 ? assignedDevices.length > 0 : !!selectedTractorId;
+
+  // Upload a large file and let the server parse it with the column mapping
+  const handleFileImport = useCallback(async () => {
+    if (!largeFile || !selectedTractorId) return;
+
+    setFileImportError(null);
+    setStep('importing');
+    try {
+      const batchId = await startFileImport(largeFile, {
+        tractorId: selectedTractorId,
+        columnMapping: {
+          timestamp: columnMapping.timestamp,
+          coordinates: columnMapping.coordinates,
+          latitude: columnMapping.latitude,
+          longitude: columnMapping.longitude,
+          speed: columnMapping.speed,
+          heading: columnMapping.heading,
+          altitude: columnMapping.altitude,
+          hdop: columnMapping.hdop,
+          satellites: columnMapping.satellites,
+          ignition: columnMapping.ignition,
+          pto: columnMapping.pto,
+        },
+        parseOptions: { delimiter: csvDelimiter, header_row: headerRowIndex, columns, value_format: valueFormat },
+        cleaning,
+        processVisits: processVisitsAfterImport,
+      });
+      setFileBatchId(batchId);
+    } catch (error) {
+      console.error('Failed to upload GPS file:', error);
+      setFileImportError(error instanceof Error ? error.message : 'No se pudo subir el archivo');
+    }
+  }, [largeFile, selectedTractorId, startFileImport, columnMapping, csvDelimiter, headerRowIndex, columns, valueFormat, cleaning, processVisitsAfterImport]);
+
+  // The server's progress lands on the import batch, polled while it runs
+  useEffect(() => {
+    if (step !== 'importing' || fileBatch?.status !== 'completed') return;
+
+    setImportStats({
+      inserted: fileBatch.stats.inserted ?? 0,
+      duplicates: fileBatch.stats.duplicates ?? 0,
+      errors: fileBatch.stats.errors ?? 0,
+    });
+    setStep('complete');
+    onSuccess?.();
+  }, [step, fileBatch, onSuccess]);
+
   // Handle import
   const handleImport = useCallback(async () => {
-    if (!selectedTractorId) return;
+    if (!canImport || !tenantId) return;
+    if (largeFile) {
+      await handleFileImport();
+      return;
+    }
 
-    const pings = parseData();
-    if (pings.length === 0) {
+    const parsed = trackFormat ? { pings: parsedPings, devices: trackDevices } : parseData();
+    if (parsed.pings.length === 0) {
       setParseErrors(['No hay datos válidos para importar']);
       return;
     }
 
+    // One import per tractor: each assigned device, or the whole file
+    const targets = devices.length > 0
+      ? parsed.devices
+        .filter((device) => deviceTractorIds[device.deviceKey] !== SKIP_DEVICE)
+        .map((device) => ({ device, tractorId: deviceTractorIds[device.deviceKey], pings: device.pings }))
+      : [{ device: null, tractorId: selectedTractorId, pings: parsed.pings }];
+
     setStep('importing');
 
     try {
-      const stats = await importPings(selectedTractorId, pings);
-      setImportStats(stats);
-      
-      // Process visits if option is enabled
-      if (processVisitsAfterImport && stats.inserted > 0) {
-        try {
-          await supabase.functions.invoke('process-historical-visits', {
-            body: { tractor_id: selectedTractorId },
-          });
-        } catch (err) {
-          console.error('Error processing visits:', err);
-          // Don't fail the import if visit processing fails
+      const results: TractorImportStats[] = [];
+      for (const target of targets) {
+        let tractorId = target.tractorId;
+        let tractorName = tractors.find((t) => t.id === tractorId)?.name ?? target.device?.label ?? '';
+
+        if (tractorId === CREATE_TRACTOR && target.device) {
+          try {
+            const created = await createTractor.mutateAsync({
+              tenant_id: tenantId,
+              name: target.device.label,
+              identifier: target.device.identifiers[0],
+              metadata: {},
+            });
+            tractorId = created.id;
+            tractorName = created.name;
+          } catch (error) {
+            console.error('Failed to create tractor:', error);
+            results.push({
+              tractorName: target.device.label,
+              inserted: 0,
+              duplicates: 0,
+              errors: target.pings.length,
+              failure: isDuplicateIdentifierError(error)
+                ? 'Ya existe un tractor con este identificador'
+                : 'No se pudo crear el tractor',
+            });
+            continue;
+          }
+        }
+
+        const stats = await importPings(tractorId, target.pings, {
+          source: { file_name: fileName, column_mapping: trackFormat ? null : { ...columnMapping } },
+          cleaning,
+        });
+        results.push({
+          tractorName,
+          inserted: stats.inserted,
+          duplicates: stats.duplicates,
+          errors: stats.errors,
+          cleaned: stats.cleaned,
+        });
+
+        // Process visits if option is enabled
+        if (processVisitsAfterImport && stats.inserted > 0) {
+          try {
+            // Imported history may predate the last processed ping, so rebuild this tractor's
+            // visits; runs as a background job since it touches every block
+            await startProcessingJob.mutateAsync({
+              tenant_id: tenantId,
+              tractor_id: tractorId,
+              mode: 'full',
+            });
+          } catch (err) {
+            console.error('Error processing visits:', err);
+            // Don't fail the import if visit processing fails
+          }
+        }
+      }
+
+      setTractorStats(results);
+      const cleaned: Partial<Record<PingQualityFlag, number>> = {};
+      for (const result of results) {
+        for (const [flag, count] of Object.entries(result.cleaned ?? {}) as [PingQualityFlag, number][]) {
+          cleaned[flag] = (cleaned[flag] ?? 0) + count;
         }
       }
-      
+      setImportStats({
+        inserted: results.reduce((sum, r) => sum + r.inserted, 0),
+        duplicates: results.reduce((sum, r) => sum + r.duplicates, 0),
+        errors: results.reduce((sum, r) => sum + r.errors, 0),
+        cleaned,
+      });
       setStep('complete');
       onSuccess?.();
     } catch (error) {
       setStep('configure');
     }
-  }, [selectedTractorId, parseData, importPings, onSuccess, processVisitsAfterImport]);
+  }, [canImport, tenantId, trackFormat, parsedPings, trackDevices, parseData, devices, deviceTractorIds, selectedTractorId, tractors, createTractor, importPings, onSuccess, processVisitsAfterImport, startProcessingJob, cleaning, fileName, columnMapping, largeFile, handleFileImport]);
 
   // Reset dialog
   const handleClose = useCallback((open: boolean) => {
@@ -334,28 +659,51 @@ export function ImportGpsDataDialog({ open, onOpenChange, onSuccess }: ImportGps
       setRawPreview([]);
       setHeaderRowIndex(0);
       setColumns([]);
-      setColumnMapping({
-        timestamp: null,
-        coordinates: null,
-        latitude: null,
-        longitude: null,
-        speed: null,
-      });
+      setColumnMapping(EMPTY_COLUMN_MAPPING);
+      setValueFormat(INITIAL_VALUE_FORMAT);
+      setAppliedProfileId(null);
+      setProfileName('');
+      setProfileError(null);
       setSelectedTractorId('');
       setParsedPings([]);
       setParseErrors([]);
       setImportStats(null);
       setProcessVisitsAfterImport(true);
+      setCleaning(DEFAULT_PING_CLEANING);
       setWorkbook(null);
+      setTrackFormat(null);
+      setTrackDevices([]);
+      setDeviceTractorOverrides({});
+      setTractorStats([]);
+      setLargeFile(null);
+      setLargeFilePreview([]);
+      setCsvDelimiter(',');
+      setFileBatchId(null);
+      setFileImportError(null);
       reset();
+      resetFileImport();
     }
     onOpenChange(open);
-  }, [onOpenChange, reset]);
+  }, [onOpenChange, reset, resetFileImport]);
 
   const progressPercent = progress 
     ? Math.round((progress.totalProcessed / progress.stats.total) * 100)
     : 0;
 
+  // Large files: parts uploaded, then parts parsed by the server
+  const isUploadingFile = !fileBatch || fileBatch.status === 'uploading';
+  const filePartsDone = isUploadingFile
+    ? uploadProgress?.partsUploaded ?? fileBatch?.parts_uploaded ?? 0
+    : fileBatch.parts_processed;
+  const filePartsTotal = uploadProgress?.partsTotal ?? fileBatch?.parts_total ?? 1;
+  const fileError = fileImportError ?? (
+    fileBatch?.status === 'failed' ? fileBatch.error ?? 'El procesamiento del archivo se detuvo'
+      : fileBatch?.status === 'rolled_back' ? 'La importación fue deshecha'
+        : fileBatch && isFileImportActive(fileBatch) && isFileImportResumable(fileBatch)
+          ? 'El procesamiento no avanza desde hace unos minutos'
+          : null
+  );
+
   return (
     <Dialog open={open} onOpenChange={handleClose}>
       <DialogContent className="max-w-3xl max-h-[85vh] overflow-hidden flex flex-col">
@@ -365,8 +713,10 @@ export function ImportGpsDataDialog({ open, onOpenChange, onSuccess }: ImportGps
             Importar Datos GPS
           </DialogTitle>
           <DialogDescription>
-            {step === 'upload' && 'Selecciona un archivo Excel con datos GPS'}
-            {step === 'configure' && 'Configura el mapeo de columnas y selecciona el tractor'}
+            {step === 'upload' && 'Selecciona un archivo Excel, GPX, KML/KMZ, NMEA o TaskData ISOBUS con datos GPS'}
+            {step === 'configure' && (trackFormat
+              ? `Revisa los puntos leídos y selecciona ${devices.length > 0 ? 'el tractor de cada equipo' : 'el tractor'}`
+              : 'Configura el mapeo de columnas y selecciona el tractor')}
             {step === 'importing' && 'Importando datos...'}
             {step === 'complete' && 'Importación completada'}
           </DialogDescription>
@@ -382,12 +732,12 @@ export function ImportGpsDataDialog({ open, onOpenChange, onSuccess }: ImportGps
               <div className="text-center">
                 <p className="font-medium">Arrastra un archivo o haz clic para seleccionar</p>
                 <p className="text-sm text-muted-foreground mt-1">
-                  Formatos soportados: .xlsx, .xls
+                  Formatos soportados: .xlsx, .xls, .csv, .gpx, .kml, .kmz, .nmea (o .txt/.log con sentencias NMEA) y .zip con TaskData ISOBUS
                 </p>
               </div>
               <input
                 type="file"
-                accept=".xlsx,.xls"
+                accept=".xlsx,.xls,.csv,.gpx,.kml,.kmz,.nmea,.nma,.txt,.log,.zip"
                 onChange={handleFileUpload}
                 className="hidden"
                 id="gps-file-upload"
@@ -397,6 +747,36 @@ export function ImportGpsDataDialog({ open, onOpenChange, onSuccess }: ImportGps
                   Seleccionar archivo
                 </label>
               </Button>
+
+              {/* Large files whose import is still running or stopped halfway */}
+              {unfinishedImports.length > 0 && (
+                <div className="w-full max-w-md space-y-2 pt-4">
+                  <h4 className="text-sm font-medium">Importaciones pendientes</h4>
+                  {unfinishedImports.map((batch) => (
+                    <div key={batch.id} className="flex items-center justify-between gap-2 rounded-lg border p-2">
+                      <div className="min-w-0">
+                        <p className="text-sm truncate">{batch.file_name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {batch.status === 'uploading'
+                            ? `Subidas ${batch.parts_uploaded} de ${batch.parts_total} partes • selecciona el archivo de nuevo para continuar`
+                            : `Procesadas ${batch.parts_processed} de ${batch.parts_total} partes`}
+                        </p>
+                      </div>
+                      {batch.status !== 'uploading' && (
+                        isFileImportResumable(batch) ? (
+                          <Button variant="outline" size="sm" onClick={() => continueFileProcessing(batch)}>
+                            Reanudar
+                          </Button>
+                        ) : (
+                          <Button variant="outline" size="sm" onClick={() => showFileImport(batch)}>
+                            Ver progreso
+                          </Button>
+                        )
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
           )}
 
@@ -408,128 +788,257 @@ export function ImportGpsDataDialog({ open, onOpenChange, onSuccess }: ImportGps
                 <div className="flex items-center gap-2 p-3 bg-muted rounded-lg">
                   <FileSpreadsheet className="w-5 h-5 text-primary" />
                   <span className="font-medium">{fileName}</span>
-                  <Badge variant="secondary">{rawData.length} registros</Badge>
+                  {trackFormat ? (
+                    <>
+                      <Badge variant="outline">{TRACK_FORMAT_LABELS[trackFormat]}</Badge>
+                      <Badge variant="secondary">{parsedPings.length} puntos</Badge>
+                    </>
+                  ) : largeFile ? (
+                    <Badge variant="secondary">{Math.round(largeFile.size / (1024 * 1024))} MB</Badge>
+                  ) : (
+                    <Badge variant="secondary">{rawData.length} registros</Badge>
+                  )}
                 </div>
 
-                {/* Header row selection */}
-                <div className="space-y-3">
-                  <div className="flex items-center justify-between">
-                    <h4 className="text-sm font-medium">Selección de fila de encabezados</h4>
-                    <Select value={String(headerRowIndex)} onValueChange={handleHeaderRowChange}>
-                      <SelectTrigger className="w-48">
-                        <SelectValue placeholder="Fila de encabezados" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {rawPreview.slice(0, 5).map((_, i) => (
-                          <SelectItem key={i} value={String(i)}>Fila {i + 1}</SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                  </div>
-                  
-                  {/* Raw preview table */}
-                  <div className="border rounded-lg overflow-hidden">
-                    <Table>
-                      <TableBody>
-                        {rawPreview.slice(0, 5).map((row, rowIndex) => (
-                          <TableRow 
-                            key={rowIndex}
-                            className={rowIndex === headerRowIndex ? 'bg-primary/10 font-medium' : ''}
-                          >
-                            <TableCell className="text-xs py-1.5 w-12 text-muted-foreground">
-                              {rowIndex === headerRowIndex && (
-                                <Badge variant="outline" className="text-[10px]">Header</Badge>
-                              )}
-                              {rowIndex !== headerRowIndex && `${rowIndex + 1}`}
-                            </TableCell>
-                            {row.slice(0, 6).map((cell: any, cellIndex: number) => (
-                              <TableCell key={cellIndex} className="text-xs py-1.5 max-w-[120px] truncate">
-                                {String(cell ?? '').substring(0, 25)}
-                              </TableCell>
-                            ))}
-                            {row.length > 6 && <TableCell className="text-xs py-1.5">...</TableCell>}
+                {largeFile && (
+                  <Alert>
+                    <CloudUpload className="w-4 h-4" />
+                    <AlertDescription className="text-sm">
+                      Archivo grande: se sube por partes y se procesa en el servidor. Si la conexión se corta,
+                      selecciona el mismo archivo para continuar. Todo el archivo se importa a un solo tractor.
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                {/* Track summary: formats with a fixed structure skip column mapping */}
+                {trackFormat && parsedPings.length > 0 && (
+                  <div className="space-y-2">
+                    <h4 className="text-sm font-medium flex items-center gap-2">
+                      <Route className="w-4 h-4" />
+                      Puntos leídos
+                    </h4>
+                    <p className="text-xs text-muted-foreground">
+                      {format(new Date(parsedPings[0].ts), 'yyyy-MM-dd HH:mm:ss')} a{' '}
+                      {format(new Date(parsedPings[parsedPings.length - 1].ts), 'yyyy-MM-dd HH:mm:ss')}
+                      {parsedPings.some(p => p.speed !== undefined) ? ' • con velocidad' : ' • sin velocidad (se calculará desde las posiciones)'}
+                      {parsedPings.some(p => p.work_state !== undefined) &&
+                        ` • implemento trabajando en ${Math.round(100 * parsedPings.filter(p => p.work_state).length / parsedPings.length)}% de los puntos`}
+                    </p>
+                    <div className="border rounded-lg overflow-hidden">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead className="text-xs">Fecha y hora</TableHead>
+                            <TableHead className="text-xs">Latitud</TableHead>
+                            <TableHead className="text-xs">Longitud</TableHead>
+                            <TableHead className="text-xs">Velocidad</TableHead>
                           </TableRow>
-                        ))}
-                      </TableBody>
-                    </Table>
+                        </TableHeader>
+                        <TableBody>
+                          {parsedPings.slice(0, 5).map((ping, i) => (
+                            <TableRow key={i}>
+                              <TableCell className="text-xs py-2">{format(new Date(ping.ts), 'yyyy-MM-dd HH:mm:ss')}</TableCell>
+                              <TableCell className="text-xs py-2">{ping.lat.toFixed(6)}</TableCell>
+                              <TableCell className="text-xs py-2">{ping.lon.toFixed(6)}</TableCell>
+                              <TableCell className="text-xs py-2">
+                                {ping.speed !== undefined ? `${ping.speed.toFixed(1)} km/h` : '—'}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
                   </div>
-                  <p className="text-xs text-muted-foreground">
-                    Haz clic en el selector para elegir qué fila contiene los encabezados de columna.
-                  </p>
-                </div>
+                )}
 
-                {/* Tractor selection */}
-                <div className="space-y-2">
-                  <label className="text-sm font-medium">Tractor destino</label>
-                  <Select value={selectedTractorId} onValueChange={setSelectedTractorId}>
-                    <SelectTrigger>
-                      <SelectValue placeholder="Selecciona un tractor" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {tractors.map((tractor) => (
-                        <SelectItem key={tractor.id} value={tractor.id}>
-                          <div className="flex items-center gap-2">
-                            <Tractor className="w-4 h-4" />
-                            {tractor.name} ({tractor.identifier})
-                          </div>
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
+                {/* Mapping profiles */}
+                {!trackFormat && (
+                  <div className="space-y-2">
+                    {suggestedProfile && suggestedProfile.id !== appliedProfileId && (
+                      <Alert>
+                        <Bookmark className="w-4 h-4" />
+                        <AlertDescription className="flex items-center justify-between gap-2 text-sm">
+                          <span>Este archivo coincide con el perfil «{suggestedProfile.name}»</span>
+                          <Button variant="outline" size="sm" onClick={() => applyMappingProfile(suggestedProfile)}>
+                            Aplicar
+                          </Button>
+                        </AlertDescription>
+                      </Alert>
+                    )}
+                    <div className="flex items-center justify-between gap-2">
+                      <h4 className="text-sm font-medium">Perfil de mapeo</h4>
+                      <div className="flex items-center gap-1">
+                        <Select
+                          value={appliedProfileId ?? ''}
+                          onValueChange={(id) => {
+                            const profile = mappingProfiles.find((p) => p.id === id);
+                            if (profile) applyMappingProfile(profile);
+                          }}
+                          disabled={mappingProfiles.length === 0}
+                        >
+                          <SelectTrigger className="w-48 h-9">
+                            <SelectValue placeholder={mappingProfiles.length > 0 ? 'Aplicar un perfil' : 'Sin perfiles guardados'} />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {mappingProfiles.map((profile) => (
+                              <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {appliedProfile && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-9 w-9"
+                            title="Eliminar perfil"
+                            onClick={() => handleDeleteProfile(appliedProfile)}
+                            disabled={deleteMappingProfile.isPending}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                )}
 
-                {/* Column mapping */}
-                <div className="space-y-3">
-                  <h4 className="text-sm font-medium">Mapeo de columnas</h4>
-                  
-                  <div className="grid gap-3">
-                    <div className="grid grid-cols-2 gap-2 items-center">
-                      <label className="text-sm">Timestamp:</label>
-                      <Select 
-                        value={columnMapping.timestamp || ''} 
-                        onValueChange={(v) => setColumnMapping(prev => ({ ...prev, timestamp: v || null }))}
-                      >
-                        <SelectTrigger className="h-9">
-                          <SelectValue placeholder="Seleccionar columna" />
+                {/* Header row selection */}
+                {!trackFormat && (
+                  <div className="space-y-3">
+                    <div className="flex items-center justify-between">
+                      <h4 className="text-sm font-medium">Selección de fila de encabezados</h4>
+                      <Select value={String(headerRowIndex)} onValueChange={handleHeaderRowChange}>
+                        <SelectTrigger className="w-48">
+                          <SelectValue placeholder="Fila de encabezados" />
                         </SelectTrigger>
                         <SelectContent>
-                          {columns.map((col) => (
-                            <SelectItem key={col} value={col}>{col}</SelectItem>
+                          {rawPreview.slice(0, 5).map((_, i) => (
+                            <SelectItem key={i} value={String(i)}>Fila {i + 1}</SelectItem>
                           ))}
                         </SelectContent>
                       </Select>
                     </div>
-
-                    <div className="grid grid-cols-2 gap-2 items-center">
-                      <label className="text-sm">Coordenadas (lat,lon):</label>
-                      <Select 
-                        value={columnMapping.coordinates || '__none__'} 
-                        onValueChange={(v) => setColumnMapping(prev => ({ 
-                          ...prev, 
-                          coordinates: v === '__none__' ? null : v,
-                          latitude: v !== '__none__' ? null : prev.latitude,
-                          longitude: v !== '__none__' ? null : prev.longitude,
-                        }))}
-                      >
-                        <SelectTrigger className="h-9">
-                          <SelectValue placeholder="O seleccionar separadas" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="__none__">Usar lat/lon separadas</SelectItem>
-                          {columns.map((col) => (
-                            <SelectItem key={col} value={col}>{col}</SelectItem>
+                  
+                    {/* Raw preview table */}
+                    <div className="border rounded-lg overflow-hidden">
+                      <Table>
+                        <TableBody>
+                          {rawPreview.slice(0, 5).map((row, rowIndex) => (
+                            <TableRow 
+                              key={rowIndex}
+                              className={rowIndex === headerRowIndex ? 'bg-primary/10 font-medium' : ''}
+                            >
+                              <TableCell className="text-xs py-1.5 w-12 text-muted-foreground">
+                                {rowIndex === headerRowIndex && (
+                                  <Badge variant="outline" className="text-[10px]">Header</Badge>
+                                )}
+                                {rowIndex !== headerRowIndex && `${rowIndex + 1}`}
+                              </TableCell>
+                              {row.slice(0, 6).map((cell: any, cellIndex: number) => (
+                                <TableCell key={cellIndex} className="text-xs py-1.5 max-w-[120px] truncate">
+                                  {String(cell ?? '').substring(0, 25)}
+                                </TableCell>
+                              ))}
+                              {row.length > 6 && <TableCell className="text-xs py-1.5">...</TableCell>}
+                            </TableRow>
                           ))}
-                        </SelectContent>
-                      </Select>
+                        </TableBody>
+                      </Table>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Haz clic en el selector para elegir qué fila contiene los encabezados de columna.
+                    </p>
+                  </div>
+                )}
+
+                {/* Tractor selection */}
+                {devices.length > 0 ? (
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <label className="text-sm font-medium">Tractor de cada equipo</label>
+                      {missingDevices.length > 0 && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setDeviceTractorOverrides(prev => ({
+                            ...prev,
+                            ...Object.fromEntries(missingDevices.map((device) => [device.deviceKey, CREATE_TRACTOR])),
+                          }))}
+                        >
+                          <Plus className="w-4 h-4 mr-1" />
+                          Crear {missingDevices.length === 1 ? 'el tractor faltante' : `los ${missingDevices.length} tractores faltantes`}
+                        </Button>
+                      )}
                     </div>
+                    <p className="text-xs text-muted-foreground">
+                      {trackFormat
+                        ? 'Los equipos se asocian al tractor cuyo identificador coincide con su número de serie o nombre.'
+                        : 'Los dispositivos se asocian al tractor cuyo identificador coincide con el valor de la columna.'}
+                    </p>
+                    {devices.map((device) => (
+                      <div key={device.deviceKey} className="grid grid-cols-2 gap-2 items-center">
+                        <div className="min-w-0">
+                          <p className="text-sm truncate">{device.label}</p>
+                          <p className="text-xs text-muted-foreground">{device.count} puntos</p>
+                        </div>
+                        <Select
+                          value={deviceTractorIds[device.deviceKey]}
+                          onValueChange={(v) => setDeviceTractorOverrides(prev => ({ ...prev, [device.deviceKey]: v }))}
+                        >
+                          <SelectTrigger className="h-9">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={SKIP_DEVICE}>No importar</SelectItem>
+                            {missingDevices.includes(device) && (
+                              <SelectItem value={CREATE_TRACTOR}>Crear tractor «{device.label}»</SelectItem>
+                            )}
+                            {tractors.map((tractor) => (
+                              <SelectItem key={tractor.id} value={tractor.id}>
+                                <div className="flex items-center gap-2">
+                                  <Tractor className="w-4 h-4" />
+                                  {tractor.name} ({tractor.identifier})
+                                </div>
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Tractor destino</label>
+                    <Select value={selectedTractorId} onValueChange={setSelectedTractorId}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Selecciona un tractor" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {tractors.map((tractor) => (
+                          <SelectItem key={tractor.id} value={tractor.id}>
+                            <div className="flex items-center gap-2">
+                              <Tractor className="w-4 h-4" />
+                              {tractor.name} ({tractor.identifier})
+                            </div>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
 
-                    {!columnMapping.coordinates && (
-                      <>
+                {!trackFormat && (
+                  <>
+                    {/* Column mapping */}
+                    <div className="space-y-3">
+                      <h4 className="text-sm font-medium">Mapeo de columnas</h4>
+                  
+                      <div className="grid gap-3">
                         <div className="grid grid-cols-2 gap-2 items-center">
-                          <label className="text-sm">Latitud:</label>
+                          <label className="text-sm">Timestamp:</label>
                           <Select 
-                            value={columnMapping.latitude || ''} 
-                            onValueChange={(v) => setColumnMapping(prev => ({ ...prev, latitude: v || null }))}
+                            value={columnMapping.timestamp || ''} 
+                            onValueChange={(v) => setColumnMapping(prev => ({ ...prev, timestamp: v || null }))}
                           >
                             <SelectTrigger className="h-9">
                               <SelectValue placeholder="Seleccionar columna" />
@@ -543,72 +1052,279 @@ export function ImportGpsDataDialog({ open, onOpenChange, onSuccess }: ImportGps
                         </div>
 
                         <div className="grid grid-cols-2 gap-2 items-center">
-                          <label className="text-sm">Longitud:</label>
+                          <label className="text-sm">Formato de fecha:</label>
+                          <Select
+                            value={valueFormat.timestamp_format}
+                            onValueChange={(v) => setValueFormat(prev => ({ ...prev, timestamp_format: v as TimestampFormat }))}
+                          >
+                            <SelectTrigger className="h-9">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {(Object.entries(TIMESTAMP_FORMAT_LABELS) as [TimestampFormat, string][]).map(([value, label]) => (
+                                <SelectItem key={value} value={value}>{label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-2 items-center">
+                          <label className="text-sm">Zona horaria del archivo:</label>
+                          <Select
+                            value={valueFormat.timezone}
+                            onValueChange={(v) => setValueFormat(prev => ({ ...prev, timezone: v }))}
+                            disabled={valueFormat.timestamp_format === 'epoch_s' || valueFormat.timestamp_format === 'epoch_ms'}
+                          >
+                            <SelectTrigger className="h-9">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {timeZones.map((zone) => (
+                                <SelectItem key={zone.value} value={zone.value}>
+                                  {zone.label === zone.value ? zone.value : `${zone.label} (${zone.value})`}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+
+                        {timestampPreview.length > 0 && (
+                          <div className="space-y-1">
+                            <div className="border rounded-lg overflow-hidden">
+                              <Table>
+                                <TableHeader>
+                                  <TableRow>
+                                    <TableHead className="text-xs">En el archivo</TableHead>
+                                    <TableHead className="text-xs">Se guarda como (UTC)</TableHead>
+                                  </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                  {timestampPreview.map((row, i) => (
+                                    <TableRow key={i}>
+                                      <TableCell className="text-xs py-1.5">{row.value || '—'}</TableCell>
+                                      <TableCell className="text-xs py-1.5">
+                                        {row.utc
+                                          ? `${row.utc.slice(0, 10)} ${row.utc.slice(11, 19)}`
+                                          : <span className="text-destructive">No se puede leer con este formato</span>}
+                                      </TableCell>
+                                    </TableRow>
+                                  ))}
+                                </TableBody>
+                              </Table>
+                            </div>
+                            <p className="text-xs text-muted-foreground">
+                              Las fechas con zona escrita (Z, -03:00) y los epoch no se ajustan a la zona horaria.
+                            </p>
+                          </div>
+                        )}
+
+                        <div className="grid grid-cols-2 gap-2 items-center">
+                          <label className="text-sm">Coordenadas (lat y lon juntas):</label>
+                          <Select 
+                            value={columnMapping.coordinates || '__none__'} 
+                            onValueChange={(v) => setColumnMapping(prev => ({ 
+                              ...prev, 
+                              coordinates: v === '__none__' ? null : v,
+                              latitude: v !== '__none__' ? null : prev.latitude,
+                              longitude: v !== '__none__' ? null : prev.longitude,
+                            }))}
+                          >
+                            <SelectTrigger className="h-9">
+                              <SelectValue placeholder="O seleccionar separadas" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="__none__">Usar lat/lon separadas</SelectItem>
+                              {columns.map((col) => (
+                                <SelectItem key={col} value={col}>{col}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+
+                        {columnMapping.coordinates && (
+                          <div className="grid grid-cols-2 gap-2 items-center">
+                            <label className="text-sm">Orden de coordenadas:</label>
+                            <Select
+                              value={valueFormat.coordinate_order}
+                              onValueChange={(v) => setValueFormat(prev => ({ ...prev, coordinate_order: v as CoordinateOrder }))}
+                            >
+                              <SelectTrigger className="h-9">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="lat_lon">Latitud primero (lat;lon)</SelectItem>
+                                <SelectItem value="lon_lat">Longitud primero (lon;lat)</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        )}
+
+                        {!columnMapping.coordinates && (
+                          <>
+                            <div className="grid grid-cols-2 gap-2 items-center">
+                              <label className="text-sm">Latitud:</label>
+                              <Select 
+                                value={columnMapping.latitude || ''} 
+                                onValueChange={(v) => setColumnMapping(prev => ({ ...prev, latitude: v || null }))}
+                              >
+                                <SelectTrigger className="h-9">
+                                  <SelectValue placeholder="Seleccionar columna" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {columns.map((col) => (
+                                    <SelectItem key={col} value={col}>{col}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </div>
+
+                            <div className="grid grid-cols-2 gap-2 items-center">
+                              <label className="text-sm">Longitud:</label>
+                              <Select 
+                                value={columnMapping.longitude || ''} 
+                                onValueChange={(v) => setColumnMapping(prev => ({ ...prev, longitude: v || null }))}
+                              >
+                                <SelectTrigger className="h-9">
+                                  <SelectValue placeholder="Seleccionar columna" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {columns.map((col) => (
+                                    <SelectItem key={col} value={col}>{col}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </div>
+                          </>
+                        )}
+
+                        <div className="grid grid-cols-2 gap-2 items-center">
+                          <label className="text-sm">Separador decimal:</label>
+                          <Select
+                            value={valueFormat.decimal_separator}
+                            onValueChange={(v) => setValueFormat(prev => ({ ...prev, decimal_separator: v as DecimalSeparator }))}
+                          >
+                            <SelectTrigger className="h-9">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value=".">Punto (-33.45)</SelectItem>
+                              <SelectItem value=",">Coma (-33,45)</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-2 items-center">
+                          <label className="text-sm">Velocidad (opcional):</label>
                           <Select 
-                            value={columnMapping.longitude || ''} 
-                            onValueChange={(v) => setColumnMapping(prev => ({ ...prev, longitude: v || null }))}
+                            value={columnMapping.speed || '__none__'} 
+                            onValueChange={(v) => setColumnMapping(prev => ({ ...prev, speed: v === '__none__' ? null : v }))}
                           >
                             <SelectTrigger className="h-9">
                               <SelectValue placeholder="Seleccionar columna" />
                             </SelectTrigger>
                             <SelectContent>
+                              <SelectItem value="__none__">Sin velocidad</SelectItem>
                               {columns.map((col) => (
                                 <SelectItem key={col} value={col}>{col}</SelectItem>
                               ))}
                             </SelectContent>
                           </Select>
                         </div>
-                      </>
-                    )}
 
-                    <div className="grid grid-cols-2 gap-2 items-center">
-                      <label className="text-sm">Velocidad (opcional):</label>
-                      <Select 
-                        value={columnMapping.speed || '__none__'} 
-                        onValueChange={(v) => setColumnMapping(prev => ({ ...prev, speed: v === '__none__' ? null : v }))}
-                      >
-                        <SelectTrigger className="h-9">
-                          <SelectValue placeholder="Seleccionar columna" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="__none__">Sin velocidad</SelectItem>
-                          {columns.map((col) => (
-                            <SelectItem key={col} value={col}>{col}</SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
+                        {TELEMETRY_FIELDS.map(({ key, label }) => (
+                          <div key={key} className="grid grid-cols-2 gap-2 items-center">
+                            <label className="text-sm">{label} (opcional):</label>
+                            <Select
+                              value={columnMapping[key] || '__none__'}
+                              onValueChange={(v) => setColumnMapping(prev => ({ ...prev, [key]: v === '__none__' ? null : v }))}
+                            >
+                              <SelectTrigger className="h-9">
+                                <SelectValue placeholder="Seleccionar columna" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="__none__">No informado</SelectItem>
+                                {columns.map((col) => (
+                                  <SelectItem key={col} value={col}>{col}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        ))}
+
+                        {!largeFile && <div className="grid grid-cols-2 gap-2 items-center">
+                          <label className="text-sm">Dispositivo (opcional):</label>
+                          <Select 
+                            value={columnMapping.device || '__none__'} 
+                            onValueChange={(v) => setColumnMapping(prev => ({ ...prev, device: v === '__none__' ? null : v }))}
+                          >
+                            <SelectTrigger className="h-9">
+                              <SelectValue placeholder="Seleccionar columna" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="__none__">Un solo tractor para todo el archivo</SelectItem>
+                              {columns.map((col) => (
+                                <SelectItem key={col} value={col}>{col}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>}
+                      </div>
+
+                      {/* Save the mapping for the next file from the same source */}
+                      <div className="flex items-center gap-2">
+                        <Input
+                          value={profileName}
+                          onChange={(e) => setProfileName(e.target.value)}
+                          placeholder="Nombre del perfil, p. ej. Exportación del proveedor"
+                          className="h-9"
+                        />
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={handleSaveProfile}
+                          disabled={!profileName.trim() || saveMappingProfile.isPending}
+                        >
+                          {saveMappingProfile.isPending ? (
+                            <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                          ) : (
+                            <Save className="w-4 h-4 mr-1" />
+                          )}
+                          {mappingProfiles.some((profile) => profile.name === profileName.trim()) ? 'Actualizar perfil' : 'Guardar perfil'}
+                        </Button>
+                      </div>
+                      {profileError && <p className="text-xs text-destructive">{profileError}</p>}
                     </div>
-                  </div>
-                </div>
 
-                {/* Preview */}
-                <div className="space-y-2">
-                  <h4 className="text-sm font-medium">Vista previa de datos (primeras 5 filas)</h4>
-                  <div className="border rounded-lg overflow-hidden">
-                    <Table>
-                      <TableHeader>
-                        <TableRow>
-                          {columns.slice(0, 5).map((col) => (
-                            <TableHead key={col} className="text-xs">{col}</TableHead>
-                          ))}
-                          {columns.length > 5 && <TableHead className="text-xs">...</TableHead>}
-                        </TableRow>
-                      </TableHeader>
-                      <TableBody>
-                        {previewData.map((row, i) => (
-                          <TableRow key={i}>
-                            {columns.slice(0, 5).map((col) => (
-                              <TableCell key={col} className="text-xs py-2">
-                                {String(row[col] ?? '').substring(0, 20)}
-                              </TableCell>
+                    {/* Preview */}
+                    <div className="space-y-2">
+                      <h4 className="text-sm font-medium">Vista previa de datos (primeras 5 filas)</h4>
+                      <div className="border rounded-lg overflow-hidden">
+                        <Table>
+                          <TableHeader>
+                            <TableRow>
+                              {columns.slice(0, 5).map((col) => (
+                                <TableHead key={col} className="text-xs">{col}</TableHead>
+                              ))}
+                              {columns.length > 5 && <TableHead className="text-xs">...</TableHead>}
+                            </TableRow>
+                          </TableHeader>
+                          <TableBody>
+                            {previewData.map((row, i) => (
+                              <TableRow key={i}>
+                                {columns.slice(0, 5).map((col) => (
+                                  <TableCell key={col} className="text-xs py-2">
+                                    {String(row[col] ?? '').substring(0, 20)}
+                                  </TableCell>
+                                ))}
+                                {columns.length > 5 && <TableCell className="text-xs">...</TableCell>}
+                              </TableRow>
                             ))}
-                            {columns.length > 5 && <TableCell className="text-xs">...</TableCell>}
-                          </TableRow>
-                        ))}
-                      </TableBody>
-                    </Table>
-                  </div>
-                </div>
+                          </TableBody>
+                        </Table>
+                      </div>
+                    </div>
+                  </>
+                )}
 
                 {/* Process visits option */}
                 <div className="flex items-center space-x-2 p-3 bg-muted/50 rounded-lg">
@@ -628,6 +1344,69 @@ export function ImportGpsDataDialog({ open, onOpenChange, onSuccess }: ImportGps
                   </Label>
                 </div>
 
+                {/* Cleaning options */}
+                <div className="p-3 bg-muted/50 rounded-lg space-y-3">
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="clean-pings"
+                      checked={cleaning.enabled}
+                      onCheckedChange={(checked) => setCleaning((c) => ({ ...c, enabled: checked === true }))}
+                    />
+                    <Label htmlFor="clean-pings" className="text-sm cursor-pointer">
+                      <div className="flex items-center gap-2">
+                        <Filter className="w-4 h-4" />
+                        Limpiar posiciones erróneas
+                      </div>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Coordenadas 0/0, saltos a velocidad imposible y fijaciones de baja precisión (HDOP)
+                      </p>
+                    </Label>
+                  </div>
+                  {cleaning.enabled && (
+                    <div className="grid grid-cols-2 gap-3 pl-6">
+                      <div className="space-y-1">
+                        <Label htmlFor="clean-max-speed" className="text-xs">Velocidad máxima (km/h)</Label>
+                        <Input
+                          id="clean-max-speed"
+                          type="number"
+                          min={5}
+                          value={cleaning.max_speed_kmh}
+                          onChange={(e) => setCleaning((c) => ({
+                            ...c,
+                            max_speed_kmh: Number(e.target.value) || DEFAULT_PING_CLEANING.max_speed_kmh,
+                          }))}
+                          className="h-8"
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs">Posiciones erróneas</Label>
+                        <Select
+                          value={cleaning.mode}
+                          onValueChange={(v) => setCleaning((c) => ({ ...c, mode: v as PingCleaningOptions['mode'] }))}
+                        >
+                          <SelectTrigger className="h-8">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="drop">Descartar</SelectItem>
+                            <SelectItem value="flag">Guardar marcadas</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="col-span-2 flex items-center space-x-2">
+                        <Checkbox
+                          id="clean-smoothing"
+                          checked={cleaning.smoothing}
+                          onCheckedChange={(checked) => setCleaning((c) => ({ ...c, smoothing: checked === true }))}
+                        />
+                        <Label htmlFor="clean-smoothing" className="text-xs font-normal cursor-pointer">
+                          Suavizar el ruido de posición (mediana de cada punto y sus vecinos)
+                        </Label>
+                      </div>
+                    </div>
+                  )}
+                </div>
+
                 {/* Errors */}
                 {parseErrors.length > 0 && (
                   <Alert variant="destructive">
@@ -649,8 +1428,41 @@ export function ImportGpsDataDialog({ open, onOpenChange, onSuccess }: ImportGps
             </ScrollArea>
           )}
 
-          {/* Importing Step */}
-          {step === 'importing' && (
+          {/* Importing Step: large file uploaded, then parsed by the server */}
+          {step === 'importing' && (largeFile || fileBatchId) && (
+            <div className="flex flex-col items-center justify-center py-12 gap-6">
+              {fileError ? (
+                <AlertCircle className="w-12 h-12 text-destructive" />
+              ) : (
+                <Loader2 className="w-12 h-12 text-primary animate-spin" />
+              )}
+              <div className="text-center space-y-2 w-full max-w-sm">
+                <p className="font-medium">
+                  {isUploadingFile ? 'Subiendo archivo...' : 'Procesando archivo en el servidor...'}
+                </p>
+                <Progress value={Math.round((filePartsDone / filePartsTotal) * 100)} className="h-2" />
+                <p className="text-sm text-muted-foreground">
+                  {filePartsDone} de {filePartsTotal} partes {isUploadingFile ? 'subidas' : 'procesadas'}
+                </p>
+                {fileBatch && !isUploadingFile && (
+                  <div className="flex justify-center gap-4 text-xs text-muted-foreground mt-4">
+                    <span className="text-green-600">✓ {fileBatch.stats.inserted ?? 0} insertados</span>
+                    <span className="text-yellow-600">⊘ {fileBatch.stats.duplicates ?? 0} duplicados</span>
+                    <span className="text-red-600">✗ {fileBatch.stats.errors ?? 0} errores</span>
+                  </div>
+                )}
+                {fileError ? (
+                  <p className="text-sm text-destructive">{fileError}</p>
+                ) : (
+                  <p className="text-xs text-muted-foreground">
+                    Puedes cerrar esta ventana: el procesamiento continúa y su avance se ve al volver a abrirla.
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+
+          {step === 'importing' && !largeFile && !fileBatchId && (
             <div className="flex flex-col items-center justify-center py-12 gap-6">
               <Loader2 className="w-12 h-12 text-primary animate-spin" />
               <div className="text-center space-y-2 w-full max-w-sm">
@@ -692,9 +1504,48 @@ export function ImportGpsDataDialog({ open, onOpenChange, onSuccess }: ImportGps
                     <p className="text-xs text-muted-foreground">Errores</p>
                   </div>
                 </div>
+                {(tractorStats.length > 1 || tractorStats.some((row) => row.failure)) && (
+                  <div className="border rounded-lg overflow-hidden text-left">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="text-xs">Tractor</TableHead>
+                          <TableHead className="text-xs text-right">Insertados</TableHead>
+                          <TableHead className="text-xs text-right">Duplicados</TableHead>
+                          <TableHead className="text-xs text-right">Errores</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {tractorStats.map((row, i) => (
+                          <TableRow key={i}>
+                            <TableCell className="text-xs py-2">
+                              {row.tractorName}
+                              {row.failure && <p className="text-destructive">{row.failure}</p>}
+                            </TableCell>
+                            <TableCell className="text-xs py-2 text-right">{row.inserted}</TableCell>
+                            <TableCell className="text-xs py-2 text-right">{row.duplicates}</TableCell>
+                            <TableCell className="text-xs py-2 text-right">{row.errors}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+                {Object.keys(importStats.cleaned ?? {}).length > 0 && (
+                  <div className="text-sm text-muted-foreground">
+                    <p>
+                      Limpieza ({cleaning.mode === 'flag' ? 'guardadas marcadas, excluidas de las visitas' : 'descartadas, incluidas en errores'}):
+                    </p>
+                    <ul className="text-xs">
+                      {(Object.entries(importStats.cleaned) as [PingQualityFlag, number][]).map(([flag, count]) => (
+                        <li key={flag}>{PING_QUALITY_LABELS[flag]}: {count}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
                 {processVisitsAfterImport && (
                   <p className="text-sm text-muted-foreground">
-                    Las visitas a cuarteles han sido procesadas automáticamente
+                    Las visitas a cuarteles se están procesando en segundo plano
                   </p>
                 )}
               </div>
@@ -717,15 +1568,37 @@ export function ImportGpsDataDialog({ open, onOpenChange, onSuccess }: ImportGps
               </Button>
               <Button 
                 onClick={handleImport}
-                disabled={!selectedTractorId || !columnMapping.timestamp || 
-                  (!columnMapping.coordinates && (!columnMapping.latitude || !columnMapping.longitude))}
+                disabled={!canImport || (trackFormat
+                  ? parsedPings.length === 0
+                  : !columnMapping.timestamp ||
+                    (!columnMapping.coordinates && (!columnMapping.latitude || !columnMapping.longitude)))}
               >
-                Importar {rawData.length} registros
+                {largeFile ? 'Subir e importar archivo' : `Importar ${devices.length > 0
+                  ? assignedDevices.reduce((sum, device) => sum + device.count, 0)
+                  : trackFormat ? parsedPings.length : rawData.length} registros`}
+              </Button>
+            </>
+          )}
+
+          {step === 'importing' && (largeFile || fileBatchId) && (
+            <>
+              <Button variant="outline" onClick={() => handleClose(false)}>
+                Cerrar
               </Button>
+              {fileError && fileBatch?.status === 'uploading' && largeFile && (
+                <Button onClick={() => continueFileUpload(largeFile, { ...fileBatch, parts_uploaded: uploadProgress?.partsUploaded ?? fileBatch.parts_uploaded })}>
+                  Reintentar subida
+                </Button>
+              )}
+              {fileError && fileBatch && fileBatch.status !== 'uploading' && isFileImportResumable(fileBatch) && (
+                <Button onClick={() => continueFileProcessing(fileBatch)}>
+                  Reanudar
+                </Button>
+              )}
             </>
           )}
 
-          {step === 'importing' && (
+          {step === 'importing' && !largeFile && !fileBatchId && (
             <Button variant="outline" disabled>
               <Loader2 className="w-4 h-4 mr-2 animate-spin" />
               Importando...
@@ -0,0 +1,248 @@
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Drawer,
+  DrawerContent,
+  DrawerDescription,
+  DrawerHeader,
+  DrawerTitle,
+} from '@/components/ui/drawer';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { FileSpreadsheet, Loader2, Undo2 } from 'lucide-react';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { cn } from '@/lib/utils';
+import type { ImportBatch, ImportBatchStatus, Tractor } from '@/types/farm';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+
+interface ImportHistoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  batches: ImportBatch[];
+  // Archived tractors included, for batches imported before archiving
+  tractors: Tractor[];
+  onRollback: (batch: ImportBatch) => void;
+  rollingBackBatchId?: string | null;
+}
+
+const STATUS_LABELS: Record<ImportBatchStatus, string> = {
+  uploading: 'Subiendo',
+  processing: 'Procesando',
+  importing: 'Importando',
+  completed: 'Completada',
+  failed: 'Incompleta',
+  rolled_back: 'Deshecha',
+};
+
+const MAPPING_LABELS: Record<string, string> = {
+  timestamp: 'Timestamp',
+  coordinates: 'Coordenadas',
+  latitude: 'Latitud',
+  longitude: 'Longitud',
+  speed: 'Velocidad',
+  heading: 'Rumbo',
+  altitude: 'Altitud',
+  hdop: 'HDOP',
+  satellites: 'Satélites',
+  ignition: 'Contacto',
+  pto: 'TDF',
+  device: 'Equipo',
+};
+
+function StatusBadge({ status }: { status: ImportBatchStatus }) {
+  return (
+    <Badge
+      variant="outline"
+      className={cn(
+        'text-[10px] px-1.5 py-0',
+        status === 'completed' && 'bg-success/10 text-success border-success/30',
+        status === 'failed' && 'bg-destructive/10 text-destructive border-destructive/30',
+        (status === 'importing' || status === 'uploading' || status === 'processing') &&
+          'bg-primary/10 text-primary border-primary/30'
+      )}
+    >
+      {STATUS_LABELS[status]}
+    </Badge>
+  );
+}
+
+function formatPingRange(batch: ImportBatch) {
+  if (!batch.first_ping_at || !batch.last_ping_at) return null;
+  const first = format(new Date(batch.first_ping_at), 'd MMM yyyy', { locale: es });
+  const last = format(new Date(batch.last_ping_at), 'd MMM yyyy', { locale: es });
+  return first === last ? first : `${first} – ${last}`;
+}
+
+function BatchItem({
+  batch,
+  tractorName,
+  onRollback,
+  isRollingBack,
+}: {
+  batch: ImportBatch;
+  tractorName: string;
+  onRollback: () => void;
+  isRollingBack: boolean;
+}) {
+  const [confirming, setConfirming] = useState(false);
+  const pingRange = formatPingRange(batch);
+  const mapping = Object.entries(batch.column_mapping ?? {}).filter(([, column]) => column);
+
+  return (
+    <div className={cn('rounded-lg border p-3 space-y-2', batch.status === 'rolled_back' && 'opacity-60')}>
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <div className="font-medium text-sm flex items-center gap-2">
+            <span className="truncate">{batch.file_name}</span>
+            <StatusBadge status={batch.status} />
+          </div>
+          <div className="text-xs text-muted-foreground">
+            {tractorName}
+            {' • '}
+            {format(new Date(batch.created_at), "d MMM, HH:mm", { locale: es })}
+            {batch.created_by_email && ` • ${batch.created_by_email}`}
+          </div>
+        </div>
+        {batch.status !== 'rolled_back' && !confirming && (
+          <Button variant="outline" size="sm" onClick={() => setConfirming(true)} disabled={isRollingBack}>
+            {isRollingBack ? (
+              <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+            ) : (
+              <Undo2 className="w-3 h-3 mr-1" />
+            )}
+            Deshacer
+          </Button>
+        )}
+      </div>
+
+      <div className="text-xs text-muted-foreground">
+        {batch.stats.inserted ?? 0} pings importados • {batch.stats.duplicates ?? 0} duplicados • {batch.stats.errors ?? 0} errores
+        {pingRange && ` • ${pingRange}`}
+      </div>
+
+      {batch.parts_total !== null && batch.status !== 'completed' && batch.status !== 'rolled_back' && (
+        <div className="text-xs text-muted-foreground">
+          {batch.status === 'uploading'
+            ? `Subidas ${batch.parts_uploaded} de ${batch.parts_total} partes`
+            : `Procesadas ${batch.parts_processed} de ${batch.parts_total} partes`}
+        </div>
+      )}
+
+      {batch.error && batch.status === 'failed' && (
+        <div className="text-xs text-destructive">{batch.error}</div>
+      )}
+
+      {mapping.length > 0 && (
+        <div className="text-xs text-muted-foreground truncate">
+          {mapping.map(([field, column]) => `${MAPPING_LABELS[field] ?? field}: ${column}`).join(' • ')}
+        </div>
+      )}
+
+      {batch.rolled_back_at && (
+        <div className="text-xs text-muted-foreground">
+          Deshecha el {format(new Date(batch.rolled_back_at), "d MMM, HH:mm", { locale: es })}
+        </div>
+      )}
+
+      {confirming && (
+        <div className="rounded-md bg-destructive/5 border border-destructive/30 p-2 space-y-2">
+          <p className="text-xs text-destructive">
+            Se eliminarán los {batch.stats.inserted ?? 0} pings que agregó esta importación y se
+            reprocesarán las pasadas de {tractorName}. Los pings que ya existían no se tocan.
+          </p>
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setConfirming(false)}>
+              Cancelar
+            </Button>
+            <Button
+              variant="destructive"
+              size="sm"
+              onClick={() => {
+                setConfirming(false);
+                onRollback();
+              }}
+            >
+              Eliminar pings
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function ImportHistoryDialog({
+  open,
+  onOpenChange,
+  batches,
+  tractors,
+  onRollback,
+  rollingBackBatchId,
+}: ImportHistoryDialogProps) {
+  const isMobile = useIsMobile();
+  const tractorNames = new Map(tractors.map((t) => [t.id, t.name]));
+
+  const content = batches.length > 0 ? (
+    <div className="space-y-3">
+      {batches.map((batch) => (
+        <BatchItem
+          key={batch.id}
+          batch={batch}
+          tractorName={tractorNames.get(batch.tractor_id) ?? 'Tractor eliminado'}
+          onRollback={() => onRollback(batch)}
+          isRollingBack={rollingBackBatchId === batch.id}
+        />
+      ))}
+    </div>
+  ) : (
+    <div className="text-center py-8 text-muted-foreground text-sm">
+      No hay importaciones registradas
+    </div>
+  );
+
+  const title = 'Historial de importaciones';
+  const description = 'Archivos GPS importados por tractor. Deshacer una importación elimina solo los pings que agregó.';
+
+  if (isMobile) {
+    return (
+      <Drawer open={open} onOpenChange={onOpenChange}>
+        <DrawerContent className="max-h-[85vh]">
+          <DrawerHeader className="text-left">
+            <DrawerTitle className="flex items-center gap-2">
+              <FileSpreadsheet className="w-5 h-5" />
+              {title}
+            </DrawerTitle>
+            <DrawerDescription>{description}</DrawerDescription>
+          </DrawerHeader>
+          <ScrollArea className="flex-1 px-4 pb-4 overflow-y-auto">
+            {content}
+          </ScrollArea>
+        </DrawerContent>
+      </Drawer>
+    );
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="w-5 h-5" />
+            {title}
+          </DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+
+        {content}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,158 @@
+import { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Drawer,
+  DrawerContent,
+  DrawerDescription,
+  DrawerFooter,
+  DrawerHeader,
+  DrawerTitle,
+} from '@/components/ui/drawer';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useIsMobile } from '@/hooks/use-mobile';
+import type { Operator } from '@/types/farm';
+
+export interface OperatorFormData {
+  id: string | null;
+  name: string;
+  code: string | null;
+}
+
+interface OperatorFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Operator to edit, null to create a new one
+  operator: Operator | null;
+  onSave: (data: OperatorFormData) => void;
+  isLoading?: boolean;
+}
+
+interface FormValues {
+  name: string;
+  code: string;
+}
+
+function FormContent({
+  values,
+  onChange,
+}: {
+  values: FormValues;
+  onChange: (key: keyof FormValues, value: string) => void;
+}) {
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="operator-name">Nombre *</Label>
+        <Input
+          id="operator-name"
+          value={values.name}
+          onChange={(e) => onChange('name', e.target.value)}
+          placeholder="Ej: Juan Pérez"
+          required
+          maxLength={100}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="operator-code">Código</Label>
+        <Input
+          id="operator-code"
+          value={values.code}
+          onChange={(e) => onChange('code', e.target.value)}
+          placeholder="Ej: número de ficha o RUT"
+          maxLength={50}
+        />
+      </div>
+    </div>
+  );
+}
+
+export function OperatorFormDialog({ open, onOpenChange, operator, onSave, isLoading }: OperatorFormDialogProps) {
+  const isMobile = useIsMobile();
+  const [values, setValues] = useState<FormValues>({ name: '', code: '' });
+
+  // Populate form when opened for an operator
+  useEffect(() => {
+    if (!open) return;
+    setValues({ name: operator?.name ?? '', code: operator?.code ?? '' });
+  }, [open, operator]);
+
+  const handleChange = (key: keyof FormValues, value: string) => {
+    setValues(prev => ({ ...prev, [key]: value }));
+  };
+
+  const isValid = values.name.trim() !== '';
+
+  const handleSubmit = (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (!isValid) return;
+
+    onSave({
+      id: operator?.id ?? null,
+      name: values.name.trim(),
+      code: values.code.trim() || null,
+    });
+  };
+
+  const title = operator ? 'Editar operador' : 'Nuevo operador';
+  const description = 'Las pasadas se atribuyen al operador en turno en el tractor.';
+
+  const footerButtons = (
+    <>
+      <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isLoading}>
+        Cancelar
+      </Button>
+      <Button type="submit" disabled={!isValid || isLoading} onClick={handleSubmit}>
+        {isLoading ? 'Guardando...' : operator ? 'Guardar cambios' : 'Crear operador'}
+      </Button>
+    </>
+  );
+
+  if (isMobile) {
+    return (
+      <Drawer open={open} onOpenChange={onOpenChange}>
+        <DrawerContent className="max-h-[85vh]">
+          <DrawerHeader className="text-left">
+            <DrawerTitle>{title}</DrawerTitle>
+            <DrawerDescription>{description}</DrawerDescription>
+          </DrawerHeader>
+          <ScrollArea className="flex-1 px-4 overflow-y-auto">
+            <FormContent values={values} onChange={handleChange} />
+          </ScrollArea>
+          <DrawerFooter className="flex-row gap-2">
+            {footerButtons}
+          </DrawerFooter>
+        </DrawerContent>
+      </Drawer>
+    );
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <FormContent values={values} onChange={handleChange} />
+
+          <DialogFooter>
+            {footerButtons}
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,318 @@
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Drawer,
+  DrawerContent,
+  DrawerDescription,
+  DrawerFooter,
+  DrawerHeader,
+  DrawerTitle,
+} from '@/components/ui/drawer';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Separator } from '@/components/ui/separator';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Archive, ArchiveRestore, CalendarClock, Pencil, Plus, Trash2 } from 'lucide-react';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { formatDuration } from '@/hooks/useBlockVisitStats';
+import { cn } from '@/lib/utils';
+import type { OperatorProductivity } from '@/lib/operatorProductivity';
+import type { Operator, OperatorShift, Tractor } from '@/types/farm';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+
+export interface OperatorShiftFormData {
+  operator_id: string;
+  tractor_id: string;
+  started_at: string;
+  ended_at: string | null;
+}
+
+interface OperatorsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  operators: Operator[];
+  shifts: OperatorShift[];
+  tractors: Tractor[];
+  // Summary of the visits of the last `productivityDays` days
+  productivity: OperatorProductivity[];
+  productivityDays: number;
+  onCreate: () => void;
+  onEdit: (operator: Operator) => void;
+  onArchive: (operator: Operator, archived: boolean) => void;
+  onAddShift: (data: OperatorShiftFormData) => void;
+  onDeleteShift: (shift: OperatorShift) => void;
+  isAddingShift?: boolean;
+}
+
+function formatRange(shift: OperatorShift): string {
+  const from = format(new Date(shift.started_at), "d MMM yyyy, HH:mm", { locale: es });
+  return shift.ended_at
+    ? `${from} – ${format(new Date(shift.ended_at), "d MMM yyyy, HH:mm", { locale: es })}`
+    : `Desde ${from}`;
+}
+
+function ShiftForm({
+  operators,
+  tractors,
+  onAddShift,
+  isAddingShift,
+}: {
+  operators: Operator[];
+  tractors: Tractor[];
+  onAddShift: (data: OperatorShiftFormData) => void;
+  isAddingShift?: boolean;
+}) {
+  const [operatorId, setOperatorId] = useState('');
+  const [tractorId, setTractorId] = useState('');
+  const [startedAt, setStartedAt] = useState('');
+  const [endedAt, setEndedAt] = useState('');
+
+  const isValid = operatorId && tractorId && startedAt
+    && (!endedAt || new Date(endedAt) > new Date(startedAt));
+
+  const handleAdd = () => {
+    if (!isValid) return;
+    onAddShift({
+      operator_id: operatorId,
+      tractor_id: tractorId,
+      started_at: new Date(startedAt).toISOString(),
+      ended_at: endedAt ? new Date(endedAt).toISOString() : null,
+    });
+    setStartedAt('');
+    setEndedAt('');
+  };
+
+  return (
+    <div className="border rounded-lg p-3 space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1.5">
+          <Label className="text-xs">Operador</Label>
+          <Select value={operatorId} onValueChange={setOperatorId}>
+            <SelectTrigger className="h-8 text-sm">
+              <SelectValue placeholder="Selecciona" />
+            </SelectTrigger>
+            <SelectContent>
+              {operators.map((o) => (
+                <SelectItem key={o.id} value={o.id}>{o.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs">Tractor</Label>
+          <Select value={tractorId} onValueChange={setTractorId}>
+            <SelectTrigger className="h-8 text-sm">
+              <SelectValue placeholder="Selecciona" />
+            </SelectTrigger>
+            <SelectContent>
+              {tractors.map((t) => (
+                <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="shift-start" className="text-xs">Desde</Label>
+          <Input
+            id="shift-start"
+            type="datetime-local"
+            className="h-8 text-sm"
+            value={startedAt}
+            onChange={(e) => setStartedAt(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="shift-end" className="text-xs">Hasta (opcional)</Label>
+          <Input
+            id="shift-end"
+            type="datetime-local"
+            className="h-8 text-sm"
+            value={endedAt}
+            onChange={(e) => setEndedAt(e.target.value)}
+          />
+        </div>
+      </div>
+      <Button size="sm" variant="outline" className="w-full" onClick={handleAdd} disabled={!isValid || isAddingShift}>
+        <CalendarClock className="w-4 h-4 mr-2" />
+        {isAddingShift ? 'Registrando...' : 'Registrar turno'}
+      </Button>
+    </div>
+  );
+}
+
+export function OperatorsDialog({
+  open,
+  onOpenChange,
+  operators,
+  shifts,
+  tractors,
+  productivity,
+  productivityDays,
+  onCreate,
+  onEdit,
+  onArchive,
+  onAddShift,
+  onDeleteShift,
+  isAddingShift,
+}: OperatorsDialogProps) {
+  const isMobile = useIsMobile();
+  const operatorById = new Map(operators.map((o) => [o.id, o]));
+  const tractorById = new Map(tractors.map((t) => [t.id, t]));
+  const productivityById = new Map(productivity.map((p) => [p.operatorId, p]));
+  const activeOperators = operators.filter((o) => !o.archived_at);
+  const activeTractors = tractors.filter((t) => !t.archived_at);
+
+  const content = (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        {operators.length > 0 ? (
+          operators.map((operator) => {
+            const summary = productivityById.get(operator.id);
+            return (
+              <div
+                key={operator.id}
+                className={cn('border rounded-lg p-3 flex items-center gap-3', operator.archived_at && 'opacity-60')}
+              >
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-sm truncate">{operator.name}</span>
+                    {operator.code && <span className="text-xs text-muted-foreground">{operator.code}</span>}
+                    {operator.archived_at && (
+                      <Badge variant="outline" className="text-[10px] px-1.5 py-0">Archivado</Badge>
+                    )}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {summary
+                      ? `${summary.passes} pasadas en ${summary.blocks} cuarteles • ${formatDuration(summary.effectiveMinutes ?? summary.totalMinutes)} de trabajo`
+                      : 'Sin pasadas'}
+                  </div>
+                </div>
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onEdit(operator)} title="Editar">
+                  <Pencil className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => onArchive(operator, !operator.archived_at)}
+                  title={operator.archived_at ? 'Restaurar' : 'Archivar'}
+                >
+                  {operator.archived_at ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+                </Button>
+              </div>
+            );
+          })
+        ) : (
+          <div className="text-center py-4 text-muted-foreground text-sm">
+            No hay operadores registrados
+          </div>
+        )}
+        {operators.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            Productividad de los últimos {productivityDays} días; el trabajo excluye detenciones cuando están detectadas.
+          </p>
+        )}
+      </div>
+
+      <Separator />
+
+      <div className="space-y-2">
+        <h4 className="font-medium text-sm">Turnos</h4>
+        <p className="text-xs text-muted-foreground">
+          Cada pasada se atribuye al operador en turno en su tractor al momento de iniciar.
+        </p>
+        {activeOperators.length > 0 && activeTractors.length > 0 && (
+          <ShiftForm
+            operators={activeOperators}
+            tractors={activeTractors}
+            onAddShift={onAddShift}
+            isAddingShift={isAddingShift}
+          />
+        )}
+        {shifts.map((shift) => (
+          <div key={shift.id} className="flex items-center gap-2 text-sm border-b last:border-0 py-2">
+            <div className="flex-1 min-w-0">
+              <div className="truncate">
+                <span className="font-medium">{operatorById.get(shift.operator_id)?.name ?? 'Operador desconocido'}</span>
+                {' → '}
+                {tractorById.get(shift.tractor_id)?.name ?? 'Tractor desconocido'}
+              </div>
+              <div className="text-xs text-muted-foreground">{formatRange(shift)}</div>
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 text-destructive"
+              onClick={() => onDeleteShift(shift)}
+              title="Eliminar turno"
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+
+  const footerButton = (
+    <Button onClick={onCreate} className={cn(isMobile && 'flex-1')}>
+      <Plus className="w-4 h-4 mr-2" />
+      Nuevo operador
+    </Button>
+  );
+
+  const description = 'Operadores de la flota y sus turnos en cada tractor.';
+
+  if (isMobile) {
+    return (
+      <Drawer open={open} onOpenChange={onOpenChange}>
+        <DrawerContent className="max-h-[85vh]">
+          <DrawerHeader className="text-left">
+            <DrawerTitle>Operadores</DrawerTitle>
+            <DrawerDescription>{description}</DrawerDescription>
+          </DrawerHeader>
+          <ScrollArea className="flex-1 px-4 overflow-y-auto">
+            {content}
+          </ScrollArea>
+          <DrawerFooter className="flex-row gap-2">
+            {footerButton}
+          </DrawerFooter>
+        </DrawerContent>
+      </Drawer>
+    );
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Operadores</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+
+        {content}
+
+        <DialogFooter>
+          {footerButton}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,243 @@
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Drawer,
+  DrawerContent,
+  DrawerDescription,
+  DrawerFooter,
+  DrawerHeader,
+  DrawerTitle,
+} from '@/components/ui/drawer';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from '@/components/ui/collapsible';
+import { ChevronDown, ChevronRight, Loader2, RefreshCw, RotateCcw } from 'lucide-react';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { isProcessingJobActive } from '@/hooks/useProcessingJobs';
+import { cn } from '@/lib/utils';
+import type { Block, ProcessingJobStatus, ProcessingJobWithBlocks } from '@/types/farm';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+
+interface ProcessingJobsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  jobs: ProcessingJobWithBlocks[];
+  blocks: Block[];
+  onStartFullReprocess: () => void;
+  isStarting?: boolean;
+  onRetry: (jobId: string) => void;
+  retryingJobId?: string | null;
+}
+
+const STATUS_LABELS: Record<ProcessingJobStatus, string> = {
+  pending: 'En cola',
+  running: 'Procesando',
+  completed: 'Completado',
+  failed: 'Con errores',
+};
+
+function StatusBadge({ status }: { status: ProcessingJobStatus }) {
+  return (
+    <Badge
+      variant="outline"
+      className={cn(
+        'text-[10px] px-1.5 py-0',
+        status === 'completed' && 'bg-success/10 text-success border-success/30',
+        status === 'failed' && 'bg-destructive/10 text-destructive border-destructive/30',
+        isProcessingJobActive({ status }) && 'bg-primary/10 text-primary border-primary/30'
+      )}
+    >
+      {STATUS_LABELS[status]}
+    </Badge>
+  );
+}
+
+function JobItem({
+  job,
+  blockNames,
+  onRetry,
+  isRetrying,
+}: {
+  job: ProcessingJobWithBlocks;
+  blockNames: Map<string, string>;
+  onRetry: () => void;
+  isRetrying: boolean;
+}) {
+  const [expanded, setExpanded] = useState(false);
+  const isActive = isProcessingJobActive(job);
+  // Blocks are only settled once every tractor went over them, so a running
+  // job shows its progress in tractors
+  const byTractor = isActive && job.total_tractors > 0;
+  const progress = byTractor
+    ? (job.processed_tractors / job.total_tractors) * 100
+    : job.total_blocks > 0 ? (job.processed_blocks / job.total_blocks) * 100 : 0;
+  const jobBlocks = [...job.processing_job_blocks].sort((a, b) =>
+    (blockNames.get(a.block_id) ?? '').localeCompare(blockNames.get(b.block_id) ?? '')
+  );
+
+  return (
+    <div className="rounded-lg border p-3 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <div className="min-w-0">
+          <div className="font-medium text-sm flex items-center gap-2">
+            {job.mode === 'full' ? 'Reprocesamiento completo' : 'Actualización incremental'}
+            <StatusBadge status={job.status} />
+          </div>
+          <div className="text-xs text-muted-foreground">
+            {format(new Date(job.created_at), "d MMM, HH:mm", { locale: es })}
+            {' • '}
+            {byTractor
+              ? `${job.processed_tractors} de ${job.total_tractors} tractores`
+              : `${job.processed_blocks} de ${job.total_blocks} cuarteles`}
+          </div>
+        </div>
+        {job.status === 'failed' && (
+          <Button variant="outline" size="sm" onClick={onRetry} disabled={isRetrying}>
+            {isRetrying ? (
+              <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+            ) : (
+              <RotateCcw className="w-3 h-3 mr-1" />
+            )}
+            Reintentar {job.failed_blocks} fallidos
+          </Button>
+        )}
+      </div>
+
+      {isActive && <Progress value={progress} className="h-2" />}
+
+      {!isActive && (
+        <div className="text-xs text-muted-foreground">
+          {job.results.visitsCreated} pasadas creadas • {job.results.visitsUpdated} extendidas • {job.results.pingsProcessed} pings
+        </div>
+      )}
+
+      {job.results.errors.length > 0 && (
+        <div className="rounded-md bg-destructive/5 border border-destructive/30 p-2 text-xs text-destructive space-y-1">
+          {job.results.errors.slice(0, 5).map((error, idx) => (
+            <p key={idx} className="break-words">{error}</p>
+          ))}
+          {job.results.errors.length > 5 && (
+            <p>+{job.results.errors.length - 5} errores más</p>
+          )}
+        </div>
+      )}
+
+      <Collapsible open={expanded} onOpenChange={setExpanded}>
+        <CollapsibleTrigger asChild>
+          <button className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground">
+            {expanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+            Detalle por cuartel
+          </button>
+        </CollapsibleTrigger>
+        <CollapsibleContent>
+          <div className="mt-2 space-y-1">
+            {jobBlocks.map((jobBlock) => (
+              <div key={jobBlock.id} className="flex items-center justify-between gap-2 text-xs">
+                <span className="truncate">{blockNames.get(jobBlock.block_id) ?? 'Cuartel eliminado'}</span>
+                <div className="flex items-center gap-2 shrink-0">
+                  {jobBlock.status === 'completed' && (
+                    <span className="text-muted-foreground">+{jobBlock.visits_created}</span>
+                  )}
+                  {jobBlock.status === 'running' && <Loader2 className="w-3 h-3 animate-spin text-primary" />}
+                  <StatusBadge status={jobBlock.status} />
+                </div>
+              </div>
+            ))}
+          </div>
+        </CollapsibleContent>
+      </Collapsible>
+    </div>
+  );
+}
+
+export function ProcessingJobsDialog({
+  open,
+  onOpenChange,
+  jobs,
+  blocks,
+  onStartFullReprocess,
+  isStarting,
+  onRetry,
+  retryingJobId,
+}: ProcessingJobsDialogProps) {
+  const isMobile = useIsMobile();
+  const blockNames = new Map(blocks.map((b) => [b.id, b.farm_name ? `${b.farm_name} - ${b.name}` : b.name]));
+  const hasActiveJob = jobs.some(isProcessingJobActive);
+
+  const content = jobs.length > 0 ? (
+    <div className="space-y-3">
+      {jobs.map((job) => (
+        <JobItem
+          key={job.id}
+          job={job}
+          blockNames={blockNames}
+          onRetry={() => onRetry(job.id)}
+          isRetrying={retryingJobId === job.id}
+        />
+      ))}
+    </div>
+  ) : (
+    <div className="text-center py-8 text-muted-foreground text-sm">
+      No hay procesos recientes
+    </div>
+  );
+
+  const footerButton = (
+    <Button onClick={onStartFullReprocess} disabled={isStarting || hasActiveJob} className={cn(isMobile && 'flex-1')}>
+      <RefreshCw className={cn('w-4 h-4 mr-2', isStarting && 'animate-spin')} />
+      Reprocesar todos los cuarteles
+    </Button>
+  );
+
+  const description = 'Los reprocesamientos largos se ejecutan en segundo plano por grupos de cuarteles.';
+
+  if (isMobile) {
+    return (
+      <Drawer open={open} onOpenChange={onOpenChange}>
+        <DrawerContent className="max-h-[85vh]">
+          <DrawerHeader className="text-left">
+            <DrawerTitle>Procesamiento de pasadas</DrawerTitle>
+            <DrawerDescription>{description}</DrawerDescription>
+          </DrawerHeader>
+          <ScrollArea className="flex-1 px-4 overflow-y-auto">
+            {content}
+          </ScrollArea>
+          <DrawerFooter className="flex-row gap-2">
+            {footerButton}
+          </DrawerFooter>
+        </DrawerContent>
+      </Drawer>
+    );
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Procesamiento de pasadas</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+
+        {content}
+
+        <DialogFooter>
+          {footerButton}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
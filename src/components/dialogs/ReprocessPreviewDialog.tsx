@@ -0,0 +1,243 @@
+import { Loader2, Minus, Plus, ArrowRight } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Drawer,
+  DrawerContent,
+  DrawerDescription,
+  DrawerFooter,
+  DrawerHeader,
+  DrawerTitle,
+} from '@/components/ui/drawer';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { formatDuration } from '@/hooks/useBlockVisitStats';
+import type { BlockReprocessPreview } from '@/hooks/useProcessVisits';
+import type { Block, Tractor } from '@/types/farm';
+import type { BlockMetricsSnapshot, ProposedVisit, StoredVisit } from '@shared/visitChanges';
+import { cn } from '@/lib/utils';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+
+interface ReprocessPreviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  block: Block | null;
+  tractors: Tractor[];
+  preview: BlockReprocessPreview | null;
+  isPreviewing?: boolean;
+  onConfirm: () => void;
+  isLoading?: boolean;
+}
+
+// Longest list of changed visits rendered; the summary still counts all of them
+const MAX_LISTED_CHANGES = 50;
+
+const METRIC_ROWS: { key: keyof BlockMetricsSnapshot; label: string }[] = [
+  { key: 'total_passes', label: 'Total pasadas' },
+  { key: 'passes_24h', label: 'Últimas 24 h' },
+  { key: 'passes_7d', label: 'Últimos 7 días' },
+  { key: 'last_seen_at', label: 'Última pasada' },
+  { key: 'last_tractor_id', label: 'Último tractor' },
+];
+
+function describeVisit(visit: StoredVisit | ProposedVisit): string {
+  const start = new Date(visit.started_at);
+  const minutes = visit.ended_at
+    ? (new Date(visit.ended_at).getTime() - start.getTime()) / (1000 * 60)
+    : null;
+  const when = format(start, "d MMM yyyy, HH:mm", { locale: es });
+  return minutes !== null ? `${when} · ${formatDuration(minutes)}` : when;
+}
+
+export function ReprocessPreviewDialog({
+  open,
+  onOpenChange,
+  block,
+  tractors,
+  preview,
+  isPreviewing,
+  onConfirm,
+  isLoading,
+}: ReprocessPreviewDialogProps) {
+  const isMobile = useIsMobile();
+  const tractorMap = new Map(tractors.map((t) => [t.id, t]));
+  const tractorName = (id: string | null) =>
+    id ? tractorMap.get(id)?.name ?? 'Tractor desconocido' : '—';
+
+  const formatMetric = (key: keyof BlockMetricsSnapshot, metrics: BlockMetricsSnapshot) => {
+    const value = metrics[key];
+    if (key === 'last_seen_at') {
+      return value ? format(new Date(value as string), "d MMM, HH:mm", { locale: es }) : 'Sin registro';
+    }
+    if (key === 'last_tractor_id') {
+      return tractorName(value as string | null);
+    }
+    return String(value);
+  };
+
+  const changes = preview
+    ? [
+        ...preview.added.map((after) => ({ kind: 'added' as const, tractorId: after.tractor_id, before: null, after })),
+        ...preview.removed.map((before) => ({ kind: 'removed' as const, tractorId: before.tractor_id, before, after: null })),
+        ...preview.extended.map(({ before, after }) => ({ kind: 'extended' as const, tractorId: after.tractor_id, before, after })),
+      ].sort((a, b) =>
+        new Date((b.after ?? b.before)!.started_at).getTime() - new Date((a.after ?? a.before)!.started_at).getTime()
+      )
+    : [];
+
+  const content = isPreviewing || !preview ? (
+    <div className="flex items-center justify-center gap-2 py-10 text-sm text-muted-foreground">
+      <Loader2 className="w-4 h-4 animate-spin" />
+      Calculando cambios...
+    </div>
+  ) : (
+    <div className="space-y-5">
+      <div className="flex flex-wrap gap-2">
+        <Badge variant="outline" className="bg-success/10 text-success border-success/30">
+          {preview.added.length} nuevas
+        </Badge>
+        <Badge variant="outline" className="bg-destructive/10 text-destructive border-destructive/30">
+          {preview.removed.length} eliminadas
+        </Badge>
+        <Badge variant="outline" className="bg-warning/10 text-warning border-warning/30">
+          {preview.extended.length} modificadas
+        </Badge>
+        <Badge variant="secondary">
+          {preview.unchanged} sin cambios
+        </Badge>
+      </div>
+
+      <div>
+        <h4 className="font-medium text-sm mb-2">Métricas del cuartel</h4>
+        <div className="rounded-lg border divide-y text-sm">
+          <div className="grid grid-cols-3 gap-2 px-3 py-2 text-xs text-muted-foreground">
+            <span />
+            <span>Actual</span>
+            <span>Después</span>
+          </div>
+          {METRIC_ROWS.map(({ key, label }) => {
+            const changed = preview.metrics_before[key] !== preview.metrics_after[key];
+            return (
+              <div key={key} className="grid grid-cols-3 gap-2 px-3 py-2">
+                <span className="text-muted-foreground">{label}</span>
+                <span>{formatMetric(key, preview.metrics_before)}</span>
+                <span className={cn(changed && 'font-semibold text-primary')}>
+                  {formatMetric(key, preview.metrics_after)}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div>
+        <h4 className="font-medium text-sm mb-2">Pasadas</h4>
+        {changes.length > 0 ? (
+          <div className="space-y-1.5">
+            {changes.slice(0, MAX_LISTED_CHANGES).map((change, idx) => (
+              <div
+                key={idx}
+                className={cn(
+                  'flex items-start gap-2 rounded-md border px-3 py-2 text-xs',
+                  change.kind === 'added' && 'bg-success/5 border-success/30',
+                  change.kind === 'removed' && 'bg-destructive/5 border-destructive/30',
+                  change.kind === 'extended' && 'bg-warning/5 border-warning/30'
+                )}
+              >
+                {change.kind === 'added' && <Plus className="w-3.5 h-3.5 mt-0.5 text-success shrink-0" />}
+                {change.kind === 'removed' && <Minus className="w-3.5 h-3.5 mt-0.5 text-destructive shrink-0" />}
+                {change.kind === 'extended' && <ArrowRight className="w-3.5 h-3.5 mt-0.5 text-warning shrink-0" />}
+                <div>
+                  <div className="font-medium">{tractorName(change.tractorId)}</div>
+                  {change.before && (
+                    <div className={cn(change.kind === 'removed' ? 'text-destructive' : 'text-muted-foreground line-through')}>
+                      {describeVisit(change.before)}
+                    </div>
+                  )}
+                  {change.after && <div>{describeVisit(change.after)}</div>}
+                </div>
+              </div>
+            ))}
+            {changes.length > MAX_LISTED_CHANGES && (
+              <p className="text-xs text-muted-foreground text-center py-1">
+                +{changes.length - MAX_LISTED_CHANGES} cambios más
+              </p>
+            )}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            Ninguna pasada cambia con la configuración actual.
+          </p>
+        )}
+      </div>
+
+      {preview.removed.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Las pasadas eliminadas ya no cumplen los umbrales de detección o se unen con otras.
+        </p>
+      )}
+    </div>
+  );
+
+  const footerButtons = (
+    <>
+      <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isLoading} className={cn(isMobile && 'flex-1')}>
+        Cancelar
+      </Button>
+      <Button
+        onClick={onConfirm}
+        disabled={isLoading || isPreviewing || !preview}
+        className={cn(isMobile && 'flex-1')}
+      >
+        {isLoading ? 'Aplicando...' : 'Aplicar cambios'}
+      </Button>
+    </>
+  );
+
+  const description = `Revisa cómo cambiarían las pasadas de ${block?.name ?? 'este cuartel'} al reprocesar todo el historial GPS.`;
+
+  if (isMobile) {
+    return (
+      <Drawer open={open} onOpenChange={onOpenChange}>
+        <DrawerContent className="max-h-[85vh]">
+          <DrawerHeader className="text-left">
+            <DrawerTitle>Reprocesar historial GPS</DrawerTitle>
+            <DrawerDescription>{description}</DrawerDescription>
+          </DrawerHeader>
+          <ScrollArea className="flex-1 px-4 overflow-y-auto">
+            {content}
+          </ScrollArea>
+          <DrawerFooter className="flex-row gap-2">
+            {footerButtons}
+          </DrawerFooter>
+        </DrawerContent>
+      </Drawer>
+    );
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Reprocesar historial GPS</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+
+        {content}
+
+        <DialogFooter>
+          {footerButtons}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,210 @@
+import { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Drawer,
+  DrawerContent,
+  DrawerDescription,
+  DrawerFooter,
+  DrawerHeader,
+  DrawerTitle,
+} from '@/components/ui/drawer';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useIsMobile } from '@/hooks/use-mobile';
+import type { Tractor } from '@/types/farm';
+
+export interface TractorFormData {
+  id: string | null;
+  name: string;
+  identifier: string;
+  metadata: Record<string, unknown>;
+}
+
+interface TractorFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Tractor to edit, null to create a new one
+  tractor: Tractor | null;
+  onSave: (data: TractorFormData) => void;
+  isLoading?: boolean;
+}
+
+interface FormValues {
+  name: string;
+  identifier: string;
+  brand: string;
+  model: string;
+}
+
+interface FormContentProps {
+  values: FormValues;
+  onChange: (key: keyof FormValues, value: string) => void;
+}
+
+function FormContent({ values, onChange }: FormContentProps) {
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="tractor-name">Nombre *</Label>
+        <Input
+          id="tractor-name"
+          value={values.name}
+          onChange={(e) => onChange('name', e.target.value)}
+          placeholder="Ej: Tractor Principal"
+          required
+          maxLength={100}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="tractor-identifier">Identificador *</Label>
+        <Input
+          id="tractor-identifier"
+          value={values.identifier}
+          onChange={(e) => onChange('identifier', e.target.value)}
+          placeholder="Ej: T-001 o IMEI del equipo GPS"
+          required
+          maxLength={100}
+        />
+        <p className="text-xs text-muted-foreground">
+          Código que reporta el equipo GPS o que aparece en los archivos importados. Debe ser único.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="tractor-brand">Marca</Label>
+          <Input
+            id="tractor-brand"
+            value={values.brand}
+            onChange={(e) => onChange('brand', e.target.value)}
+            placeholder="Ej: John Deere"
+            maxLength={100}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="tractor-model">Modelo</Label>
+          <Input
+            id="tractor-model"
+            value={values.model}
+            onChange={(e) => onChange('model', e.target.value)}
+            placeholder="Ej: 6120M"
+            maxLength={100}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+const EMPTY_VALUES: FormValues = { name: '', identifier: '', brand: '', model: '' };
+
+export function TractorFormDialog({ open, onOpenChange, tractor, onSave, isLoading }: TractorFormDialogProps) {
+  const isMobile = useIsMobile();
+  const [values, setValues] = useState<FormValues>(EMPTY_VALUES);
+
+  // Populate form when opened for a tractor
+  useEffect(() => {
+    if (!open) return;
+    setValues(tractor
+      ? {
+          name: tractor.name,
+          identifier: tractor.identifier,
+          brand: typeof tractor.metadata.brand === 'string' ? tractor.metadata.brand : '',
+          model: typeof tractor.metadata.model === 'string' ? tractor.metadata.model : '',
+        }
+      : EMPTY_VALUES);
+  }, [open, tractor]);
+
+  const handleChange = (key: keyof FormValues, value: string) => {
+    setValues(prev => ({ ...prev, [key]: value }));
+  };
+
+  const isValid = values.name.trim() !== '' && values.identifier.trim() !== '';
+
+  const handleSubmit = (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (!isValid) return;
+
+    // Keep metadata keys this form does not edit
+    const metadata: Record<string, unknown> = { ...(tractor?.metadata ?? {}) };
+    for (const key of ['brand', 'model'] as const) {
+      const value = values[key].trim();
+      if (value) {
+        metadata[key] = value;
+      } else {
+        delete metadata[key];
+      }
+    }
+
+    onSave({
+      id: tractor?.id ?? null,
+      name: values.name.trim(),
+      identifier: values.identifier.trim(),
+      metadata,
+    });
+  };
+
+  const title = tractor ? 'Editar tractor' : 'Nuevo tractor';
+  const description = tractor
+    ? 'Modifica los datos del tractor.'
+    : 'Agrega un tractor a la flota para asignarle datos GPS.';
+
+  const footerButtons = (
+    <>
+      <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isLoading}>
+        Cancelar
+      </Button>
+      <Button type="submit" disabled={!isValid || isLoading} onClick={handleSubmit}>
+        {isLoading ? 'Guardando...' : tractor ? 'Guardar cambios' : 'Crear tractor'}
+      </Button>
+    </>
+  );
+
+  if (isMobile) {
+    return (
+      <Drawer open={open} onOpenChange={onOpenChange}>
+        <DrawerContent className="max-h-[85vh]">
+          <DrawerHeader className="text-left">
+            <DrawerTitle>{title}</DrawerTitle>
+            <DrawerDescription>{description}</DrawerDescription>
+          </DrawerHeader>
+          <ScrollArea className="flex-1 px-4 overflow-y-auto">
+            <FormContent values={values} onChange={handleChange} />
+          </ScrollArea>
+          <DrawerFooter className="flex-row gap-2">
+            {footerButtons}
+          </DrawerFooter>
+        </DrawerContent>
+      </Drawer>
+    );
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <FormContent values={values} onChange={handleChange} />
+
+          <DialogFooter>
+            {footerButtons}
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
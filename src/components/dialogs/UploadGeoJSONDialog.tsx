@@ -11,12 +11,13 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Upload, FileJson, AlertCircle } from 'lucide-react';
-import type { FeatureCollection, Feature, Polygon } from 'geojson';
+import type { FeatureCollection, Feature } from 'geojson';
+import type { BlockGeometry } from '@/types/farm';
 
 interface UploadGeoJSONDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onUpload: (features: Feature<Polygon>[]) => void;
+  onUpload: (features: Feature<BlockGeometry>[]) => void;
 }
 
 export function UploadGeoJSONDialog({
@@ -83,8 +84,8 @@ export function UploadGeoJSONDialog({
         geojson.type === 'FeatureCollection' ? geojson.features : [geojson];
 
       const polygons = features.filter(
-        (f: Feature) => f.geometry?.type === 'Polygon'
-      ) as Feature<Polygon>[];
+        (f: Feature) => f.geometry?.type === 'Polygon' || f.geometry?.type === 'MultiPolygon'
+      ) as Feature<BlockGeometry>[];
 
       onUpload(polygons);
       onOpenChange(false);
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { Leaf, Tractor, LogOut, Menu, Bell, BellPlus, AlertTriangle, Settings2, Upload } from 'lucide-react';
+import { Leaf, Tractor, LogOut, Menu, Bell, BellPlus, AlertTriangle, Settings2, Upload, ListChecks, History } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import {
@@ -22,9 +22,13 @@ interface AppHeaderProps {
   onManageAlerts?: () => void;
   onBlockClick?: (block: Block) => void;
   onGpsImportSuccess?: () => void;
+  onOpenJobs?: () => void;
+  activeJobsCount?: number;
+  onOpenFleet?: () => void;
+  onOpenImportHistory?: () => void;
 }
 
-export function AppHeader({ triggeredAlerts, blocks, onToggleSidebar, onCreateBulkAlerts, onManageAlerts, onBlockClick, onGpsImportSuccess }: AppHeaderProps) {
+export function AppHeader({ triggeredAlerts, blocks, onToggleSidebar, onCreateBulkAlerts, onManageAlerts, onBlockClick, onGpsImportSuccess, onOpenJobs, activeJobsCount = 0, onOpenFleet, onOpenImportHistory }: AppHeaderProps) {
   const { user, signOut } = useAuth();
   const [importDialogOpen, setImportDialogOpen] = useState(false);
 
@@ -61,6 +65,30 @@ export function AppHeader({ triggeredAlerts, blocks, onToggleSidebar, onCreateBu
           <Upload className="w-5 h-5" />
         </Button>
 
+        {/* Import history, to undo a bad import */}
+        {onOpenImportHistory && (
+          <Button 
+            variant="ghost" 
+            size="icon" 
+            onClick={onOpenImportHistory}
+            title="Historial de importaciones"
+          >
+            <History className="w-5 h-5" />
+          </Button>
+        )}
+
+        {/* Fleet management */}
+        {onOpenFleet && (
+          <Button 
+            variant="ghost" 
+            size="icon" 
+            onClick={onOpenFleet}
+            title="Flota"
+          >
+            <Tractor className="w-5 h-5" />
+          </Button>
+        )}
+
         {/* Create bulk alerts button */}
         {onCreateBulkAlerts && (
           <Button 
@@ -85,6 +113,24 @@ export function AppHeader({ triggeredAlerts, blocks, onToggleSidebar, onCreateBu
           </Button>
         )}
 
+        {/* Background processing jobs */}
+        {onOpenJobs && (
+          <Button 
+            variant="ghost" 
+            size="icon" 
+            className="relative"
+            onClick={onOpenJobs}
+            title="Procesamiento de pasadas"
+          >
+            <ListChecks className="w-5 h-5" />
+            {activeJobsCount > 0 && (
+              <span className="absolute -top-0.5 -right-0.5 w-4 h-4 bg-primary text-primary-foreground text-xs rounded-full flex items-center justify-center">
+                {activeJobsCount}
+              </span>
+            )}
+          </Button>
+        )}
+
         {/* Alerts indicator */}
         <DropdownMenu>
           <DropdownMenuTrigger asChild>
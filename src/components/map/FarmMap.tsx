@@ -10,11 +10,13 @@ import Map, {
 } from 'react-map-gl';
 import mapboxgl from 'mapbox-gl';
 import type { Feature, FeatureCollection, Polygon, LineString, Point } from 'geojson';
-import type { Block, BlockMetrics, Tractor, GpsPing, Alert } from '@/types/farm';
-import { getBlockStatus, getAlertEffectiveStatus } from '@/types/farm';
+import type { Block, BlockGeometry, BlockMetrics, Tractor, GpsPing, Alert, VisitStop } from '@/types/farm';
+import { getBlockStatus, getAlertEffectiveStatus, formatTimeSince } from '@/types/farm';
 import { DrawControl } from './DrawControl';
 import { GeocoderControl } from './GeocoderControl';
 import { FarmFilter } from './FarmFilter';
+import { VisitStopMarker } from './VisitStopMarker';
+import { VisitPingPopup } from './VisitPingPopup';
 import { AlertTriangle, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import 'mapbox-gl/dist/mapbox-gl.css';
@@ -22,6 +24,11 @@ import '@mapbox/mapbox-gl-draw/dist/mapbox-gl-draw.css';
 
 const MAPBOX_TOKEN = import.meta.env.VITE_MAPBOX_TOKEN;
 
+// A tractor that reported within this window is shown as online
+const TRACTOR_ONLINE_MINUTES = 15;
+
+const VISIT_PATH_PINGS_LAYER = 'visit-path-pings-layer';
+
 interface FarmMapProps {
   blocks: Block[];
   blockMetrics: Record<string, BlockMetrics>;
@@ -34,6 +41,7 @@ interface FarmMapProps {
   onBlockDrawn?: (geometry: Feature<Polygon>) => void;
   enableDrawing?: boolean;
   visitPath?: GpsPing[];
+  visitStops?: VisitStop[];
   onClearPath?: () => void;
   missedAreas?: Feature<Polygon>[];
   alerts?: Alert[];
@@ -68,6 +76,7 @@ export function FarmMap({
   onBlockDrawn,
   enableDrawing = true,
   visitPath,
+  visitStops = [],
   onClearPath,
   missedAreas,
   alerts = [],
@@ -84,6 +93,9 @@ export function FarmMap({
     longitude: number;
     latitude: number;
   } | null>(null);
+  // Index in visitPath of the ping under the cursor
+  const [hoveredPingIndex, setHoveredPingIndex] = useState<number | null>(null);
+  const hoveredPing = hoveredPingIndex !== null ? visitPath?.[hoveredPingIndex] : undefined;
 
   // Check for token issues
   const tokenMissing = !MAPBOX_TOKEN || MAPBOX_TOKEN.trim() === '';
@@ -96,15 +108,15 @@ export function FarmMap({
 
   // Convert blocks to GeoJSON FeatureCollection for each status
   const { healthyBlocks, warningBlocks, criticalBlocks, selectedBlock } = useMemo(() => {
-    const healthy: Feature<Polygon>[] = [];
-    const warning: Feature<Polygon>[] = [];
-    const critical: Feature<Polygon>[] = [];
-    let selected: Feature<Polygon> | null = null;
+    const healthy: Feature<BlockGeometry>[] = [];
+    const warning: Feature<BlockGeometry>[] = [];
+    const critical: Feature<BlockGeometry>[] = [];
+    let selected: Feature<BlockGeometry> | null = null;
 
     visibleBlocks.forEach((block) => {
       const metrics = blockMetrics[block.id];
       const status = getBlockStatus(metrics ?? null);
-      const feature: Feature<Polygon> = {
+      const feature: Feature<BlockGeometry> = {
         type: 'Feature',
         id: block.id,
         properties: {
@@ -153,7 +165,7 @@ export function FarmMap({
       }
     });
 
-    const features: Feature<Polygon>[] = visibleBlocks
+    const features: Feature<BlockGeometry>[] = visibleBlocks
       .filter((block) => alertedBlockIds.has(block.id))
       .map((block) => ({
         type: 'Feature',
@@ -196,8 +208,19 @@ export function FarmMap({
       },
     };
 
+    // Every ping, for the tooltip with what the tracker reported
+    const pings: Feature<Point>[] = visitPath.map((p, index) => ({
+      type: 'Feature',
+      properties: { index },
+      geometry: {
+        type: 'Point',
+        coordinates: [p.lon, p.lat],
+      },
+    }));
+
     return {
       line: { type: 'FeatureCollection', features: [lineString] } as FeatureCollection,
+      pings: { type: 'FeatureCollection', features: pings } as FeatureCollection,
       points: { type: 'FeatureCollection', features: [startPoint, endPoint] } as FeatureCollection,
     };
   }, [visitPath]);
@@ -250,9 +273,9 @@ export function FarmMap({
 
   const handleMapClick = useCallback(
     (event: mapboxgl.MapLayerMouseEvent) => {
-      const features = event.features;
-      if (features && features.length > 0) {
-        const clickedFeature = features[0];
+      // Path pings are drawn over the blocks
+      const clickedFeature = event.features?.find((feature) => feature.layer.id !== VISIT_PATH_PINGS_LAYER);
+      if (clickedFeature) {
         const blockId = clickedFeature.properties?.id;
         const block = blocks.find((b) => b.id === blockId);
         if (block) {
@@ -273,10 +296,16 @@ export function FarmMap({
     if (mapRef.current) {
       mapRef.current.getCanvas().style.cursor = '';
     }
+    setHoveredPingIndex(null);
+  }, []);
+
+  const handleMouseMove = useCallback((event: mapboxgl.MapLayerMouseEvent) => {
+    const ping = event.features?.find((feature) => feature.layer.id === VISIT_PATH_PINGS_LAYER);
+    setHoveredPingIndex(ping ? Number(ping.properties?.index) : null);
   }, []);
 
   const interactiveLayerIds = useMemo(
-    () => ['blocks-healthy-fill', 'blocks-warning-fill', 'blocks-critical-fill'],
+    () => ['blocks-healthy-fill', 'blocks-warning-fill', 'blocks-critical-fill', VISIT_PATH_PINGS_LAYER],
     []
   );
 
@@ -317,6 +346,7 @@ export function FarmMap({
         onClick={handleMapClick}
         onMouseEnter={handleMouseEnter}
         onMouseLeave={handleMouseLeave}
+        onMouseMove={handleMouseMove}
         interactiveLayerIds={interactiveLayerIds}
       >
         <NavigationControl position="bottom-left" showCompass={false} />
@@ -454,6 +484,18 @@ export function FarmMap({
                 }}
               />
             </Source>
+            <Source id="visit-path-pings" type="geojson" data={pathData.pings}>
+              <Layer
+                id={VISIT_PATH_PINGS_LAYER}
+                type="circle"
+                paint={{
+                  'circle-radius': 3,
+                  'circle-color': '#3b82f6',
+                  'circle-stroke-width': 1,
+                  'circle-stroke-color': '#ffffff',
+                }}
+              />
+            </Source>
             <Source id="visit-path-points" type="geojson" data={pathData.points}>
               <Layer
                 id="visit-path-points-layer"
@@ -472,6 +514,10 @@ export function FarmMap({
                 }}
               />
             </Source>
+            {visitStops.map((stop) => (
+              <VisitStopMarker key={stop.id} stop={stop} />
+            ))}
+            {hoveredPing && <VisitPingPopup ping={hoveredPing} />}
           </>
         )}
 
@@ -498,7 +544,9 @@ export function FarmMap({
           </Source>
         )}
         {tractors.map((tractor) => {
-          if (!tractor.last_lat || !tractor.last_lon) return null;
+          if (tractor.last_lat === null || tractor.last_lon === null) return null;
+          const isOnline = !!tractor.last_seen_at
+            && Date.now() - new Date(tractor.last_seen_at).getTime() < TRACTOR_ONLINE_MINUTES * 60 * 1000;
           return (
             <Marker
               key={tractor.id}
@@ -524,12 +572,13 @@ export function FarmMap({
                     <path d="M20 17.5V9a1 1 0 0 0-1-1h-3l-2-3H9" />
                   </svg>
                 </div>
-                <div className="absolute bottom-0 right-0 w-2.5 h-2.5 bg-success rounded-full border-2 border-white" />
+                <div className={`absolute bottom-0 right-0 w-2.5 h-2.5 rounded-full border-2 border-white ${isOnline ? 'bg-success' : 'bg-muted-foreground'}`} />
                 {/* Tooltip on hover */}
                 <div className="absolute left-1/2 -translate-x-1/2 bottom-full mb-2 opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none">
                   <div className="bg-card text-card-foreground px-2 py-1 rounded shadow-lg border text-sm whitespace-nowrap">
                     <strong className="font-display">{tractor.name}</strong>
                     <p className="text-muted-foreground text-xs">{tractor.identifier}</p>
+                    <p className="text-muted-foreground text-xs">{formatTimeSince(tractor.last_seen_at)}</p>
                   </div>
                 </div>
               </div>
@@ -590,6 +639,14 @@ export function FarmMap({
               <div className="w-6 h-0.5 bg-primary/50" style={{ backgroundImage: 'repeating-linear-gradient(90deg, hsl(var(--primary)), hsl(var(--primary)) 4px, transparent 4px, transparent 8px)' }} />
               <div className="w-3 h-3 rounded-full bg-destructive border-2 border-white shadow" />
               <span className="text-muted-foreground">Fin</span>
+              {visitStops.length > 0 && (
+                <>
+                  <div className="w-3 h-3 rounded-full bg-warning border-2 border-white shadow ml-2" />
+                  <span className="text-muted-foreground">
+                    {visitStops.length} {visitStops.length === 1 ? 'detención' : 'detenciones'}
+                  </span>
+                </>
+              )}
             </div>
             <Button variant="ghost" size="sm" onClick={onClearPath}>
               <X className="w-4 h-4 mr-1" />
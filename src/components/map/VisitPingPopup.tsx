@@ -0,0 +1,44 @@
+import { Popup } from 'react-map-gl';
+import { format } from 'date-fns';
+import type { GpsPing } from '@/types/farm';
+
+const isNumber = (value: number | null | undefined): value is number => typeof value === 'number';
+
+// What the tracker reported with the ping, one line per value it has
+function telemetryLines(ping: GpsPing): string[] {
+  const lines: string[] = [];
+  if (isNumber(ping.speed)) lines.push(`Velocidad: ${ping.speed.toFixed(1)} km/h`);
+  if (isNumber(ping.heading)) lines.push(`Rumbo: ${Math.round(ping.heading)}°`);
+  if (isNumber(ping.altitude)) lines.push(`Altitud: ${Math.round(ping.altitude)} m`);
+
+  const fix = [
+    isNumber(ping.hdop) ? `HDOP ${ping.hdop.toFixed(1)}` : null,
+    isNumber(ping.satellites) ? `${ping.satellites} satélites` : null,
+  ].filter(Boolean);
+  if (fix.length > 0) lines.push(fix.join(' · '));
+
+  if (typeof ping.ignition === 'boolean') lines.push(ping.ignition ? 'Contacto encendido' : 'Contacto apagado');
+  if (typeof ping.pto === 'boolean') lines.push(ping.pto ? 'TDF enganchada' : 'TDF desenganchada');
+  return lines;
+}
+
+// Ping of the visit path under the cursor
+export function VisitPingPopup({ ping }: { ping: GpsPing }) {
+  return (
+    <Popup
+      longitude={ping.lon}
+      latitude={ping.lat}
+      anchor="bottom"
+      offset={8}
+      closeButton={false}
+      closeOnClick={false}
+    >
+      <div className="text-xs space-y-0.5">
+        <strong className="font-display">{format(new Date(ping.ts), 'HH:mm:ss')}</strong>
+        {telemetryLines(ping).map((line) => (
+          <p key={line} className="text-muted-foreground">{line}</p>
+        ))}
+      </div>
+    </Popup>
+  );
+}
@@ -0,0 +1,38 @@
+import { Marker } from 'react-map-gl';
+import { format } from 'date-fns';
+import { Pause } from 'lucide-react';
+import type { VisitStop } from '@/types/farm';
+import { formatDuration } from '@/hooks/useBlockVisitStats';
+
+interface VisitStopMarkerProps {
+  stop: VisitStop;
+  size?: 'sm' | 'md';
+}
+
+// Stop detected inside a visit, drawn on top of the visit path
+export function VisitStopMarker({ stop, size = 'md' }: VisitStopMarkerProps) {
+  const label = `Detenido ${formatDuration(stop.duration_minutes)} · ${format(new Date(stop.started_at), 'HH:mm')}–${format(new Date(stop.ended_at), 'HH:mm')}`;
+
+  return (
+    <Marker longitude={stop.lon} latitude={stop.lat} anchor="center">
+      <div className="relative group" title={label}>
+        <div
+          className={
+            size === 'sm'
+              ? 'w-4 h-4 bg-warning rounded-full flex items-center justify-center border border-white shadow'
+              : 'w-6 h-6 bg-warning rounded-full flex items-center justify-center border-2 border-white shadow-lg transition-transform group-hover:scale-110'
+          }
+        >
+          <Pause className={size === 'sm' ? 'w-2.5 h-2.5 text-white' : 'w-3.5 h-3.5 text-white'} />
+        </div>
+        {size === 'md' && (
+          <div className="absolute left-1/2 -translate-x-1/2 bottom-full mb-2 opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none">
+            <div className="bg-card text-card-foreground px-2 py-1 rounded shadow-lg border text-xs whitespace-nowrap">
+              {label}
+            </div>
+          </div>
+        )}
+      </div>
+    </Marker>
+  );
+}
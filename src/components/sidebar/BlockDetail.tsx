@@ -1,19 +1,25 @@
-import { X, Clock, Calendar, Tractor, Bell, BellPlus, BellOff, CheckCircle, AlertTriangle, TrendingUp, Route, ChevronRight, Gauge, Target, MapPin, Download, FileText, FileSpreadsheet, Pencil, Trash2, MoreVertical, RefreshCw, Loader2 } from 'lucide-react';
+import { useState, useEffect, useMemo } from 'react';
+import { X, Clock, Calendar, Tractor, Bell, BellPlus, BellOff, CheckCircle, AlertTriangle, TrendingUp, Route, ChevronRight, Gauge, Target, MapPin, Download, FileText, FileSpreadsheet, Pencil, Trash2, MoreVertical, RefreshCw, Loader2, SlidersHorizontal, User, Users } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { cn } from '@/lib/utils';
-import type { Block, BlockMetrics, BlockVisit, Alert, Tractor as TractorType, GpsPing, VisitCoverageStats } from '@/types/farm';
-import { getBlockStatus, formatTimeSince, getAlertEffectiveStatus, type BlockStatus } from '@/types/farm';
+import type { Block, BlockMetrics, BlockVisit, Alert, Tractor as TractorType, GpsPing, VisitCoverageStats, VisitStop, Implement, Operator } from '@/types/farm';
+import { getBlockStatus, formatTimeSince, getAlertEffectiveStatus, getEffectiveWorkMinutes, type BlockStatus } from '@/types/farm';
 import { format } from 'date-fns';
 import { es } from 'date-fns/locale';
 import { useBlockVisitStats, formatDuration } from '@/hooks/useBlockVisitStats';
 import { useReportExport } from '@/hooks/useReportExport';
-import { useProcessVisits } from '@/hooks/useProcessVisits';
+import { useProcessVisits, type BlockReprocessPreview } from '@/hooks/useProcessVisits';
+import { useToast } from '@/hooks/use-toast';
+import { getBlockAreaHectares } from '@/lib/blockGeometry';
+import { summarizeOperatorProductivity } from '@/lib/operatorProductivity';
 import { BarChart, Bar, XAxis, YAxis, ResponsiveContainer, Tooltip, Cell } from 'recharts';
 import { BlockMiniMap } from './BlockMiniMap';
+import { ReprocessPreviewDialog } from '@/components/dialogs/ReprocessPreviewDialog';
 import type { Feature, Polygon } from 'geojson';
 
 interface BlockDetailProps {
@@ -21,6 +27,7 @@ interface BlockDetailProps {
   metrics: BlockMetrics | null;
   visits: BlockVisit[];
   tractors: TractorType[];
+  operators?: Operator[];
   alerts: Alert[];
   onClose: () => void;
   onConfigureAlert: () => void;
@@ -29,11 +36,15 @@ interface BlockDetailProps {
   onVisitSelect?: (visit: BlockVisit) => void;
   selectedVisitId?: string | null;
   visitPath?: GpsPing[];
+  visitStops?: VisitStop[];
   coverageStats?: VisitCoverageStats | null;
   onToggleMissedAreas?: () => void;
   showMissedAreas?: boolean;
+  implementsList?: Implement[];
+  onVisitImplementChange?: (visit: BlockVisit, implementId: string | null) => void;
   onEditBlock?: () => void;
   onDeleteBlock?: () => void;
+  onConfigureDetection?: () => void;
 }
 
 function StatusBadge({ hasTriggeredAlert }: { hasTriggeredAlert: boolean }) {
@@ -59,6 +70,7 @@ function StatusBadge({ hasTriggeredAlert }: { hasTriggeredAlert: boolean }) {
 function VisitTimelineItem({ 
   visit, 
   tractor, 
+  operator,
   isSelected, 
   onClick,
   isFirst,
@@ -66,9 +78,12 @@ function VisitTimelineItem({
   coverageStats,
   onToggleMissedAreas,
   showMissedAreas,
+  implementsList = [],
+  onImplementChange,
 }: { 
   visit: BlockVisit; 
   tractor: TractorType | undefined;
+  operator: Operator | undefined;
   isSelected: boolean;
   onClick: () => void;
   isFirst: boolean;
@@ -76,10 +91,13 @@ function VisitTimelineItem({
   coverageStats?: VisitCoverageStats | null;
   onToggleMissedAreas?: () => void;
   showMissedAreas?: boolean;
+  implementsList?: Implement[];
+  onImplementChange?: (implementId: string | null) => void;
 }) {
   const duration = visit.ended_at 
     ? (new Date(visit.ended_at).getTime() - new Date(visit.started_at).getTime()) / (1000 * 60)
     : null;
+  const effectiveMinutes = getEffectiveWorkMinutes(visit);
 
   return (
     <div 
@@ -136,7 +154,68 @@ function VisitTimelineItem({
           <span>•</span>
           <span>{visit.ping_count} pings</span>
         </div>
+        {operator && (
+          <div className="flex items-center gap-1 mt-0.5 text-xs text-muted-foreground">
+            <User className="w-3 h-3" />
+            <span>{operator.name}</span>
+          </div>
+        )}
+
+        {/* Time per activity - shown when selected */}
+        {isSelected && visit.working_minutes !== null && (
+          <div className="mt-2 grid grid-cols-3 gap-2 text-xs">
+            <div>
+              <div className="text-muted-foreground">Trabajando</div>
+              <div className="font-semibold text-success">{formatDuration(visit.working_minutes)}</div>
+            </div>
+            <div>
+              <div className="text-muted-foreground">En tránsito</div>
+              <div className="font-semibold">{formatDuration(visit.transit_minutes ?? 0)}</div>
+            </div>
+            <div>
+              <div className="text-muted-foreground">Detenido</div>
+              <div className="font-semibold">{formatDuration(visit.idle_minutes ?? 0)}</div>
+            </div>
+          </div>
+        )}
+
+        {/* Effective work time, without stops - shown when selected */}
+        {isSelected && effectiveMinutes !== null && (
+          <div className="mt-2 grid grid-cols-2 gap-2 text-xs">
+            <div>
+              <div className="text-muted-foreground">Tiempo efectivo</div>
+              <div className="font-semibold text-success">{formatDuration(effectiveMinutes)}</div>
+            </div>
+            <div>
+              <div className="text-muted-foreground">En detenciones</div>
+              <div className="font-semibold">{formatDuration(visit.stopped_minutes ?? 0)}</div>
+            </div>
+          </div>
+        )}
         
+        {/* Implement of this visit - shown when selected */}
+        {isSelected && onImplementChange && implementsList.length > 0 && (
+          <div className="mt-2 flex items-center gap-2 text-xs" onClick={(e) => e.stopPropagation()}>
+            <span className="text-muted-foreground shrink-0">Implemento</span>
+            <Select
+              value={visit.implement_id ?? 'assigned'}
+              onValueChange={(value) => onImplementChange(value === 'assigned' ? null : value)}
+            >
+              <SelectTrigger className="h-7 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="assigned">Según asignación del tractor</SelectItem>
+                {implementsList
+                  .filter((i) => !i.archived_at || i.id === visit.implement_id)
+                  .map((i) => (
+                    <SelectItem key={i.id} value={i.id}>{i.name} ({i.working_width_meters} m)</SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
         {/* Coverage analysis - shown when selected */}
         {isSelected && coverageStats && (
           <div 
@@ -181,6 +260,10 @@ function VisitTimelineItem({
                 <div className="text-muted-foreground">Distancia</div>
                 <div className="font-semibold">{(coverageStats.totalDistance / 1000).toFixed(2)} km</div>
               </div>
+              <div>
+                <div className="text-muted-foreground">Ancho de trabajo</div>
+                <div className="font-semibold">{coverageStats.workWidthMeters} m</div>
+              </div>
             </div>
             {coverageStats.missedAreas.length > 0 && onToggleMissedAreas && (
               <Button 
@@ -214,6 +297,7 @@ export function BlockDetail({
   metrics,
   visits,
   tractors,
+  operators = [],
   alerts,
   onClose,
   onConfigureAlert,
@@ -222,11 +306,15 @@ export function BlockDetail({
   onVisitSelect,
   selectedVisitId,
   visitPath,
+  visitStops,
   coverageStats,
   onToggleMissedAreas,
   showMissedAreas,
+  implementsList,
+  onVisitImplementChange,
   onEditBlock,
   onDeleteBlock,
+  onConfigureDetection,
 }: BlockDetailProps) {
   // Calculate if any alert is triggered
   const hasTriggeredAlert = alerts.some(alert => 
@@ -234,8 +322,29 @@ export function BlockDetail({
   );
   const tractorMap = new Map(tractors.map((t) => [t.id, t]));
   const visitStats = useBlockVisitStats(visits);
+  const areaHectares = getBlockAreaHectares(block);
   const { exportToPDF, exportToCSV } = useReportExport();
-  const { processVisits, isProcessing } = useProcessVisits();
+  const { processVisits, isProcessing, previewVisits, isPreviewing } = useProcessVisits();
+  const { toast } = useToast();
+  const [reprocessPreviewOpen, setReprocessPreviewOpen] = useState(false);
+  const [reprocessPreview, setReprocessPreview] = useState<BlockReprocessPreview | null>(null);
+  // 'all', 'none' (visits no shift covered) or an operator id
+  const [operatorFilter, setOperatorFilter] = useState('all');
+  const operatorMap = new Map(operators.map((o) => [o.id, o]));
+
+  useEffect(() => {
+    setOperatorFilter('all');
+  }, [block.id]);
+
+  const filteredVisits = operatorFilter === 'all'
+    ? visits
+    : visits.filter((v) => (operatorFilter === 'none' ? v.operator_id === null : v.operator_id === operatorFilter));
+  const operatorProductivity = useMemo(() => summarizeOperatorProductivity(visits), [visits]);
+  const operatorFilterLabel = operatorFilter === 'all'
+    ? null
+    : operatorFilter === 'none'
+      ? 'Sin operador'
+      : operatorMap.get(operatorFilter)?.name ?? 'Desconocido';
   
   // Calculate hours since last visit
   const hoursSinceLastVisit = metrics?.last_seen_at
@@ -251,8 +360,10 @@ export function BlockDetail({
     exportToPDF({
       block,
       metrics,
-      visits,
+      visits: filteredVisits,
       tractors,
+      operators,
+      operatorFilterLabel,
       visitStats,
       selectedVisit,
       coverageStats,
@@ -263,20 +374,48 @@ export function BlockDetail({
     exportToCSV({
       block,
       metrics,
-      visits,
+      visits: filteredVisits,
       tractors,
+      operators,
+      operatorFilterLabel,
       visitStats,
       selectedVisit,
       coverageStats,
     });
   };
 
+  // Show what a full reprocess would change before applying it
   const handleReprocessVisits = async () => {
-    await processVisits({ blockId: block.id });
+    setReprocessPreview(null);
+    setReprocessPreviewOpen(true);
+    const result = await previewVisits({ blockId: block.id });
+    if (!result) {
+      setReprocessPreviewOpen(false);
+      return;
+    }
+    // A block the function skipped (e.g. invalid geometry) has no preview
+    const preview = result.blocks?.find(b => b.block_id === block.id);
+    if (!preview) {
+      setReprocessPreviewOpen(false);
+      toast({
+        title: 'Error',
+        description: result.errors?.[0] ?? 'No se pudo calcular la vista previa',
+        variant: 'destructive',
+      });
+      return;
+    }
+    setReprocessPreview(preview);
+  };
+
+  const handleConfirmReprocess = async () => {
+    const result = await processVisits({ blockId: block.id, mode: 'full' });
+    if (result?.success) {
+      setReprocessPreviewOpen(false);
+    }
   };
 
   // Group visits by date
-  const visitsByDate = visits.reduce((acc, visit) => {
+  const visitsByDate = filteredVisits.reduce((acc, visit) => {
     const dateKey = format(new Date(visit.started_at), 'yyyy-MM-dd');
     if (!acc[dateKey]) acc[dateKey] = [];
     acc[dateKey].push(visit);
@@ -314,14 +453,20 @@ export function BlockDetail({
                   Exportar como CSV
                 </DropdownMenuItem>
                 <DropdownMenuSeparator />
-                <DropdownMenuItem onClick={handleReprocessVisits} disabled={isProcessing}>
-                  {isProcessing ? (
+                <DropdownMenuItem onClick={handleReprocessVisits} disabled={isProcessing || isPreviewing}>
+                  {isProcessing || isPreviewing ? (
                     <Loader2 className="w-4 h-4 mr-2 animate-spin" />
                   ) : (
                     <RefreshCw className="w-4 h-4 mr-2" />
                   )}
                   Reprocesar historial GPS
                 </DropdownMenuItem>
+                {onConfigureDetection && (
+                  <DropdownMenuItem onClick={onConfigureDetection}>
+                    <SlidersHorizontal className="w-4 h-4 mr-2" />
+                    Detección de pasadas
+                  </DropdownMenuItem>
+                )}
                 <DropdownMenuSeparator />
                 <DropdownMenuItem onClick={onEditBlock}>
                   <Pencil className="w-4 h-4 mr-2" />
@@ -344,9 +489,9 @@ export function BlockDetail({
         
         <div className="mt-3 flex items-center gap-2">
           <StatusBadge hasTriggeredAlert={hasTriggeredAlert} />
-          {(block.metadata as any)?.hectares && (
+          {areaHectares !== null && (
             <Badge variant="secondary">
-              {(block.metadata as any).hectares} ha
+              {areaHectares.toFixed(1)} ha
             </Badge>
           )}
         </div>
@@ -422,6 +567,7 @@ export function BlockDetail({
             <BlockMiniMap 
               block={block} 
               visitPath={visitPath}
+              visitStops={visitStops}
               missedAreas={showMissedAreas ? coverageStats?.missedAreas : undefined}
             />
           </div>
@@ -557,6 +703,33 @@ export function BlockDetail({
 
           <Separator />
 
+          {/* Productivity per operator */}
+          {operators.length > 0 && operatorProductivity.length > 0 && (
+            <>
+              <div>
+                <h3 className="font-medium text-sm flex items-center gap-2 mb-3">
+                  <Users className="w-4 h-4" />
+                  Productividad por operador
+                </h3>
+                <div className="space-y-1.5">
+                  {operatorProductivity.map((p) => (
+                    <div key={p.operatorId ?? 'none'} className="flex items-center justify-between text-sm">
+                      <span className={cn('truncate', p.operatorId === null && 'text-muted-foreground')}>
+                        {p.operatorId ? operatorMap.get(p.operatorId)?.name ?? 'Desconocido' : 'Sin operador'}
+                      </span>
+                      <span className="text-xs text-muted-foreground shrink-0 ml-2">
+                        {p.passes} pasadas • {formatDuration(p.effectiveMinutes ?? p.totalMinutes)}
+                        {p.effectiveMinutes !== null && ' efectivas'}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <Separator />
+            </>
+          )}
+
           {/* Visit timeline */}
           <div>
             <h3 className="font-medium text-sm flex items-center gap-2 mb-3">
@@ -568,8 +741,23 @@ export function BlockDetail({
                 </span>
               )}
             </h3>
+
+            {operators.length > 0 && visits.length > 0 && (
+              <Select value={operatorFilter} onValueChange={setOperatorFilter}>
+                <SelectTrigger className="h-8 text-xs mb-3">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Todos los operadores</SelectItem>
+                  {operators.map((o) => (
+                    <SelectItem key={o.id} value={o.id}>{o.name}</SelectItem>
+                  ))}
+                  <SelectItem value="none">Sin operador</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
             
-            {visits.length > 0 ? (
+            {filteredVisits.length > 0 ? (
               <div className="space-y-4">
                 {sortedDates.slice(0, 5).map((dateKey) => {
                   const dayVisits = visitsByDate[dateKey];
@@ -586,6 +774,7 @@ export function BlockDetail({
                             key={visit.id}
                             visit={visit}
                             tractor={tractorMap.get(visit.tractor_id)}
+                            operator={visit.operator_id ? operatorMap.get(visit.operator_id) : undefined}
                             isSelected={selectedVisitId === visit.id}
                             onClick={() => onVisitSelect?.(visit)}
                             isFirst={idx === 0}
@@ -593,6 +782,8 @@ export function BlockDetail({
                             coverageStats={selectedVisitId === visit.id ? coverageStats : undefined}
                             onToggleMissedAreas={selectedVisitId === visit.id ? onToggleMissedAreas : undefined}
                             showMissedAreas={selectedVisitId === visit.id ? showMissedAreas : undefined}
+                            implementsList={implementsList}
+                            onImplementChange={onVisitImplementChange ? (implementId) => onVisitImplementChange(visit, implementId) : undefined}
                           />
                         ))}
                       </div>
@@ -608,12 +799,23 @@ export function BlockDetail({
               </div>
             ) : (
               <div className="text-center py-4 text-muted-foreground text-sm">
-                Sin pasadas registradas
+                {visits.length > 0 ? 'Sin pasadas de este operador' : 'Sin pasadas registradas'}
               </div>
             )}
           </div>
         </div>
       </ScrollArea>
+
+      <ReprocessPreviewDialog
+        open={reprocessPreviewOpen}
+        onOpenChange={setReprocessPreviewOpen}
+        block={block}
+        tractors={tractors}
+        preview={reprocessPreview}
+        isPreviewing={isPreviewing}
+        onConfirm={handleConfirmReprocess}
+        isLoading={isProcessing}
+      />
     </div>
   );
 }
@@ -2,7 +2,8 @@ import { useMemo, useRef, useEffect } from 'react';
 import Map, { Source, Layer, type MapRef } from 'react-map-gl';
 import mapboxgl from 'mapbox-gl';
 import type { Feature, FeatureCollection, Polygon, LineString, Point } from 'geojson';
-import type { Block, GpsPing } from '@/types/farm';
+import type { Block, GpsPing, VisitStop } from '@/types/farm';
+import { VisitStopMarker } from '@/components/map/VisitStopMarker';
 import * as turf from '@turf/turf';
 import 'mapbox-gl/dist/mapbox-gl.css';
 
@@ -11,10 +12,11 @@ const MAPBOX_TOKEN = import.meta.env.VITE_MAPBOX_TOKEN;
 interface BlockMiniMapProps {
   block: Block;
   visitPath?: GpsPing[];
+  visitStops?: VisitStop[];
   missedAreas?: Feature<Polygon>[];
 }
 
-export function BlockMiniMap({ block, visitPath, missedAreas }: BlockMiniMapProps) {
+export function BlockMiniMap({ block, visitPath, visitStops = [], missedAreas }: BlockMiniMapProps) {
   const mapRef = useRef<MapRef>(null);
 
   // Calculate bounds from block geometry
@@ -208,6 +210,9 @@ export function BlockMiniMap({ block, visitPath, missedAreas }: BlockMiniMapProp
                 }}
               />
             </Source>
+            {visitStops.map((stop) => (
+              <VisitStopMarker key={stop.id} stop={stop} size="sm" />
+            ))}
           </>
         )}
       </Map>
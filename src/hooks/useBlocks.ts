@@ -1,7 +1,7 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
-import type { Block, BlockMetrics } from '@/types/farm';
-import type { Feature, Polygon } from 'geojson';
+import type { Block, BlockGeometry, BlockMetrics } from '@/types/farm';
+import type { Feature } from 'geojson';
 import type { Database } from '@/integrations/supabase/types';
 
 type BlockInsert = Database['public']['Tables']['blocks']['Insert'];
@@ -17,10 +17,10 @@ export function useBlocks(tenantId: string | null | undefined) {
       
       if (error) throw error;
       
-      // Cast geometry_geojson from Json to Feature<Polygon>
+      // Cast geometry_geojson from Json to Feature<BlockGeometry>
       return (data || []).map(block => ({
         ...block,
-        geometry_geojson: block.geometry_geojson as unknown as Feature<Polygon>,
+        geometry_geojson: block.geometry_geojson as unknown as Feature<BlockGeometry>,
       })) as Block[];
     },
     enabled: !!tenantId,
@@ -53,7 +53,7 @@ interface CreateBlockInput {
   name: string;
   farm_name: string | null;
   crop: string | null;
-  geometry_geojson: Feature<Polygon>;
+  geometry_geojson: Feature<BlockGeometry>;
   metadata?: Record<string, unknown>;
 }
 
@@ -95,7 +95,7 @@ export function useCreateBlock() {
 
       return {
         ...block,
-        geometry_geojson: block.geometry_geojson as unknown as Feature<Polygon>,
+        geometry_geojson: block.geometry_geojson as unknown as Feature<BlockGeometry>,
       } as Block;
     },
     onSuccess: (_, variables) => {
@@ -134,7 +134,7 @@ export function useCreateBlocksBatch() {
         
         insertedBlocks.push({
           ...block,
-          geometry_geojson: block.geometry_geojson as unknown as Feature<Polygon>,
+          geometry_geojson: block.geometry_geojson as unknown as Feature<BlockGeometry>,
         } as Block);
       }
 
@@ -185,7 +185,7 @@ export function useUpdateBlock() {
 
       return {
         ...block,
-        geometry_geojson: block.geometry_geojson as unknown as Feature<Polygon>,
+        geometry_geojson: block.geometry_geojson as unknown as Feature<BlockGeometry>,
       } as Block;
     },
     onSuccess: (_, variables) => {
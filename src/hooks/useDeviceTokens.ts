@@ -0,0 +1,72 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  DEVICE_TOKEN_DISPLAY_LENGTH,
+  generateDeviceToken,
+  hashDeviceToken,
+} from '@shared/pingIngest';
+import type { TractorDeviceToken } from '@/types/farm';
+
+// Endpoint trackers post their pings to with a device token
+export const DEVICE_INGEST_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/ingest-gps`;
+
+// Every device token of the tenant, revoked ones included, newest first
+export function useDeviceTokens(tenantId: string | null | undefined) {
+  return useQuery({
+    queryKey: ['tractor_device_tokens', tenantId],
+    queryFn: async (): Promise<TractorDeviceToken[]> => {
+      if (!tenantId) return [];
+
+      const { data, error } = await supabase
+        .from('tractor_device_tokens')
+        .select('id, tenant_id, tractor_id, name, token_prefix, last_used_at, revoked_at, created_at')
+        .eq('tenant_id', tenantId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!tenantId,
+  });
+}
+
+// Resolves to the plain token, which is not stored and can only be shown now
+export function useCreateDeviceToken() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: { tenant_id: string; tractor_id: string; name: string }): Promise<string> => {
+      const token = generateDeviceToken();
+      const { error } = await supabase.from('tractor_device_tokens').insert({
+        ...input,
+        token_hash: await hashDeviceToken(token),
+        token_prefix: token.slice(0, DEVICE_TOKEN_DISPLAY_LENGTH),
+      });
+
+      if (error) throw error;
+      return token;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['tractor_device_tokens', variables.tenant_id] });
+    },
+  });
+}
+
+export function useRevokeDeviceToken() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, tenant_id }: { id: string; tenant_id: string }) => {
+      const { error } = await supabase
+        .from('tractor_device_tokens')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('id', id)
+        .eq('tenant_id', tenant_id);
+
+      if (error) throw error;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['tractor_device_tokens', variables.tenant_id] });
+    },
+  });
+}
@@ -0,0 +1,131 @@
+import { useState, useCallback } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useTenant } from '@/hooks/useTenant';
+import { findPartOffsets } from '@/lib/largeGpsFiles';
+import { DEFAULT_VALUE_FORMAT, GPS_IMPORTS_BUCKET, importPartPath, type CsvColumnMapping, type CsvParseOptions } from '@shared/csvImport';
+import type { PingCleaningOptions } from '@shared/pingCleaning';
+import type { ImportBatch } from '@/types/farm';
+
+interface FileImportOptions {
+  tractorId: string;
+  columnMapping: CsvColumnMapping;
+  parseOptions: CsvParseOptions;
+  cleaning: Partial<PingCleaningOptions>;
+  processVisits: boolean;
+}
+
+interface UploadProgress {
+  batchId: string;
+  partsUploaded: number;
+  partsTotal: number;
+}
+
+const UPLOAD_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 2000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Ask process-gps-file to parse the uploaded parts (or resume where it stopped)
+async function startFileProcessing(batchId: string) {
+  const { error } = await supabase.functions.invoke('process-gps-file', {
+    body: { import_batch_id: batchId },
+  });
+  if (error) throw error;
+}
+
+/**
+ * Imports of large CSV files: the file goes to storage in parts that end at
+ * line breaks, its progress is kept on the import batch, and process-gps-file
+ * parses it on the server. A dropped upload resumes at the first part not yet
+ * stored when the same file is selected again.
+ */
+export function useGpsFileImport() {
+  const queryClient = useQueryClient();
+  const { tenantId } = useTenant();
+  const [uploadProgress, setUploadProgress] = useState<UploadProgress | null>(null);
+
+  const uploadParts = useCallback(async (file: File, batch: Pick<ImportBatch, 'id' | 'tenant_id' | 'parts_uploaded'>, offsets: number[]) => {
+    for (let part = batch.parts_uploaded; part < offsets.length; part++) {
+      const blob = file.slice(offsets[part], offsets[part + 1] ?? file.size);
+
+      for (let attempt = 1; ; attempt++) {
+        const { error } = await supabase.storage
+          .from(GPS_IMPORTS_BUCKET)
+          .upload(importPartPath(batch.tenant_id, batch.id, part), blob, { upsert: true, contentType: 'text/csv' });
+        if (!error) break;
+        if (attempt >= UPLOAD_ATTEMPTS) throw error;
+        await sleep(RETRY_DELAY_MS * attempt);
+      }
+
+      const { error } = await supabase
+        .from('import_batches')
+        .update({ parts_uploaded: part + 1 })
+        .eq('id', batch.id);
+      if (error) throw error;
+
+      setUploadProgress({ batchId: batch.id, partsUploaded: part + 1, partsTotal: offsets.length });
+    }
+
+    await startFileProcessing(batch.id);
+    queryClient.invalidateQueries({ queryKey: ['import_batches', tenantId] });
+  }, [queryClient, tenantId]);
+
+  // Resolves to the import batch once the file is uploaded and being parsed
+  const startFileImport = useCallback(async (file: File, options: FileImportOptions): Promise<string> => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session || !tenantId) {
+      throw new Error('No hay sesión activa');
+    }
+
+    const offsets = await findPartOffsets(file);
+    const { data: batch, error } = await supabase
+      .from('import_batches')
+      .insert({
+        tenant_id: tenantId,
+        tractor_id: options.tractorId,
+        created_by: session.user.id,
+        created_by_email: session.user.email ?? null,
+        file_name: file.name,
+        file_size: file.size,
+        column_mapping: { ...options.columnMapping },
+        parse_options: {
+          ...options.parseOptions,
+          value_format: { ...DEFAULT_VALUE_FORMAT, ...options.parseOptions.value_format },
+          cleaning: { ...options.cleaning },
+          process_visits: options.processVisits,
+        },
+        status: 'uploading',
+        parts_total: offsets.length,
+      })
+      .select('id, tenant_id, parts_uploaded')
+      .single();
+    if (error) throw error;
+
+    setUploadProgress({ batchId: batch.id, partsUploaded: 0, partsTotal: offsets.length });
+    queryClient.invalidateQueries({ queryKey: ['import_batches', tenantId] });
+    await uploadParts(file, batch, offsets);
+    return batch.id;
+  }, [tenantId, queryClient, uploadParts]);
+
+  // Continue an interrupted upload with the file the user selected again
+  const resumeFileImport = useCallback(async (file: File, batch: ImportBatch) => {
+    const offsets = await findPartOffsets(file);
+    if (file.size !== batch.file_size || offsets.length !== batch.parts_total) {
+      throw new Error('El archivo no coincide con la importación interrumpida');
+    }
+
+    setUploadProgress({ batchId: batch.id, partsUploaded: batch.parts_uploaded, partsTotal: offsets.length });
+    await uploadParts(file, batch, offsets);
+  }, [uploadParts]);
+
+  // Parse the parts left by a failed or stalled import
+  const resumeFileProcessing = useCallback(async (batchId: string) => {
+    await startFileProcessing(batchId);
+    queryClient.invalidateQueries({ queryKey: ['import_batches', tenantId] });
+  }, [queryClient, tenantId]);
+
+  const reset = useCallback(() => setUploadProgress(null), []);
+
+  return { startFileImport, resumeFileImport, resumeFileProcessing, uploadProgress, reset };
+}
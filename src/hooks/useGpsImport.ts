@@ -1,12 +1,18 @@
 import { useState, useCallback } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { useTenant } from '@/hooks/useTenant';
+import type { PingCleaningOptions, PingQualityFlag } from '@shared/pingCleaning';
+import type { PingTelemetry } from '@shared/pingIngest';
+import type { ImportBatchStatus } from '@/types/farm';
 
-interface GpsPing {
+interface GpsPing extends PingTelemetry {
   ts: string;
   lat: number;
   lon: number;
   speed?: number;
+  work_state?: boolean;
 }
 
 interface ImportStats {
@@ -15,6 +21,8 @@ interface ImportStats {
   duplicates: number;
   errors: number;
   errorDetails: { row: number; reason: string }[];
+  // Pings dropped or flagged by the cleaning, per reason
+  cleaned: Partial<Record<PingQualityFlag, number>>;
 }
 
 interface ImportProgress {
@@ -24,15 +32,46 @@ interface ImportProgress {
   stats: ImportStats;
 }
 
+// File the pings come from, recorded as an import batch for the history
+export interface ImportSource {
+  file_name: string;
+  // Spreadsheet column used for each field; null for track files
+  column_mapping: Record<string, string | null> | null;
+}
+
+interface ImportOptions {
+  source: ImportSource;
+  onProgress?: (progress: ImportProgress) => void;
+  cleaning?: Partial<PingCleaningOptions>;
+}
+
+// First and last valid timestamps of the pings, shown in the import history
+function pingTimeRange(pings: GpsPing[]): { first_ping_at: string | null; last_ping_at: string | null } {
+  let first: number | null = null;
+  let last: number | null = null;
+  for (const ping of pings) {
+    const time = new Date(ping.ts).getTime();
+    if (isNaN(time)) continue;
+    if (first === null || time < first) first = time;
+    if (last === null || time > last) last = time;
+  }
+  return {
+    first_ping_at: first === null ? null : new Date(first).toISOString(),
+    last_ping_at: last === null ? null : new Date(last).toISOString(),
+  };
+}
+
 export function useGpsImport() {
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { tenantId } = useTenant();
   const [isImporting, setIsImporting] = useState(false);
   const [progress, setProgress] = useState<ImportProgress | null>(null);
 
   const importPings = useCallback(async (
     tractorId: string,
     pings: GpsPing[],
-    onProgress?: (progress: ImportProgress) => void
+    { source, onProgress, cleaning }: ImportOptions
   ): Promise<ImportStats> => {
     setIsImporting(true);
     
@@ -45,6 +84,31 @@ export function useGpsImport() {
       duplicates: 0,
       errors: 0,
       errorDetails: [],
+      cleaned: {},
+    };
+
+    let batchId: string | null = null;
+
+    // Close the batch with what made it in, even when a chunk failed halfway;
+    // the pings already inserted stay tagged and can still be rolled back.
+    // A batch rolled back while importing keeps that status.
+    const finishBatch = async (status: ImportBatchStatus) => {
+      if (!batchId) return;
+      const { error } = await supabase
+        .from('import_batches')
+        .update({
+          status,
+          stats: {
+            total: aggregatedStats.total,
+            inserted: aggregatedStats.inserted,
+            duplicates: aggregatedStats.duplicates,
+            errors: aggregatedStats.errors,
+          },
+        })
+        .eq('id', batchId)
+        .eq('status', 'importing');
+      if (error) console.error('Failed to update import batch:', error);
+      queryClient.invalidateQueries({ queryKey: ['import_batches', tenantId] });
     };
 
     try {
@@ -52,6 +116,25 @@ export function useGpsImport() {
       if (!session?.access_token) {
         throw new Error('No hay sesión activa');
       }
+      if (!tenantId) {
+        throw new Error('No se encontró la organización del usuario');
+      }
+
+      const { data: batch, error: batchError } = await supabase
+        .from('import_batches')
+        .insert({
+          tenant_id: tenantId,
+          tractor_id: tractorId,
+          created_by: session.user.id,
+          created_by_email: session.user.email ?? null,
+          file_name: source.file_name,
+          column_mapping: source.column_mapping,
+          ...pingTimeRange(pings),
+        })
+        .select('id')
+        .single();
+      if (batchError) throw batchError;
+      batchId = batch.id;
 
       for (let i = 0; i < pings.length; i += CHUNK_SIZE) {
         const chunk = pings.slice(i, i + CHUNK_SIZE);
@@ -61,6 +144,8 @@ export function useGpsImport() {
           body: {
             tractor_id: tractorId,
             pings: chunk,
+            cleaning,
+            import_batch_id: batchId,
           },
         });
 
@@ -75,26 +160,34 @@ export function useGpsImport() {
           aggregatedStats.duplicates += result.stats.duplicates;
           aggregatedStats.errors += result.stats.errors;
           if (result.stats.errorDetails) {
-            // Adjust row numbers for the chunk offset
+            // Adjust row numbers for the chunk offset; row 0 is a summary of the chunk
             const adjustedErrors = result.stats.errorDetails.map((e: { row: number; reason: string }) => ({
-              row: e.row + i,
+              row: e.row > 0 ? e.row + i : 0,
               reason: e.reason,
             }));
             aggregatedStats.errorDetails.push(...adjustedErrors);
           }
+          for (const [flag, count] of Object.entries(result.stats.cleaned ?? {}) as [PingQualityFlag, number][]) {
+            aggregatedStats.cleaned[flag] = (aggregatedStats.cleaned[flag] ?? 0) + count;
+          }
         }
 
         const currentProgress: ImportProgress = {
           currentChunk,
           totalChunks,
           totalProcessed: Math.min(i + CHUNK_SIZE, pings.length),
-          stats: { ...aggregatedStats },
+          stats: { ...aggregatedStats, cleaned: { ...aggregatedStats.cleaned } },
         };
 
         setProgress(currentProgress);
         onProgress?.(currentProgress);
       }
 
+      await finishBatch('completed');
+
+      // The import moves the tractor's last known position
+      queryClient.invalidateQueries({ queryKey: ['tractors'] });
+
       toast({
         title: 'Importación completada',
         description: `${aggregatedStats.inserted} pings importados, ${aggregatedStats.duplicates} duplicados, ${aggregatedStats.errors} errores`,
@@ -103,6 +196,7 @@ export function useGpsImport() {
       return aggregatedStats;
 
     } catch (error: any) {
+      await finishBatch('failed');
       toast({
         title: 'Error en la importación',
         description: error.message,
@@ -112,7 +206,7 @@ export function useGpsImport() {
     } finally {
       setIsImporting(false);
     }
-  }, [toast]);
+  }, [toast, queryClient, tenantId]);
 
   const reset = useCallback(() => {
     setProgress(null);
@@ -0,0 +1,160 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Implement, ImplementAssignment, ImplementType } from '@/types/farm';
+
+// Every implement of the tenant, archived ones included so past visits keep their width
+export function useImplements(tenantId: string | null | undefined) {
+  return useQuery({
+    queryKey: ['implements', tenantId],
+    queryFn: async (): Promise<Implement[]> => {
+      if (!tenantId) return [];
+
+      const { data, error } = await supabase
+        .from('implements')
+        .select('*')
+        .eq('tenant_id', tenantId)
+        .order('name');
+
+      if (error) throw error;
+
+      return (data || []).map(i => ({
+        id: i.id,
+        tenant_id: i.tenant_id,
+        name: i.name,
+        type: i.type as ImplementType,
+        working_width_meters: i.working_width_meters,
+        offset_back_meters: i.offset_back_meters,
+        offset_right_meters: i.offset_right_meters,
+        archived_at: i.archived_at,
+        created_at: i.created_at,
+      }));
+    },
+    enabled: !!tenantId,
+  });
+}
+
+export function useImplementAssignments(tenantId: string | null | undefined) {
+  return useQuery({
+    queryKey: ['implement_assignments', tenantId],
+    queryFn: async (): Promise<ImplementAssignment[]> => {
+      if (!tenantId) return [];
+
+      const { data, error } = await supabase
+        .from('implement_assignments')
+        .select('*')
+        .eq('tenant_id', tenantId)
+        .order('started_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!tenantId,
+  });
+}
+
+export interface ImplementInput {
+  id: string | null;
+  tenant_id: string;
+  name: string;
+  type: ImplementType;
+  working_width_meters: number;
+  offset_back_meters: number;
+  offset_right_meters: number;
+}
+
+export function useSaveImplement() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...values }: ImplementInput) => {
+      const query = id
+        ? supabase.from('implements').update(values).eq('id', id).eq('tenant_id', values.tenant_id)
+        : supabase.from('implements').insert(values);
+
+      const { error } = await query;
+      if (error) throw error;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['implements', variables.tenant_id] });
+    },
+  });
+}
+
+export function useArchiveImplement() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, tenant_id, archived }: { id: string; tenant_id: string; archived: boolean }) => {
+      const { error } = await supabase
+        .from('implements')
+        .update({ archived_at: archived ? new Date().toISOString() : null })
+        .eq('id', id)
+        .eq('tenant_id', tenant_id);
+
+      if (error) throw error;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['implements', variables.tenant_id] });
+    },
+  });
+}
+
+interface AssignmentInput {
+  tenant_id: string;
+  implement_id: string;
+  tractor_id: string;
+  started_at: string;
+  ended_at: string | null;
+}
+
+export function useCreateImplementAssignment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: AssignmentInput) => {
+      const { error } = await supabase.from('implement_assignments').insert(input);
+      if (error) throw error;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['implement_assignments', variables.tenant_id] });
+    },
+  });
+}
+
+export function useDeleteImplementAssignment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, tenant_id }: { id: string; tenant_id: string }) => {
+      const { error } = await supabase
+        .from('implement_assignments')
+        .delete()
+        .eq('id', id)
+        .eq('tenant_id', tenant_id);
+
+      if (error) throw error;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['implement_assignments', variables.tenant_id] });
+    },
+  });
+}
+
+// Pick the implement of a single visit; null goes back to the tractor's assignment
+export function useSetVisitImplement() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ visitId, implementId }: { visitId: string; implementId: string | null; tenantId: string }) => {
+      const { error } = await supabase
+        .from('block_visits')
+        .update({ implement_id: implementId })
+        .eq('id', visitId);
+
+      if (error) throw error;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['visits', variables.tenantId] });
+    },
+  });
+}
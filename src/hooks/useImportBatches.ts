@@ -0,0 +1,92 @@
+import { useEffect, useRef } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { GPS_IMPORTS_BUCKET, importPartPath } from '@shared/csvImport';
+import type { ImportBatch } from '@/types/farm';
+
+// Recent file imports of the tenant, newest first
+const IMPORT_HISTORY_LIMIT = 50;
+// Poll while a large file is parsed on the server so its progress shows live
+const ACTIVE_IMPORT_POLL_MS = 3000;
+
+// Large file being parsed by process-gps-file
+export function isFileImportActive(batch: Pick<ImportBatch, 'status'>) {
+  return batch.status === 'processing';
+}
+
+// A parse with no progress for this long has stopped (same limit as process-gps-file)
+const STALLED_IMPORT_MINUTES = 5;
+
+// Large file whose upload or parsing stopped before the end
+export function isFileImportResumable(batch: Pick<ImportBatch, 'status' | 'parts_total' | 'parts_processed' | 'updated_at'>) {
+  if (batch.parts_total === null) return false;
+  if (batch.status === 'processing') {
+    return Date.now() - new Date(batch.updated_at).getTime() > STALLED_IMPORT_MINUTES * 60 * 1000;
+  }
+  return batch.status === 'uploading' || (batch.status === 'failed' && batch.parts_processed < batch.parts_total);
+}
+
+export function useImportBatches(tenantId: string | null | undefined) {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: ['import_batches', tenantId],
+    queryFn: async (): Promise<ImportBatch[]> => {
+      if (!tenantId) return [];
+
+      const { data, error } = await supabase
+        .from('import_batches')
+        .select('*')
+        .eq('tenant_id', tenantId)
+        .order('created_at', { ascending: false })
+        .limit(IMPORT_HISTORY_LIMIT);
+
+      if (error) throw error;
+      return (data || []) as unknown as ImportBatch[];
+    },
+    enabled: !!tenantId,
+    refetchInterval: (query) =>
+      query.state.data?.some(isFileImportActive) ? ACTIVE_IMPORT_POLL_MS : false,
+  });
+
+  // A file parsed on the server moves the tractor's last known position
+  const activeBatchIds = useRef<Set<string>>(new Set());
+  useEffect(() => {
+    const batches = query.data ?? [];
+    const finished = batches.some(batch => activeBatchIds.current.has(batch.id) && !isFileImportActive(batch));
+    activeBatchIds.current = new Set(batches.filter(isFileImportActive).map(batch => batch.id));
+
+    if (finished) {
+      queryClient.invalidateQueries({ queryKey: ['tractors'] });
+    }
+  }, [query.data, queryClient]);
+
+  return query;
+}
+
+// Deletes the pings the batch inserted, and the parts of a large file still in
+// storage; resolves to how many pings were deleted. Visits still built from
+// them are left to a processing job.
+export function useRollbackImportBatch() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (batch: Pick<ImportBatch, 'id' | 'tenant_id' | 'parts_total'>): Promise<number> => {
+      const { data, error } = await supabase.rpc('rollback_import_batch', { _batch_id: batch.id });
+      if (error) throw error;
+
+      if (batch.parts_total) {
+        const paths = Array.from({ length: batch.parts_total }, (_, part) => importPartPath(batch.tenant_id, batch.id, part));
+        const { error: removeError } = await supabase.storage.from(GPS_IMPORTS_BUCKET).remove(paths);
+        if (removeError) console.error('Failed to remove import parts:', removeError);
+      }
+
+      return data ?? 0;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['import_batches', variables.tenant_id] });
+      // The tractor's last position may have come from the deleted pings
+      queryClient.invalidateQueries({ queryKey: ['tractors'] });
+    },
+  });
+}
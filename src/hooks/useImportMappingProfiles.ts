@@ -0,0 +1,64 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { ImportMappingProfile } from '@/types/farm';
+
+export function useImportMappingProfiles(tenantId: string | null | undefined) {
+  return useQuery({
+    queryKey: ['import_mapping_profiles', tenantId],
+    queryFn: async (): Promise<ImportMappingProfile[]> => {
+      if (!tenantId) return [];
+
+      const { data, error } = await supabase
+        .from('import_mapping_profiles')
+        .select('*')
+        .eq('tenant_id', tenantId)
+        .order('name');
+
+      if (error) throw error;
+      return (data || []) as unknown as ImportMappingProfile[];
+    },
+    enabled: !!tenantId,
+  });
+}
+
+export type ImportMappingProfileInput = Omit<ImportMappingProfile, 'id' | 'created_at' | 'updated_at'>;
+
+// Saving under the name of an existing profile replaces it
+export function useSaveImportMappingProfile() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (profile: ImportMappingProfileInput): Promise<ImportMappingProfile> => {
+      const { data, error } = await supabase
+        .from('import_mapping_profiles')
+        .upsert({ ...profile, column_mapping: { ...profile.column_mapping } }, { onConflict: 'tenant_id,name' })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as unknown as ImportMappingProfile;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['import_mapping_profiles', variables.tenant_id] });
+    },
+  });
+}
+
+export function useDeleteImportMappingProfile() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, tenant_id }: { id: string; tenant_id: string }) => {
+      const { error } = await supabase
+        .from('import_mapping_profiles')
+        .delete()
+        .eq('id', id)
+        .eq('tenant_id', tenant_id);
+
+      if (error) throw error;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['import_mapping_profiles', variables.tenant_id] });
+    },
+  });
+}
@@ -0,0 +1,130 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Operator, OperatorShift } from '@/types/farm';
+
+// Every operator of the tenant, archived ones included so past visits keep their name
+export function useOperators(tenantId: string | null | undefined) {
+  return useQuery({
+    queryKey: ['operators', tenantId],
+    queryFn: async (): Promise<Operator[]> => {
+      if (!tenantId) return [];
+
+      const { data, error } = await supabase
+        .from('operators')
+        .select('id, tenant_id, name, code, archived_at, created_at')
+        .eq('tenant_id', tenantId)
+        .order('name');
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!tenantId,
+  });
+}
+
+export function useOperatorShifts(tenantId: string | null | undefined) {
+  return useQuery({
+    queryKey: ['operator_shifts', tenantId],
+    queryFn: async (): Promise<OperatorShift[]> => {
+      if (!tenantId) return [];
+
+      const { data, error } = await supabase
+        .from('operator_shifts')
+        .select('*')
+        .eq('tenant_id', tenantId)
+        .order('started_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!tenantId,
+  });
+}
+
+export interface OperatorInput {
+  id: string | null;
+  tenant_id: string;
+  name: string;
+  code: string | null;
+}
+
+export function useSaveOperator() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...values }: OperatorInput) => {
+      const query = id
+        ? supabase.from('operators').update(values).eq('id', id).eq('tenant_id', values.tenant_id)
+        : supabase.from('operators').insert(values);
+
+      const { error } = await query;
+      if (error) throw error;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['operators', variables.tenant_id] });
+    },
+  });
+}
+
+export function useArchiveOperator() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, tenant_id, archived }: { id: string; tenant_id: string; archived: boolean }) => {
+      const { error } = await supabase
+        .from('operators')
+        .update({ archived_at: archived ? new Date().toISOString() : null })
+        .eq('id', id)
+        .eq('tenant_id', tenant_id);
+
+      if (error) throw error;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['operators', variables.tenant_id] });
+    },
+  });
+}
+
+interface ShiftInput {
+  tenant_id: string;
+  operator_id: string;
+  tractor_id: string;
+  started_at: string;
+  ended_at: string | null;
+}
+
+// Shift changes re-attribute the visits they cover in the database
+export function useCreateOperatorShift() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: ShiftInput) => {
+      const { error } = await supabase.from('operator_shifts').insert(input);
+      if (error) throw error;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['operator_shifts', variables.tenant_id] });
+      queryClient.invalidateQueries({ queryKey: ['visits', variables.tenant_id] });
+    },
+  });
+}
+
+export function useDeleteOperatorShift() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, tenant_id }: { id: string; tenant_id: string }) => {
+      const { error } = await supabase
+        .from('operator_shifts')
+        .delete()
+        .eq('id', id)
+        .eq('tenant_id', tenant_id);
+
+      if (error) throw error;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['operator_shifts', variables.tenant_id] });
+      queryClient.invalidateQueries({ queryKey: ['visits', variables.tenant_id] });
+    },
+  });
+}
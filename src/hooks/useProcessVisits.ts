@@ -3,23 +3,46 @@ import { useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { useTenant } from '@/hooks/useTenant';
+import type { BlockMetricsSnapshot, VisitDiff } from '@shared/visitChanges';
+
+export type ProcessVisitsMode = 'incremental' | 'full';
 
 interface ProcessVisitsResult {
   success: boolean;
+  mode: ProcessVisitsMode;
   visitsCreated: number;
+  visitsUpdated: number;
   metricsUpdated: number;
+  pingsProcessed: number;
+  errors: string[];
+}
+
+export interface BlockReprocessPreview extends VisitDiff {
+  block_id: string;
+  metrics_before: BlockMetricsSnapshot;
+  metrics_after: BlockMetricsSnapshot;
+}
+
+interface PreviewVisitsResult {
+  success: boolean;
+  dryRun: true;
+  blocks: BlockReprocessPreview[];
   errors: string[];
 }
 
 export function useProcessVisits() {
   const [isProcessing, setIsProcessing] = useState(false);
   const { toast } = useToast();
+  const [isPreviewing, setIsPreviewing] = useState(false);
   const { tenantId } = useTenant();
   const queryClient = useQueryClient();
 
   const processVisits = useCallback(async (options?: {
     blockId?: string;
     tractorId?: string;
+    // 'incremental' (default) only processes pings newer than the last run;
+    // 'full' discards stored visits and rebuilds them from all pings
+    mode?: ProcessVisitsMode;
   }): Promise<ProcessVisitsResult | null> => {
     if (!tenantId) {
       toast({
@@ -38,6 +61,7 @@ export function useProcessVisits() {
           tenant_id: tenantId,
           block_id: options?.blockId,
           tractor_id: options?.tractorId,
+          mode: options?.mode ?? 'incremental',
         },
       });
 
@@ -50,11 +74,11 @@ export function useProcessVisits() {
       if (result.success) {
         // Invalidate caches to force UI refresh with new data
         await queryClient.invalidateQueries({ queryKey: ['visits'] });
-        await queryClient.invalidateQueries({ queryKey: ['block-metrics'] });
+        await queryClient.invalidateQueries({ queryKey: ['block_metrics'] });
         
         toast({
           title: 'Visitas procesadas',
-          description: `Se crearon ${result.visitsCreated} visitas y se actualizaron ${result.metricsUpdated} métricas`,
+          description: `Se crearon ${result.visitsCreated} visitas, se extendieron ${result.visitsUpdated} y se actualizaron ${result.metricsUpdated} métricas`,
         });
       } else {
         toast({
@@ -78,8 +102,55 @@ export function useProcessVisits() {
     }
   }, [tenantId, toast, queryClient]);
 
+  // Dry run of a full rebuild: returns what would change without writing anything
+  const previewVisits = useCallback(async (options?: {
+    blockId?: string;
+    tractorId?: string;
+  }): Promise<PreviewVisitsResult | null> => {
+    if (!tenantId) {
+      toast({
+        title: 'Error',
+        description: 'No se encontró el tenant',
+        variant: 'destructive',
+      });
+      return null;
+    }
+
+    setIsPreviewing(true);
+
+    try {
+      const { data, error } = await supabase.functions.invoke('process-historical-visits', {
+        body: {
+          tenant_id: tenantId,
+          block_id: options?.blockId,
+          tractor_id: options?.tractorId,
+          mode: 'full',
+          dry_run: true,
+        },
+      });
+
+      if (error) {
+        throw error;
+      }
+
+      return data as PreviewVisitsResult;
+    } catch (error: unknown) {
+      console.error('Error previewing visits:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Error al calcular la vista previa',
+        variant: 'destructive',
+      });
+      return null;
+    } finally {
+      setIsPreviewing(false);
+    }
+  }, [tenantId, toast]);
+
   return {
     processVisits,
     isProcessing,
+    previewVisits,
+    isPreviewing,
   };
 }
@@ -0,0 +1,94 @@
+import { useEffect, useRef } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { ProcessingJobWithBlocks } from '@/types/farm';
+import type { ProcessVisitsMode } from '@/hooks/useProcessVisits';
+
+interface StartProcessingJobInput {
+  tenant_id: string;
+  mode: ProcessVisitsMode;
+  block_id?: string;
+  tractor_id?: string;
+}
+
+// Poll while a job is active so the panel shows live progress
+const ACTIVE_JOB_POLL_MS = 2000;
+
+export function isProcessingJobActive(job: { status: string }) {
+  return job.status === 'pending' || job.status === 'running';
+}
+
+export function useProcessingJobs(tenantId: string | null | undefined) {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: ['processing_jobs', tenantId],
+    queryFn: async () => {
+      if (!tenantId) return [];
+
+      const { data, error } = await supabase
+        .from('processing_jobs')
+        .select('*, processing_job_blocks(*)')
+        .eq('tenant_id', tenantId)
+        .order('created_at', { ascending: false })
+        .limit(10);
+
+      if (error) throw error;
+      return data as unknown as ProcessingJobWithBlocks[];
+    },
+    enabled: !!tenantId,
+    refetchInterval: (query) =>
+      query.state.data?.some(isProcessingJobActive) ? ACTIVE_JOB_POLL_MS : false,
+  });
+
+  // Refresh visits and metrics once a job that was running finishes
+  const activeJobIds = useRef<Set<string>>(new Set());
+  useEffect(() => {
+    const jobs = query.data ?? [];
+    const finished = jobs.some(job => activeJobIds.current.has(job.id) && !isProcessingJobActive(job));
+    activeJobIds.current = new Set(jobs.filter(isProcessingJobActive).map(job => job.id));
+
+    if (finished) {
+      queryClient.invalidateQueries({ queryKey: ['visits'] });
+      queryClient.invalidateQueries({ queryKey: ['block_metrics'] });
+    }
+  }, [query.data, queryClient]);
+
+  return query;
+}
+
+export function useStartProcessingJob() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ tenant_id, mode, block_id, tractor_id }: StartProcessingJobInput) => {
+      const { data, error } = await supabase.functions.invoke('process-historical-visits', {
+        body: { tenant_id, mode, block_id, tractor_id, background: true },
+      });
+
+      if (error) throw error;
+      return data as { success: boolean; jobId: string };
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['processing_jobs', variables.tenant_id] });
+    },
+  });
+}
+
+export function useRetryProcessingJob() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ jobId }: { jobId: string; tenantId: string }) => {
+      const { data, error } = await supabase.functions.invoke('process-historical-visits', {
+        body: { job_id: jobId, retry: true },
+      });
+
+      if (error) throw error;
+      return data as { success: boolean; jobId: string };
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['processing_jobs', variables.tenantId] });
+    },
+  });
+}
@@ -2,14 +2,20 @@ import { jsPDF } from 'jspdf';
 import autoTable from 'jspdf-autotable';
 import { format } from 'date-fns';
 import { es } from 'date-fns/locale';
-import type { Block, BlockVisit, BlockMetrics, Tractor, VisitCoverageStats } from '@/types/farm';
+import type { Block, BlockVisit, BlockMetrics, Tractor, VisitCoverageStats, Operator } from '@/types/farm';
+import { getEffectiveWorkMinutes } from '@/types/farm';
 import type { BlockVisitStats } from '@/hooks/useBlockVisitStats';
+import { getBlockAreaHectares } from '@/lib/blockGeometry';
+import { summarizeOperatorProductivity } from '@/lib/operatorProductivity';
 
 interface ExportData {
   block: Block;
   metrics: BlockMetrics | null;
   visits: BlockVisit[];
   tractors: Tractor[];
+  operators: Operator[];
+  // Set when the visits are filtered to one operator
+  operatorFilterLabel?: string | null;
   visitStats: BlockVisitStats;
   selectedVisit?: BlockVisit | null;
   coverageStats?: VisitCoverageStats | null;
@@ -23,9 +29,21 @@ export function useReportExport() {
     return mins > 0 ? `${hours}h ${mins}m` : `${hours}h`;
   };
 
+  const getOperatorName = (operatorMap: Map<string, Operator>, operatorId: string | null): string => {
+    if (!operatorId) return 'Sin operador';
+    return operatorMap.get(operatorId)?.name ?? 'Desconocido';
+  };
+
+  // Total effective work time (without stops) of the visits that have it
+  const getTotalEffectiveMinutes = (visits: BlockVisit[]): number | null => {
+    const effective = visits.map(getEffectiveWorkMinutes).filter((m): m is number => m !== null);
+    return effective.length > 0 ? effective.reduce((sum, m) => sum + m, 0) : null;
+  };
+
   const exportToPDF = async (data: ExportData) => {
-    const { block, metrics, visits, tractors, visitStats, selectedVisit, coverageStats } = data;
+    const { block, metrics, visits, tractors, operators, operatorFilterLabel, visitStats, selectedVisit, coverageStats } = data;
     const tractorMap = new Map(tractors.map((t) => [t.id, t]));
+    const operatorMap = new Map(operators.map((o) => [o.id, o]));
     
     const doc = new jsPDF();
     const pageWidth = doc.internal.pageSize.getWidth();
@@ -46,6 +64,10 @@ export function useReportExport() {
       doc.text(subtitle, 14, yPos);
       yPos += 6;
     }
+    if (operatorFilterLabel) {
+      doc.text(`Operador: ${operatorFilterLabel}`, 14, yPos);
+      yPos += 6;
+    }
 
     // Generation date
     doc.text(`Generado: ${format(new Date(), "d 'de' MMMM yyyy, HH:mm", { locale: es })}`, 14, yPos);
@@ -61,10 +83,12 @@ export function useReportExport() {
     yPos += 8;
 
     // Summary table
-    const hectares = (block.metadata as any)?.hectares || 'N/A';
+    const areaHectares = getBlockAreaHectares(block);
+    const hectares = areaHectares !== null ? areaHectares.toFixed(2) : 'N/A';
     const hoursSinceLastVisit = metrics?.last_seen_at
       ? Math.round((Date.now() - new Date(metrics.last_seen_at).getTime()) / (1000 * 60 * 60))
       : null;
+    const totalEffectiveMinutes = getTotalEffectiveMinutes(visits);
 
     autoTable(doc, {
       startY: yPos,
@@ -74,6 +98,9 @@ export function useReportExport() {
         ['Total de pasadas', `${metrics?.total_passes ?? 0} (histórico)`],
         ['Promedio mensual', `${visitStats.averagePassesPerMonth.toFixed(1)} pasadas/mes`],
         ['Duración promedio', formatDurationMinutes(visitStats.averageDuration)],
+        ['Tiempo efectivo de trabajo', totalEffectiveMinutes !== null
+          ? `${formatDurationMinutes(totalEffectiveMinutes)} (sin detenciones)`
+          : 'Sin datos'],
         ['Última pasada', hoursSinceLastVisit !== null 
           ? `Hace ${hoursSinceLastVisit < 24 ? `${hoursSinceLastVisit}h` : `${Math.round(hoursSinceLastVisit / 24)} días`}`
           : 'Sin registro'],
@@ -85,7 +112,7 @@ export function useReportExport() {
       margin: { left: 14 },
     });
 
-    yPos = (doc as any).lastAutoTable.finalY + 15;
+    yPos = getLastTableEnd(doc) + 15;
 
     // Coverage analysis (if available)
     if (coverageStats && selectedVisit) {
@@ -96,6 +123,7 @@ export function useReportExport() {
 
       const visitDate = format(new Date(selectedVisit.started_at), "d 'de' MMMM yyyy, HH:mm", { locale: es });
       const tractor = tractorMap.get(selectedVisit.tractor_id);
+      const effectiveMinutes = getEffectiveWorkMinutes(selectedVisit);
       
       autoTable(doc, {
         startY: yPos,
@@ -103,11 +131,15 @@ export function useReportExport() {
         body: [
           ['Fecha de pasada', visitDate],
           ['Tractor', tractor?.name ?? 'Desconocido'],
+          ['Operador', getOperatorName(operatorMap, selectedVisit.operator_id)],
+          ['Tiempo efectivo de trabajo', effectiveMinutes !== null ? formatDurationMinutes(effectiveMinutes) : 'Sin datos'],
+          ['Tiempo en detenciones', selectedVisit.stopped_minutes !== null ? formatDurationMinutes(selectedVisit.stopped_minutes) : 'Sin datos'],
           ['Velocidad promedio', `${coverageStats.averageSpeed.toFixed(1)} km/h`],
           ['Velocidad máxima', `${coverageStats.maxSpeed.toFixed(1)} km/h`],
           ['Cobertura del cuartel', `${coverageStats.coveragePercentage.toFixed(1)}%`],
           ['Área cubierta', `${coverageStats.coveredArea.toFixed(2)} ha`],
           ['Distancia recorrida', `${(coverageStats.totalDistance / 1000).toFixed(2)} km`],
+          ['Ancho de trabajo', `${coverageStats.workWidthMeters} m`],
           ['Áreas sin cubrir', `${coverageStats.missedAreas.length} zonas`],
           ['Puntos GPS registrados', `${selectedVisit.ping_count}`],
         ],
@@ -116,7 +148,38 @@ export function useReportExport() {
         margin: { left: 14 },
       });
 
-      yPos = (doc as any).lastAutoTable.finalY + 15;
+      yPos = getLastTableEnd(doc) + 15;
+    }
+
+    // Productivity per operator
+    const productivity = summarizeOperatorProductivity(visits);
+    if (productivity.length > 0) {
+      doc.setFontSize(14);
+      doc.setFont('helvetica', 'bold');
+      doc.text('Productividad por Operador', 14, yPos);
+      yPos += 8;
+
+      autoTable(doc, {
+        startY: yPos,
+        head: [['Operador', 'Pasadas', 'Tiempo total', 'Efectivo', 'Promedio']],
+        body: productivity.map((p) => [
+          getOperatorName(operatorMap, p.operatorId),
+          `${p.passes}`,
+          formatDurationMinutes(p.totalMinutes),
+          p.effectiveMinutes !== null ? formatDurationMinutes(p.effectiveMinutes) : '—',
+          formatDurationMinutes(p.averageMinutes),
+        ]),
+        theme: 'striped',
+        headStyles: { fillColor: [20, 184, 166] },
+        margin: { left: 14 },
+      });
+
+      yPos = getLastTableEnd(doc) + 15;
+
+      if (yPos > 240) {
+        doc.addPage();
+        yPos = 20;
+      }
     }
 
     // Weekly activity chart data (last 3 months)
@@ -140,7 +203,7 @@ export function useReportExport() {
       tableWidth: pageWidth / 2 - 20,
     });
 
-    yPos = (doc as any).lastAutoTable.finalY + 15;
+    yPos = getLastTableEnd(doc) + 15;
 
     // Check if we need a new page
     if (yPos > 240) {
@@ -159,19 +222,22 @@ export function useReportExport() {
       const duration = visit.ended_at 
         ? (new Date(visit.ended_at).getTime() - new Date(visit.started_at).getTime()) / (1000 * 60)
         : null;
+      const effectiveMinutes = getEffectiveWorkMinutes(visit);
       
       return [
         format(new Date(visit.started_at), "d MMM yyyy", { locale: es }),
         format(new Date(visit.started_at), "HH:mm"),
         tractor?.name ?? 'Desconocido',
+        getOperatorName(operatorMap, visit.operator_id),
         duration !== null ? formatDurationMinutes(duration) : 'En curso',
+        effectiveMinutes !== null ? formatDurationMinutes(effectiveMinutes) : '—',
         `${visit.ping_count}`,
       ];
     });
 
     autoTable(doc, {
       startY: yPos,
-      head: [['Fecha', 'Hora', 'Tractor', 'Duración', 'Pings']],
+      head: [['Fecha', 'Hora', 'Tractor', 'Operador', 'Duración', 'Efectivo', 'Pings']],
       body: recentVisits,
       theme: 'striped',
       headStyles: { fillColor: [245, 158, 11] },
@@ -198,8 +264,9 @@ export function useReportExport() {
   };
 
   const exportToCSV = (data: ExportData) => {
-    const { block, metrics, visits, tractors, visitStats, selectedVisit, coverageStats } = data;
+    const { block, metrics, visits, tractors, operators, operatorFilterLabel, visitStats, selectedVisit, coverageStats } = data;
     const tractorMap = new Map(tractors.map((t) => [t.id, t]));
+    const operatorMap = new Map(operators.map((o) => [o.id, o]));
 
     const lines: string[] = [];
 
@@ -208,7 +275,11 @@ export function useReportExport() {
     lines.push(`Nombre,${escapeCSV(block.name)}`);
     lines.push(`Fundo,${escapeCSV(block.farm_name || '')}`);
     lines.push(`Cultivo,${escapeCSV(block.crop || '')}`);
-    lines.push(`Superficie (ha),${(block.metadata as any)?.hectares || ''}`);
+    const areaHectares = getBlockAreaHectares(block);
+    lines.push(`Superficie (ha),${areaHectares !== null ? areaHectares.toFixed(2) : ''}`);
+    if (operatorFilterLabel) {
+      lines.push(`Operador,${escapeCSV(operatorFilterLabel)}`);
+    }
     lines.push(`Fecha de reporte,${format(new Date(), 'yyyy-MM-dd HH:mm')}`);
     lines.push('');
 
@@ -220,6 +291,8 @@ export function useReportExport() {
     lines.push(`Pasadas últimos 7 días,${metrics?.passes_7d ?? 0}`);
     lines.push(`Promedio mensual (último año),${visitStats.averagePassesPerMonth.toFixed(2)}`);
     lines.push(`Duración promedio (minutos),${visitStats.averageDuration.toFixed(1)}`);
+    const totalEffectiveMinutes = getTotalEffectiveMinutes(visits);
+    lines.push(`Tiempo efectivo de trabajo (minutos),${totalEffectiveMinutes !== null ? totalEffectiveMinutes.toFixed(1) : ''}`);
     lines.push('');
 
     // Coverage stats if available
@@ -227,16 +300,35 @@ export function useReportExport() {
       lines.push('ANÁLISIS DE COBERTURA - PASADA SELECCIONADA');
       lines.push(`Fecha,${format(new Date(selectedVisit.started_at), 'yyyy-MM-dd HH:mm')}`);
       lines.push(`Tractor,${escapeCSV(tractorMap.get(selectedVisit.tractor_id)?.name || 'Desconocido')}`);
+      lines.push(`Operador,${escapeCSV(getOperatorName(operatorMap, selectedVisit.operator_id))}`);
+      const effectiveMinutes = getEffectiveWorkMinutes(selectedVisit);
+      lines.push(`Tiempo efectivo (min),${effectiveMinutes !== null ? effectiveMinutes.toFixed(1) : ''}`);
+      lines.push(`Tiempo en detenciones (min),${selectedVisit.stopped_minutes !== null ? selectedVisit.stopped_minutes.toFixed(1) : ''}`);
       lines.push(`Velocidad promedio (km/h),${coverageStats.averageSpeed.toFixed(2)}`);
       lines.push(`Velocidad máxima (km/h),${coverageStats.maxSpeed.toFixed(2)}`);
       lines.push(`Cobertura (%),${coverageStats.coveragePercentage.toFixed(2)}`);
       lines.push(`Área cubierta (ha),${coverageStats.coveredArea.toFixed(4)}`);
       lines.push(`Distancia recorrida (m),${coverageStats.totalDistance.toFixed(0)}`);
+      lines.push(`Ancho de trabajo (m),${coverageStats.workWidthMeters}`);
       lines.push(`Áreas sin cubrir (zonas),${coverageStats.missedAreas.length}`);
       lines.push(`Puntos GPS,${selectedVisit.ping_count}`);
       lines.push('');
     }
 
+    // Productivity per operator
+    lines.push('PRODUCTIVIDAD POR OPERADOR');
+    lines.push('Operador,Pasadas,Tiempo total (min),Tiempo efectivo (min),Duración promedio (min)');
+    summarizeOperatorProductivity(visits).forEach(p => {
+      lines.push([
+        escapeCSV(getOperatorName(operatorMap, p.operatorId)),
+        p.passes.toString(),
+        p.totalMinutes.toFixed(1),
+        p.effectiveMinutes !== null ? p.effectiveMinutes.toFixed(1) : '',
+        p.averageMinutes.toFixed(1),
+      ].join(','));
+    });
+    lines.push('');
+
     // Weekly activity
     lines.push('ACTIVIDAD SEMANAL - ÚLTIMOS 3 MESES');
     lines.push('Semana inicio,Pasadas');
@@ -247,19 +339,23 @@ export function useReportExport() {
 
     // Visit history
     lines.push('HISTORIAL DE PASADAS');
-    lines.push('Fecha,Hora inicio,Hora fin,Tractor,Duración (min),Puntos GPS');
+    lines.push('Fecha,Hora inicio,Hora fin,Tractor,Operador,Duración (min),Detenciones (min),Tiempo efectivo (min),Puntos GPS');
     visits.forEach(visit => {
       const tractor = tractorMap.get(visit.tractor_id);
       const duration = visit.ended_at 
         ? ((new Date(visit.ended_at).getTime() - new Date(visit.started_at).getTime()) / (1000 * 60)).toFixed(1)
         : '';
+      const effectiveMinutes = getEffectiveWorkMinutes(visit);
       
       lines.push([
         format(new Date(visit.started_at), 'yyyy-MM-dd'),
         format(new Date(visit.started_at), 'HH:mm:ss'),
         visit.ended_at ? format(new Date(visit.ended_at), 'HH:mm:ss') : '',
         escapeCSV(tractor?.name ?? 'Desconocido'),
+        escapeCSV(getOperatorName(operatorMap, visit.operator_id)),
         duration,
+        visit.stopped_minutes !== null ? visit.stopped_minutes.toFixed(1) : '',
+        effectiveMinutes !== null ? effectiveMinutes.toFixed(1) : '',
         visit.ping_count.toString(),
       ].join(','));
     });
@@ -280,6 +376,11 @@ export function useReportExport() {
   return { exportToPDF, exportToCSV };
 }
 
+// jspdf-autotable records on the document where the last table ended
+function getLastTableEnd(doc: jsPDF): number {
+  return (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY;
+}
+
 function escapeCSV(value: string): string {
   if (value.includes(',') || value.includes('"') || value.includes('\n')) {
     return `"${value.replace(/"/g, '""')}"`;
@@ -0,0 +1,114 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tractor } from '@/types/farm';
+import type { Json } from '@/integrations/supabase/types';
+
+// Every tractor of the tenant, archived ones included so past visits keep their names
+export function useTractors(tenantId: string | null | undefined) {
+  return useQuery({
+    queryKey: ['tractors', tenantId],
+    queryFn: async (): Promise<Tractor[]> => {
+      if (!tenantId) return [];
+
+      const { data, error } = await supabase
+        .from('tractors')
+        .select('*')
+        .eq('tenant_id', tenantId)
+        .order('name');
+
+      if (error) throw error;
+
+      return (data || []).map(t => ({
+        id: t.id,
+        tenant_id: t.tenant_id,
+        name: t.name,
+        identifier: t.identifier,
+        metadata: (t.metadata as Record<string, unknown> | null) ?? {},
+        last_lat: t.last_lat,
+        last_lon: t.last_lon,
+        last_seen_at: t.last_seen_at,
+        archived_at: t.archived_at,
+        created_at: t.created_at,
+      }));
+    },
+    enabled: !!tenantId,
+  });
+}
+
+export function isTractorActive(tractor: Tractor): boolean {
+  return tractor.archived_at === null;
+}
+
+interface TractorInput {
+  tenant_id: string;
+  name: string;
+  identifier: string;
+  metadata: Record<string, unknown>;
+}
+
+export function useCreateTractor() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: TractorInput) => {
+      const { data, error } = await supabase
+        .from('tractors')
+        .insert({ ...input, metadata: input.metadata as Json })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['tractors', variables.tenant_id] });
+    },
+  });
+}
+
+export function useUpdateTractor() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, tenant_id, ...updates }: TractorInput & { id: string }) => {
+      const { data, error } = await supabase
+        .from('tractors')
+        .update({ ...updates, metadata: updates.metadata as Json })
+        .eq('id', id)
+        .eq('tenant_id', tenant_id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['tractors', variables.tenant_id] });
+    },
+  });
+}
+
+export function useArchiveTractor() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, tenant_id, archived }: { id: string; tenant_id: string; archived: boolean }) => {
+      const { error } = await supabase
+        .from('tractors')
+        .update({ archived_at: archived ? new Date().toISOString() : null })
+        .eq('id', id)
+        .eq('tenant_id', tenant_id);
+
+      if (error) throw error;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['tractors', variables.tenant_id] });
+    },
+  });
+}
+
+// Postgres unique_violation, raised when an active tractor already uses the
+// identifier (also when restoring an archived tractor whose one was reused)
+export function isDuplicateIdentifierError(error: unknown): boolean {
+  return (error as { code?: string } | null)?.code === '23505';
+}
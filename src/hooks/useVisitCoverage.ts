@@ -1,7 +1,8 @@
 import { useMemo } from 'react';
-import type { Block, GpsPing } from '@/types/farm';
-import type { Feature, Polygon } from 'geojson';
+import type { Block, GpsPing, Implement } from '@/types/farm';
+import type { Feature, MultiPolygon, Polygon } from 'geojson';
 import * as turf from '@turf/turf';
+import { DEFAULT_WORK_WIDTH_METERS, offsetTrack } from '@/lib/implements';
 
 export interface VisitCoverageStats {
   averageSpeed: number;        // km/h
@@ -10,6 +11,7 @@ export interface VisitCoverageStats {
   coveredArea: number;         // hectares
   totalDistance: number;       // meters
   missedAreas: Feature<Polygon>[];
+  workWidthMeters: number;     // implement width used for the coverage
 }
 
 interface UseVisitCoverageResult {
@@ -17,16 +19,18 @@ interface UseVisitCoverageResult {
   loading: boolean;
 }
 
-// Work width in meters (typical tractor implement width)
-const WORK_WIDTH_METERS = 6;
-
+// Coverage uses the implement's width and position behind the antenna, or
+// DEFAULT_WORK_WIDTH_METERS when the visit has no implement
 export function useVisitCoverage(
   block: Block | null,
-  pings: GpsPing[]
+  pings: GpsPing[],
+  implement: Implement | null = null
 ): UseVisitCoverageResult {
   const stats = useMemo(() => {
     if (!block || pings.length < 2) return null;
 
+    const workWidthMeters = implement?.working_width_meters ?? DEFAULT_WORK_WIDTH_METERS;
+
     try {
       // Calculate speeds
       const speeds = pings
@@ -41,19 +45,20 @@ export function useVisitCoverage(
         ? Math.max(...speeds)
         : 0;
 
-      // Create LineString from pings
-      const coordinates = pings.map(p => [p.lon, p.lat]);
-      const pathLine = turf.lineString(coordinates);
+      // Distance is what the tractor drove
+      const totalDistance = turf.length(turf.lineString(pings.map(p => [p.lon, p.lat])), { units: 'meters' });
 
-      // Calculate total distance
-      const totalDistance = turf.length(pathLine, { units: 'meters' });
+      // Coverage follows the implement, which may trail or sit beside the antenna
+      const pathLine = turf.lineString(
+        offsetTrack(pings, implement?.offset_back_meters ?? 0, implement?.offset_right_meters ?? 0)
+      );
 
-      // Get block polygon
+      // Get block polygon (holes are excluded from its area, MultiPolygon parts are summed)
       const blockPolygon = block.geometry_geojson;
       const blockArea = turf.area(blockPolygon); // in square meters
 
       // Create buffer around path (work width)
-      const bufferedPath = turf.buffer(pathLine, WORK_WIDTH_METERS / 2, { units: 'meters' });
+      const bufferedPath = turf.buffer(pathLine, workWidthMeters / 2, { units: 'meters' });
       
       if (!bufferedPath) {
         return {
@@ -63,25 +68,28 @@ export function useVisitCoverage(
           coveredArea: 0,
           totalDistance,
           missedAreas: [],
+          workWidthMeters,
         };
       }
 
-      // Intersect buffered path with block to get covered area
-      let coveredPolygon: Feature<Polygon> | null = null;
+      // Intersect buffered path with block to get covered area.
+      // Passes over a hole or between the parts of a split block don't count.
+      let coveredPolygon: Feature<Polygon | MultiPolygon> | null = null;
+      let intersectionFailed = false;
       try {
-        const intersection = turf.intersect(
-          turf.featureCollection([blockPolygon as Feature<Polygon>, bufferedPath as Feature<Polygon>])
+        coveredPolygon = turf.intersect(
+          turf.featureCollection<Polygon | MultiPolygon>([blockPolygon, bufferedPath])
         );
-        if (intersection && intersection.geometry.type === 'Polygon') {
-          coveredPolygon = intersection as Feature<Polygon>;
-        }
       } catch {
         // Intersection failed, assume full coverage of buffered area within block
+        intersectionFailed = true;
       }
 
-      const coveredArea = coveredPolygon 
-        ? turf.area(coveredPolygon) / 10000 // convert to hectares
-        : turf.area(bufferedPath) / 10000;
+      const coveredArea = intersectionFailed
+        ? turf.area(bufferedPath) / 10000
+        : coveredPolygon
+          ? turf.area(coveredPolygon) / 10000 // convert to hectares
+          : 0;
 
       const coveragePercentage = Math.min(100, (coveredArea * 10000 / blockArea) * 100);
 
@@ -91,7 +99,7 @@ export function useVisitCoverage(
         if (coveredPolygon || bufferedPath) {
           const covered = coveredPolygon || bufferedPath;
           const difference = turf.difference(
-            turf.featureCollection([blockPolygon as Feature<Polygon>, covered as Feature<Polygon>])
+            turf.featureCollection<Polygon | MultiPolygon>([blockPolygon, covered])
           );
           
           if (difference) {
@@ -121,12 +129,13 @@ export function useVisitCoverage(
         coveredArea,
         totalDistance,
         missedAreas,
+        workWidthMeters,
       };
     } catch (error) {
       console.error('Error calculating coverage stats:', error);
       return null;
     }
-  }, [block, pings]);
+  }, [block, pings, implement]);
 
   return {
     stats,
@@ -144,5 +153,6 @@ export function generateDemoCoverageStats(): VisitCoverageStats {
     coveredArea: 2 + Math.random() * 3,  // 2-5 hectares
     totalDistance: 3000 + Math.random() * 2000, // 3-5 km
     missedAreas: [], // Demo doesn't generate real missed areas
+    workWidthMeters: DEFAULT_WORK_WIDTH_METERS,
   };
 }
\ No newline at end of file
@@ -0,0 +1,85 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { VisitDetectionSettings, VisitDetectionThresholds } from '@/types/farm';
+
+export type DetectionThresholdValues = { [K in keyof VisitDetectionThresholds]: VisitDetectionThresholds[K] | null };
+
+interface SaveDetectionSettingsInput {
+  tenant_id: string;
+  block_id: string | null; // null saves the tenant default
+  values: DetectionThresholdValues;
+}
+
+export function useVisitDetectionSettings(tenantId: string | null | undefined) {
+  return useQuery({
+    queryKey: ['visit_detection_settings', tenantId],
+    queryFn: async () => {
+      if (!tenantId) return [];
+
+      const { data, error } = await supabase
+        .from('visit_detection_settings')
+        .select('*')
+        .eq('tenant_id', tenantId);
+
+      if (error) throw error;
+      return data as VisitDetectionSettings[];
+    },
+    enabled: !!tenantId,
+  });
+}
+
+export function useSaveVisitDetectionSettings() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ tenant_id, block_id, values }: SaveDetectionSettingsInput) => {
+      // Partial unique indexes on block_id can't be targeted by upsert, so look the row up first
+      let existingQuery = supabase
+        .from('visit_detection_settings')
+        .select('id')
+        .eq('tenant_id', tenant_id);
+      existingQuery = block_id
+        ? existingQuery.eq('block_id', block_id)
+        : existingQuery.is('block_id', null);
+
+      const { data: existing, error: existingError } = await existingQuery.maybeSingle();
+      if (existingError) throw existingError;
+
+      // A block override with every field inherited is just removed
+      const isEmptyOverride = block_id !== null && Object.values(values).every(v => v === null);
+
+      if (existing && isEmptyOverride) {
+        const { error } = await supabase
+          .from('visit_detection_settings')
+          .delete()
+          .eq('id', existing.id);
+        if (error) throw error;
+        return null;
+      }
+
+      if (isEmptyOverride) return null;
+
+      if (existing) {
+        const { data, error } = await supabase
+          .from('visit_detection_settings')
+          .update(values)
+          .eq('id', existing.id)
+          .select()
+          .single();
+        if (error) throw error;
+        return data as VisitDetectionSettings;
+      }
+
+      const { data, error } = await supabase
+        .from('visit_detection_settings')
+        .insert({ tenant_id, block_id, ...values })
+        .select()
+        .single();
+      if (error) throw error;
+      return data as VisitDetectionSettings;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['visit_detection_settings', variables.tenant_id] });
+    },
+  });
+}
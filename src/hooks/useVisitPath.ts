@@ -1,25 +1,29 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
-import type { GpsPing, BlockVisit } from '@/types/farm';
+import type { GpsPing, BlockVisit, VisitStop } from '@/types/farm';
 
 interface UseVisitPathResult {
   pings: GpsPing[];
+  stops: VisitStop[];
   loading: boolean;
   error: string | null;
 }
 
 /**
  * Hook to fetch GPS pings for a specific block visit from the database.
- * Queries the gps_pings table for pings within the visit's time range.
+ * Queries the gps_pings table for pings within the visit's time range,
+ * along with the stops detected in the visit.
  */
 export function useVisitPath(visit: BlockVisit | null): UseVisitPathResult {
   const [pings, setPings] = useState<GpsPing[]>([]);
+  const [stops, setStops] = useState<VisitStop[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
     if (!visit) {
       setPings([]);
+      setStops([]);
       return;
     }
 
@@ -29,17 +33,29 @@ export function useVisitPath(visit: BlockVisit | null): UseVisitPathResult {
 
       try {
         // Query GPS pings for this visit's tractor within the visit time range
-        const { data, error: queryError } = await supabase
-          .from('gps_pings')
-          .select('*')
-          .eq('tractor_id', visit.tractor_id)
-          .gte('ts', visit.started_at)
-          .lte('ts', visit.ended_at || new Date().toISOString())
-          .order('ts', { ascending: true });
+        const [{ data, error: queryError }, { data: stopsData, error: stopsError }] = await Promise.all([
+          supabase
+            .from('gps_pings')
+            .select('*')
+            .eq('tractor_id', visit.tractor_id)
+            .gte('ts', visit.started_at)
+            .lte('ts', visit.ended_at || new Date().toISOString())
+            // Flagged outliers would inflate the path and its distance
+            .is('quality_flag', null)
+            .order('ts', { ascending: true }),
+          supabase
+            .from('visit_stops')
+            .select('id, visit_id, started_at, ended_at, lat, lon, duration_minutes, ping_count')
+            .eq('visit_id', visit.id)
+            .order('started_at', { ascending: true }),
+        ]);
 
         if (queryError) {
           throw queryError;
         }
+        if (stopsError) {
+          throw stopsError;
+        }
 
         const mappedPings: GpsPing[] = (data || []).map(ping => ({
           id: ping.id,
@@ -49,14 +65,22 @@ export function useVisitPath(visit: BlockVisit | null): UseVisitPathResult {
           lat: ping.lat,
           lon: ping.lon,
           speed: ping.speed ?? undefined,
+          heading: ping.heading,
+          altitude: ping.altitude,
+          hdop: ping.hdop,
+          satellites: ping.satellites,
+          ignition: ping.ignition,
+          pto: ping.pto,
           created_at: ping.created_at,
         }));
 
         setPings(mappedPings);
+        setStops(stopsData || []);
       } catch (err) {
         console.error('Error fetching visit path:', err);
         setError('Failed to load path data');
         setPings([]);
+        setStops([]);
       } finally {
         setLoading(false);
       }
@@ -65,5 +89,5 @@ export function useVisitPath(visit: BlockVisit | null): UseVisitPathResult {
     fetchPings();
   }, [visit?.id, visit?.tractor_id, visit?.started_at, visit?.ended_at]);
 
-  return { pings, loading, error };
+  return { pings, stops, loading, error };
 }
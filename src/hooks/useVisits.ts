@@ -24,6 +24,12 @@ export function useVisits(tenantId: string | null | undefined) {
         started_at: v.started_at,
         ended_at: v.ended_at,
         ping_count: v.ping_count ?? 0,
+        working_minutes: v.working_minutes,
+        transit_minutes: v.transit_minutes,
+        idle_minutes: v.idle_minutes,
+        stopped_minutes: v.stopped_minutes,
+        implement_id: v.implement_id,
+        operator_id: v.operator_id,
         created_at: v.created_at,
       }));
     },
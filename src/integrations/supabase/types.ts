@@ -119,30 +119,48 @@ export type Database = {
           created_at: string
           ended_at: string | null
           id: string
+          idle_minutes: number | null
+          implement_id: string | null
+          operator_id: string | null
           ping_count: number | null
           started_at: string
+          stopped_minutes: number | null
           tenant_id: string
           tractor_id: string
+          transit_minutes: number | null
+          working_minutes: number | null
         }
         Insert: {
           block_id: string
           created_at?: string
           ended_at?: string | null
           id?: string
+          idle_minutes?: number | null
+          implement_id?: string | null
+          operator_id?: string | null
           ping_count?: number | null
           started_at: string
+          stopped_minutes?: number | null
           tenant_id: string
           tractor_id: string
+          transit_minutes?: number | null
+          working_minutes?: number | null
         }
         Update: {
           block_id?: string
           created_at?: string
           ended_at?: string | null
           id?: string
+          idle_minutes?: number | null
+          implement_id?: string | null
+          operator_id?: string | null
           ping_count?: number | null
           started_at?: string
+          stopped_minutes?: number | null
           tenant_id?: string
           tractor_id?: string
+          transit_minutes?: number | null
+          working_minutes?: number | null
         }
         Relationships: [
           {
@@ -152,6 +170,20 @@ export type Database = {
             referencedRelation: "blocks"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "block_visits_implement_id_fkey"
+            columns: ["implement_id"]
+            isOneToOne: false
+            referencedRelation: "implements"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "block_visits_operator_id_fkey"
+            columns: ["operator_id"]
+            isOneToOne: false
+            referencedRelation: "operators"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "block_visits_tenant_id_fkey"
             columns: ["tenant_id"]
@@ -214,36 +246,70 @@ export type Database = {
       }
       gps_pings: {
         Row: {
+          altitude: number | null
           created_at: string
+          hdop: number | null
+          heading: number | null
           id: string
+          ignition: boolean | null
+          import_batch_id: string | null
           lat: number
           lon: number
+          pto: boolean | null
+          quality_flag: string | null
+          satellites: number | null
           speed: number | null
           tenant_id: string
           tractor_id: string
           ts: string
+          work_state: boolean | null
         }
         Insert: {
+          altitude?: number | null
           created_at?: string
+          hdop?: number | null
+          heading?: number | null
           id?: string
+          ignition?: boolean | null
+          import_batch_id?: string | null
           lat: number
           lon: number
+          pto?: boolean | null
+          quality_flag?: string | null
+          satellites?: number | null
           speed?: number | null
           tenant_id: string
           tractor_id: string
           ts: string
+          work_state?: boolean | null
         }
         Update: {
+          altitude?: number | null
           created_at?: string
+          hdop?: number | null
+          heading?: number | null
           id?: string
+          ignition?: boolean | null
+          import_batch_id?: string | null
           lat?: number
           lon?: number
+          pto?: boolean | null
+          quality_flag?: string | null
+          satellites?: number | null
           speed?: number | null
           tenant_id?: string
           tractor_id?: string
           ts?: string
+          work_state?: boolean | null
         }
         Relationships: [
+          {
+            foreignKeyName: "gps_pings_import_batch_id_fkey"
+            columns: ["import_batch_id"]
+            isOneToOne: false
+            referencedRelation: "import_batches"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "gps_pings_tenant_id_fkey"
             columns: ["tenant_id"]
@@ -260,6 +326,455 @@ export type Database = {
           },
         ]
       }
+      implement_assignments: {
+        Row: {
+          created_at: string
+          ended_at: string | null
+          id: string
+          implement_id: string
+          started_at: string
+          tenant_id: string
+          tractor_id: string
+        }
+        Insert: {
+          created_at?: string
+          ended_at?: string | null
+          id?: string
+          implement_id: string
+          started_at: string
+          tenant_id: string
+          tractor_id: string
+        }
+        Update: {
+          created_at?: string
+          ended_at?: string | null
+          id?: string
+          implement_id?: string
+          started_at?: string
+          tenant_id?: string
+          tractor_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "implement_assignments_implement_id_fkey"
+            columns: ["implement_id"]
+            isOneToOne: false
+            referencedRelation: "implements"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "implement_assignments_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "implement_assignments_tractor_id_fkey"
+            columns: ["tractor_id"]
+            isOneToOne: false
+            referencedRelation: "tractors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      implements: {
+        Row: {
+          archived_at: string | null
+          created_at: string
+          id: string
+          name: string
+          offset_back_meters: number
+          offset_right_meters: number
+          tenant_id: string
+          type: string
+          updated_at: string
+          working_width_meters: number
+        }
+        Insert: {
+          archived_at?: string | null
+          created_at?: string
+          id?: string
+          name: string
+          offset_back_meters?: number
+          offset_right_meters?: number
+          tenant_id: string
+          type?: string
+          updated_at?: string
+          working_width_meters: number
+        }
+        Update: {
+          archived_at?: string | null
+          created_at?: string
+          id?: string
+          name?: string
+          offset_back_meters?: number
+          offset_right_meters?: number
+          tenant_id?: string
+          type?: string
+          updated_at?: string
+          working_width_meters?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "implements_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      import_batches: {
+        Row: {
+          column_mapping: Json | null
+          created_at: string
+          created_by: string | null
+          created_by_email: string | null
+          error: string | null
+          file_name: string
+          file_size: number | null
+          first_ping_at: string | null
+          id: string
+          last_ping_at: string | null
+          parse_options: Json | null
+          parts_processed: number
+          parts_total: number | null
+          parts_uploaded: number
+          rolled_back_at: string | null
+          stats: Json
+          status: string
+          tenant_id: string
+          tractor_id: string
+          updated_at: string
+        }
+        Insert: {
+          column_mapping?: Json | null
+          created_at?: string
+          created_by?: string | null
+          created_by_email?: string | null
+          error?: string | null
+          file_name: string
+          file_size?: number | null
+          first_ping_at?: string | null
+          id?: string
+          last_ping_at?: string | null
+          parse_options?: Json | null
+          parts_processed?: number
+          parts_total?: number | null
+          parts_uploaded?: number
+          rolled_back_at?: string | null
+          stats?: Json
+          status?: string
+          tenant_id: string
+          tractor_id: string
+          updated_at?: string
+        }
+        Update: {
+          column_mapping?: Json | null
+          created_at?: string
+          created_by?: string | null
+          created_by_email?: string | null
+          error?: string | null
+          file_name?: string
+          file_size?: number | null
+          first_ping_at?: string | null
+          id?: string
+          last_ping_at?: string | null
+          parse_options?: Json | null
+          parts_processed?: number
+          parts_total?: number | null
+          parts_uploaded?: number
+          rolled_back_at?: string | null
+          stats?: Json
+          status?: string
+          tenant_id?: string
+          tractor_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "import_batches_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "import_batches_tractor_id_fkey"
+            columns: ["tractor_id"]
+            isOneToOne: false
+            referencedRelation: "tractors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      import_mapping_profiles: {
+        Row: {
+          column_mapping: Json
+          coordinate_order: string
+          created_at: string
+          decimal_separator: string
+          header_row: number
+          headers: string[]
+          id: string
+          name: string
+          tenant_id: string
+          timestamp_format: string
+          timezone: string
+          updated_at: string
+        }
+        Insert: {
+          column_mapping?: Json
+          coordinate_order?: string
+          created_at?: string
+          decimal_separator?: string
+          header_row?: number
+          headers?: string[]
+          id?: string
+          name: string
+          tenant_id: string
+          timestamp_format?: string
+          timezone?: string
+          updated_at?: string
+        }
+        Update: {
+          column_mapping?: Json
+          coordinate_order?: string
+          created_at?: string
+          decimal_separator?: string
+          header_row?: number
+          headers?: string[]
+          id?: string
+          name?: string
+          tenant_id?: string
+          timestamp_format?: string
+          timezone?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "import_mapping_profiles_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      operator_shifts: {
+        Row: {
+          created_at: string
+          ended_at: string | null
+          id: string
+          operator_id: string
+          started_at: string
+          tenant_id: string
+          tractor_id: string
+        }
+        Insert: {
+          created_at?: string
+          ended_at?: string | null
+          id?: string
+          operator_id: string
+          started_at: string
+          tenant_id: string
+          tractor_id: string
+        }
+        Update: {
+          created_at?: string
+          ended_at?: string | null
+          id?: string
+          operator_id?: string
+          started_at?: string
+          tenant_id?: string
+          tractor_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "operator_shifts_operator_id_fkey"
+            columns: ["operator_id"]
+            isOneToOne: false
+            referencedRelation: "operators"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "operator_shifts_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "operator_shifts_tractor_id_fkey"
+            columns: ["tractor_id"]
+            isOneToOne: false
+            referencedRelation: "tractors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      operators: {
+        Row: {
+          archived_at: string | null
+          code: string | null
+          created_at: string
+          id: string
+          name: string
+          tenant_id: string
+          updated_at: string
+        }
+        Insert: {
+          archived_at?: string | null
+          code?: string | null
+          created_at?: string
+          id?: string
+          name: string
+          tenant_id: string
+          updated_at?: string
+        }
+        Update: {
+          archived_at?: string | null
+          code?: string | null
+          created_at?: string
+          id?: string
+          name?: string
+          tenant_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "operators_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      processing_job_blocks: {
+        Row: {
+          block_id: string
+          error: string | null
+          id: string
+          job_id: string
+          status: string
+          updated_at: string
+          visits_created: number
+          visits_updated: number
+        }
+        Insert: {
+          block_id: string
+          error?: string | null
+          id?: string
+          job_id: string
+          status?: string
+          updated_at?: string
+          visits_created?: number
+          visits_updated?: number
+        }
+        Update: {
+          block_id?: string
+          error?: string | null
+          id?: string
+          job_id?: string
+          status?: string
+          updated_at?: string
+          visits_created?: number
+          visits_updated?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "processing_job_blocks_block_id_fkey"
+            columns: ["block_id"]
+            isOneToOne: false
+            referencedRelation: "blocks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "processing_job_blocks_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "processing_jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      processing_jobs: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          failed_blocks: number
+          finished_at: string | null
+          id: string
+          last_tractor_id: string | null
+          mode: string
+          processed_blocks: number
+          processed_tractors: number
+          results: Json
+          started_at: string | null
+          status: string
+          tenant_id: string
+          total_blocks: number
+          total_tractors: number
+          tractor_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          failed_blocks?: number
+          finished_at?: string | null
+          id?: string
+          last_tractor_id?: string | null
+          mode?: string
+          processed_blocks?: number
+          processed_tractors?: number
+          results?: Json
+          started_at?: string | null
+          status?: string
+          tenant_id: string
+          total_blocks?: number
+          total_tractors?: number
+          tractor_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          failed_blocks?: number
+          finished_at?: string | null
+          id?: string
+          last_tractor_id?: string | null
+          mode?: string
+          processed_blocks?: number
+          processed_tractors?: number
+          results?: Json
+          started_at?: string | null
+          status?: string
+          tenant_id?: string
+          total_blocks?: number
+          total_tractors?: number
+          tractor_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "processing_jobs_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "processing_jobs_tractor_id_fkey"
+            columns: ["tractor_id"]
+            isOneToOne: false
+            referencedRelation: "tractors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           created_at: string
@@ -316,8 +831,60 @@ export type Database = {
         }
         Relationships: []
       }
+      tractor_device_tokens: {
+        Row: {
+          created_at: string
+          id: string
+          last_used_at: string | null
+          name: string
+          revoked_at: string | null
+          tenant_id: string
+          token_hash: string
+          token_prefix: string
+          tractor_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          last_used_at?: string | null
+          name: string
+          revoked_at?: string | null
+          tenant_id: string
+          token_hash: string
+          token_prefix: string
+          tractor_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          last_used_at?: string | null
+          name?: string
+          revoked_at?: string | null
+          tenant_id?: string
+          token_hash?: string
+          token_prefix?: string
+          tractor_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tractor_device_tokens_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tractor_device_tokens_tractor_id_fkey"
+            columns: ["tractor_id"]
+            isOneToOne: false
+            referencedRelation: "tractors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       tractors: {
         Row: {
+          archived_at: string | null
           created_at: string
           id: string
           identifier: string
@@ -327,8 +894,10 @@ export type Database = {
           metadata: Json | null
           name: string
           tenant_id: string
+          updated_at: string
         }
         Insert: {
+          archived_at?: string | null
           created_at?: string
           id?: string
           identifier: string
@@ -338,8 +907,10 @@ export type Database = {
           metadata?: Json | null
           name: string
           tenant_id: string
+          updated_at?: string
         }
         Update: {
+          archived_at?: string | null
           created_at?: string
           id?: string
           identifier?: string
@@ -349,6 +920,7 @@ export type Database = {
           metadata?: Json | null
           name?: string
           tenant_id?: string
+          updated_at?: string
         }
         Relationships: [
           {
@@ -360,12 +932,207 @@ export type Database = {
           },
         ]
       }
+      visit_detection_settings: {
+        Row: {
+          block_id: string | null
+          created_at: string
+          id: string
+          idle_max_speed_kmh: number | null
+          merge_gap_minutes: number | null
+          min_deep_pings: number | null
+          min_duration_minutes: number | null
+          min_penetration_depth_meters: number | null
+          min_pings_for_valid_visit: number | null
+          require_pto_for_work: boolean | null
+          stop_min_minutes: number | null
+          stop_radius_meters: number | null
+          tenant_id: string
+          turn_min_heading_change_deg: number | null
+          updated_at: string
+          work_max_speed_kmh: number | null
+        }
+        Insert: {
+          block_id?: string | null
+          created_at?: string
+          id?: string
+          idle_max_speed_kmh?: number | null
+          merge_gap_minutes?: number | null
+          min_deep_pings?: number | null
+          min_duration_minutes?: number | null
+          min_penetration_depth_meters?: number | null
+          min_pings_for_valid_visit?: number | null
+          require_pto_for_work?: boolean | null
+          stop_min_minutes?: number | null
+          stop_radius_meters?: number | null
+          tenant_id: string
+          turn_min_heading_change_deg?: number | null
+          updated_at?: string
+          work_max_speed_kmh?: number | null
+        }
+        Update: {
+          block_id?: string | null
+          created_at?: string
+          id?: string
+          idle_max_speed_kmh?: number | null
+          merge_gap_minutes?: number | null
+          min_deep_pings?: number | null
+          min_duration_minutes?: number | null
+          min_penetration_depth_meters?: number | null
+          min_pings_for_valid_visit?: number | null
+          require_pto_for_work?: boolean | null
+          stop_min_minutes?: number | null
+          stop_radius_meters?: number | null
+          tenant_id?: string
+          turn_min_heading_change_deg?: number | null
+          updated_at?: string
+          work_max_speed_kmh?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "visit_detection_settings_block_id_fkey"
+            columns: ["block_id"]
+            isOneToOne: false
+            referencedRelation: "blocks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "visit_detection_settings_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      visit_processing_state: {
+        Row: {
+          block_id: string
+          id: string
+          last_ping_at: string
+          open_visit_id: string | null
+          open_visit_started_at: string | null
+          tenant_id: string
+          tractor_id: string
+          updated_at: string
+        }
+        Insert: {
+          block_id: string
+          id?: string
+          last_ping_at: string
+          open_visit_id?: string | null
+          open_visit_started_at?: string | null
+          tenant_id: string
+          tractor_id: string
+          updated_at?: string
+        }
+        Update: {
+          block_id?: string
+          id?: string
+          last_ping_at?: string
+          open_visit_id?: string | null
+          open_visit_started_at?: string | null
+          tenant_id?: string
+          tractor_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "visit_processing_state_block_id_fkey"
+            columns: ["block_id"]
+            isOneToOne: false
+            referencedRelation: "blocks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "visit_processing_state_open_visit_id_fkey"
+            columns: ["open_visit_id"]
+            isOneToOne: false
+            referencedRelation: "block_visits"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "visit_processing_state_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "visit_processing_state_tractor_id_fkey"
+            columns: ["tractor_id"]
+            isOneToOne: false
+            referencedRelation: "tractors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      visit_stops: {
+        Row: {
+          created_at: string
+          duration_minutes: number
+          ended_at: string
+          id: string
+          lat: number
+          lon: number
+          ping_count: number
+          started_at: string
+          tenant_id: string
+          visit_id: string
+        }
+        Insert: {
+          created_at?: string
+          duration_minutes: number
+          ended_at: string
+          id?: string
+          lat: number
+          lon: number
+          ping_count?: number
+          started_at: string
+          tenant_id: string
+          visit_id: string
+        }
+        Update: {
+          created_at?: string
+          duration_minutes?: number
+          ended_at?: string
+          id?: string
+          lat?: number
+          lon?: number
+          ping_count?: number
+          started_at?: string
+          tenant_id?: string
+          visit_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "visit_stops_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "visit_stops_visit_id_fkey"
+            columns: ["visit_id"]
+            isOneToOne: false
+            referencedRelation: "block_visits"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      operator_on_shift: {
+        Args: { _at: string; _tractor_id: string }
+        Returns: string
+      }
+      rollback_import_batch: {
+        Args: { _batch_id: string }
+        Returns: number
+      }
     }
     Enums: {
       alert_status: "active" | "triggered" | "resolved"
@@ -0,0 +1,28 @@
+import * as turf from '@turf/turf';
+import type { Feature } from 'geojson';
+import type { Block, BlockGeometry } from '@/types/farm';
+
+/**
+ * Block surface in hectares. Uses the hectares stored in the block metadata
+ * when present, otherwise measures the geometry (holes are subtracted and
+ * every part of a MultiPolygon is added).
+ */
+export function getBlockAreaHectares(block: Block): number | null {
+  const declared = Number((block.metadata as { hectares?: unknown })?.hectares);
+  if (Number.isFinite(declared) && declared > 0) return declared;
+
+  try {
+    return turf.area(block.geometry_geojson) / 10000;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * A [lat, lon] point guaranteed to lie on the block, for centering the map.
+ * The centroid of a split parcel or a ring-shaped block can fall outside it.
+ */
+export function getBlockCenter(geometry: Feature<BlockGeometry>): [number, number] {
+  const [lon, lat] = turf.pointOnFeature(geometry).geometry.coordinates;
+  return [lat, lon];
+}
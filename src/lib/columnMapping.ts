@@ -0,0 +1,124 @@
+import type { CsvColumnMapping } from '@shared/csvImport';
+import type { ImportMappingProfile } from '@/types/farm';
+
+// Spreadsheet column used for each ping field, by header name
+export interface ColumnMapping extends Required<CsvColumnMapping> {
+  // Device id, for files mixing several tractors
+  device: string | null;
+}
+
+export const EMPTY_COLUMN_MAPPING: ColumnMapping = {
+  timestamp: null,
+  coordinates: null,
+  latitude: null,
+  longitude: null,
+  speed: null,
+  heading: null,
+  altitude: null,
+  hdop: null,
+  satellites: null,
+  ignition: null,
+  pto: null,
+  device: null,
+};
+
+// Share of a profile's headers a file must have for the profile to be suggested
+const PROFILE_MATCH_RATIO = 0.8;
+
+const DEVICE_COLUMN_PATTERN = /^(id[ _]?)?(device|dispositivo|imei|unidad|unit|equipo|vehiculo|vehicle)([ _]?id)?$/;
+
+// Header names of the tracker telemetry, once normalized
+const TELEMETRY_COLUMN_PATTERNS: Record<'heading' | 'altitude' | 'hdop' | 'satellites' | 'ignition' | 'pto', RegExp> = {
+  heading: /rumbo|heading|course|bearing|azimut/,
+  altitude: /altitud|altitude|elevacion|elevation/,
+  hdop: /hdop/,
+  satellites: /satelite|satellite|^sats?$|num[ _]?sat/,
+  ignition: /ignicion|ignition|encendido|contacto/,
+  pto: /(^|[^a-z])pto([^a-z]|$)|toma de fuerza|^tdf$/,
+};
+
+// Lowercase and without accents, so "Posición" reads as "posicion"
+const normalizeHeader = (header: string) =>
+  header.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+
+/**
+ * Column of each field guessed from the header names. A combined coordinates
+ * column is not also taken for latitude or longitude, even when its name
+ * spells them out as in "Posición (lat;lon)".
+ */
+export function suggestColumnMapping(columns: string[]): ColumnMapping {
+  const mapping = { ...EMPTY_COLUMN_MAPPING };
+
+  for (const col of columns) {
+    const name = normalizeHeader(col);
+
+    if (/fecha|date|time|hora/.test(name)) {
+      mapping.timestamp = col;
+    }
+
+    if (/coord|ubicacion|location|posicion|position/.test(name)) {
+      mapping.coordinates = col;
+      continue;
+    }
+
+    if (name.includes('lat') || name === 'y') {
+      mapping.latitude = col;
+    }
+    if (name.includes('lon') || name.includes('lng') || name === 'x') {
+      mapping.longitude = col;
+    }
+
+    if (/speed|vel/.test(name)) {
+      mapping.speed = col;
+    }
+
+    if (DEVICE_COLUMN_PATTERN.test(name)) {
+      mapping.device = col;
+    }
+
+    for (const [field, pattern] of Object.entries(TELEMETRY_COLUMN_PATTERNS)) {
+      if (pattern.test(name)) mapping[field as keyof typeof TELEMETRY_COLUMN_PATTERNS] = col;
+    }
+  }
+
+  return mapping;
+}
+
+/**
+ * Profile saved from a file with the same layout as the one being imported:
+ * the one with the largest share of its headers in the row it names as the
+ * header row, when that share reaches PROFILE_MATCH_RATIO. Rows are the first
+ * rows of the file, as in the header row selection.
+ */
+export function matchMappingProfile<T extends Pick<ImportMappingProfile, 'headers' | 'header_row'>>(
+  profiles: T[],
+  rows: unknown[][]
+): T | null {
+  let best: T | null = null;
+  let bestRatio = 0;
+
+  for (const profile of profiles) {
+    const row = rows[profile.header_row];
+    if (!row || profile.headers.length === 0) continue;
+
+    const headers = new Set(row.map((cell) => normalizeHeader(String(cell ?? ''))));
+    const found = profile.headers.filter((header) => headers.has(normalizeHeader(header))).length;
+    const ratio = found / profile.headers.length;
+    if (ratio >= PROFILE_MATCH_RATIO && ratio > bestRatio) {
+      best = profile;
+      bestRatio = ratio;
+    }
+  }
+
+  return best;
+}
+
+// A profile's mapping reduced to the columns the file has
+export function profileColumnMapping(profile: Pick<ImportMappingProfile, 'column_mapping'>, columns: string[]): ColumnMapping {
+  const mapping = { ...EMPTY_COLUMN_MAPPING };
+  for (const field of Object.keys(mapping) as (keyof ColumnMapping)[]) {
+    const column = profile.column_mapping[field];
+    if (column && columns.includes(column)) mapping[field] = column;
+  }
+  return mapping;
+}
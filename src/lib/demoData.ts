@@ -1,5 +1,5 @@
 import type { Feature, Polygon } from 'geojson';
-import type { Block, Tractor, BlockMetrics, BlockVisit, GpsPing } from '@/types/farm';
+import type { Block, BlockMetrics, BlockVisit, GpsPing } from '@/types/farm';
 
 // Demo cuarteles in Valle de Casablanca (Chilean wine region - RURAL)
 // Centered around -33.32, -71.42
@@ -126,25 +126,6 @@ export const demoBlocks: Omit<Block, 'id' | 'tenant_id' | 'created_at' | 'update
   },
 ];
 
-export const demoTractors: Omit<Tractor, 'id' | 'tenant_id' | 'created_at'>[] = [
-  {
-    name: 'Tractor Principal',
-    identifier: 'T-001',
-    metadata: { brand: 'John Deere', model: '6120M' },
-    last_lat: -33.315,
-    last_lon: -71.424,
-    last_seen_at: new Date().toISOString(),
-  },
-  {
-    name: 'Tractor Secundario',
-    identifier: 'T-002',
-    metadata: { brand: 'New Holland', model: 'T6.180' },
-    last_lat: -33.322,
-    last_lon: -71.420,
-    last_seen_at: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(),
-  },
-];
-
 // Generate demo metrics with varied "time since last pass"
 export function generateDemoMetrics(blockId: string, index: number): Omit<BlockMetrics, 'id'> {
   const hoursAgo = [2, 8, 24, 36, 72, 120][index % 6];
@@ -0,0 +1,369 @@
+import * as XLSX from 'xlsx';
+import { parseTaskData } from '@/lib/isoxmlTaskData';
+import type { Tractor } from '@/types/farm';
+import type { PingTelemetry } from '@shared/pingIngest';
+
+// Ping ready for the import-gps-data function; speed in km/h
+export interface ParsedPing extends PingTelemetry {
+  ts: string;
+  lat: number;
+  lon: number;
+  speed?: number;
+  // Implement working, when the logger reports it
+  work_state?: boolean;
+}
+
+// Pings of one logging device in a file that may hold several
+export interface DeviceTrack {
+  deviceKey: string;
+  label: string;
+  // Values that may match a tractor identifier (serial number, name...)
+  identifiers: string[];
+  pings: ParsedPing[];
+}
+
+export interface ParsedTrack {
+  pings: ParsedPing[];
+  errors: string[];
+  // Set when the file identifies its devices; pings then holds all of them
+  devices?: DeviceTrack[];
+}
+
+// Track formats read without a column-mapping step
+export type TrackFormat = 'gpx' | 'kml' | 'kmz' | 'nmea' | 'isoxml';
+
+export const TRACK_FORMAT_LABELS: Record<TrackFormat, string> = {
+  gpx: 'GPX',
+  kml: 'KML',
+  kmz: 'KMZ',
+  nmea: 'NMEA',
+  isoxml: 'ISOBUS TaskData',
+};
+
+const TRACK_EXTENSIONS: Record<string, TrackFormat> = {
+  gpx: 'gpx',
+  kml: 'kml',
+  kmz: 'kmz',
+  nmea: 'nmea',
+  nma: 'nmea',
+  zip: 'isoxml',
+};
+
+const KNOTS_TO_KMH = 1.852;
+const MS_TO_KMH = 3.6;
+
+/**
+ * Track format of a file from its extension. Plain text logs (.txt, .log)
+ * count as NMEA when their first line is a sentence.
+ */
+export function detectTrackFormat(fileName: string, firstLine?: string): TrackFormat | null {
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+  if (TRACK_EXTENSIONS[extension]) {
+    return TRACK_EXTENSIONS[extension];
+  }
+  if ((extension === 'txt' || extension === 'log') && firstLine?.trimStart().startsWith('$')) {
+    return 'nmea';
+  }
+  return null;
+}
+
+function isValidCoordinate(lat: number, lon: number): boolean {
+  return Number.isFinite(lat) && Number.isFinite(lon) && Math.abs(lat) <= 90 && Math.abs(lon) <= 180;
+}
+
+function toIsoTimestamp(value: string | null | undefined): string | null {
+  if (!value) return null;
+  const date = new Date(value.trim());
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+// Elements by local name, whatever namespace prefix the exporter used
+function elementsByName(root: Document | Element, name: string): Element[] {
+  return Array.from(root.getElementsByTagNameNS('*', name));
+}
+
+function childText(element: Element, name: string): string | null {
+  return elementsByName(element, name)[0]?.textContent ?? null;
+}
+
+function parseXml(text: string): Document | null {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  return doc.getElementsByTagName('parsererror').length > 0 ? null : doc;
+}
+
+/**
+ * Track points of a GPX file. Speed comes from the GPX 1.0 <speed> element
+ * or the Garmin/Strava extensions, in m/s.
+ */
+export function parseGpx(text: string): ParsedTrack {
+  const doc = parseXml(text);
+  if (!doc) {
+    return { pings: [], errors: ['El archivo GPX no es un XML válido'] };
+  }
+
+  const pings: ParsedPing[] = [];
+  const errors: string[] = [];
+  const points = elementsByName(doc, 'trkpt');
+
+  points.forEach((point, i) => {
+    const lat = parseFloat(point.getAttribute('lat') ?? '');
+    const lon = parseFloat(point.getAttribute('lon') ?? '');
+    const ts = toIsoTimestamp(childText(point, 'time'));
+
+    if (!ts) {
+      errors.push(`Punto ${i + 1}: Timestamp inválido o faltante`);
+      return;
+    }
+    if (!isValidCoordinate(lat, lon)) {
+      errors.push(`Punto ${i + 1}: Coordenadas inválidas o faltantes`);
+      return;
+    }
+
+    const speed = parseFloat(childText(point, 'speed') ?? '');
+    pings.push({ ts, lat, lon, speed: Number.isFinite(speed) ? speed * MS_TO_KMH : undefined });
+  });
+
+  if (points.length === 0) {
+    errors.push('El archivo GPX no contiene puntos de track (trkpt)');
+  }
+
+  return { pings, errors };
+}
+
+/**
+ * Timed positions of a KML file: gx:Track elements (<when> paired with
+ * <gx:coord>) and placemarks with a <TimeStamp> and a <Point>. Paths
+ * without times (plain LineStrings) cannot be imported.
+ */
+export function parseKml(text: string): ParsedTrack {
+  const doc = parseXml(text);
+  if (!doc) {
+    return { pings: [], errors: ['El archivo KML no es un XML válido'] };
+  }
+
+  const pings: ParsedPing[] = [];
+  const errors: string[] = [];
+
+  elementsByName(doc, 'Track').forEach((track, t) => {
+    const whens = elementsByName(track, 'when');
+    const coords = elementsByName(track, 'coord');
+    if (whens.length !== coords.length) {
+      errors.push(`Track ${t + 1}: ${whens.length} tiempos para ${coords.length} coordenadas`);
+    }
+
+    for (let i = 0; i < Math.min(whens.length, coords.length); i++) {
+      const ts = toIsoTimestamp(whens[i].textContent);
+      // gx:coord is "lon lat [alt]"
+      const [lon, lat] = (coords[i].textContent ?? '').trim().split(/\s+/).map(parseFloat);
+      if (!ts) {
+        errors.push(`Track ${t + 1}, punto ${i + 1}: Timestamp inválido o faltante`);
+      } else if (!isValidCoordinate(lat, lon)) {
+        errors.push(`Track ${t + 1}, punto ${i + 1}: Coordenadas inválidas o faltantes`);
+      } else {
+        pings.push({ ts, lat, lon });
+      }
+    }
+  });
+
+  elementsByName(doc, 'Placemark').forEach((placemark, i) => {
+    const timeStamp = elementsByName(placemark, 'TimeStamp')[0];
+    const point = elementsByName(placemark, 'Point')[0];
+    if (!timeStamp || !point) return;
+
+    const ts = toIsoTimestamp(childText(timeStamp, 'when'));
+    // <coordinates> is "lon,lat[,alt]"
+    const [lon, lat] = (childText(point, 'coordinates') ?? '').trim().split(',').map(parseFloat);
+    if (!ts) {
+      errors.push(`Placemark ${i + 1}: Timestamp inválido o faltante`);
+    } else if (!isValidCoordinate(lat, lon)) {
+      errors.push(`Placemark ${i + 1}: Coordenadas inválidas o faltantes`);
+    } else {
+      pings.push({ ts, lat, lon });
+    }
+  });
+
+  if (pings.length === 0 && errors.length === 0) {
+    errors.push(
+      elementsByName(doc, 'LineString').length > 0
+        ? 'El KML contiene recorridos sin marcas de tiempo; expórtalo como track con tiempos (gx:Track)'
+        : 'El archivo KML no contiene posiciones con marca de tiempo'
+    );
+  }
+
+  pings.sort((a, b) => a.ts.localeCompare(b.ts));
+  return { pings, errors };
+}
+
+// KMZ is a zip holding the KML document (doc.kml, or the first .kml at the root)
+export function parseKmz(data: Uint8Array): ParsedTrack {
+  let kmlText: string | null = null;
+  try {
+    const container = XLSX.CFB.read(data, { type: 'array' });
+    const paths: string[] = container.FullPaths;
+    const docIndex = paths.findIndex((p) => /(^|\/)doc\.kml$/i.test(p));
+    const index = docIndex >= 0 ? docIndex : paths.findIndex((p) => /\.kml$/i.test(p));
+    if (index >= 0) {
+      kmlText = new TextDecoder().decode(container.FileIndex[index].content);
+    }
+  } catch (error) {
+    console.error('Failed to unzip KMZ:', error);
+    return { pings: [], errors: ['El archivo KMZ está dañado o no es un zip'] };
+  }
+
+  if (kmlText === null) {
+    return { pings: [], errors: ['El archivo KMZ no contiene ningún documento KML'] };
+  }
+  return parseKml(kmlText);
+}
+
+// NMEA "ddmm.mmmm" / "dddmm.mmmm" plus hemisphere to decimal degrees
+function nmeaToDegrees(value: string, hemisphere: string): number {
+  const dot = value.indexOf('.');
+  const degreeDigits = (dot === -1 ? value.length : dot) - 2;
+  const degrees = parseInt(value.slice(0, degreeDigits), 10);
+  const minutes = parseFloat(value.slice(degreeDigits));
+  const decimal = degrees + minutes / 60;
+  return hemisphere === 'S' || hemisphere === 'W' ? -decimal : decimal;
+}
+
+function hasValidChecksum(sentence: string): boolean {
+  const star = sentence.indexOf('*');
+  if (star === -1) return true;
+
+  let checksum = 0;
+  for (let i = 1; i < star; i++) {
+    checksum ^= sentence.charCodeAt(i);
+  }
+  return checksum === parseInt(sentence.slice(star + 1, star + 3), 16);
+}
+
+/**
+ * Fixes from raw NMEA sentences ($GPRMC and $GPGGA, any talker). GGA carries
+ * no date, so it takes the date of the last RMC; both sentences of the same
+ * fix merge into one ping, RMC supplying the speed.
+ */
+export function parseNmea(text: string): ParsedTrack {
+  const byTimestamp = new Map<string, ParsedPing>();
+  const errors: string[] = [];
+  let currentDate: string | null = null; // yyyy-mm-dd from the last RMC
+  let sentences = 0;
+
+  const lines = text.split(/\r?\n/);
+  lines.forEach((rawLine, i) => {
+    const line = rawLine.trim();
+    const match = /^\$[A-Z]{2}(RMC|GGA),/.exec(line);
+    if (!match) return;
+    sentences++;
+
+    if (!hasValidChecksum(line)) {
+      errors.push(`Línea ${i + 1}: Checksum inválido`);
+      return;
+    }
+
+    const fields = line.split('*')[0].split(',');
+    const time = fields[1];
+    let lat: number;
+    let lon: number;
+    let speed: number | undefined;
+
+    if (match[1] === 'RMC') {
+      // $xxRMC,hhmmss.ss,A,llll.ll,a,yyyyy.yy,a,knots,course,ddmmyy,...
+      const date = fields[9];
+      if (date?.length === 6) {
+        currentDate = `20${date.slice(4, 6)}-${date.slice(2, 4)}-${date.slice(0, 2)}`;
+      }
+      if (fields[2] !== 'A') return; // No fix
+      lat = nmeaToDegrees(fields[3], fields[4]);
+      lon = nmeaToDegrees(fields[5], fields[6]);
+      const knots = parseFloat(fields[7]);
+      speed = Number.isFinite(knots) ? knots * KNOTS_TO_KMH : undefined;
+    } else {
+      // $xxGGA,hhmmss.ss,llll.ll,a,yyyyy.yy,a,quality,...
+      if (!fields[6] || fields[6] === '0') return; // No fix
+      lat = nmeaToDegrees(fields[2], fields[3]);
+      lon = nmeaToDegrees(fields[4], fields[5]);
+    }
+
+    if (!currentDate) {
+      errors.push(`Línea ${i + 1}: Sin fecha (se requiere una sentencia RMC previa)`);
+      return;
+    }
+    if (!time || time.length < 6) {
+      errors.push(`Línea ${i + 1}: Hora inválida o faltante`);
+      return;
+    }
+    if (!isValidCoordinate(lat, lon)) {
+      errors.push(`Línea ${i + 1}: Coordenadas inválidas o faltantes`);
+      return;
+    }
+
+    const ts = toIsoTimestamp(`${currentDate}T${time.slice(0, 2)}:${time.slice(2, 4)}:${time.slice(4)}Z`);
+    if (!ts) {
+      errors.push(`Línea ${i + 1}: Hora inválida o faltante`);
+      return;
+    }
+
+    const existing = byTimestamp.get(ts);
+    byTimestamp.set(ts, { ts, lat, lon, speed: speed ?? existing?.speed });
+  });
+
+  if (sentences === 0) {
+    errors.push('El archivo no contiene sentencias RMC ni GGA');
+  }
+
+  const pings = Array.from(byTimestamp.values()).sort((a, b) => a.ts.localeCompare(b.ts));
+  return { pings, errors };
+}
+
+// Tractor whose identifier matches one of a device's, ignoring case and spaces
+export function matchTractorByIdentifier<T extends Pick<Tractor, 'identifier'>>(
+  identifiers: string[],
+  tractors: T[]
+): T | null {
+  const normalize = (value: string) => value.replace(/\s+/g, '').toLowerCase();
+  const wanted = new Set(identifiers.map(normalize).filter(Boolean));
+  return tractors.find((t) => t.identifier && wanted.has(normalize(t.identifier))) ?? null;
+}
+
+/**
+ * Split pings by the device that logged them, for files mixing several units
+ * (one device id column). Each device's own id is its only identifier.
+ */
+export function groupDeviceTracks(entries: { device: string; ping: ParsedPing }[]): DeviceTrack[] {
+  const tracks = new Map<string, DeviceTrack>();
+  for (const { device, ping } of entries) {
+    const track = tracks.get(device);
+    if (track) {
+      track.pings.push(ping);
+    } else {
+      tracks.set(device, { deviceKey: device, label: device, identifiers: [device], pings: [ping] });
+    }
+  }
+
+  const result = Array.from(tracks.values());
+  for (const track of result) {
+    track.pings.sort((a, b) => a.ts.localeCompare(b.ts));
+  }
+  return result.sort((a, b) => a.label.localeCompare(b.label, undefined, { numeric: true }));
+}
+
+// Parse a file already detected as a track format
+export function parseTrackFile(format: TrackFormat, data: ArrayBuffer): ParsedTrack {
+  if (format === 'kmz') {
+    return parseKmz(new Uint8Array(data));
+  }
+  if (format === 'isoxml') {
+    const { devices, errors } = parseTaskData(new Uint8Array(data));
+    return { pings: devices.flatMap((d) => d.pings), errors, devices };
+  }
+
+  const text = new TextDecoder().decode(data);
+  switch (format) {
+    case 'gpx':
+      return parseGpx(text);
+    case 'kml':
+      return parseKml(text);
+    case 'nmea':
+      return parseNmea(text);
+  }
+}
@@ -0,0 +1,78 @@
+import type { BlockVisit, Implement, ImplementAssignment } from '@/types/farm';
+
+// Width assumed when a visit has no implement
+export const DEFAULT_WORK_WIDTH_METERS = 6;
+
+const EARTH_RADIUS_METERS = 6371008.8;
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+
+/**
+ * Implement used in a visit: the one picked for the visit itself, otherwise
+ * the one hitched to its tractor when the visit started. When assignments
+ * overlap, the most recently started one wins.
+ */
+export function resolveVisitImplement(
+  visit: Pick<BlockVisit, 'tractor_id' | 'started_at' | 'implement_id'>,
+  implementsList: Implement[],
+  assignments: ImplementAssignment[]
+): Implement | null {
+  const byId = new Map(implementsList.map((i) => [i.id, i]));
+  if (visit.implement_id) {
+    return byId.get(visit.implement_id) ?? null;
+  }
+
+  const startedAt = new Date(visit.started_at).getTime();
+  let current: ImplementAssignment | null = null;
+  for (const assignment of assignments) {
+    if (assignment.tractor_id !== visit.tractor_id) continue;
+    if (new Date(assignment.started_at).getTime() > startedAt) continue;
+    if (assignment.ended_at && new Date(assignment.ended_at).getTime() <= startedAt) continue;
+    if (!current || assignment.started_at > current.started_at) {
+      current = assignment;
+    }
+  }
+
+  return current ? byId.get(current.implement_id) ?? null : null;
+}
+
+/**
+ * Move each point of a track from the GPS antenna to the implement center:
+ * `back` meters against the direction of travel and `right` meters to its
+ * right. The direction at each point is taken from its neighbours; points
+ * without movement around them keep the last known direction.
+ */
+export function offsetTrack(
+  points: { lat: number; lon: number }[],
+  back: number,
+  right: number
+): [number, number][] {
+  if (back === 0 && right === 0) {
+    return points.map((p) => [p.lon, p.lat]);
+  }
+
+  let lastHeading: [number, number] | null = null;
+
+  return points.map((p, i) => {
+    const from = points[Math.max(0, i - 1)];
+    const to = points[Math.min(points.length - 1, i + 1)];
+    const metersPerDegLat = toRad(1) * EARTH_RADIUS_METERS;
+    const metersPerDegLon = metersPerDegLat * Math.cos(toRad(p.lat));
+
+    // Unit vector of travel in local meters (east, north)
+    const dx = (to.lon - from.lon) * metersPerDegLon;
+    const dy = (to.lat - from.lat) * metersPerDegLat;
+    const length = Math.hypot(dx, dy);
+    if (length > 0) {
+      lastHeading = [dx / length, dy / length];
+    }
+    if (!lastHeading) {
+      return [p.lon, p.lat];
+    }
+
+    const [ex, ey] = lastHeading;
+    // Right of the direction of travel is the heading rotated clockwise
+    const east = -ex * back + ey * right;
+    const north = -ey * back - ex * right;
+    return [p.lon + east / metersPerDegLon, p.lat + north / metersPerDegLat];
+  });
+}
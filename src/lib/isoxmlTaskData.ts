@@ -0,0 +1,269 @@
+import * as XLSX from 'xlsx';
+import type { DeviceTrack, ParsedPing } from '@/lib/gpsTrackFormats';
+
+// ISO 11783-10 TaskData: TASKDATA.XML describes devices and tasks; each task's
+// time logs are a TLGxxxxx.XML header plus a TLGxxxxx.BIN file of records
+// whose layout the header defines.
+
+// Process data (DDI) values used for pings
+const DDI_ACTUAL_WORK_STATE = 0x008d;
+const DDI_CONDENSED_WORK_STATE_1_16 = 0x00a1;
+const DDI_ACTUAL_SPEED = 0x018d; // mm/s
+
+// PTN position status values without a usable position
+const POSITION_NO_FIX = 0;
+const POSITION_ERROR = 14;
+const POSITION_NOT_AVAILABLE = 15;
+
+const ISOXML_EPOCH_MS = Date.UTC(1980, 0, 1);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TaskDataResult {
+  devices: DeviceTrack[];
+  errors: string[];
+}
+
+// Binary layout of a time log, from its XML header
+interface TimeLogHeader {
+  hasTime: boolean;
+  // PTN attributes present in every binary record, in record order
+  positionFields: Set<string>;
+  fixedPosition: Record<string, number>;
+  ddis: number[];
+  deviceElementIds: string[];
+}
+
+// Field sizes of the PTN attributes when they are logged in the binary file
+const POSITION_FIELDS: [string, 'int32' | 'uint32' | 'uint16' | 'uint8'][] = [
+  ['A', 'int32'],  // north, 1e-7 degrees
+  ['B', 'int32'],  // east, 1e-7 degrees
+  ['C', 'int32'],  // up, millimeters
+  ['D', 'uint8'],  // position status
+  ['E', 'uint16'], // PDOP
+  ['F', 'uint16'], // HDOP
+  ['G', 'uint8'],  // satellites
+  ['H', 'uint32'], // GPS UTC time, ms since midnight
+  ['I', 'uint16'], // GPS UTC date, days since 1980-01-01
+];
+
+function parseXml(text: string): Document | null {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  return doc.getElementsByTagName('parsererror').length > 0 ? null : doc;
+}
+
+function readTimeLogHeader(doc: Document): TimeLogHeader | null {
+  const tim = doc.getElementsByTagName('TIM')[0];
+  if (!tim) return null;
+
+  const ptn = tim.getElementsByTagName('PTN')[0];
+  const positionFields = new Set<string>();
+  const fixedPosition: Record<string, number> = {};
+  for (const [field] of POSITION_FIELDS) {
+    const value = ptn?.getAttribute(field);
+    if (value === '') {
+      positionFields.add(field);
+    } else if (value !== null && value !== undefined) {
+      fixedPosition[field] = Number(value);
+    }
+  }
+
+  const dlvs = Array.from(tim.getElementsByTagName('DLV'));
+  return {
+    hasTime: tim.getAttribute('A') === '',
+    positionFields,
+    fixedPosition,
+    ddis: dlvs.map((dlv) => parseInt(dlv.getAttribute('A') ?? '', 16)),
+    deviceElementIds: dlvs.map((dlv) => dlv.getAttribute('C') ?? ''),
+  };
+}
+
+// Any of the 16 two-bit section states "on"; null when none is available
+function condensedWorkState(value: number): boolean | null {
+  let available = false;
+  for (let section = 0; section < 16; section++) {
+    const state = (value >>> (section * 2)) & 0b11;
+    if (state === 1) return true;
+    if (state === 0) available = true;
+  }
+  return available ? false : null;
+}
+
+/**
+ * Decode the records of a binary time log. Records without a position fix
+ * are skipped. The time comes from the logged GPS UTC time when present,
+ * otherwise from the terminal clock, taken as UTC.
+ */
+function decodeTimeLog(header: TimeLogHeader, data: Uint8Array): { pings: ParsedPing[]; error: string | null } {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const pings: ParsedPing[] = [];
+  let offset = 0;
+
+  const read = (type: 'int32' | 'uint32' | 'uint16' | 'uint8'): number => {
+    switch (type) {
+      case 'int32': offset += 4; return view.getInt32(offset - 4, true);
+      case 'uint32': offset += 4; return view.getUint32(offset - 4, true);
+      case 'uint16': offset += 2; return view.getUint16(offset - 2, true);
+      case 'uint8': offset += 1; return view.getUint8(offset - 1);
+    }
+  };
+
+  while (offset < data.byteLength) {
+    try {
+      let terminalTime: number | null = null;
+      if (header.hasTime) {
+        const ms = read('uint32');
+        const days = read('uint16');
+        terminalTime = ISOXML_EPOCH_MS + days * DAY_MS + ms;
+      }
+
+      const position: Record<string, number> = { ...header.fixedPosition };
+      for (const [field, type] of POSITION_FIELDS) {
+        if (header.positionFields.has(field)) {
+          position[field] = read(type);
+        }
+      }
+
+      let speed: number | undefined;
+      let workState: boolean | undefined;
+      const valueCount = read('uint8');
+      for (let i = 0; i < valueCount; i++) {
+        const ddi = header.ddis[read('uint8')];
+        const value = read('int32');
+        if (ddi === DDI_ACTUAL_SPEED) {
+          speed = (Math.abs(value) / 1000) * 3.6;
+        } else if (ddi === DDI_ACTUAL_WORK_STATE && (value === 0 || value === 1)) {
+          workState = value === 1;
+        } else if (ddi === DDI_CONDENSED_WORK_STATE_1_16 && workState === undefined) {
+          workState = condensedWorkState(value) ?? undefined;
+        }
+      }
+
+      const status = position.D;
+      if (status === POSITION_NO_FIX || status === POSITION_ERROR || status === POSITION_NOT_AVAILABLE) continue;
+      if (position.A === undefined || position.B === undefined) continue;
+
+      const lat = position.A * 1e-7;
+      const lon = position.B * 1e-7;
+      if ((lat === 0 && lon === 0) || Math.abs(lat) > 90 || Math.abs(lon) > 180) continue;
+
+      const time = position.H !== undefined && position.I !== undefined
+        ? ISOXML_EPOCH_MS + position.I * DAY_MS + position.H
+        : terminalTime;
+      if (time === null) continue;
+
+      pings.push({ ts: new Date(time).toISOString(), lat, lon, speed, work_state: workState });
+    } catch {
+      // DataView throws past the end of the buffer
+      return { pings, error: `registro incompleto en el byte ${offset}` };
+    }
+  }
+
+  return { pings, error: null };
+}
+
+interface TaskDataFiles {
+  get: (name: string) => Uint8Array | null;
+}
+
+function readZip(data: Uint8Array): TaskDataFiles {
+  const container = XLSX.CFB.read(data, { type: 'array' });
+  const byName = new Map<string, Uint8Array>();
+  container.FullPaths.forEach((path: string, i: number) => {
+    const content = container.FileIndex[i].content;
+    if (content) {
+      byName.set(path.split('/').pop()!.toUpperCase(), new Uint8Array(content));
+    }
+  });
+  return { get: (name) => byName.get(name.toUpperCase()) ?? null };
+}
+
+/**
+ * Positions of every time log in a TaskData zip, grouped by the devices
+ * that logged them. A log belongs to the devices owning the elements of its
+ * process data, plus those allocated to its task; their serial numbers and
+ * designators are the identifiers matched against tractors.
+ */
+export function parseTaskData(data: Uint8Array): TaskDataResult {
+  let files: TaskDataFiles;
+  try {
+    files = readZip(data);
+  } catch (error) {
+    console.error('Failed to unzip TaskData:', error);
+    return { devices: [], errors: ['El archivo no es un zip válido'] };
+  }
+
+  const taskDataFile = files.get('TASKDATA.XML');
+  const taskData = taskDataFile && parseXml(new TextDecoder().decode(taskDataFile));
+  if (!taskData) {
+    return { devices: [], errors: ['El zip no contiene un TASKDATA.XML válido'] };
+  }
+
+  const devices = new Map<string, Element>();
+  const deviceByElement = new Map<string, string>();
+  for (const dvc of Array.from(taskData.getElementsByTagName('DVC'))) {
+    const id = dvc.getAttribute('A') ?? '';
+    devices.set(id, dvc);
+    for (const det of Array.from(dvc.getElementsByTagName('DET'))) {
+      deviceByElement.set(det.getAttribute('A') ?? '', id);
+    }
+  }
+
+  const tracks = new Map<string, DeviceTrack>();
+  const errors: string[] = [];
+
+  for (const task of Array.from(taskData.getElementsByTagName('TSK'))) {
+    const allocated = Array.from(task.getElementsByTagName('DAN'))
+      .map((dan) => dan.getAttribute('C'))
+      .filter((id): id is string => !!id && devices.has(id));
+
+    for (const tlg of Array.from(task.getElementsByTagName('TLG'))) {
+      const name = tlg.getAttribute('A') ?? '';
+      const headerFile = files.get(`${name}.XML`);
+      const binaryFile = files.get(`${name}.BIN`);
+      const headerDoc = headerFile && parseXml(new TextDecoder().decode(headerFile));
+      const header = headerDoc ? readTimeLogHeader(headerDoc) : null;
+      if (!header || !binaryFile) {
+        errors.push(`${name}: faltan el encabezado o los datos binarios`);
+        continue;
+      }
+
+      const { pings, error } = decodeTimeLog(header, binaryFile);
+      if (error) {
+        errors.push(`${name}: ${error}`);
+      }
+      if (pings.length === 0) continue;
+
+      const logged = header.deviceElementIds
+        .map((id) => deviceByElement.get(id))
+        .filter((id): id is string => !!id);
+      let deviceIds = Array.from(new Set([...logged, ...allocated])).sort();
+      if (deviceIds.length === 0 && devices.size === 1) {
+        deviceIds = Array.from(devices.keys());
+      }
+
+      const key = deviceIds.join('+') || 'unknown';
+      const track = tracks.get(key) ?? {
+        deviceKey: key,
+        label: deviceIds.length > 0
+          ? deviceIds.map((id) => devices.get(id)!.getAttribute('B') || id).join(' + ')
+          : 'Equipo sin identificar',
+        identifiers: deviceIds.flatMap((id) => {
+          const dvc = devices.get(id)!;
+          return ['E', 'B', 'D'].map((attr) => dvc.getAttribute(attr)).filter((v): v is string => !!v);
+        }),
+        pings: [],
+      };
+      track.pings.push(...pings);
+      tracks.set(key, track);
+    }
+  }
+
+  if (tracks.size === 0 && errors.length === 0) {
+    errors.push('El TaskData no contiene registros de posición (TLG)');
+  }
+
+  for (const track of tracks.values()) {
+    track.pings.sort((a, b) => a.ts.localeCompare(b.ts));
+  }
+  return { devices: Array.from(tracks.values()), errors };
+}
@@ -0,0 +1,69 @@
+import { detectDelimiter, splitCsvLine, type CsvDelimiter } from '@shared/csvImport';
+
+// CSV files above this size are uploaded in parts and parsed by process-gps-file
+// instead of being read whole by the browser
+export const LARGE_FILE_BYTES = 20 * 1024 * 1024;
+export const IMPORT_PART_BYTES = 8 * 1024 * 1024;
+// Bytes read for the column mapping preview
+const PREVIEW_BYTES = 512 * 1024;
+// Window searched for the line break that ends a part
+const LINE_SCAN_BYTES = 64 * 1024;
+
+const NEWLINE = 10;
+
+export function isLargeDelimitedFile(file: { name: string; size: number }) {
+  return file.size > LARGE_FILE_BYTES && /\.(csv|txt)$/i.test(file.name);
+}
+
+/**
+ * Byte offsets where the parts of a file start. Each part is about partBytes
+ * long and ends right after a line break, so the server can parse it on its
+ * own. The same file always gives the same offsets, which is what lets an
+ * interrupted upload resume at its last part.
+ */
+export async function findPartOffsets(file: Blob, partBytes = IMPORT_PART_BYTES): Promise<number[]> {
+  const offsets = [0];
+  let position = partBytes;
+
+  while (position < file.size) {
+    const window = new Uint8Array(await file.slice(position, position + LINE_SCAN_BYTES).arrayBuffer());
+    const lineBreak = window.indexOf(NEWLINE);
+    if (lineBreak === -1) {
+      // A line longer than the window: keep looking further on
+      position += window.length;
+      continue;
+    }
+
+    const next = position + lineBreak + 1;
+    if (next >= file.size) break;
+    offsets.push(next);
+    position = next + partBytes;
+  }
+
+  return offsets;
+}
+
+/**
+ * First complete lines of a delimited file, split into fields, for the header
+ * row choice and the column mapping. Empty lines are skipped, as the server
+ * does when counting the header row.
+ */
+export async function readFilePreview(file: Blob): Promise<{ rows: string[][]; delimiter: CsvDelimiter }> {
+  const text = await file.slice(0, PREVIEW_BYTES).text();
+  const complete = file.size > PREVIEW_BYTES ? text.slice(0, text.lastIndexOf('\n') + 1) : text;
+  const lines = complete.split(/\r?\n/).filter((line) => line.trim());
+
+  // Title lines may come before the header: go by the line with the most fields
+  let delimiter: CsvDelimiter = ',';
+  let mostFields = 0;
+  for (const line of lines.slice(0, 10)) {
+    const candidate = detectDelimiter(line);
+    const fields = splitCsvLine(line, candidate).length;
+    if (fields > mostFields) {
+      delimiter = candidate;
+      mostFields = fields;
+    }
+  }
+
+  return { rows: lines.map((line) => splitCsvLine(line, delimiter)), delimiter };
+}
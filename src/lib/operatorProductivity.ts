@@ -0,0 +1,68 @@
+import { getEffectiveWorkMinutes, type BlockVisit } from '@/types/farm';
+
+export interface OperatorProductivity {
+  // null groups the visits no shift covered
+  operatorId: string | null;
+  passes: number;
+  blocks: number;
+  // Time inside the blocks of finished visits
+  totalMinutes: number;
+  // Same without stops; null when no visit has stop data yet
+  effectiveMinutes: number | null;
+  averageMinutes: number;
+  lastVisitAt: string;
+}
+
+/**
+ * Passes and time worked per operator, busiest first. Visits without an
+ * operator are grouped last.
+ */
+export function summarizeOperatorProductivity(visits: BlockVisit[]): OperatorProductivity[] {
+  const groups = new Map<string | null, BlockVisit[]>();
+  for (const visit of visits) {
+    const group = groups.get(visit.operator_id);
+    if (group) {
+      group.push(visit);
+    } else {
+      groups.set(visit.operator_id, [visit]);
+    }
+  }
+
+  const summaries = Array.from(groups, ([operatorId, group]): OperatorProductivity => {
+    let totalMinutes = 0;
+    let finished = 0;
+    let effectiveMinutes: number | null = null;
+    let lastVisitAt = group[0].started_at;
+
+    for (const visit of group) {
+      if (visit.ended_at) {
+        totalMinutes += (new Date(visit.ended_at).getTime() - new Date(visit.started_at).getTime()) / (1000 * 60);
+        finished++;
+      }
+      const effective = getEffectiveWorkMinutes(visit);
+      if (effective !== null) {
+        effectiveMinutes = (effectiveMinutes ?? 0) + effective;
+      }
+      if (new Date(visit.started_at) > new Date(lastVisitAt)) {
+        lastVisitAt = visit.started_at;
+      }
+    }
+
+    return {
+      operatorId,
+      passes: group.length,
+      blocks: new Set(group.map((v) => v.block_id)).size,
+      totalMinutes,
+      effectiveMinutes,
+      averageMinutes: finished > 0 ? totalMinutes / finished : 0,
+      lastVisitAt,
+    };
+  });
+
+  return summaries.sort((a, b) => {
+    if ((a.operatorId === null) !== (b.operatorId === null)) {
+      return a.operatorId === null ? 1 : -1;
+    }
+    return b.passes - a.passes || b.totalMinutes - a.totalMinutes;
+  });
+}
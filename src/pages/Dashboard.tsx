@@ -12,22 +12,61 @@ import { UploadGeoJSONDialog } from '@/components/dialogs/UploadGeoJSONDialog';
 import { CreateBlockDialog } from '@/components/dialogs/CreateBlockDialog';
 import { EditBlockDialog } from '@/components/dialogs/EditBlockDialog';
 import { DeleteBlockDialog } from '@/components/dialogs/DeleteBlockDialog';
+import { DetectionSettingsDialog } from '@/components/dialogs/DetectionSettingsDialog';
+import { ProcessingJobsDialog } from '@/components/dialogs/ProcessingJobsDialog';
+import { FleetDialog } from '@/components/dialogs/FleetDialog';
+import { DeviceTokensDialog } from '@/components/dialogs/DeviceTokensDialog';
+import { ImportHistoryDialog } from '@/components/dialogs/ImportHistoryDialog';
+import { TractorFormDialog, type TractorFormData } from '@/components/dialogs/TractorFormDialog';
+import { ImplementsDialog, type ImplementAssignmentFormData } from '@/components/dialogs/ImplementsDialog';
+import { ImplementFormDialog, type ImplementFormData } from '@/components/dialogs/ImplementFormDialog';
+import { OperatorsDialog, type OperatorShiftFormData } from '@/components/dialogs/OperatorsDialog';
+import { OperatorFormDialog, type OperatorFormData } from '@/components/dialogs/OperatorFormDialog';
 import { useToast } from '@/hooks/use-toast';
 import { useGpsSimulator } from '@/hooks/useGpsSimulator';
 import { useVisitPath } from '@/hooks/useVisitPath';
 import { useVisitCoverage, generateDemoCoverageStats } from '@/hooks/useVisitCoverage';
 import { useBlocks, useBlockMetrics, useCreateBlock, useCreateBlocksBatch, useUpdateBlock, useDeleteBlock } from '@/hooks/useBlocks';
 import { useVisits } from '@/hooks/useVisits';
+import { useProcessVisits } from '@/hooks/useProcessVisits';
+import { useProcessingJobs, useStartProcessingJob, useRetryProcessingJob, isProcessingJobActive } from '@/hooks/useProcessingJobs';
+import { useVisitDetectionSettings, useSaveVisitDetectionSettings, type DetectionThresholdValues } from '@/hooks/useVisitDetectionSettings';
 import { useTenant } from '@/hooks/useTenant';
+import { useTractors, useCreateTractor, useUpdateTractor, useArchiveTractor, isTractorActive, isDuplicateIdentifierError } from '@/hooks/useTractors';
+import {
+  useImplements,
+  useImplementAssignments,
+  useSaveImplement,
+  useArchiveImplement,
+  useCreateImplementAssignment,
+  useDeleteImplementAssignment,
+  useSetVisitImplement,
+} from '@/hooks/useImplements';
+import {
+  useOperators,
+  useOperatorShifts,
+  useSaveOperator,
+  useArchiveOperator,
+  useCreateOperatorShift,
+  useDeleteOperatorShift,
+} from '@/hooks/useOperators';
+import { useDeviceTokens, useCreateDeviceToken, useRevokeDeviceToken } from '@/hooks/useDeviceTokens';
+import { useImportBatches, useRollbackImportBatch } from '@/hooks/useImportBatches';
 import { useAlerts, useCreateAlertsBatch, useDeleteAlert, useDeleteAlertsBatch } from '@/hooks/useAlerts';
 import { cn } from '@/lib/utils';
-import type { Block, BlockMetrics, Tractor, Alert, BlockVisit, VisitCoverageStats } from '@/types/farm';
+import { resolveVisitImplement } from '@/lib/implements';
+import { summarizeOperatorProductivity } from '@/lib/operatorProductivity';
+import type { Block, BlockGeometry, BlockMetrics, Tractor, Alert, BlockVisit, VisitCoverageStats, Implement, ImplementAssignment, Operator, OperatorShift, TractorDeviceToken, ImportBatch } from '@/types/farm';
 import { getAlertEffectiveStatus } from '@/types/farm';
-import { demoTractors, DEMO_MAP_CENTER, DEMO_MAP_ZOOM } from '@/lib/demoData';
+import { DEMO_MAP_CENTER, DEMO_MAP_ZOOM } from '@/lib/demoData';
+import { getBlockCenter } from '@/lib/blockGeometry';
 import type { Feature, Polygon } from 'geojson';
 import { Loader2 } from 'lucide-react';
 import * as turf from '@turf/turf';
 
+// Window of the productivity summary shown in the operators dialog
+const OPERATOR_PRODUCTIVITY_DAYS = 30;
+
 export default function Dashboard() {
   const { toast } = useToast();
   const mapRef = useRef<MapRef | null>(null);
@@ -40,6 +79,13 @@ export default function Dashboard() {
   const { data: dbMetrics, isLoading: metricsLoading } = useBlockMetrics(tenantId);
   const { data: dbVisits, isLoading: visitsLoading } = useVisits(tenantId);
   const { data: dbAlerts, isLoading: alertsLoading } = useAlerts(tenantId);
+  const { data: dbTractors } = useTractors(tenantId);
+  const { data: implementsList = [] } = useImplements(tenantId);
+  const { data: implementAssignments = [] } = useImplementAssignments(tenantId);
+  const { data: operators = [] } = useOperators(tenantId);
+  const { data: operatorShifts = [] } = useOperatorShifts(tenantId);
+  const { data: deviceTokens = [] } = useDeviceTokens(tenantId);
+  const { data: importBatches = [] } = useImportBatches(tenantId);
   const createBlock = useCreateBlock();
   const createBlocksBatch = useCreateBlocksBatch();
   const updateBlock = useUpdateBlock();
@@ -47,6 +93,27 @@ export default function Dashboard() {
   const createAlertsBatch = useCreateAlertsBatch();
   const deleteAlertMutation = useDeleteAlert();
   const deleteAlertsBatch = useDeleteAlertsBatch();
+  const { processVisits, isProcessing } = useProcessVisits();
+  const { data: detectionSettings } = useVisitDetectionSettings(tenantId);
+  const saveDetectionSettings = useSaveVisitDetectionSettings();
+  const { data: processingJobs = [] } = useProcessingJobs(tenantId);
+  const startProcessingJob = useStartProcessingJob();
+  const retryProcessingJob = useRetryProcessingJob();
+  const createTractor = useCreateTractor();
+  const updateTractor = useUpdateTractor();
+  const archiveTractor = useArchiveTractor();
+  const saveImplement = useSaveImplement();
+  const archiveImplement = useArchiveImplement();
+  const createImplementAssignment = useCreateImplementAssignment();
+  const deleteImplementAssignment = useDeleteImplementAssignment();
+  const setVisitImplement = useSetVisitImplement();
+  const saveOperator = useSaveOperator();
+  const archiveOperator = useArchiveOperator();
+  const createOperatorShift = useCreateOperatorShift();
+  const deleteOperatorShift = useDeleteOperatorShift();
+  const createDeviceToken = useCreateDeviceToken();
+  const revokeDeviceToken = useRevokeDeviceToken();
+  const rollbackImportBatch = useRollbackImportBatch();
 
   const [sidebarOpen, setSidebarOpen] = useState(true);
   const [selectedBlock, setSelectedBlock] = useState<Block | null>(null);
@@ -55,6 +122,20 @@ export default function Dashboard() {
   const [createBlockDialogOpen, setCreateBlockDialogOpen] = useState(false);
   const [editBlockDialogOpen, setEditBlockDialogOpen] = useState(false);
   const [deleteBlockDialogOpen, setDeleteBlockDialogOpen] = useState(false);
+  const [detectionSettingsDialogOpen, setDetectionSettingsDialogOpen] = useState(false);
+  const [jobsDialogOpen, setJobsDialogOpen] = useState(false);
+  const [fleetDialogOpen, setFleetDialogOpen] = useState(false);
+  const [importHistoryDialogOpen, setImportHistoryDialogOpen] = useState(false);
+  const [tractorFormOpen, setTractorFormOpen] = useState(false);
+  const [editingTractor, setEditingTractor] = useState<Tractor | null>(null);
+  const [implementsDialogOpen, setImplementsDialogOpen] = useState(false);
+  const [implementFormOpen, setImplementFormOpen] = useState(false);
+  const [editingImplement, setEditingImplement] = useState<Implement | null>(null);
+  const [operatorsDialogOpen, setOperatorsDialogOpen] = useState(false);
+  const [operatorFormOpen, setOperatorFormOpen] = useState(false);
+  const [editingOperator, setEditingOperator] = useState<Operator | null>(null);
+  const [tokensTractor, setTokensTractor] = useState<Tractor | null>(null);
+  const [createdDeviceToken, setCreatedDeviceToken] = useState<string | null>(null);
   const [drawnGeometry, setDrawnGeometry] = useState<Feature<Polygon> | null>(null);
   const [isSimulatorRunning, setIsSimulatorRunning] = useState(false);
   const [mapCenter, setMapCenter] = useState<[number, number]>(DEMO_MAP_CENTER);
@@ -63,8 +144,8 @@ export default function Dashboard() {
   const [alertToDelete, setAlertToDelete] = useState<Alert | null>(null);
   const [manageAlertsDialogOpen, setManageAlertsDialogOpen] = useState(false);
 
-  // Local state for tractors (still demo for now)
-  const [tractors, setTractors] = useState<Tractor[]>([]);
+  // Positions reported by the GPS simulator, layered over the stored last positions
+  const [simulatedPositions, setSimulatedPositions] = useState<Record<string, { lat: number; lon: number; seenAt: string }>>({});
   const [selectedVisit, setSelectedVisit] = useState<BlockVisit | null>(null);
   const [demoCoverageStats, setDemoCoverageStats] = useState<VisitCoverageStats | null>(null);
   const [hiddenFarms, setHiddenFarms] = useState<Set<string>>(new Set());
@@ -79,6 +160,16 @@ export default function Dashboard() {
   const blocks = dbBlocks || [];
   const blockMetrics = dbMetrics || {};
 
+  // Use database tractors; archived ones only name past visits
+  const allTractors = useMemo(() => dbTractors || [], [dbTractors]);
+  const activeTractors = useMemo(() => allTractors.filter(isTractorActive), [allTractors]);
+  const tractors = useMemo(() => activeTractors.map(t => {
+    const simulated = simulatedPositions[t.id];
+    return simulated
+      ? { ...t, last_lat: simulated.lat, last_lon: simulated.lon, last_seen_at: simulated.seenAt }
+      : t;
+  }), [activeTractors, simulatedPositions]);
+
   // Extract unique farm names for filtering
   const uniqueFarms = useMemo(() => {
     const farms = new Set<string>();
@@ -100,46 +191,46 @@ export default function Dashboard() {
   const handleDeselectAllFarms = useCallback(() => setHiddenFarms(new Set(uniqueFarms)), [uniqueFarms]);
 
   // Fetch path for selected visit
-  const { pings: visitPathPings } = useVisitPath(selectedVisit);
+  const { pings: visitPathPings, stops: visitStops } = useVisitPath(selectedVisit);
+
+  // The selected visit is a snapshot; read its implement from the refreshed list
+  const visitImplement = useMemo(() => {
+    if (!selectedVisit) return null;
+    const current = dbVisits?.find(v => v.id === selectedVisit.id) ?? selectedVisit;
+    return resolveVisitImplement(current, implementsList, implementAssignments);
+  }, [selectedVisit, dbVisits, implementsList, implementAssignments]);
+
+  const operatorProductivity = useMemo(() => {
+    const since = Date.now() - OPERATOR_PRODUCTIVITY_DAYS * 24 * 60 * 60 * 1000;
+    return summarizeOperatorProductivity((dbVisits || []).filter(v => new Date(v.started_at).getTime() >= since));
+  }, [dbVisits]);
 
   // Calculate coverage stats from path
-  const { stats: realCoverageStats } = useVisitCoverage(selectedBlock, visitPathPings);
+  const { stats: realCoverageStats } = useVisitCoverage(selectedBlock, visitPathPings, visitImplement);
   
   // Use demo coverage stats in demo mode (when real stats can't be calculated)
   const coverageStats = realCoverageStats || demoCoverageStats;
 
-  // Initialize demo tractors
-  useEffect(() => {
-    const demoTractorsWithIds: Tractor[] = demoTractors.map((t, i) => ({
-      ...t,
-      id: `tractor-${i}`,
-      tenant_id: tenantId || 'demo-tenant',
-      created_at: new Date().toISOString(),
-    }));
-    setTractors(demoTractorsWithIds);
-  }, [tenantId]);
-
   // Note: Visits are now fetched from database via useVisits hook
 
   // GPS Simulator
   const handleTractorMove = useCallback((tractorId: string, lat: number, lon: number) => {
-    setTractors(prev => prev.map(t => 
-      t.id === tractorId 
-        ? { ...t, last_lat: lat, last_lon: lon, last_seen_at: new Date().toISOString() }
-        : t
-    ));
+    setSimulatedPositions(prev => ({
+      ...prev,
+      [tractorId]: { lat, lon, seenAt: new Date().toISOString() },
+    }));
   }, []);
 
   const handleBlockVisit = useCallback((blockId: string, tractorId: string) => {
     const block = blocks.find(b => b.id === blockId);
-    const tractor = tractors.find(t => t.id === tractorId);
+    const tractor = activeTractors.find(t => t.id === tractorId);
     if (block && tractor) {
       toast({
         title: `${tractor.name} entró a ${block.name}`,
         description: 'Visita registrada',
       });
     }
-  }, [blocks, tractors, toast]);
+  }, [blocks, activeTractors, toast]);
 
   // Note: handleMetricsUpdate is a no-op since we now fetch metrics from DB
   // In production, metrics would be updated by backend triggers
@@ -151,7 +242,7 @@ export default function Dashboard() {
   useGpsSimulator({
     isRunning: isSimulatorRunning,
     blocks,
-    tractors,
+    tractors: activeTractors,
     blockMetrics,
     onTractorMove: handleTractorMove,
     onBlockVisit: handleBlockVisit,
@@ -269,7 +360,7 @@ export default function Dashboard() {
     }
   };
 
-  const handleUploadGeoJSON = async (features: Feature<Polygon>[]) => {
+  const handleUploadGeoJSON = async (features: Feature<BlockGeometry>[]) => {
     if (!tenantId) {
       toast({ title: 'Error', description: 'Debes iniciar sesión para crear cuarteles', variant: 'destructive' });
       return;
@@ -289,8 +380,7 @@ export default function Dashboard() {
       
       // Center map on new blocks
       if (newBlocks.length > 0) {
-        const firstCoord = newBlocks[0].geometry_geojson.geometry.coordinates[0][0];
-        setMapCenter([firstCoord[1], firstCoord[0]]);
+        setMapCenter(getBlockCenter(newBlocks[0].geometry_geojson));
       }
       
       toast({ title: 'Cuarteles importados', description: `${newBlocks.length} cuartel(es) agregado(s)` });
@@ -373,6 +463,294 @@ export default function Dashboard() {
     }
   };
 
+  const handleSaveDetectionSettings = async (data: {
+    tenantValues: DetectionThresholdValues;
+    blockValues: DetectionThresholdValues;
+    reprocess: boolean;
+  }) => {
+    if (!tenantId || !selectedBlock) return;
+
+    try {
+      await saveDetectionSettings.mutateAsync({ tenant_id: tenantId, block_id: null, values: data.tenantValues });
+      await saveDetectionSettings.mutateAsync({ tenant_id: tenantId, block_id: selectedBlock.id, values: data.blockValues });
+
+      setDetectionSettingsDialogOpen(false);
+      toast({ title: 'Configuración guardada', description: 'Los nuevos umbrales se usarán al procesar pasadas' });
+
+      if (data.reprocess) {
+        await processVisits({ blockId: selectedBlock.id, mode: 'full' });
+      }
+    } catch (error) {
+      console.error('Failed to save detection settings:', error);
+      toast({ title: 'Error', description: 'No se pudo guardar la configuración', variant: 'destructive' });
+    }
+  };
+
+  const handleStartFullReprocess = async () => {
+    if (!tenantId) return;
+
+    try {
+      await startProcessingJob.mutateAsync({ tenant_id: tenantId, mode: 'full' });
+      toast({ title: 'Reprocesamiento iniciado', description: 'Las pasadas se recalculan en segundo plano' });
+    } catch (error) {
+      console.error('Failed to start processing job:', error);
+      toast({ title: 'Error', description: 'No se pudo iniciar el reprocesamiento', variant: 'destructive' });
+    }
+  };
+
+  const handleRetryJob = async (jobId: string) => {
+    if (!tenantId) return;
+
+    try {
+      await retryProcessingJob.mutateAsync({ jobId, tenantId });
+    } catch (error) {
+      console.error('Failed to retry processing job:', error);
+      toast({ title: 'Error', description: 'No se pudo reintentar el proceso', variant: 'destructive' });
+    }
+  };
+
+  const handleOpenTractorForm = (tractor: Tractor | null) => {
+    setEditingTractor(tractor);
+    setTractorFormOpen(true);
+  };
+
+  const handleSaveTractor = async (data: TractorFormData) => {
+    if (!tenantId) return;
+
+    try {
+      const input = { tenant_id: tenantId, name: data.name, identifier: data.identifier, metadata: data.metadata };
+      if (data.id) {
+        await updateTractor.mutateAsync({ id: data.id, ...input });
+        toast({ title: 'Tractor actualizado', description: `${data.name} ha sido modificado` });
+      } else {
+        await createTractor.mutateAsync(input);
+        toast({ title: 'Tractor creado', description: `${data.name} agregado a la flota` });
+      }
+      setTractorFormOpen(false);
+    } catch (error) {
+      console.error('Failed to save tractor:', error);
+      toast({
+        title: 'Error',
+        description: isDuplicateIdentifierError(error)
+          ? `Ya existe un tractor con el identificador ${data.identifier}`
+          : 'No se pudo guardar el tractor',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleArchiveTractor = async (tractor: Tractor, archived: boolean) => {
+    if (!tenantId) return;
+
+    try {
+      await archiveTractor.mutateAsync({ id: tractor.id, tenant_id: tenantId, archived });
+      toast({
+        title: archived ? 'Tractor archivado' : 'Tractor restaurado',
+        description: archived
+          ? `${tractor.name} ya no aparece en el mapa; su historial se conserva`
+          : `${tractor.name} vuelve a estar activo`,
+      });
+    } catch (error) {
+      console.error('Failed to archive tractor:', error);
+      toast({
+        title: 'Error',
+        description: isDuplicateIdentifierError(error)
+          ? `Otro tractor activo usa el identificador ${tractor.identifier}`
+          : 'No se pudo actualizar el tractor',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleLocateTractor = (tractor: Tractor) => {
+    if (tractor.last_lat === null || tractor.last_lon === null) return;
+    setFleetDialogOpen(false);
+    mapRef.current?.flyTo({ center: [tractor.last_lon, tractor.last_lat], zoom: 16, duration: 1000 });
+  };
+
+  const handleOpenImplementForm = (implement: Implement | null) => {
+    setEditingImplement(implement);
+    setImplementFormOpen(true);
+  };
+
+  const handleSaveImplement = async (data: ImplementFormData) => {
+    if (!tenantId) return;
+
+    try {
+      await saveImplement.mutateAsync({ ...data, tenant_id: tenantId });
+      toast({
+        title: data.id ? 'Implemento actualizado' : 'Implemento creado',
+        description: `${data.name} (${data.working_width_meters} m)`,
+      });
+      setImplementFormOpen(false);
+    } catch (error) {
+      console.error('Failed to save implement:', error);
+      toast({ title: 'Error', description: 'No se pudo guardar el implemento', variant: 'destructive' });
+    }
+  };
+
+  const handleArchiveImplement = async (implement: Implement, archived: boolean) => {
+    if (!tenantId) return;
+
+    try {
+      await archiveImplement.mutateAsync({ id: implement.id, tenant_id: tenantId, archived });
+      toast({
+        title: archived ? 'Implemento archivado' : 'Implemento restaurado',
+        description: implement.name,
+      });
+    } catch (error) {
+      console.error('Failed to archive implement:', error);
+      toast({ title: 'Error', description: 'No se pudo actualizar el implemento', variant: 'destructive' });
+    }
+  };
+
+  const handleAssignImplement = async (data: ImplementAssignmentFormData) => {
+    if (!tenantId) return;
+
+    try {
+      await createImplementAssignment.mutateAsync({ ...data, tenant_id: tenantId });
+      toast({ title: 'Implemento asignado', description: 'Las pasadas del periodo usarán su ancho de trabajo' });
+    } catch (error) {
+      console.error('Failed to assign implement:', error);
+      toast({ title: 'Error', description: 'No se pudo asignar el implemento', variant: 'destructive' });
+    }
+  };
+
+  const handleDeleteImplementAssignment = async (assignment: ImplementAssignment) => {
+    if (!tenantId) return;
+
+    try {
+      await deleteImplementAssignment.mutateAsync({ id: assignment.id, tenant_id: tenantId });
+    } catch (error) {
+      console.error('Failed to delete implement assignment:', error);
+      toast({ title: 'Error', description: 'No se pudo eliminar la asignación', variant: 'destructive' });
+    }
+  };
+
+  const handleVisitImplementChange = async (visit: BlockVisit, implementId: string | null) => {
+    if (!tenantId) return;
+
+    try {
+      await setVisitImplement.mutateAsync({ visitId: visit.id, implementId, tenantId });
+    } catch (error) {
+      console.error('Failed to set visit implement:', error);
+      toast({ title: 'Error', description: 'No se pudo cambiar el implemento de la pasada', variant: 'destructive' });
+    }
+  };
+
+  const handleOpenOperatorForm = (operator: Operator | null) => {
+    setEditingOperator(operator);
+    setOperatorFormOpen(true);
+  };
+
+  const handleSaveOperator = async (data: OperatorFormData) => {
+    if (!tenantId) return;
+
+    try {
+      await saveOperator.mutateAsync({ ...data, tenant_id: tenantId });
+      toast({
+        title: data.id ? 'Operador actualizado' : 'Operador creado',
+        description: data.name,
+      });
+      setOperatorFormOpen(false);
+    } catch (error) {
+      console.error('Failed to save operator:', error);
+      toast({ title: 'Error', description: 'No se pudo guardar el operador', variant: 'destructive' });
+    }
+  };
+
+  const handleArchiveOperator = async (operator: Operator, archived: boolean) => {
+    if (!tenantId) return;
+
+    try {
+      await archiveOperator.mutateAsync({ id: operator.id, tenant_id: tenantId, archived });
+      toast({
+        title: archived ? 'Operador archivado' : 'Operador restaurado',
+        description: operator.name,
+      });
+    } catch (error) {
+      console.error('Failed to archive operator:', error);
+      toast({ title: 'Error', description: 'No se pudo actualizar el operador', variant: 'destructive' });
+    }
+  };
+
+  const handleAddOperatorShift = async (data: OperatorShiftFormData) => {
+    if (!tenantId) return;
+
+    try {
+      await createOperatorShift.mutateAsync({ ...data, tenant_id: tenantId });
+      toast({ title: 'Turno registrado', description: 'Las pasadas del turno se atribuyeron al operador' });
+    } catch (error) {
+      console.error('Failed to add operator shift:', error);
+      toast({ title: 'Error', description: 'No se pudo registrar el turno', variant: 'destructive' });
+    }
+  };
+
+  const handleDeleteOperatorShift = async (shift: OperatorShift) => {
+    if (!tenantId) return;
+
+    try {
+      await deleteOperatorShift.mutateAsync({ id: shift.id, tenant_id: tenantId });
+    } catch (error) {
+      console.error('Failed to delete operator shift:', error);
+      toast({ title: 'Error', description: 'No se pudo eliminar el turno', variant: 'destructive' });
+    }
+  };
+
+  const handleOpenDeviceTokens = (tractor: Tractor) => {
+    setCreatedDeviceToken(null);
+    setTokensTractor(tractor);
+  };
+
+  const handleCreateDeviceToken = async (name: string) => {
+    if (!tenantId || !tokensTractor) return;
+
+    try {
+      const token = await createDeviceToken.mutateAsync({ tenant_id: tenantId, tractor_id: tokensTractor.id, name });
+      setCreatedDeviceToken(token);
+    } catch (error) {
+      console.error('Failed to create device token:', error);
+      toast({ title: 'Error', description: 'No se pudo generar el token', variant: 'destructive' });
+    }
+  };
+
+  const handleRevokeDeviceToken = async (token: TractorDeviceToken) => {
+    if (!tenantId) return;
+
+    try {
+      await revokeDeviceToken.mutateAsync({ id: token.id, tenant_id: tenantId });
+      toast({ title: 'Token revocado', description: `${token.name} ya no puede enviar posiciones` });
+    } catch (error) {
+      console.error('Failed to revoke device token:', error);
+      toast({ title: 'Error', description: 'No se pudo revocar el token', variant: 'destructive' });
+    }
+  };
+
+  const handleRollbackImport = async (batch: ImportBatch) => {
+    if (!tenantId) return;
+
+    let deleted: number;
+    try {
+      deleted = await rollbackImportBatch.mutateAsync(batch);
+    } catch (error) {
+      console.error('Failed to roll back import:', error);
+      toast({ title: 'Error', description: 'No se pudo deshacer la importación', variant: 'destructive' });
+      return;
+    }
+
+    toast({ title: 'Importación deshecha', description: `Se eliminaron ${deleted} pings de ${batch.file_name}` });
+    if (deleted === 0) return;
+
+    // Visits may have been detected from the deleted pings: rebuild the
+    // tractor's visits in every block it touched, as after an import
+    try {
+      await startProcessingJob.mutateAsync({ tenant_id: tenantId, tractor_id: batch.tractor_id, mode: 'full' });
+    } catch (error) {
+      console.error('Failed to start processing job:', error);
+      toast({ title: 'Error', description: 'No se pudieron reprocesar las pasadas del tractor', variant: 'destructive' });
+    }
+  };
+
   const handleToggleSimulator = () => {
     const newState = !isSimulatorRunning;
     setIsSimulatorRunning(newState);
@@ -413,6 +791,10 @@ export default function Dashboard() {
   });
   const blockAlerts = selectedBlock ? alerts.filter(a => a.block_id === selectedBlock.id) : [];
   const blockVisits = selectedBlock ? visits.filter(v => v.block_id === selectedBlock.id) : [];
+  const tenantDetectionSettings = detectionSettings?.find(s => s.block_id === null) ?? null;
+  const blockDetectionSettings = selectedBlock
+    ? detectionSettings?.find(s => s.block_id === selectedBlock.id) ?? null
+    : null;
 
   const isLoading = tenantLoading || blocksLoading || metricsLoading || visitsLoading || alertsLoading;
 
@@ -442,6 +824,10 @@ export default function Dashboard() {
         }}
         onManageAlerts={() => setManageAlertsDialogOpen(true)}
         onBlockClick={handleBlockSelect}
+        onOpenJobs={() => setJobsDialogOpen(true)}
+        activeJobsCount={processingJobs.filter(isProcessingJobActive).length}
+        onOpenFleet={() => setFleetDialogOpen(true)}
+        onOpenImportHistory={() => setImportHistoryDialogOpen(true)}
       />
       
       <div className="flex-1 flex overflow-hidden">
@@ -471,7 +857,8 @@ export default function Dashboard() {
               block={selectedBlock}
               metrics={blockMetrics[selectedBlock.id] || null}
               visits={blockVisits}
-              tractors={tractors}
+              tractors={allTractors}
+              operators={operators}
               alerts={blockAlerts}
               onClose={() => { setSelectedBlock(null); setSelectedVisit(null); setShowMissedAreas(false); setDemoCoverageStats(null); }}
               onConfigureAlert={() => setAlertDialogOpen(true)}
@@ -480,11 +867,15 @@ export default function Dashboard() {
               onVisitSelect={handleVisitSelect}
               selectedVisitId={selectedVisit?.id ?? null}
               visitPath={visitPathPings}
+              visitStops={visitStops}
               coverageStats={coverageStats}
               onToggleMissedAreas={handleToggleMissedAreas}
               showMissedAreas={showMissedAreas}
+              implementsList={implementsList}
+              onVisitImplementChange={handleVisitImplementChange}
               onEditBlock={() => setEditBlockDialogOpen(true)}
               onDeleteBlock={() => setDeleteBlockDialogOpen(true)}
+              onConfigureDetection={() => setDetectionSettingsDialogOpen(true)}
             />
           ) : (
             <BlockList
@@ -514,6 +905,7 @@ export default function Dashboard() {
             onBlockDrawn={handleBlockDrawn}
             enableDrawing={true}
             visitPath={visitPathPings}
+            visitStops={visitStops}
             onClearPath={handleClearPath}
             missedAreas={showMissedAreas ? coverageStats?.missedAreas : undefined}
             alerts={alerts}
@@ -530,7 +922,8 @@ export default function Dashboard() {
             onUploadGeoJSON={() => setUploadDialogOpen(true)}
             isSimulatorRunning={isSimulatorRunning}
             onToggleSimulator={handleToggleSimulator}
-            onRefreshData={() => toast({ title: 'Datos actualizados' })}
+            onRefreshData={() => processVisits()}
+            isRefreshing={isProcessing}
           />
         </main>
       </div>
@@ -572,6 +965,120 @@ export default function Dashboard() {
         isLoading={deleteBlock.isPending}
       />
 
+      <DetectionSettingsDialog
+        open={detectionSettingsDialogOpen}
+        onOpenChange={setDetectionSettingsDialogOpen}
+        block={selectedBlock}
+        tenantSettings={tenantDetectionSettings}
+        blockSettings={blockDetectionSettings}
+        onSave={handleSaveDetectionSettings}
+        isLoading={saveDetectionSettings.isPending || isProcessing}
+      />
+
+      <ProcessingJobsDialog
+        open={jobsDialogOpen}
+        onOpenChange={setJobsDialogOpen}
+        jobs={processingJobs}
+        blocks={blocks}
+        onStartFullReprocess={handleStartFullReprocess}
+        isStarting={startProcessingJob.isPending}
+        onRetry={handleRetryJob}
+        retryingJobId={retryProcessingJob.isPending ? retryProcessingJob.variables?.jobId : null}
+      />
+
+      <FleetDialog
+        open={fleetDialogOpen}
+        onOpenChange={setFleetDialogOpen}
+        tractors={allTractors}
+        onCreate={() => handleOpenTractorForm(null)}
+        onEdit={handleOpenTractorForm}
+        onArchive={handleArchiveTractor}
+        onLocate={handleLocateTractor}
+        onOpenImplements={() => setImplementsDialogOpen(true)}
+        onOpenOperators={() => setOperatorsDialogOpen(true)}
+        onManageTokens={handleOpenDeviceTokens}
+        archivingTractorId={archiveTractor.isPending ? archiveTractor.variables?.id : null}
+      />
+
+      <DeviceTokensDialog
+        open={!!tokensTractor}
+        onOpenChange={(open) => {
+          if (!open) {
+            setTokensTractor(null);
+            setCreatedDeviceToken(null);
+          }
+        }}
+        tractor={tokensTractor}
+        tokens={deviceTokens.filter((t) => t.tractor_id === tokensTractor?.id)}
+        createdToken={createdDeviceToken}
+        onCreate={handleCreateDeviceToken}
+        onRevoke={handleRevokeDeviceToken}
+        isCreating={createDeviceToken.isPending}
+      />
+
+      <ImportHistoryDialog
+        open={importHistoryDialogOpen}
+        onOpenChange={setImportHistoryDialogOpen}
+        batches={importBatches}
+        tractors={allTractors}
+        onRollback={handleRollbackImport}
+        rollingBackBatchId={rollbackImportBatch.isPending ? rollbackImportBatch.variables?.id : null}
+      />
+
+      <TractorFormDialog
+        open={tractorFormOpen}
+        onOpenChange={setTractorFormOpen}
+        tractor={editingTractor}
+        onSave={handleSaveTractor}
+        isLoading={createTractor.isPending || updateTractor.isPending}
+      />
+
+      <ImplementsDialog
+        open={implementsDialogOpen}
+        onOpenChange={setImplementsDialogOpen}
+        implementsList={implementsList}
+        assignments={implementAssignments}
+        tractors={allTractors}
+        onCreate={() => handleOpenImplementForm(null)}
+        onEdit={handleOpenImplementForm}
+        onArchive={handleArchiveImplement}
+        onAssign={handleAssignImplement}
+        onDeleteAssignment={handleDeleteImplementAssignment}
+        isAssigning={createImplementAssignment.isPending}
+      />
+
+      <OperatorsDialog
+        open={operatorsDialogOpen}
+        onOpenChange={setOperatorsDialogOpen}
+        operators={operators}
+        shifts={operatorShifts}
+        tractors={allTractors}
+        productivity={operatorProductivity}
+        productivityDays={OPERATOR_PRODUCTIVITY_DAYS}
+        onCreate={() => handleOpenOperatorForm(null)}
+        onEdit={handleOpenOperatorForm}
+        onArchive={handleArchiveOperator}
+        onAddShift={handleAddOperatorShift}
+        onDeleteShift={handleDeleteOperatorShift}
+        isAddingShift={createOperatorShift.isPending}
+      />
+
+      <OperatorFormDialog
+        open={operatorFormOpen}
+        onOpenChange={setOperatorFormOpen}
+        operator={editingOperator}
+        onSave={handleSaveOperator}
+        isLoading={saveOperator.isPending}
+      />
+
+      <ImplementFormDialog
+        open={implementFormOpen}
+        onOpenChange={setImplementFormOpen}
+        implement={editingImplement}
+        onSave={handleSaveImplement}
+        isLoading={saveImplement.isPending}
+      />
+
       <DeleteAlertDialog
         open={deleteAlertDialogOpen}
         onOpenChange={setDeleteAlertDialogOpen}
@@ -0,0 +1,157 @@
+import { describe, it, expect } from "vitest";
+import { createTeltonikaDecoder } from "../../services/avl-listener/teltonika";
+import { createGt06Decoder } from "../../services/avl-listener/gt06";
+import { createPingBatcher } from "../../services/_shared/pingBatcher";
+import type { PingStore, TrackerPing } from "../../services/_shared/pingStore";
+import type { AvlEvent, AvlPing } from "../../services/avl-listener/types";
+import { gt06, hexBytes, teltonika, toHex } from "./fixtures/avlPackets";
+
+function records(events: AvlEvent[]) {
+  return events.filter((e): e is Extract<AvlEvent, { kind: "records" }> => e.kind === "records");
+}
+
+// Stands in for the database: keeps pings per tractor, one per timestamp
+function createMemoryStore() {
+  const stored = new Map<string, TrackerPing[]>();
+  let failNext = false;
+
+  const store: PingStore = {
+    async findTractor() {
+      return null;
+    },
+    async insertPings(tractor, pings) {
+      if (failNext) {
+        failNext = false;
+        throw new Error("connection reset");
+      }
+      const existing = stored.get(tractor.id) ?? [];
+      const seen = new Set(existing.map((p) => p.ts));
+      const fresh = pings.filter((p) => !seen.has(p.ts) && seen.add(p.ts));
+      stored.set(tractor.id, [...existing, ...fresh]);
+      return fresh.length;
+    },
+  };
+  return { store, stored, failOnce: () => { failNext = true; } };
+}
+
+describe("Teltonika decoder", () => {
+  it("answers the IMEI handshake", () => {
+    const [login] = createTeltonikaDecoder().feed(hexBytes(teltonika.login));
+
+    expect(login).toMatchObject({ kind: "login", imei: "356307042441013" });
+    if (login.kind !== "login") return;
+    expect(toHex(login.reply(true))).toBe("01");
+    expect(toHex(login.reply(false))).toBe("00");
+  });
+
+  it("acknowledges records without fix but stores no position", () => {
+    for (const packet of [teltonika.codec8NoFix, teltonika.codec8ExtendedNoFix]) {
+      const decoder = createTeltonikaDecoder();
+      decoder.feed(hexBytes(teltonika.login));
+      const [event] = records(decoder.feed(hexBytes(packet)));
+
+      expect(event.pings).toEqual([]);
+      expect(toHex(event.reply)).toBe("00000001");
+    }
+  });
+
+  it("decodes positions and IO from packets split across chunks", () => {
+    const decoder = createTeltonikaDecoder();
+    const bytes = hexBytes(teltonika.login + teltonika.codec8Moving);
+
+    const events = [...decoder.feed(bytes.subarray(0, 30)), ...decoder.feed(bytes.subarray(30))];
+    const [event] = records(events);
+
+    expect(events[0].kind).toBe("login");
+    expect(toHex(event.reply)).toBe("00000002");
+    expect(event.pings).toEqual([
+      {
+        ts: "2026-01-10T12:00:00.000Z", lat: -33.8, lon: -70.6, speed: 12,
+        heading: 90, altitude: 512, satellites: 9, ignition: true, io: { 239: 1, 240: 1, 66: 12500 },
+      },
+      expect.objectContaining({ ts: "2026-01-10T12:00:05.000Z", lat: -33.8001, lon: -70.5998, speed: 14 }),
+    ]);
+  });
+
+  it("drops packets with a bad CRC without acknowledging them", () => {
+    const decoder = createTeltonikaDecoder();
+    decoder.feed(hexBytes(teltonika.login));
+
+    const events = decoder.feed(hexBytes(teltonika.codec8Moving.replace(/AAB1$/, "AAB2")));
+
+    expect(events).toEqual([{ kind: "invalid", reason: "CRC inválido" }]);
+  });
+
+  it("rejects streams that are not Teltonika", () => {
+    const decoder = createTeltonikaDecoder();
+    decoder.feed(hexBytes(teltonika.login));
+
+    expect(() => decoder.feed(hexBytes("474554202F20485454502F312E310D0A"))).toThrow("Preámbulo de paquete AVL inválido");
+  });
+});
+
+describe("GT06 decoder", () => {
+  it("acknowledges logins and heartbeats with the packet serial", () => {
+    const decoder = createGt06Decoder();
+    const [login] = decoder.feed(hexBytes(gt06.login));
+
+    expect(login).toMatchObject({ kind: "login", imei: "123456789012345" });
+    if (login.kind !== "login") return;
+    expect(toHex(login.reply(true))).toBe(gt06.loginAck);
+    expect(login.reply(false)).toBeNull();
+
+    const [heartbeat] = decoder.feed(hexBytes(gt06.heartbeat));
+    expect(heartbeat.kind).toBe("reply");
+    if (heartbeat.kind !== "reply") return;
+    expect(toHex(heartbeat.reply)).toBe(gt06.heartbeatAck);
+  });
+
+  it("decodes location packets with hemisphere flags", () => {
+    const decoder = createGt06Decoder();
+    const events = decoder.feed(hexBytes(gt06.login + gt06.location));
+    const [event] = records(events);
+
+    expect(event.reply).toBeNull();
+    expect(event.pings).toHaveLength(1);
+    expect(event.pings[0]).toMatchObject({
+      ts: "2026-01-10T12:00:00.000Z", speed: 15, heading: 180, satellites: 9, altitude: null,
+    });
+    expect(event.pings[0].lat).toBeCloseTo(-33.8, 6);
+    expect(event.pings[0].lon).toBeCloseTo(-70.6, 6);
+  });
+
+  it("refuses positions before the tracker logs in", () => {
+    expect(() => createGt06Decoder().feed(hexBytes(gt06.location))).toThrow("Paquete recibido antes del login");
+  });
+});
+
+describe("createPingBatcher", () => {
+  const tractor = { id: "tractor-1", tenant_id: "tenant-1" };
+  const ping = (second: number): AvlPing => ({
+    ts: `2026-01-10T12:00:0${second}.000Z`, lat: -33.8, lon: -70.6, speed: 10,
+    heading: null, altitude: null, satellites: 8,
+  });
+
+  it("resolves adds once their pings are stored, skipping resent ones", async () => {
+    const { store, stored } = createMemoryStore();
+    const batcher = createPingBatcher(store, { maxBatch: 3, flushIntervalMs: 60_000 });
+
+    const first = batcher.add(tractor, [ping(1), ping(2)]);
+    expect(stored.size).toBe(0);
+    // Reaching maxBatch flushes without waiting for the timer
+    await Promise.all([first, batcher.add(tractor, [ping(2), ping(3)])]);
+
+    expect(stored.get("tractor-1")?.map((p) => p.ts.slice(17, 19))).toEqual(["01", "02", "03"]);
+  });
+
+  it("rejects waiting adds when the store fails, so nothing is acknowledged", async () => {
+    const { store, failOnce } = createMemoryStore();
+    const batcher = createPingBatcher(store, { flushIntervalMs: 60_000 });
+
+    failOnce();
+    const added = batcher.add(tractor, [ping(1)]);
+    await batcher.flush();
+
+    await expect(added).rejects.toThrow("connection reset");
+  });
+});
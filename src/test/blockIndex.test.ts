@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildBlockIndex,
+  detectRawVisitsByBlock,
+  filterRawVisits,
+  findBlocksAtPoint,
+} from "@shared/blockIndex";
+import { detectRawVisits } from "@shared/visitDetection";
+import { createBlockGrid, createTractorPings } from "./fixtures/farmGrid";
+
+describe("block index", () => {
+  const blocks = createBlockGrid(120);
+  const index = buildBlockIndex(blocks);
+
+  it("finds only the block containing a point", () => {
+    const [west, south] = blocks[37].polygons[0][0][0];
+
+    expect(findBlocksAtPoint(index, [west + 0.0005, south + 0.0005]).map((b) => b.id)).toEqual(["block-37"]);
+    // On the road between blocks
+    expect(findBlocksAtPoint(index, [west - 0.0001, south + 0.0005])).toEqual([]);
+    expect(findBlocksAtPoint(buildBlockIndex([]), [west, south])).toEqual([]);
+  });
+
+  it("returns every overlapping block", () => {
+    const overlapping = buildBlockIndex([
+      ...blocks,
+      { id: "whole-farm", polygons: [[[[-71.01, -34.51], [-70.9, -34.51], [-70.9, -34.4], [-71.01, -34.4], [-71.01, -34.51]]]] },
+    ]);
+    const [west, south] = blocks[5].polygons[0][0][0];
+
+    const ids = findBlocksAtPoint(overlapping, [west + 0.0005, south + 0.0005]).map((b) => b.id);
+    expect(ids.sort()).toEqual(["block-5", "whole-farm"]);
+  });
+
+  it("detects the same raw visits as testing every block", () => {
+    const pings = createTractorPings(blocks, 20_000, 7);
+
+    const indexed = detectRawVisitsByBlock(pings, index);
+
+    for (const block of blocks) {
+      expect(indexed.get(block.id) ?? []).toEqual(detectRawVisits(pings, block.polygons));
+    }
+    expect(indexed.size).toBeGreaterThan(10);
+  });
+
+  it("filters raw visits like filtering the pings first", () => {
+    const pings = createTractorPings(blocks, 5_000, 3);
+    const cutoff = pings[2_500].ts;
+    const keep = (p: { ts: string }) => p.ts > cutoff;
+
+    const filtered = detectRawVisitsByBlock(pings.filter(keep), index);
+    const all = detectRawVisitsByBlock(pings, index);
+
+    for (const block of blocks) {
+      expect(filterRawVisits(all.get(block.id) ?? [], keep)).toEqual(filtered.get(block.id) ?? []);
+    }
+  });
+});
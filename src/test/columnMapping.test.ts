@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import { EMPTY_COLUMN_MAPPING, matchMappingProfile, profileColumnMapping, suggestColumnMapping } from "@/lib/columnMapping";
+
+const profile = (name: string, headers: string[], header_row = 0) => ({
+  name,
+  headers,
+  header_row,
+  column_mapping: { timestamp: "Fecha", coordinates: "Posición (lat;lon)", speed: "Vel. (km/h)" },
+});
+
+describe("suggestColumnMapping", () => {
+  it("takes an accented combined coordinates column only as coordinates", () => {
+    expect(suggestColumnMapping(["Fecha", "Posición (lat;lon)", "Vel. (km/h)", "Vehículo"])).toEqual({
+      ...EMPTY_COLUMN_MAPPING,
+      timestamp: "Fecha",
+      coordinates: "Posición (lat;lon)",
+      latitude: null,
+      longitude: null,
+      speed: "Vel. (km/h)",
+      device: "Vehículo",
+    });
+  });
+
+  it("maps separate latitude and longitude columns", () => {
+    expect(suggestColumnMapping(["timestamp", "Latitud", "Longitud", "IMEI"])).toMatchObject({
+      timestamp: "timestamp",
+      coordinates: null,
+      latitude: "Latitud",
+      longitude: "Longitud",
+      device: "IMEI",
+    });
+  });
+
+  it("maps the tracker telemetry", () => {
+    expect(suggestColumnMapping(["Fecha", "Lat", "Lon", "Rumbo", "Altitud (m)", "HDOP", "Satélites", "Ignición", "Estado PTO"])).toMatchObject({
+      latitude: "Lat",
+      longitude: "Lon",
+      heading: "Rumbo",
+      altitude: "Altitud (m)",
+      hdop: "HDOP",
+      satellites: "Satélites",
+      ignition: "Ignición",
+      pto: "Estado PTO",
+    });
+  });
+});
+
+describe("matchMappingProfile", () => {
+  const rows = [
+    ["Reporte de posiciones"],
+    ["fecha", "posicion (lat;lon)", "vel. (km/h)", "conductor"],
+    ["2026-01-10 08:00", "-33,8;-70,6", "5", "Juan"],
+  ];
+
+  it("suggests the profile whose headers are in its header row", () => {
+    const provider = profile("Proveedor", ["Fecha", "Posición (lat;lon)", "Vel. (km/h)"], 1);
+    const other = profile("Otro", ["Fecha", "Posición (lat;lon)", "Vel. (km/h)"], 0);
+
+    expect(matchMappingProfile([other, provider], rows)).toBe(provider);
+  });
+
+  it("needs most of the profile's headers", () => {
+    const logger = profile("Logger", ["Fecha", "Posición (lat;lon)", "Rumbo", "Altitud", "Satélites"], 1);
+
+    expect(matchMappingProfile([logger], rows)).toBeNull();
+  });
+
+  it("keeps only the mapped columns the file has", () => {
+    expect(profileColumnMapping(profile("Proveedor", []), ["Fecha", "Posición (lat;lon)"])).toEqual({
+      ...EMPTY_COLUMN_MAPPING,
+      timestamp: "Fecha",
+      coordinates: "Posición (lat;lon)",
+      latitude: null,
+      longitude: null,
+      speed: null,
+      device: null,
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect } from "vitest";
+import {
+  createLineSplitter,
+  csvRowToPing,
+  detectDelimiter,
+  importPartPath,
+  parseCoordinates,
+  splitCsvLine,
+  type CsvColumnMapping,
+} from "@shared/csvImport";
+import { findPartOffsets, readFilePreview } from "@/lib/largeGpsFiles";
+
+const mapping: CsvColumnMapping = {
+  timestamp: "fecha",
+  coordinates: null,
+  latitude: "lat",
+  longitude: "lon",
+  speed: "vel",
+};
+const columns = ["fecha", "lat", "lon", "vel"];
+
+// jsdom's Blob can't be read back, so files are held in memory
+const memoryFile = (content: string | Uint8Array): Blob => {
+  const bytes = typeof content === "string" ? new TextEncoder().encode(content) : content;
+  return {
+    size: bytes.length,
+    slice: (start?: number, end?: number) => memoryFile(bytes.slice(start, end)),
+    arrayBuffer: async () => bytes.slice().buffer,
+    text: async () => new TextDecoder().decode(bytes),
+  } as unknown as Blob;
+};
+
+describe("splitCsvLine", () => {
+  it("keeps delimiters and escaped quotes inside quoted fields", () => {
+    expect(splitCsvLine('2026-01-10 12:00:00,"-33.8,-70.6","Tractor ""A""", 8', ",")).toEqual([
+      "2026-01-10 12:00:00",
+      "-33.8,-70.6",
+      'Tractor "A"',
+      "8",
+    ]);
+  });
+
+  it("detects the delimiter with the most columns", () => {
+    expect(detectDelimiter("fecha;lat;lon;vel")).toBe(";");
+    expect(detectDelimiter("fecha\tlat\tlon")).toBe("\t");
+    expect(detectDelimiter("fecha,lat,lon")).toBe(",");
+    expect(detectDelimiter("fecha")).toBe(",");
+  });
+});
+
+describe("parseCoordinates", () => {
+  const pointFormat = { coordinate_order: "lat_lon", decimal_separator: "." } as const;
+  const commaFormat = { coordinate_order: "lat_lon", decimal_separator: "," } as const;
+
+  it("splits on semicolons, commas or spaces", () => {
+    expect(parseCoordinates("-33.8;-70.6", pointFormat)).toEqual([-33.8, -70.6]);
+    expect(parseCoordinates("-33.8, -70.6", pointFormat)).toEqual([-33.8, -70.6]);
+    expect(parseCoordinates("-33.8 -70.6", pointFormat)).toEqual([-33.8, -70.6]);
+    expect(parseCoordinates("-33,8; -70,6", commaFormat)).toEqual([-33.8, -70.6]);
+  });
+
+  it("rejects values that are not a pair of numbers", () => {
+    expect(parseCoordinates("-33,8;-70,6", pointFormat)).toBeNull();
+    expect(parseCoordinates("-33.8", pointFormat)).toBeNull();
+    expect(parseCoordinates("norte;oeste", pointFormat)).toBeNull();
+  });
+});
+
+describe("createLineSplitter", () => {
+  it("joins lines split across chunks and returns the last one on flush", () => {
+    const splitter = createLineSplitter();
+
+    expect(splitter.push("a,1\r\nb,")).toEqual(["a,1"]);
+    expect(splitter.push("2\nc")).toEqual(["b,2"]);
+    expect(splitter.push(",3")).toEqual([]);
+    expect(splitter.flush()).toEqual(["c,3"]);
+    expect(splitter.flush()).toEqual([]);
+  });
+});
+
+describe("csvRowToPing", () => {
+  it("reads separate coordinates and optional speed", () => {
+    expect(csvRowToPing(["2026-01-10T12:00:00Z", "-33.8", "-70.6", ""], columns, mapping)).toEqual({
+      ping: { ts: "2026-01-10T12:00:00.000Z", lat: -33.8, lon: -70.6, speed: undefined },
+    });
+  });
+
+  it("reads combined coordinates", () => {
+    const result = csvRowToPing(
+      ["1768046400", "-33.8, -70.6"],
+      ["fecha", "pos"],
+      { ...mapping, coordinates: "pos", latitude: null, longitude: null }
+    );
+
+    expect(result).toEqual({ ping: { ts: "2026-01-10T12:00:00.000Z", lat: -33.8, lon: -70.6, speed: undefined } });
+  });
+
+  it("reads decimal commas and coordinates in longitude, latitude order", () => {
+    const result = csvRowToPing(
+      ["2026-01-10T12:00:00Z", "-70,6;-33,8", "7,5"],
+      ["fecha", "pos", "vel"],
+      { ...mapping, coordinates: "pos", latitude: null, longitude: null },
+      { coordinate_order: "lon_lat", decimal_separator: "," }
+    );
+
+    expect(result).toEqual({ ping: { ts: "2026-01-10T12:00:00.000Z", lat: -33.8, lon: -70.6, speed: 7.5 } });
+  });
+
+  it("reads mapped telemetry and leaves out values it can't read", () => {
+    const result = csvRowToPing(
+      ["2026-01-10T12:00:00Z", "-33,8", "-70,6", "182,5", "8", "Sí", "apagado", "n/d"],
+      ["fecha", "lat", "lon", "rumbo", "sats", "contacto", "tdf", "alt"],
+      { ...mapping, speed: null, heading: "rumbo", satellites: "sats", ignition: "contacto", pto: "tdf", altitude: "alt" },
+      { decimal_separator: "," }
+    );
+
+    expect(result).toEqual({
+      ping: { ts: "2026-01-10T12:00:00.000Z", lat: -33.8, lon: -70.6, heading: 182.5, satellites: 8, ignition: true, pto: false },
+    });
+    expect("ping" in result && result.ping.altitude).toBeUndefined();
+  });
+
+  it("gives the reason of rows it can't read", () => {
+    expect(csvRowToPing(["ayer", "-33.8", "-70.6", "5"], columns, mapping)).toEqual({
+      reason: "Timestamp inválido o faltante",
+    });
+    expect(csvRowToPing(["2026-01-10T12:00:00Z", "", "-70.6", "5"], columns, mapping)).toEqual({
+      reason: "Coordenadas inválidas o faltantes",
+    });
+  });
+});
+
+describe("large file parts", () => {
+  const lines = Array.from({ length: 40 }, (_, i) => `2026-01-10T12:00:${String(i).padStart(2, "0")}Z,-33.8,-70.6,${i}`);
+  const file = memoryFile(["fecha,lat,lon,vel", ...lines].join("\n") + "\n");
+
+  it("splits a file into parts that end at line breaks", async () => {
+    const offsets = await findPartOffsets(file, 200);
+    const text = await file.text();
+
+    expect(offsets[0]).toBe(0);
+    expect(offsets.length).toBeGreaterThan(5);
+    for (const offset of offsets.slice(1)) {
+      expect(text[offset - 1]).toBe("\n");
+    }
+    // Same file, same parts: what an interrupted upload resumes from
+    expect(await findPartOffsets(file, 200)).toEqual(offsets);
+  });
+
+  it("reads the rows of the preview with the detected delimiter", async () => {
+    const preview = await readFilePreview(memoryFile("Exportado el 10/01/2026\n\nfecha;lat;lon\n2026-01-10;-33,8;-70,6\n"));
+
+    expect(preview.delimiter).toBe(";");
+    expect(preview.rows).toEqual([
+      ["Exportado el 10/01/2026"],
+      ["fecha", "lat", "lon"],
+      ["2026-01-10", "-33,8", "-70,6"],
+    ]);
+  });
+
+  it("stores the parts of a batch under its tenant", () => {
+    expect(importPartPath("tenant", "batch", 12)).toBe("tenant/batch/00012.csv");
+  });
+});
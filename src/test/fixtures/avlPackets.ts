@@ -0,0 +1,36 @@
+// Tracker packets in hex. The Teltonika samples without GPS fix and the GT06
+// login/ack pair are the examples from the protocol documents; the rest are
+// encoded the same way with positions around the test farm.
+
+export function hexBytes(hex: string): Uint8Array {
+  const clean = hex.replace(/\s/g, "");
+  return Uint8Array.from({ length: clean.length / 2 }, (_, i) => parseInt(clean.slice(i * 2, i * 2 + 2), 16));
+}
+
+export function toHex(bytes: Uint8Array | null): string {
+  return bytes ? Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("").toUpperCase() : "";
+}
+
+export const teltonika = {
+  // IMEI 356307042441013
+  login: "000F333536333037303432343431303133",
+  // Codec 8, one record without GPS fix
+  codec8NoFix:
+    "000000000000003608010000016B40D8EA30010000000000000000000000000000000105021503010101425E0F01F10000601A014E0000000000000000010000C7CF",
+  // Codec 8 Extended, one record without GPS fix
+  codec8ExtendedNoFix:
+    "000000000000004A8E010000016B412CEE000100000000000000000000000000000000010005000100010100010011001D00010010015E2C880002000B000000003544C87A000E000000001DD7E06A00000100002994",
+  // Codec 8, two records near -33.8, -70.6 with ignition (239) and movement (240) on
+  codec8Moving:
+    "000000000000004D08020000019BA7C7120000D5EB4B80EBDA87800200005A09000CEF0302EF01F001014230D400000000019BA7C7258800D5EB5350EBDA83980201005C0A000EEF0302EF01F001014230D40000020000AAB1",
+};
+
+export const gt06 = {
+  // IMEI 123456789012345, serial 1
+  login: "78780D01012345678901234500018CDD0D0A",
+  loginAck: "787805010001D9DC0D0A",
+  // Fix at 2026-01-10 12:00:00 UTC, -33.8, -70.6, 15 km/h, course 180
+  location: "78781F121A010A0C0000C903A05840079316400F18B402CC00287D001FB80002EFCF0D0A",
+  heartbeat: "78780A134606040001000346190D0A",
+  heartbeatAck: "787805130003CAE30D0A",
+};
@@ -0,0 +1,90 @@
+import type { DetectionPing, PolygonRings } from "@shared/visitDetection";
+
+// Deterministic synthetic farm: a grid of square blocks separated by access
+// roads, and tractors that drive between random blocks and work them in lanes.
+
+export interface GridBlock {
+  id: string;
+  polygons: PolygonRings[];
+}
+
+const ORIGIN_LON = -71.0;
+const ORIGIN_LAT = -34.5;
+const BLOCK_DEG = 0.001; // ~90 m x 110 m
+const ROAD_DEG = 0.0002; // ~20 m between blocks
+const PING_INTERVAL_MS = 10_000;
+const START = Date.parse("2026-01-01T08:00:00.000Z");
+
+// Small seeded PRNG so fixtures are identical on every run
+function mulberry32(seed: number) {
+  return () => {
+    seed |= 0;
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function createBlockGrid(count: number): GridBlock[] {
+  const columns = Math.ceil(Math.sqrt(count));
+  return Array.from({ length: count }, (_, i) => {
+    const west = ORIGIN_LON + (i % columns) * (BLOCK_DEG + ROAD_DEG);
+    const south = ORIGIN_LAT + Math.floor(i / columns) * (BLOCK_DEG + ROAD_DEG);
+    const east = west + BLOCK_DEG;
+    const north = south + BLOCK_DEG;
+    return {
+      id: `block-${i}`,
+      polygons: [[[[west, south], [east, south], [east, north], [west, north], [west, south]]]],
+    };
+  });
+}
+
+/**
+ * `count` pings of one tractor, sorted by time: alternating transits along the
+ * roads to a random block and working passes of 30-150 pings inside it.
+ */
+export function createTractorPings(blocks: GridBlock[], count: number, seed = 1): DetectionPing[] {
+  const random = mulberry32(seed);
+  const pings: DetectionPing[] = [];
+  let [lon, lat] = blocks[0].polygons[0][0][0];
+  lon -= ROAD_DEG / 2;
+  lat -= ROAD_DEG / 2;
+
+  const push = (x: number, y: number) => {
+    pings.push({ ts: new Date(START + pings.length * PING_INTERVAL_MS).toISOString(), lon: x, lat: y });
+  };
+
+  while (pings.length < count) {
+    const target = blocks[Math.floor(random() * blocks.length)].polygons[0][0];
+    const [west, south] = target[0];
+
+    // Transit ~50 m per ping along the road below the target's row, then up its west road
+    const roadLat = south - ROAD_DEG / 2;
+    const roadLon = west - ROAD_DEG / 2;
+    const step = 0.0005;
+    while (Math.abs(lat - roadLat) > step && pings.length < count) {
+      lat += Math.sign(roadLat - lat) * step;
+      push(lon, lat);
+    }
+    while (Math.abs(lon - roadLon) > step && pings.length < count) {
+      lon += Math.sign(roadLon - lon) * step;
+      push(lon, roadLat);
+    }
+    lon = roadLon;
+    lat = roadLat;
+
+    // Work the block in north-south lanes
+    const workPings = 30 + Math.floor(random() * 120);
+    const lanes = 6;
+    for (let i = 0; i < workPings && pings.length < count; i++) {
+      const lane = Math.floor((i / workPings) * lanes);
+      const along = (i % 20) / 19;
+      const x = west + ((lane + 0.5) / lanes) * BLOCK_DEG;
+      const y = south + 0.00005 + (lane % 2 === 0 ? along : 1 - along) * (BLOCK_DEG - 0.0001);
+      push(x, y);
+    }
+  }
+
+  return pings;
+}
@@ -0,0 +1,24 @@
+import type { BlockVisit } from "@/types/farm";
+
+// Table rows for unit tests, all on one day: times are given as "HH:MM" UTC.
+
+export const at = (hhmm: string) => `2026-01-10T${hhmm}:00.000Z`;
+
+// A stored visit with every column filled in; tests pass the ones they check
+export function blockVisit(fields: Partial<BlockVisit> & Pick<BlockVisit, "block_id" | "started_at">): BlockVisit {
+  return {
+    id: `${fields.block_id}-${fields.started_at}`,
+    tenant_id: "tenant",
+    tractor_id: "t1",
+    ended_at: null,
+    ping_count: 20,
+    working_minutes: null,
+    transit_minutes: null,
+    idle_minutes: null,
+    stopped_minutes: null,
+    implement_id: null,
+    operator_id: null,
+    created_at: fields.started_at,
+    ...fields,
+  };
+}
@@ -0,0 +1,110 @@
+import type { MqttConnect, MqttHandlers, MqttMessage } from "../../../services/mqtt-bridge/bridge";
+
+// In-memory stand-in for an MQTT broker with one persistent client session:
+// QoS 1 messages stay unacknowledged until the handler resolves, at most
+// `inflightWindow` of them are outstanding, and unacknowledged ones are
+// redelivered when the client reconnects.
+
+function topicMatches(filter: string, topic: string): boolean {
+  const levels = filter.split("/");
+  const parts = topic.split("/");
+  for (let i = 0; i < levels.length; i++) {
+    if (levels[i] === "#") return true;
+    if (i >= parts.length || (levels[i] !== "+" && levels[i] !== parts[i])) return false;
+  }
+  return levels.length === parts.length;
+}
+
+export function createBrokerStandIn({ inflightWindow = 20 } = {}) {
+  let session: { handlers: MqttHandlers; filters: string[] } | null = null;
+  let refuseConnections = 0;
+  // Delivered, not yet acknowledged
+  const inflight = new Set<MqttMessage>();
+  // Waiting for room in the in-flight window, or for a client
+  const queued: MqttMessage[] = [];
+  const state = { connects: 0, acked: 0, subscriptions: [] as string[][] };
+
+  const deliver = (message: MqttMessage) => {
+    const current = session;
+    if (!current) return;
+    if (message.qos > 0) inflight.add(message);
+
+    current.handlers.onMessage(message).then(
+      () => {
+        if (!inflight.delete(message)) return;
+        state.acked++;
+        pump();
+      },
+      (error) => {
+        // Unacknowledged: the client drops the connection and gets it again on reconnect
+        if (session === current) {
+          session = null;
+          current.handlers.onClose(error);
+        }
+      }
+    );
+  };
+
+  const pump = () => {
+    while (session && queued.length > 0 && inflight.size < inflightWindow) {
+      deliver(queued.shift()!);
+    }
+  };
+
+  const connect: MqttConnect = async (handlers) => {
+    if (refuseConnections > 0) {
+      refuseConnections--;
+      throw new Error("connection refused");
+    }
+    state.connects++;
+    const current = { handlers, filters: [] as string[] };
+    session = current;
+
+    return {
+      async subscribe(filters) {
+        current.filters = filters;
+        state.subscriptions.push(filters);
+        // Resume the session: redeliver what was never acknowledged
+        const redeliver = Array.from(inflight);
+        inflight.clear();
+        queued.unshift(...redeliver);
+        pump();
+      },
+      async end() {
+        if (session === current) session = null;
+      },
+    };
+  };
+
+  return {
+    connect,
+    state,
+    get inflight() {
+      return inflight.size;
+    },
+    get queued() {
+      return queued.length;
+    },
+    publish(topic: string, body: unknown, qos: 0 | 1 = 1) {
+      const filters = session?.filters ?? state.subscriptions[state.subscriptions.length - 1] ?? [];
+      if (!filters.some((filter) => topicMatches(filter, topic))) return;
+
+      const message = { topic, payload: new TextEncoder().encode(JSON.stringify(body)), qos };
+      if (qos === 0) {
+        if (session) deliver(message);
+      } else {
+        queued.push(message);
+        pump();
+      }
+    },
+    // Network failure: the client sees the connection close
+    drop() {
+      const current = session;
+      session = null;
+      current?.handlers.onClose(new Error("connection reset"));
+    },
+    refuseNext(count: number) {
+      refuseConnections = count;
+    },
+  };
+}
@@ -0,0 +1,130 @@
+import { describe, it, expect } from "vitest";
+import * as XLSX from "xlsx";
+import { detectTrackFormat, groupDeviceTracks, parseGpx, parseKml, parseKmz, parseNmea } from "@/lib/gpsTrackFormats";
+
+const GPX = `<?xml version="1.0"?>
+<gpx version="1.1" xmlns="http://www.topografix.com/GPX/1/1"
+  xmlns:gpxtpx="http://www.garmin.com/xmlschemas/TrackPointExtension/v2">
+  <trk><trkseg>
+    <trkpt lat="-33.798" lon="-70.650"><time>2026-01-10T12:00:00Z</time>
+      <extensions><gpxtpx:TrackPointExtension><gpxtpx:speed>2.5</gpxtpx:speed></gpxtpx:TrackPointExtension></extensions>
+    </trkpt>
+    <trkpt lat="-33.799" lon="-70.651"><time>2026-01-10T12:00:05Z</time></trkpt>
+    <trkpt lat="-33.800" lon="-70.652"></trkpt>
+  </trkseg></trk>
+</gpx>`;
+
+const KML = `<?xml version="1.0"?>
+<kml xmlns="http://www.opengis.net/kml/2.2" xmlns:gx="http://www.google.com/kml/ext/2.2">
+  <Document>
+    <Placemark><gx:Track>
+      <when>2026-01-10T12:00:00Z</when><when>2026-01-10T12:00:05Z</when>
+      <gx:coord>-70.650 -33.798 540</gx:coord><gx:coord>-70.651 -33.799 541</gx:coord>
+    </gx:Track></Placemark>
+    <Placemark>
+      <TimeStamp><when>2026-01-10T11:59:55Z</when></TimeStamp>
+      <Point><coordinates>-70.649,-33.797,540</coordinates></Point>
+    </Placemark>
+  </Document>
+</kml>`;
+
+describe("detectTrackFormat", () => {
+  it("detects formats by extension and NMEA logs by content", () => {
+    expect(detectTrackFormat("ruta.GPX")).toBe("gpx");
+    expect(detectTrackFormat("campo.kmz")).toBe("kmz");
+    expect(detectTrackFormat("logger.txt", "$GPRMC,123519.00,A")).toBe("nmea");
+    expect(detectTrackFormat("notas.txt", "hola")).toBeNull();
+    expect(detectTrackFormat("datos.xlsx")).toBeNull();
+  });
+});
+
+describe("parseGpx", () => {
+  it("reads track points and converts extension speed from m/s", () => {
+    const { pings, errors } = parseGpx(GPX);
+
+    expect(pings).toEqual([
+      { ts: "2026-01-10T12:00:00.000Z", lat: -33.798, lon: -70.65, speed: 9 },
+      { ts: "2026-01-10T12:00:05.000Z", lat: -33.799, lon: -70.651, speed: undefined },
+    ]);
+    expect(errors).toEqual(["Punto 3: Timestamp inválido o faltante"]);
+  });
+});
+
+describe("parseKml", () => {
+  it("reads gx:Track and timestamped placemarks in time order", () => {
+    const { pings, errors } = parseKml(KML);
+
+    expect(errors).toEqual([]);
+    expect(pings.map((p) => [p.ts, p.lat, p.lon])).toEqual([
+      ["2026-01-10T11:59:55.000Z", -33.797, -70.649],
+      ["2026-01-10T12:00:00.000Z", -33.798, -70.65],
+      ["2026-01-10T12:00:05.000Z", -33.799, -70.651],
+    ]);
+  });
+
+  it("explains that paths without times cannot be imported", () => {
+    const { pings, errors } = parseKml(
+      `<kml><Placemark><LineString><coordinates>-70.6,-33.7 -70.7,-33.8</coordinates></LineString></Placemark></kml>`
+    );
+
+    expect(pings).toEqual([]);
+    expect(errors[0]).toContain("sin marcas de tiempo");
+  });
+
+  it("reads the KML inside a KMZ", () => {
+    const container = XLSX.CFB.utils.cfb_new();
+    XLSX.CFB.utils.cfb_add(container, "doc.kml", new TextEncoder().encode(KML));
+    const kmz = XLSX.CFB.write(container, { fileType: "zip", type: "array" });
+
+    expect(parseKmz(new Uint8Array(kmz)).pings).toHaveLength(3);
+  });
+});
+
+describe("parseNmea", () => {
+  it("merges RMC and GGA fixes and skips sentences without a fix", () => {
+    const log = [
+      "$GPRMC,123519.00,A,3347.9000,S,07039.0000,W,10.0,084.4,100126,,,A*66",
+      "$GPGGA,123519.00,3347.9000,S,07039.0000,W,1,08,0.9,545.4,M,46.9,M,,*63",
+      "$GNGGA,123520.00,3347.9010,S,07038.9990,W,1,08,0.9,545.4,M,46.9,M,,*7E",
+      "$GPRMC,123521.00,V,,,,,,,100126,,,N*7F",
+      "$GPGSV,3,1,11,03,03,111,00*74",
+    ].join("\n");
+
+    const { pings, errors } = parseNmea(log);
+
+    expect(errors).toEqual([]);
+    expect(pings).toHaveLength(2);
+    expect(pings[0].ts).toBe("2026-01-10T12:35:19.000Z");
+    expect(pings[0].lat).toBeCloseTo(-33.798333, 6);
+    expect(pings[0].lon).toBeCloseTo(-70.65, 6);
+    expect(pings[0].speed).toBeCloseTo(18.52, 2);
+    expect(pings[1]).toMatchObject({ ts: "2026-01-10T12:35:20.000Z", speed: undefined });
+  });
+
+  it("rejects bad checksums and GGA before any date", () => {
+    const { pings, errors } = parseNmea([
+      "$GPGGA,123519.00,3347.9000,S,07039.0000,W,1,08,0.9,545.4,M,46.9,M,,*63",
+      "$GPRMC,123519.00,A,3347.9000,S,07039.0000,W,10.0,084.4,100126,,,A*00",
+    ].join("\r\n"));
+
+    expect(pings).toEqual([]);
+    expect(errors).toEqual([
+      "Línea 1: Sin fecha (se requiere una sentencia RMC previa)",
+      "Línea 2: Checksum inválido",
+    ]);
+  });
+});
+
+describe("groupDeviceTracks", () => {
+  it("splits pings per device, each sorted by time", () => {
+    const tracks = groupDeviceTracks([
+      { device: "unit-10", ping: { ts: "2026-01-10T12:00:05.000Z", lat: -33.8, lon: -70.6 } },
+      { device: "unit-2", ping: { ts: "2026-01-10T12:00:00.000Z", lat: -33.7, lon: -70.5 } },
+      { device: "unit-10", ping: { ts: "2026-01-10T12:00:00.000Z", lat: -33.8, lon: -70.6 } },
+    ]);
+
+    expect(tracks.map((t) => t.deviceKey)).toEqual(["unit-2", "unit-10"]);
+    expect(tracks[1].identifiers).toEqual(["unit-10"]);
+    expect(tracks[1].pings.map((p) => p.ts)).toEqual(["2026-01-10T12:00:00.000Z", "2026-01-10T12:00:05.000Z"]);
+  });
+});
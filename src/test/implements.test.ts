@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import { offsetTrack, resolveVisitImplement } from "@/lib/implements";
+import type { Implement, ImplementAssignment } from "@/types/farm";
+import { at } from "./fixtures/farmRows";
+
+function implement(id: string, width: number): Implement {
+  return {
+    id,
+    tenant_id: "tenant",
+    name: id,
+    type: "other",
+    working_width_meters: width,
+    offset_back_meters: 0,
+    offset_right_meters: 0,
+    archived_at: null,
+    created_at: at("00:00"),
+  };
+}
+
+function assignment(implement_id: string, tractor_id: string, start: string, end: string | null): ImplementAssignment {
+  return {
+    id: `${implement_id}-${start}`,
+    tenant_id: "tenant",
+    implement_id,
+    tractor_id,
+    started_at: at(start),
+    ended_at: end ? at(end) : null,
+    created_at: at("00:00"),
+  };
+}
+
+describe("resolveVisitImplement", () => {
+  const implementsList = [implement("mower", 3), implement("sprayer", 12)];
+  const assignments = [
+    assignment("mower", "t1", "06:00", "10:00"),
+    assignment("sprayer", "t1", "10:00", null),
+    assignment("sprayer", "t2", "06:00", null),
+  ];
+
+  it("uses the implement hitched to the tractor when the visit started", () => {
+    const visit = { tractor_id: "t1", started_at: at("08:00"), implement_id: null };
+    expect(resolveVisitImplement(visit, implementsList, assignments)?.id).toBe("mower");
+
+    const later = { ...visit, started_at: at("10:00") };
+    expect(resolveVisitImplement(later, implementsList, assignments)?.id).toBe("sprayer");
+  });
+
+  it("prefers the implement picked for the visit", () => {
+    const visit = { tractor_id: "t1", started_at: at("08:00"), implement_id: "sprayer" };
+    expect(resolveVisitImplement(visit, implementsList, assignments)?.id).toBe("sprayer");
+  });
+
+  it("returns null without a covering assignment", () => {
+    const visit = { tractor_id: "t1", started_at: at("05:00"), implement_id: null };
+    expect(resolveVisitImplement(visit, implementsList, assignments)).toBeNull();
+  });
+});
+
+describe("offsetTrack", () => {
+  // Heading north along a meridian, ~11 m between points
+  const track = [0, 1, 2].map((i) => ({ lat: -33 + i * 0.0001, lon: -70 }));
+
+  it("leaves the track alone without offsets", () => {
+    expect(offsetTrack(track, 0, 0)).toEqual(track.map((p) => [p.lon, p.lat]));
+  });
+
+  it("moves points behind and to the right of the direction of travel", () => {
+    const [lon, lat] = offsetTrack(track, 5, 2)[1];
+    const metersPerDegLat = 111195;
+    const metersPerDegLon = metersPerDegLat * Math.cos((-33 * Math.PI) / 180);
+
+    // Heading north: behind is south, right is east
+    expect((lat - track[1].lat) * metersPerDegLat).toBeCloseTo(-5, 0);
+    expect((lon - track[1].lon) * metersPerDegLon).toBeCloseTo(2, 0);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import * as XLSX from "xlsx";
+import { parseTaskData } from "@/lib/isoxmlTaskData";
+import { matchTractorByIdentifier } from "@/lib/gpsTrackFormats";
+
+const TASKDATA = `<?xml version="1.0" encoding="UTF-8"?>
+<ISO11783_TaskData VersionMajor="4" VersionMinor="2" DataTransferOrigin="2">
+  <DVC A="DVC-1" B="Tractor 724" D="A00086000B2C1234" E="SN724">
+    <DET A="DET-1" B="1" C="1" E="1" F="0"/>
+  </DVC>
+  <DVC A="DVC-2" B="Pulverizador" D="A00086000B2C5678" E="PU-01">
+    <DET A="DET-2" B="1" C="1" E="1" F="0"/>
+  </DVC>
+  <TSK A="TSK1" B="Aplicación" G="4">
+    <TLG A="TLG00001"/>
+  </TSK>
+</ISO11783_TaskData>`;
+
+// Position logged in every record, with GPS UTC time; speed and work state as process data
+const TLG_HEADER = `<?xml version="1.0" encoding="UTF-8"?>
+<TIM A="" D="4">
+  <PTN A="" B="" D="" H="" I=""/>
+  <DLV A="018D" B="" C="DET-1"/>
+  <DLV A="008D" B="" C="DET-1"/>
+</TIM>`;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAYS = (Date.UTC(2026, 0, 10) - Date.UTC(1980, 0, 1)) / DAY_MS;
+const NOON = 12 * 60 * 60 * 1000;
+
+function record(ms: number, lat: number, lon: number, status: number, values: [number, number][]): number[] {
+  const view = new DataView(new ArrayBuffer(6 + 4 + 4 + 1 + 4 + 2 + 1 + values.length * 5));
+  let offset = 0;
+  view.setUint32(offset, ms, true); offset += 4;
+  view.setUint16(offset, DAYS, true); offset += 2;
+  view.setInt32(offset, Math.round(lat * 1e7), true); offset += 4;
+  view.setInt32(offset, Math.round(lon * 1e7), true); offset += 4;
+  view.setUint8(offset, status); offset += 1;
+  view.setUint32(offset, ms, true); offset += 4;
+  view.setUint16(offset, DAYS, true); offset += 2;
+  view.setUint8(offset, values.length); offset += 1;
+  for (const [index, value] of values) {
+    view.setUint8(offset, index); offset += 1;
+    view.setInt32(offset, value, true); offset += 4;
+  }
+  return Array.from(new Uint8Array(view.buffer));
+}
+
+function taskDataZip(binary: number[]): Uint8Array {
+  const container = XLSX.CFB.utils.cfb_new();
+  XLSX.CFB.utils.cfb_add(container, "TASKDATA/TASKDATA.XML", new TextEncoder().encode(TASKDATA));
+  XLSX.CFB.utils.cfb_add(container, "TASKDATA/TLG00001.XML", new TextEncoder().encode(TLG_HEADER));
+  XLSX.CFB.utils.cfb_add(container, "TASKDATA/TLG00001.BIN", new Uint8Array(binary));
+  return new Uint8Array(XLSX.CFB.write(container, { fileType: "zip", type: "array" }));
+}
+
+describe("parseTaskData", () => {
+  it("decodes binary time logs into pings of the logging device", () => {
+    const binary = [
+      ...record(NOON, -33.798, -70.65, 1, [[0, 2500], [1, 1]]),
+      ...record(NOON + 2000, 0, 0, 0, []), // no fix
+      ...record(NOON + 3000, -33.798, -70.65, 15, []), // not available, last position repeated
+      ...record(NOON + 5000, -33.799, -70.651, 4, [[1, 0]]),
+    ];
+    const { devices, errors } = parseTaskData(taskDataZip(binary));
+
+    expect(errors).toEqual([]);
+    expect(devices).toHaveLength(1);
+    expect(devices[0].label).toBe("Tractor 724");
+    expect(devices[0].identifiers).toContain("SN724");
+    expect(devices[0].pings).toHaveLength(2);
+    expect(devices[0].pings[0]).toMatchObject({ ts: "2026-01-10T12:00:00.000Z", work_state: true });
+    expect(devices[0].pings[0].lat).toBeCloseTo(-33.798, 6);
+    expect(devices[0].pings[0].speed).toBeCloseTo(9, 6);
+    expect(devices[0].pings[1]).toMatchObject({ ts: "2026-01-10T12:00:05.000Z", work_state: false, speed: undefined });
+  });
+
+  it("keeps the records before a truncated one", () => {
+    const binary = [...record(NOON, -33.798, -70.65, 1, []), ...record(NOON + 1000, -33.798, -70.65, 1, []).slice(0, 9)];
+    const { devices, errors } = parseTaskData(taskDataZip(binary));
+
+    expect(devices[0].pings).toHaveLength(1);
+    expect(errors[0]).toMatch(/^TLG00001: registro incompleto/);
+  });
+
+  it("reports files that are not TaskData", () => {
+    expect(parseTaskData(new TextEncoder().encode("hola")).errors).toEqual(["El archivo no es un zip válido"]);
+  });
+});
+
+describe("matchTractorByIdentifier", () => {
+  it("matches ignoring case and spaces", () => {
+    const tractors = [{ id: "a", identifier: "T-01" }, { id: "b", identifier: "sn 724" }];
+    expect(matchTractorByIdentifier(["Tractor 724", "SN724"], tractors)?.id).toBe("b");
+    expect(matchTractorByIdentifier(["PU-01"], tractors)).toBeNull();
+  });
+});
@@ -0,0 +1,260 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { createPingBatcher } from "../../services/_shared/pingBatcher";
+import type { PingStore, TrackerPing } from "../../services/_shared/pingStore";
+import { createMqttBridge, type MqttBridge } from "../../services/mqtt-bridge/bridge";
+import { parseBridgeConfig } from "../../services/mqtt-bridge/config";
+import { mapPayload } from "../../services/mqtt-bridge/payloadMapping";
+import { compileTopicPattern } from "../../services/mqtt-bridge/topicPattern";
+import { createBrokerStandIn } from "./fixtures/mqttBroker";
+
+async function until(condition: () => boolean) {
+  for (let i = 0; i < 200 && !condition(); i++) {
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+  expect(condition()).toBe(true);
+}
+
+// Stands in for the database; inserts can be held to simulate a slow one
+function createMemoryStore(identifiers: Record<string, string>) {
+  const stored = new Map<string, TrackerPing[]>();
+  let hold: Promise<void> | null = null;
+  let release = () => {};
+  let failNext = false;
+
+  const store: PingStore = {
+    async findTractor(identifier, tenantId) {
+      const id = tenantId === "tenant-1" ? identifiers[identifier] : undefined;
+      return id ? { id, tenant_id: "tenant-1" } : null;
+    },
+    async insertPings(tractor, pings) {
+      if (hold) await hold;
+      if (failNext) {
+        failNext = false;
+        throw new Error("connection reset");
+      }
+      const existing = stored.get(tractor.id) ?? [];
+      const seen = new Set(existing.map((p) => p.ts));
+      const fresh = pings.filter((p) => !seen.has(p.ts) && seen.add(p.ts));
+      stored.set(tractor.id, [...existing, ...fresh]);
+      return fresh.length;
+    },
+  };
+
+  return {
+    store,
+    stored,
+    holdInserts() {
+      hold = new Promise((resolve) => {
+        release = () => {
+          hold = null;
+          resolve();
+        };
+      });
+    },
+    releaseInserts: () => release(),
+    failOnce: () => {
+      failNext = true;
+    },
+  };
+}
+
+const config = parseBridgeConfig({
+  tenant_id: "tenant-1",
+  topics: ["farms/+/gateways/{device}/gps"],
+  mapping: { timestamp: "time", latitude: "pos.lat", longitude: "pos.lon", speed: "speed" },
+});
+
+const position = (second: number) => ({
+  time: `2026-01-10T12:00:0${second}Z`, pos: { lat: -33.8, lon: -70.6 }, speed: 10,
+});
+
+describe("compileTopicPattern", () => {
+  it("subscribes with + in place of {device} and reads the device from the topic", () => {
+    const pattern = compileTopicPattern("farms/+/gateways/{device}/gps");
+
+    expect(pattern.filter).toBe("farms/+/gateways/+/gps");
+    expect(pattern.match("farms/north/gateways/TR-01/gps")).toEqual({ device: "TR-01" });
+    expect(pattern.match("farms/north/gateways/TR-01/status")).toBeNull();
+    expect(pattern.match("farms/north/gateways/TR-01/gps/raw")).toBeNull();
+  });
+
+  it("matches the remaining levels with #", () => {
+    const pattern = compileTopicPattern("telemetry/{device}/#");
+
+    expect(pattern.match("telemetry/TR-01")).toEqual({ device: "TR-01" });
+    expect(pattern.match("telemetry/TR-01/gps/fix")).toEqual({ device: "TR-01" });
+    expect(compileTopicPattern("gateways/#").match("gateways/a/b")).toEqual({ device: null });
+  });
+
+  it("rejects malformed patterns", () => {
+    expect(() => compileTopicPattern("a/#/b")).toThrow("# solo puede ir en el último nivel");
+    expect(() => compileTopicPattern("a/tr+/b")).toThrow("+ debe ocupar un nivel completo");
+    expect(() => compileTopicPattern("a/{tractor}")).toThrow("el único marcador permitido es {device}");
+  });
+});
+
+describe("mapPayload", () => {
+  it("reads nested fields and epoch timestamps", () => {
+    const { pings, errors } = mapPayload(
+      JSON.stringify({ time: 1768046400, pos: { lat: "-33.8", lon: -70.6 }, speed: 8.5 }),
+      config.mapping,
+      "TR-01"
+    );
+
+    expect(errors).toEqual([]);
+    expect(pings).toEqual([
+      { device: "TR-01", ping: { ts: "2026-01-10T12:00:00.000Z", lat: -33.8, lon: -70.6, speed: 8.5 } },
+    ]);
+  });
+
+  it("reads batched items with their own device and combined coordinates", () => {
+    const { pings, errors } = mapPayload(
+      JSON.stringify({
+        data: [
+          { unit: "TR-02", ts: "2026-01-10T12:00:00Z", loc: "-33.8, -70.6" },
+          { unit: "TR-03", ts: "2026-01-10T12:00:05Z", loc: "nowhere" },
+          { unit: "TR-03", ts: "mañana", loc: "-33.8,-70.6" },
+        ],
+      }),
+      { timestamp: "ts", coordinates: "loc", device: "unit", items: "data" },
+      "gateway-7"
+    );
+
+    expect(pings).toEqual([
+      { device: "TR-02", ping: { ts: "2026-01-10T12:00:00.000Z", lat: -33.8, lon: -70.6, speed: null } },
+    ]);
+    expect(errors).toEqual([
+      "Fila 2: Coordenadas inválidas o faltantes",
+      "Fila 3: Timestamp inválido (mañana)",
+    ]);
+  });
+
+  it("reads mapped telemetry, storing unreadable values as null", () => {
+    const { pings } = mapPayload(
+      JSON.stringify({ time: 1768046400, pos: { lat: -33.8, lon: -70.6, course: "270" }, io: { acc: "on", pto: "?" } }),
+      { ...config.mapping, heading: "pos.course", satellites: "sats", ignition: "io.acc", pto: "io.pto" },
+      "TR-01"
+    );
+
+    expect(pings[0].ping).toEqual({
+      ts: "2026-01-10T12:00:00.000Z", lat: -33.8, lon: -70.6, speed: null,
+      heading: 270, satellites: null, ignition: true, pto: null,
+    });
+  });
+
+  it("stores timestamps without an offset as UTC", () => {
+    const { pings } = mapPayload(
+      JSON.stringify({ time: "2026-01-10 12:00:00", pos: { lat: -33.8, lon: -70.6 } }),
+      config.mapping,
+      "TR-01"
+    );
+
+    expect(pings[0].ping.ts).toBe("2026-01-10T12:00:00.000Z");
+  });
+
+  it("reports messages that are not JSON", () => {
+    expect(mapPayload("lat=1", config.mapping, null).errors).toEqual(["El mensaje no es un JSON válido"]);
+  });
+});
+
+describe("parseBridgeConfig", () => {
+  it("requires a device in every topic or in the payload", () => {
+    const base = { tenant_id: "tenant-1", mapping: { timestamp: "t", coordinates: "c" } };
+
+    expect(() => parseBridgeConfig({ ...base, topics: ["gateways/+/gps"] })).toThrow("Cada tópico necesita {device}");
+    expect(parseBridgeConfig({ ...base, topics: ["gateways/+/gps"], mapping: { ...base.mapping, device: "imei" } }).qos).toBe(1);
+    expect(() => parseBridgeConfig({ ...base, topics: ["g/{device}"], mapping: { timestamp: "t" } })).toThrow("mapping.coordinates");
+  });
+});
+
+describe("createMqttBridge", () => {
+  let bridge: MqttBridge | null = null;
+
+  afterEach(async () => {
+    await bridge?.stop();
+    bridge = null;
+  });
+
+  it("stores pings for the tractor of each device and acknowledges them afterwards", async () => {
+    const broker = createBrokerStandIn();
+    const { store, stored } = createMemoryStore({ "TR-01": "tractor-1" });
+    bridge = createMqttBridge({
+      connect: broker.connect,
+      config,
+      store,
+      batcher: createPingBatcher(store, { flushIntervalMs: 10 }),
+    });
+    void bridge.run();
+    await until(() => broker.state.subscriptions.length === 1);
+
+    expect(broker.state.subscriptions[0]).toEqual(["farms/+/gateways/+/gps"]);
+    broker.publish("farms/north/gateways/TR-01/gps", position(1));
+    broker.publish("farms/north/gateways/TR-99/gps", position(2));
+    broker.publish("farms/north/gateways/TR-01/status", position(3));
+
+    await until(() => broker.state.acked === 2);
+    expect(stored.get("tractor-1")?.map((p) => p.ts)).toEqual(["2026-01-10T12:00:01.000Z"]);
+    expect(bridge.stats).toMatchObject({ messages: 2, pings: 1, unknownDevice: 1 });
+  });
+
+  it("holds acknowledgements while the database is slow, so the broker stops sending", async () => {
+    const broker = createBrokerStandIn({ inflightWindow: 3 });
+    const { store, stored, holdInserts, releaseInserts } = createMemoryStore({ "TR-01": "tractor-1" });
+    bridge = createMqttBridge({
+      connect: broker.connect,
+      config,
+      store,
+      batcher: createPingBatcher(store, { maxBatch: 1 }),
+      maxInFlight: 2,
+    });
+    void bridge.run();
+    await until(() => broker.state.subscriptions.length === 1);
+
+    holdInserts();
+    for (let second = 1; second <= 5; second++) {
+      broker.publish("farms/north/gateways/TR-01/gps", position(second));
+    }
+
+    await until(() => broker.inflight === 3);
+    expect(broker.queued).toBe(2);
+    expect(broker.state.acked).toBe(0);
+
+    releaseInserts();
+    await until(() => broker.state.acked === 5);
+    expect(stored.get("tractor-1")).toHaveLength(5);
+  });
+
+  it("reconnects with backoff, resubscribes and gets unacknowledged messages again", async () => {
+    const broker = createBrokerStandIn();
+    const { store, stored, failOnce } = createMemoryStore({ "TR-01": "tractor-1" });
+    bridge = createMqttBridge({
+      connect: broker.connect,
+      config,
+      store,
+      batcher: createPingBatcher(store, { maxBatch: 1 }),
+      minReconnectDelayMs: 1,
+    });
+    void bridge.run();
+    await until(() => broker.state.subscriptions.length === 1);
+
+    // The insert fails: the message is not acknowledged and the connection drops
+    failOnce();
+    broker.refuseNext(2);
+    broker.publish("farms/north/gateways/TR-01/gps", position(1));
+
+    await until(() => broker.state.acked === 1);
+    expect(broker.state.connects).toBe(2);
+    expect(bridge.stats.reconnects).toBe(3);
+    expect(broker.state.subscriptions).toHaveLength(2);
+
+    broker.drop();
+    await until(() => broker.state.connects === 3);
+    broker.publish("farms/north/gateways/TR-01/gps", position(2));
+
+    await until(() => broker.state.acked === 2);
+    expect(stored.get("tractor-1")?.map((p) => p.ts)).toEqual([
+      "2026-01-10T12:00:01.000Z",
+      "2026-01-10T12:00:02.000Z",
+    ]);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { summarizeOperatorProductivity } from "@/lib/operatorProductivity";
+import { at, blockVisit } from "./fixtures/farmRows";
+
+const visit = (
+  operator_id: string | null,
+  block_id: string,
+  start: string,
+  end: string | null,
+  stopped_minutes: number | null = null
+) => blockVisit({ operator_id, block_id, started_at: at(start), ended_at: end ? at(end) : null, stopped_minutes });
+
+describe("summarizeOperatorProductivity", () => {
+  it("totals passes and time per operator, busiest first", () => {
+    const summary = summarizeOperatorProductivity([
+      visit("ana", "b1", "08:00", "09:00", 10),
+      visit("luis", "b1", "10:00", "10:30"),
+      visit("ana", "b2", "11:00", "11:30", 0),
+      visit("ana", "b2", "12:00", null),
+    ]);
+
+    expect(summary.map((s) => s.operatorId)).toEqual(["ana", "luis"]);
+    expect(summary[0]).toMatchObject({
+      passes: 3,
+      blocks: 2,
+      totalMinutes: 90,
+      effectiveMinutes: 80,
+      averageMinutes: 45,
+      lastVisitAt: at("12:00"),
+    });
+    expect(summary[1].effectiveMinutes).toBeNull();
+  });
+
+  it("groups visits without an operator last", () => {
+    const summary = summarizeOperatorProductivity([
+      visit(null, "b1", "08:00", "09:00"),
+      visit(null, "b1", "10:00", "11:00"),
+      visit("luis", "b1", "12:00", "12:30"),
+    ]);
+
+    expect(summary.map((s) => s.operatorId)).toEqual(["luis", null]);
+  });
+});
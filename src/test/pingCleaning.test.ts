@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import { cleanPings, DEFAULT_PING_CLEANING, type CleanablePing } from "@shared/pingCleaning";
+
+// ~1.1 m per 0.00001° of latitude; one ping every 5 s at ~8 km/h
+const trace = (count: number, start = 0): CleanablePing[] =>
+  Array.from({ length: count }, (_, i) => ({
+    ts: new Date(Date.UTC(2026, 0, 10, 12, 0, (start + i) * 5)).toISOString(),
+    lat: -33.8 + (start + i) * 0.0001,
+    lon: -70.6,
+  }));
+
+const flags = (pings: { quality_flag: string | null }[]) => pings.map((p) => p.quality_flag);
+
+describe("cleanPings", () => {
+  it("flags zero coordinates and poor fixes only when reported", () => {
+    const pings = trace(4);
+    pings[1] = { ...pings[1], lat: 0, lon: 0 };
+    pings[2] = { ...pings[2], hdop: 9 };
+    pings[3] = { ...pings[3], hdop: 1.2, accuracy: 80 };
+
+    const result = cleanPings(pings, DEFAULT_PING_CLEANING);
+
+    expect(flags(result.pings)).toEqual([null, "zero", "hdop", "accuracy"]);
+    expect(result.counts).toEqual({ zero: 1, hdop: 1, accuracy: 1 });
+  });
+
+  it("flags spikes but keeps a real move after a gap", () => {
+    const pings = trace(6);
+    // 500 m away for one ping, then back on the line
+    pings[2] = { ...pings[2], lon: -70.6 + 0.0055 };
+    // Moved 2 km while the tracker was off for an hour
+    const afterGap = trace(2, 6 + 720).map((p) => ({ ...p, lon: -70.58 }));
+
+    const result = cleanPings([...afterGap, ...pings], DEFAULT_PING_CLEANING);
+
+    expect(flags(result.pings)).toEqual([null, null, "speed", null, null, null, null, null]);
+    expect(result.pings.map((p) => p.ts)).toEqual([...pings, ...afterGap].map((p) => p.ts));
+  });
+
+  it("keeps a fast move into the last ping", () => {
+    const pings = trace(4);
+    // Moved 2 km while the tracker was off for an hour
+    pings.push({ ...trace(1, 4 + 720)[0], lon: -70.58 });
+
+    expect(flags(cleanPings(pings, DEFAULT_PING_CLEANING).pings)).toEqual([null, null, null, null, null]);
+  });
+
+  it("checks the first ping against the last one stored, or the next two", () => {
+    const [stored, ...pings] = trace(4);
+    pings[0] = { ...pings[0], lat: -33.7 };
+
+    expect(flags(cleanPings(pings, DEFAULT_PING_CLEANING, stored).pings)).toEqual(["speed", null, null]);
+    expect(flags(cleanPings(pings, DEFAULT_PING_CLEANING).pings)).toEqual(["speed", null, null]);
+  });
+
+  it("smooths jitter with the median of each ping and its neighbours", () => {
+    const pings = trace(3).map((p) => ({ ...p, lat: -33.8 }));
+    pings[1] = { ...pings[1], lat: -33.80004 };
+
+    const result = cleanPings(pings, { ...DEFAULT_PING_CLEANING, smoothing: true });
+
+    expect(result.pings.map((p) => p.lat)).toEqual([-33.8, -33.8, -33.8]);
+  });
+
+  it("leaves every ping alone when disabled", () => {
+    const pings = trace(2);
+    pings[0] = { ...pings[0], lat: 0, lon: 0 };
+
+    const result = cleanPings(pings, { ...DEFAULT_PING_CLEANING, enabled: false });
+
+    expect(flags(result.pings)).toEqual([null, null]);
+    expect(result.counts).toEqual({});
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_PING_CLEANING } from "@shared/pingCleaning";
+import type { IngestPing } from "@shared/pingIngest";
+import { importPings, type ImportPingRow, type PingImportStore } from "@shared/pingImport";
+
+// One ping every 5 s at ~8 km/h
+const trace = (count: number, start = 0): IngestPing[] =>
+  Array.from({ length: count }, (_, i) => ({
+    ts: new Date(Date.UTC(2026, 0, 10, 12, 0, (start + i) * 5)).toISOString(),
+    lat: -33.8 + (start + i) * 0.0001,
+    lon: -70.6,
+  }));
+
+// gps_pings of one tractor, keyed by ts
+function createMemoryStore() {
+  const stored = new Map<string, ImportPingRow>();
+  const store: PingImportStore = {
+    async findPreviousPing(beforeTs) {
+      const before = [...stored.values()].filter((row) => !row.quality_flag && row.ts < beforeTs);
+      return before.sort((a, b) => b.ts.localeCompare(a.ts))[0] ?? null;
+    },
+    async flagStoredPing(ts, flag) {
+      stored.get(ts)!.quality_flag = flag;
+    },
+    async deleteStoredPing(ts) {
+      stored.delete(ts);
+    },
+    async insertPings(rows) {
+      const inserted = rows.filter((row) => !stored.has(row.ts));
+      for (const row of inserted) stored.set(row.ts, row);
+      return inserted;
+    },
+  };
+  return { store, stored };
+}
+
+describe("importPings", () => {
+  // 500 m away on the last ping of the first call, back on the line in the next
+  const chunks = () => {
+    const first = trace(4);
+    first[3] = { ...first[3], lon: -70.6 + 0.0055 };
+    return [first, trace(4, 4)];
+  };
+
+  it("drops a spike at the end of one call once the next call shows it", async () => {
+    const { store, stored } = createMemoryStore();
+    const [first, second] = chunks();
+
+    await importPings(first, store, DEFAULT_PING_CLEANING);
+    const { stats } = await importPings(second, store, DEFAULT_PING_CLEANING);
+
+    expect(stored.has(first[3].ts)).toBe(false);
+    expect(stored.size).toBe(7);
+    expect([...stored.values()].every((row) => row.quality_flag === null)).toBe(true);
+    expect(stats.cleaned).toEqual({ speed: 1 });
+  });
+
+  it("flags it instead when the cleaning keeps bad pings", async () => {
+    const { store, stored } = createMemoryStore();
+    const [first, second] = chunks();
+    const cleaning = { ...DEFAULT_PING_CLEANING, mode: "flag" as const };
+
+    await importPings(first, store, cleaning);
+    await importPings(second, store, cleaning);
+
+    expect(stored.get(first[3].ts)?.quality_flag).toBe("speed");
+    expect([...stored.values()].filter((row) => row.quality_flag)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEVICE_TOKEN_PREFIX,
+  generateDeviceToken,
+  hashDeviceToken,
+  parseIngestBody,
+  pingTelemetryRow,
+  validatePing,
+} from "@shared/pingIngest";
+
+describe("parseIngestBody", () => {
+  it("reads JSON batches with their id", () => {
+    const body = parseIngestBody(
+      JSON.stringify({ batch_id: 42, pings: [{ ts: 1768046400, lat: -33.8, lon: -70.6, speed: 8.5 }] }),
+      "application/json"
+    );
+
+    expect(body.batchId).toBe("42");
+    expect(body.pings).toEqual([{ ts: "2026-01-10T12:00:00.000Z", lat: -33.8, lon: -70.6, speed: 8.5 }]);
+  });
+
+  it("reads bare JSON arrays", () => {
+    const body = parseIngestBody('[{"ts": "2026-01-10T12:00:00Z", "lat": -33.8, "lon": -70.6}]', null);
+
+    expect(body.batchId).toBeNull();
+    expect(body.pings[0]).toMatchObject({ ts: "2026-01-10T12:00:00Z", speed: undefined });
+  });
+
+  it("reads compact CSV, skipping the header and comments", () => {
+    const body = parseIngestBody(
+      "ts,lat,lon,speed\n# buffered\n1768046400,-33.8,-70.6,8.5\n1768046405000,-33.81,-70.61\nbroken\n",
+      "text/csv"
+    );
+
+    expect(body.pings.map((p) => p.ts)).toEqual(["2026-01-10T12:00:00.000Z", "2026-01-10T12:00:05.000Z"]);
+    expect(body.pings[1].speed).toBeUndefined();
+    expect(body.errors).toEqual([{ row: 5, reason: "Línea 5: se esperaban ts,lat,lon[,speed]" }]);
+  });
+
+  it("numbers CSV pings by their line, like the lines that are not pings", () => {
+    const body = parseIngestBody("ts,lat,lon\n\n2026-01-10T12:00:00Z,-33.8,-70.6\n2026-01-10T12:00:05Z,95,-70.6\nbroken\n", "text/csv");
+
+    expect(body.rows).toEqual([3, 4]);
+    expect(body.errors).toEqual([{ row: 5, reason: "Línea 5: se esperaban ts,lat,lon[,speed]" }]);
+    expect(validatePing(body.pings[1], body.rows[1] - 1)).toEqual({ valid: false, reason: "Fila 4: Latitud inválida (95)" });
+  });
+
+  it("reads the telemetry of JSON pings", () => {
+    const body = parseIngestBody(
+      JSON.stringify([{ ts: 1768046400, lat: -33.8, lon: -70.6, heading: 182, altitude: "512.5", satellites: 9, ignition: 1, pto: "off" }]),
+      null
+    );
+
+    expect(body.pings[0]).toMatchObject({ heading: 182, altitude: 512.5, satellites: 9, ignition: true, pto: false });
+    expect(body.pings[0].hdop).toBeUndefined();
+  });
+
+  it("rejects unreadable bodies", () => {
+    expect(() => parseIngestBody("{", "application/json")).toThrow("El cuerpo no es un JSON válido");
+    expect(() => parseIngestBody('{"ts": 1}', null)).toThrow("Se requiere un arreglo de pings");
+  });
+
+  it("leaves value checks to validatePing", () => {
+    const [ping] = parseIngestBody("2026-01-10T12:00:00Z,95,-70.6", "text/csv").pings;
+    expect(validatePing(ping, 0)).toEqual({ valid: false, reason: "Fila 1: Latitud inválida (95)" });
+  });
+
+  it("rejects missing or non-numeric coordinates", () => {
+    const { pings } = parseIngestBody('[{"ts": "2026-01-10T12:00:00Z", "lon": -70.6}, {"ts": "2026-01-10T12:00:05Z", "lat": "norte", "lon": -70.6}]', null);
+
+    expect(pings.map((ping, i) => validatePing(ping, i))).toEqual([
+      { valid: false, reason: "Fila 1: Coordenadas inválidas o faltantes" },
+      { valid: false, reason: "Fila 2: Coordenadas inválidas o faltantes" },
+    ]);
+  });
+
+  it("reads timestamps without an offset as UTC", () => {
+    expect(validatePing({ ts: "2026-01-10 12:00:00", lat: -33.8, lon: -70.6 }, 0)).toEqual({
+      valid: true,
+      ts: "2026-01-10T12:00:00.000Z",
+    });
+    expect(validatePing({ ts: "10/01/2026 12:00", lat: -33.8, lon: -70.6 }, 1)).toEqual({
+      valid: false,
+      reason: "Fila 2: Timestamp inválido (10/01/2026 12:00)",
+    });
+  });
+});
+
+describe("device tokens", () => {
+  it("generates distinct prefixed tokens with a stable hash", async () => {
+    const token = generateDeviceToken();
+
+    expect(token.startsWith(DEVICE_TOKEN_PREFIX)).toBe(true);
+    expect(token).toHaveLength(DEVICE_TOKEN_PREFIX.length + 40);
+    expect(generateDeviceToken()).not.toBe(token);
+    expect(await hashDeviceToken(token)).toBe(await hashDeviceToken(token));
+    expect(await hashDeviceToken("abc")).toBe("ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad");
+  });
+});
+
+describe("pingTelemetryRow", () => {
+  it("keeps reported values and drops the ones out of range", () => {
+    expect(pingTelemetryRow({ heading: 90, altitude: -12, hdop: 1.4, satellites: 11, ignition: true, pto: false })).toEqual({
+      heading: 90,
+      altitude: -12,
+      hdop: 1.4,
+      satellites: 11,
+      ignition: true,
+      pto: false,
+    });
+    expect(pingTelemetryRow({ heading: 400, altitude: NaN, hdop: -1, satellites: 7.5 })).toEqual({
+      heading: null,
+      altitude: null,
+      hdop: null,
+      satellites: null,
+      ignition: null,
+      pto: null,
+    });
+  });
+});
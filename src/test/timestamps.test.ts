@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { isValidTimeZone, parseTimestamp, type TimestampOptions } from "@shared/timestamps";
+
+const chile = (timestamp_format: TimestampOptions["timestamp_format"] = "auto"): TimestampOptions => ({
+  timestamp_format,
+  timezone: "America/Santiago",
+});
+
+describe("parseTimestamp", () => {
+  it("reads wall times in the declared time zone, across DST changes", () => {
+    // Summer (-03:00) and winter (-04:00)
+    expect(parseTimestamp("2026-01-10 09:00:00", chile())).toBe("2026-01-10T12:00:00.000Z");
+    expect(parseTimestamp("2026-07-10 09:00", chile())).toBe("2026-07-10T13:00:00.000Z");
+    expect(parseTimestamp("2026-07-10T09:00:00", { timestamp_format: "auto", timezone: "UTC" })).toBe("2026-07-10T09:00:00.000Z");
+  });
+
+  it("resolves times skipped or repeated by a clock change", () => {
+    // Clocks go from 00:00 to 01:00 on 6 September 2026
+    expect(parseTimestamp("2026-09-06 00:30", chile())).toBe("2026-09-06T04:30:00.000Z");
+    // 23:00 to 24:00 on 4 April 2026 happens twice: the first one is taken
+    expect(parseTimestamp("2026-04-04 23:30", chile())).toBe("2026-04-05T02:30:00.000Z");
+  });
+
+  it("keeps the offset written in the value", () => {
+    expect(parseTimestamp("2026-01-10T09:00:00-03:00", { timestamp_format: "auto", timezone: "UTC" })).toBe("2026-01-10T12:00:00.000Z");
+    expect(parseTimestamp("2026-01-10T12:00:00.250Z", chile())).toBe("2026-01-10T12:00:00.250Z");
+  });
+
+  it("reads day-first and month-first dates", () => {
+    expect(parseTimestamp("05/02/2026 14:30", chile("dmy"))).toBe("2026-02-05T17:30:00.000Z");
+    expect(parseTimestamp("05/02/26 2:30 p.m.", chile("mdy"))).toBe("2026-05-02T18:30:00.000Z");
+    expect(parseTimestamp("31.01.2026", chile("dmy"))).toBe("2026-01-31T03:00:00.000Z");
+    // Year-first values, as spreadsheet date cells come out, are read too
+    expect(parseTimestamp("2026-02-05 14:30:00", chile("dmy"))).toBe("2026-02-05T17:30:00.000Z");
+  });
+
+  it("reads epoch seconds and milliseconds", () => {
+    expect(parseTimestamp("1768046400", chile("epoch_s"))).toBe("2026-01-10T12:00:00.000Z");
+    expect(parseTimestamp("1768046400500", chile("epoch_ms"))).toBe("2026-01-10T12:00:00.500Z");
+    expect(parseTimestamp("1768046400", chile())).toBe("2026-01-10T12:00:00.000Z");
+    expect(parseTimestamp("1768046400500", chile())).toBe("2026-01-10T12:00:00.500Z");
+  });
+
+  it("rejects values that don't fit the format", () => {
+    expect(parseTimestamp("31/01/2026", chile("mdy"))).toBeNull();
+    expect(parseTimestamp("31/01/2026", chile())).toBeNull();
+    expect(parseTimestamp("2026-02-30 10:00", chile())).toBeNull();
+    expect(parseTimestamp("2026-01-10 13:00 pm", chile())).toBeNull();
+    expect(parseTimestamp("2026-01-10", chile("epoch_s"))).toBeNull();
+    expect(parseTimestamp("1768046400", chile("dmy"))).toBeNull();
+    expect(parseTimestamp("ayer", chile())).toBeNull();
+    expect(parseTimestamp("2026-01-10 09:00", { timestamp_format: "auto", timezone: "Chile/Nowhere" })).toBeNull();
+  });
+
+  it("checks time zone names", () => {
+    expect(isValidTimeZone("America/Santiago")).toBe(true);
+    expect(isValidTimeZone("Chile/Nowhere")).toBe(false);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import {
+  computeBlockMetrics,
+  diffVisits,
+  findOverlappingVisit,
+  type ProposedVisit,
+  type StoredVisit,
+} from "@shared/visitChanges";
+import { at } from "./fixtures/farmRows";
+
+function stored(tractor_id: string, start: string, end: string, ping_count = 20): StoredVisit {
+  return { id: `${tractor_id}-${start}`, tractor_id, started_at: at(start), ended_at: at(end), ping_count };
+}
+
+function proposed(tractor_id: string, start: string, end: string, ping_count = 20): ProposedVisit {
+  return { tractor_id, started_at: at(start), ended_at: at(end), ping_count };
+}
+
+describe("diffVisits", () => {
+  it("classifies added, removed, extended and unchanged visits", () => {
+    const existing = [
+      stored("t1", "08:00", "09:00"),
+      stored("t1", "12:00", "12:30"),
+      stored("t2", "10:00", "10:20"),
+    ];
+    const next = [
+      proposed("t1", "08:00", "09:00"),
+      proposed("t1", "12:00", "13:15", 45),
+      proposed("t2", "15:00", "15:40"),
+    ];
+
+    const diff = diffVisits(existing, next);
+
+    expect(diff.unchanged).toBe(1);
+    expect(diff.extended).toEqual([{ before: existing[1], after: next[1] }]);
+    expect(diff.added).toEqual([next[2]]);
+    expect(diff.removed).toEqual([existing[2]]);
+  });
+
+  it("extends the first visit and removes the rest when visits are merged", () => {
+    const existing = [stored("t1", "08:00", "08:30"), stored("t1", "08:45", "09:10")];
+    const next = [proposed("t1", "08:00", "09:10", 40)];
+
+    const diff = diffVisits(existing, next);
+
+    expect(diff.extended).toEqual([{ before: existing[0], after: next[0] }]);
+    expect(diff.removed).toEqual([existing[1]]);
+    expect(diff.added).toEqual([]);
+  });
+
+  it("never matches visits of different tractors", () => {
+    const diff = diffVisits([stored("t1", "08:00", "09:00")], [proposed("t2", "08:00", "09:00")]);
+
+    expect(diff.added).toHaveLength(1);
+    expect(diff.removed).toHaveLength(1);
+    expect(diff.unchanged).toBe(0);
+  });
+});
+
+describe("computeBlockMetrics", () => {
+  it("counts passes and picks the visit that ended last", () => {
+    const now = Date.parse(at("20:00"));
+    const visits = [
+      stored("t1", "08:00", "09:00"),
+      stored("t2", "12:00", "12:30"),
+      { ...stored("t1", "00:00", "01:00"), started_at: "2026-01-01T00:00:00.000Z", ended_at: "2026-01-01T01:00:00.000Z" },
+    ];
+
+    expect(computeBlockMetrics(visits, now)).toEqual({
+      last_seen_at: at("12:30"),
+      last_tractor_id: "t2",
+      total_passes: 3,
+      passes_24h: 2,
+      passes_7d: 2,
+    });
+    expect(computeBlockMetrics([], now)).toEqual({
+      last_seen_at: null,
+      last_tractor_id: null,
+      total_passes: 0,
+      passes_24h: 0,
+      passes_7d: 0,
+    });
+  });
+});
+
+describe("findOverlappingVisit", () => {
+  it("matches a re-detected visit of the same tractor only", () => {
+    const existing = [stored("t1", "08:00", "09:00"), stored("t2", "10:00", "11:00")];
+
+    expect(findOverlappingVisit(existing, proposed("t1", "08:30", "09:30"))).toBe(existing[0]);
+    expect(findOverlappingVisit(existing, proposed("t1", "10:15", "10:45"))).toBeNull();
+  });
+});
@@ -0,0 +1,24 @@
+import { bench, describe } from "vitest";
+import { buildBlockIndex, detectRawVisitsByBlock } from "@shared/blockIndex";
+import { detectRawVisits } from "@shared/visitDetection";
+import { createBlockGrid, createTractorPings } from "./fixtures/farmGrid";
+
+// Defaults to the size of a large tenant: 1M pings x 500 blocks.
+// Override with BENCH_PINGS / BENCH_BLOCKS for a quicker run.
+const PING_COUNT = Number(process.env.BENCH_PINGS ?? 1_000_000);
+const BLOCK_COUNT = Number(process.env.BENCH_BLOCKS ?? 500);
+
+const blocks = createBlockGrid(BLOCK_COUNT);
+const pings = createTractorPings(blocks, PING_COUNT);
+
+describe(`raw visit detection, ${PING_COUNT} pings x ${BLOCK_COUNT} blocks`, () => {
+  bench("every ping against every block", () => {
+    for (const block of blocks) {
+      detectRawVisits(pings, block.polygons);
+    }
+  }, { iterations: 1, time: 0, warmupIterations: 0 });
+
+  bench("single pass with block index", () => {
+    detectRawVisitsByBlock(pings, buildBlockIndex(blocks));
+  }, { iterations: 1, time: 0, warmupIterations: 0 });
+});
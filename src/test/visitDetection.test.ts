@@ -0,0 +1,310 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_VISIT_THRESHOLDS,
+  detectVisitCandidates,
+  distanceToPolygonEdge,
+  getBlockPolygons,
+  getOpenCandidate,
+  isPointInPolygon,
+  resolveVisitThresholds,
+  type DetectionPing,
+  type PolygonRings,
+} from "@shared/visitDetection";
+import { classifyPingActivity, detectStops, summarizeActivity } from "@shared/pingActivity";
+
+// Synthetic ~230 m x 220 m block near Rancagua
+const WEST = -71.0;
+const EAST = -70.9975;
+const SOUTH = -34.5;
+const NORTH = -34.498;
+const CENTER: [number, number] = [(WEST + EAST) / 2, (SOUTH + NORTH) / 2];
+const OUTSIDE: [number, number] = [WEST - 0.002, SOUTH - 0.002];
+
+const METERS_PER_DEG_LAT = 111195.08;
+const metersToLat = (m: number) => m / METERS_PER_DEG_LAT;
+
+const square = (w: number, s: number, e: number, n: number) => [
+  [w, s], [e, s], [e, n], [w, n], [w, s],
+];
+
+const BLOCK: PolygonRings[] = [[square(WEST, SOUTH, EAST, NORTH)]];
+const START = Date.parse("2026-01-10T12:00:00.000Z");
+
+// Builds a trace with one ping every `intervalSec` seconds, starting after `offsetSec`
+function trace(points: [number, number][], intervalSec = 10, offsetSec = 0): DetectionPing[] {
+  return points.map(([lon, lat], i) => ({
+    ts: new Date(START + (offsetSec + i * intervalSec) * 1000).toISOString(),
+    lon,
+    lat,
+  }));
+}
+
+// `count` points around the block center, wiggling a few meters like a working tractor
+function working(count: number): [number, number][] {
+  return Array.from({ length: count }, (_, i) => [
+    CENTER[0] + ((i % 10) - 5) * 0.00005,
+    CENTER[1] + (Math.floor(i / 10) % 5) * 0.00005,
+  ]);
+}
+
+function repeat(point: [number, number], count: number): [number, number][] {
+  return Array.from({ length: count }, () => point);
+}
+
+describe("visit detection", () => {
+  it("detects a working pass as a single valid visit", () => {
+    const pings = trace([...repeat(OUTSIDE, 3), ...working(60), ...repeat(OUTSIDE, 3)]);
+
+    const candidates = detectVisitCandidates(pings, BLOCK, DEFAULT_VISIT_THRESHOLDS);
+
+    expect(candidates).toHaveLength(1);
+    expect(candidates[0].valid).toBe(true);
+    expect(candidates[0].rejection).toBeNull();
+    expect(candidates[0].pings).toHaveLength(60);
+    expect(candidates[0].started_at).toBe(pings[3].ts);
+    expect(candidates[0].ended_at).toBe(pings[62].ts);
+  });
+
+  it("rejects a perimeter transit that never gets deep into the block", () => {
+    // Access road 5 m inside the southern edge, driven west to east
+    const edgeLat = SOUTH + metersToLat(5);
+    const road: [number, number][] = Array.from({ length: 60 }, (_, i) => [
+      WEST + 0.0001 + i * 0.00004,
+      edgeLat,
+    ]);
+    const pings = trace([OUTSIDE, ...road, OUTSIDE]);
+
+    const candidates = detectVisitCandidates(pings, BLOCK, DEFAULT_VISIT_THRESHOLDS);
+
+    expect(candidates).toHaveLength(1);
+    expect(candidates[0].valid).toBe(false);
+    expect(candidates[0].rejection).toContain("depth");
+  });
+
+  it("merges a re-entry within the merge gap into the same visit", () => {
+    const first = trace(working(30));
+    // 20 minutes outside, then back in
+    const away = trace(repeat(OUTSIDE, 12), 100, 300);
+    const second = trace(working(30), 10, 300 + 1200);
+
+    const candidates = detectVisitCandidates([...first, ...away, ...second], BLOCK, DEFAULT_VISIT_THRESHOLDS);
+
+    expect(candidates).toHaveLength(1);
+    expect(candidates[0].valid).toBe(true);
+    expect(candidates[0].pings).toHaveLength(60);
+    expect(candidates[0].started_at).toBe(first[0].ts);
+    expect(candidates[0].ended_at).toBe(second[second.length - 1].ts);
+  });
+
+  it("keeps separate visits when the tractor stays away longer than the merge gap", () => {
+    const first = trace(working(30));
+    const away = trace(repeat(OUTSIDE, 27), 100, 300);
+    const second = trace(working(30), 10, 300 + 2700);
+
+    const candidates = detectVisitCandidates([...first, ...away, ...second], BLOCK, DEFAULT_VISIT_THRESHOLDS);
+
+    expect(candidates).toHaveLength(2);
+    expect(candidates.every((c) => c.valid)).toBe(true);
+    expect(candidates[1].started_at).toBe(second[0].ts);
+  });
+
+  it("closes an ongoing visit at the last ping and reports it as open", () => {
+    const pings = trace([...repeat(OUTSIDE, 3), ...working(40)]);
+    const lastPingAt = pings[pings.length - 1].ts;
+
+    const candidates = detectVisitCandidates(pings, BLOCK, DEFAULT_VISIT_THRESHOLDS);
+
+    expect(candidates).toHaveLength(1);
+    expect(candidates[0].ended_at).toBe(lastPingAt);
+    expect(getOpenCandidate(candidates, lastPingAt, DEFAULT_VISIT_THRESHOLDS.merge_gap_minutes))
+      .toBe(candidates[0]);
+
+    // Once the tractor has been seen elsewhere for longer than the gap the visit is closed
+    const muchLater = new Date(Date.parse(lastPingAt) + 31 * 60 * 1000).toISOString();
+    expect(getOpenCandidate(candidates, muchLater, DEFAULT_VISIT_THRESHOLDS.merge_gap_minutes))
+      .toBeNull();
+  });
+
+  it("rejects sparse visits unless the ping threshold is lowered", () => {
+    // One ping every 2 minutes for 20 minutes, with the speed reported by the logger
+    const pings = trace(working(11), 120).map((p) => ({ ...p, speed: 6 }));
+
+    const [strict] = detectVisitCandidates(pings, BLOCK, DEFAULT_VISIT_THRESHOLDS);
+    expect(strict.valid).toBe(false);
+    expect(strict.rejection).toContain("11 pings");
+
+    const relaxed = resolveVisitThresholds({ min_pings_for_valid_visit: 5 });
+    const [lenient] = detectVisitCandidates(pings, BLOCK, relaxed);
+    expect(lenient.valid).toBe(true);
+  });
+
+  it("rejects a tractor driving straight through at transit speed", () => {
+    // West to east across the middle of the block at ~20 km/h
+    const crossing: [number, number][] = Array.from({ length: 40 }, (_, i) => [
+      WEST - 0.0002 + i * 0.00007,
+      CENTER[1],
+    ]);
+    const pings = trace(crossing, 1);
+
+    const [candidate] = detectVisitCandidates(pings, BLOCK, DEFAULT_VISIT_THRESHOLDS);
+
+    expect(candidate.valid).toBe(false);
+    expect(candidate.rejection).toContain("while working");
+    expect(candidate.activity.working_minutes).toBe(0);
+    expect(candidate.activity.transit_minutes).toBeGreaterThan(0);
+  });
+
+  it("rejects a tractor parked inside the block", () => {
+    const pings = trace(repeat(CENTER, 60), 30);
+
+    const [candidate] = detectVisitCandidates(pings, BLOCK, DEFAULT_VISIT_THRESHOLDS);
+
+    expect(candidate.valid).toBe(false);
+    expect(candidate.activity.idle_minutes).toBeCloseTo(29.5, 5);
+  });
+
+  it("returns no candidates when no ping falls inside the block", () => {
+    const pings = trace(repeat(OUTSIDE, 20));
+
+    expect(detectVisitCandidates(pings, BLOCK, DEFAULT_VISIT_THRESHOLDS)).toEqual([]);
+  });
+});
+
+describe("block geometry", () => {
+  const hole = square(CENTER[0] - 0.0002, CENTER[1] - 0.0002, CENTER[0] + 0.0002, CENTER[1] + 0.0002);
+  const withHole: PolygonRings[] = [[square(WEST, SOUTH, EAST, NORTH), hole]];
+
+  it("excludes points inside holes", () => {
+    expect(isPointInPolygon(CENTER, withHole)).toBe(false);
+    expect(isPointInPolygon([WEST + 0.0002, SOUTH + 0.0002], withHole)).toBe(true);
+  });
+
+  it("accepts points in any part of a MultiPolygon", () => {
+    const split: PolygonRings[] = [
+      [square(WEST, SOUTH, WEST + 0.001, NORTH)],
+      [square(EAST - 0.001, SOUTH, EAST, NORTH)],
+    ];
+
+    expect(isPointInPolygon([WEST + 0.0005, CENTER[1]], split)).toBe(true);
+    expect(isPointInPolygon([EAST - 0.0005, CENTER[1]], split)).toBe(true);
+    expect(isPointInPolygon(CENTER, split)).toBe(false);
+  });
+
+  it("measures depth in meters from the nearest edge, holes included", () => {
+    const fiftyMetersIn: [number, number] = [CENTER[0], SOUTH + metersToLat(50)];
+
+    expect(distanceToPolygonEdge(fiftyMetersIn, BLOCK)).toBeCloseTo(50, 0);
+
+    // Just north of the hole the hole boundary is the closest edge
+    const nearHole: [number, number] = [CENTER[0], CENTER[1] + 0.0002 + metersToLat(3)];
+    expect(distanceToPolygonEdge(nearHole, withHole)).toBeCloseTo(3, 0);
+  });
+
+  it("normalizes Polygon and MultiPolygon features", () => {
+    const polygon = { type: "Polygon", coordinates: [square(WEST, SOUTH, EAST, NORTH)] };
+    const multi = { type: "MultiPolygon", coordinates: [[square(WEST, SOUTH, EAST, NORTH)]] };
+
+    expect(getBlockPolygons({ type: "Feature", properties: {}, geometry: polygon })).toEqual(BLOCK);
+    expect(getBlockPolygons(multi)).toEqual(BLOCK);
+    expect(getBlockPolygons({ type: "Point", coordinates: CENTER })).toBeNull();
+    expect(getBlockPolygons(null)).toBeNull();
+  });
+});
+
+describe("resolveVisitThresholds", () => {
+  it("layers block overrides over tenant defaults over built-in defaults", () => {
+    const tenant = { merge_gap_minutes: 45, min_deep_pings: 8 };
+    const block = { merge_gap_minutes: 10, min_deep_pings: null };
+
+    expect(resolveVisitThresholds(tenant, block)).toEqual({
+      ...DEFAULT_VISIT_THRESHOLDS,
+      merge_gap_minutes: 10,
+      min_deep_pings: 8,
+    });
+    expect(resolveVisitThresholds(null, undefined)).toEqual(DEFAULT_VISIT_THRESHOLDS);
+    expect(resolveVisitThresholds({ require_pto_for_work: true }, { require_pto_for_work: null }).require_pto_for_work).toBe(true);
+  });
+});
+
+describe("ping activity", () => {
+  const bands = { idle_max_speed_kmh: 1, work_max_speed_kmh: 15, turn_min_heading_change_deg: 45 };
+
+  it("classifies pings by reported speed and heading changes", () => {
+    // Northward lane, a U-turn at the headland, then southward
+    const lane = (lon: number, fromLat: number, dir: number) =>
+      Array.from({ length: 4 }, (_, i): [number, number] => [lon, fromLat + dir * i * metersToLat(15)]);
+    const points = [...lane(CENTER[0], SOUTH + 0.0002, 1), ...lane(CENTER[0] + 0.0001, SOUTH + 0.0002 + metersToLat(45), -1)];
+    const pings = trace(points).map((p) => ({ ...p, speed: 6 }));
+
+    expect(classifyPingActivity(pings, bands)).toEqual([
+      "working", "working", "working", "turning", "turning", "working", "working", "working",
+    ]);
+    expect(classifyPingActivity([{ ...pings[0], speed: 0.2 }, { ...pings[1], speed: 25 }], bands))
+      .toEqual(["idle", "transit"]);
+  });
+
+  it("lets the ignition and PTO override the speed", () => {
+    const pings = trace(repeat(CENTER, 4)).map((p) => ({ ...p, speed: 6 }));
+    pings[0] = { ...pings[0], ignition: false };
+    pings[1] = { ...pings[1], pto: false };
+    pings[2] = { ...pings[2], pto: true };
+
+    expect(classifyPingActivity(pings, bands)).toEqual(["idle", "working", "working", "working"]);
+    // Pings that don't report the PTO still go by speed
+    expect(classifyPingActivity(pings, { ...bands, require_pto_for_work: true })).toEqual([
+      "idle", "transit", "working", "working",
+    ]);
+  });
+
+  it("attributes each interval to the earlier ping and skips data gaps", () => {
+    const pings = trace(repeat(CENTER, 4), 60);
+    pings[3].ts = new Date(Date.parse(pings[2].ts) + 20 * 60 * 1000).toISOString();
+
+    expect(summarizeActivity(pings, ["working", "transit", "idle", "working"])).toEqual({
+      working_minutes: 1,
+      transit_minutes: 1,
+      idle_minutes: 0,
+    });
+  });
+});
+
+describe("stop detection", () => {
+  const stopThresholds = { stop_radius_meters: 15, stop_min_minutes: 5 };
+  const lane = (count: number, fromLat: number) =>
+    Array.from({ length: count }, (_, i): [number, number] => [CENTER[0], fromLat + i * metersToLat(10)]);
+
+  it("finds a stationary stretch inside the visit, ignoring GPS jitter", () => {
+    // Working north, 8 minutes parked with a few meters of jitter, then working on
+    const parked = Array.from({ length: 17 }, (_, i): [number, number] =>
+      [CENTER[0] + (i % 2) * 0.00003, CENTER[1] + (i % 3) * metersToLat(2)]);
+    const pings = trace([...lane(10, CENTER[1] - metersToLat(120)), ...parked, ...lane(10, CENTER[1] + metersToLat(20))], 30);
+
+    const stops = detectStops(pings, stopThresholds);
+
+    expect(stops).toHaveLength(1);
+    expect(stops[0].started_at).toBe(pings[10].ts);
+    expect(stops[0].ended_at).toBe(pings[26].ts);
+    expect(stops[0].duration_minutes).toBe(8);
+    expect(stops[0].ping_count).toBe(17);
+    expect(stops[0].lat).toBeCloseTo(CENTER[1], 4);
+  });
+
+  it("ignores short pauses and data gaps", () => {
+    const shortPause = trace([...lane(5, SOUTH + 0.0002), ...repeat(CENTER, 6)], 30);
+    expect(detectStops(shortPause, stopThresholds)).toEqual([]);
+
+    // Two pings 20 minutes apart at the same spot are missing data, not a stop
+    const gap = trace(repeat(CENTER, 2), 20 * 60);
+    expect(detectStops(gap, stopThresholds)).toEqual([]);
+  });
+
+  it("attaches stops to visit candidates", () => {
+    const parked = repeat(CENTER, 20);
+    const pings = trace([...lane(30, SOUTH + 0.0003), ...parked], 20).map((p) => ({ ...p, speed: 6 }));
+
+    const [candidate] = detectVisitCandidates(pings, BLOCK, DEFAULT_VISIT_THRESHOLDS);
+
+    expect(candidate.stops).toHaveLength(1);
+    expect(candidate.stops[0].ping_count).toBe(20);
+  });
+});
@@ -1,4 +1,7 @@
-import type { Feature, Polygon } from 'geojson';
+import type { Feature, MultiPolygon, Polygon } from 'geojson';
+import type { VisitThresholds } from '@shared/visitDetection';
+import type { CoordinateOrder, DecimalSeparator } from '@shared/csvImport';
+import type { TimestampFormat } from '@shared/timestamps';
 
 export interface Tenant {
   id: string;
@@ -15,16 +18,22 @@ export interface Tractor {
   last_lat: number | null;
   last_lon: number | null;
   last_seen_at: string | null;
+  // Archived tractors are hidden from the fleet but keep their history
+  archived_at: string | null;
   created_at: string;
 }
 
+// Blocks may be split parcels (MultiPolygon) and may contain holes for
+// internal exclusions such as wells, sheds or tree islands
+export type BlockGeometry = Polygon | MultiPolygon;
+
 export interface Block {
   id: string;
   tenant_id: string;
   name: string;
   farm_name: string | null;
   crop: string | null;
-  geometry_geojson: Feature<Polygon>;
+  geometry_geojson: Feature<BlockGeometry>;
   metadata: Record<string, unknown>;
   created_at: string;
   updated_at: string;
@@ -38,6 +47,13 @@ export interface GpsPing {
   lat: number;
   lon: number;
   speed: number | null;
+  // Tracker telemetry, null when not reported (see PingTelemetry)
+  heading?: number | null;
+  altitude?: number | null;
+  hdop?: number | null;
+  satellites?: number | null;
+  ignition?: boolean | null;
+  pto?: boolean | null;
   created_at: string;
 }
 
@@ -49,9 +65,32 @@ export interface BlockVisit {
   started_at: string;
   ended_at: string | null;
   ping_count: number;
+  // Time inside the block per ping activity; null for visits detected before
+  // activity classification until the block is reprocessed
+  working_minutes: number | null;
+  transit_minutes: number | null;
+  idle_minutes: number | null;
+  // Total time in stops; null for visits detected before stop detection
+  stopped_minutes: number | null;
+  // Implement chosen for this visit, overriding the tractor's assignment
+  implement_id: string | null;
+  // Operator on shift on the visit's tractor when it started
+  operator_id: string | null;
   created_at: string;
 }
 
+// Stationary stretch inside a visit (refuelling, breakdown, break)
+export interface VisitStop {
+  id: string;
+  visit_id: string;
+  started_at: string;
+  ended_at: string;
+  lat: number;
+  lon: number;
+  duration_minutes: number;
+  ping_count: number;
+}
+
 export interface BlockMetrics {
   id: string;
   block_id: string;
@@ -77,6 +116,181 @@ export interface Alert {
   updated_at: string;
 }
 
+// Thresholds used by visit detection to tell real work from transits
+export type VisitDetectionThresholds = VisitThresholds;
+
+// Tenant default (block_id null) or per-block override; null fields inherit
+export type VisitDetectionSettings = {
+  [K in keyof VisitDetectionThresholds]: VisitDetectionThresholds[K] | null;
+} & {
+  id: string;
+  tenant_id: string;
+  block_id: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type ImplementType = 'mower' | 'sprayer' | 'seeder' | 'tillage' | 'harvester' | 'other';
+
+export const IMPLEMENT_TYPE_LABELS: Record<ImplementType, string> = {
+  mower: 'Desbrozadora / segadora',
+  sprayer: 'Pulverizador',
+  seeder: 'Sembradora',
+  tillage: 'Rastra / arado',
+  harvester: 'Cosechadora',
+  other: 'Otro',
+};
+
+export interface Implement {
+  id: string;
+  tenant_id: string;
+  name: string;
+  type: ImplementType;
+  working_width_meters: number;
+  // Center of the implement relative to the GPS antenna, in meters behind it
+  // along the direction of travel and to its right
+  offset_back_meters: number;
+  offset_right_meters: number;
+  archived_at: string | null;
+  created_at: string;
+}
+
+// Implement hitched to a tractor; ended_at is null while it is still hitched
+export interface ImplementAssignment {
+  id: string;
+  tenant_id: string;
+  implement_id: string;
+  tractor_id: string;
+  started_at: string;
+  ended_at: string | null;
+  created_at: string;
+}
+
+export interface Operator {
+  id: string;
+  tenant_id: string;
+  name: string;
+  code: string | null;
+  archived_at: string | null;
+  created_at: string;
+}
+
+// Operator driving a tractor; ended_at is null while the shift is open
+export interface OperatorShift {
+  id: string;
+  tenant_id: string;
+  operator_id: string;
+  tractor_id: string;
+  started_at: string;
+  ended_at: string | null;
+  created_at: string;
+}
+
+// Token a GPS tracker uses to post pings for one tractor; only its hash is stored
+export interface TractorDeviceToken {
+  id: string;
+  tenant_id: string;
+  tractor_id: string;
+  name: string;
+  token_prefix: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+// uploading and processing are large files parsed on the server by process-gps-file;
+// importing is a file parsed in the browser and posted in chunks
+export type ImportBatchStatus = 'uploading' | 'processing' | 'importing' | 'completed' | 'failed' | 'rolled_back';
+
+export interface ImportBatchStats {
+  total: number;
+  inserted: number;
+  duplicates: number;
+  errors: number;
+}
+
+// One tractor's share of an imported file; its pings carry import_batch_id until rolled back
+export interface ImportBatch {
+  id: string;
+  tenant_id: string;
+  tractor_id: string;
+  created_by: string | null;
+  created_by_email: string | null;
+  file_name: string;
+  column_mapping: Record<string, string | null> | null;
+  stats: Partial<ImportBatchStats>;
+  status: ImportBatchStatus;
+  first_ping_at: string | null;
+  last_ping_at: string | null;
+  // Large files only: size in bytes and parts in storage
+  file_size: number | null;
+  parts_total: number | null;
+  parts_uploaded: number;
+  parts_processed: number;
+  error: string | null;
+  rolled_back_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Saved layout of a recurring spreadsheet source, suggested when a file has its headers
+export interface ImportMappingProfile {
+  id: string;
+  tenant_id: string;
+  name: string;
+  headers: string[];
+  header_row: number;
+  column_mapping: Record<string, string | null>;
+  coordinate_order: CoordinateOrder;
+  decimal_separator: DecimalSeparator;
+  timestamp_format: TimestampFormat;
+  timezone: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ProcessingJobStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export interface ProcessingJobResults {
+  visitsCreated: number;
+  visitsUpdated: number;
+  metricsUpdated: number;
+  pingsProcessed: number;
+  errors: string[];
+}
+
+export interface ProcessingJobBlock {
+  id: string;
+  job_id: string;
+  block_id: string;
+  status: ProcessingJobStatus;
+  visits_created: number;
+  visits_updated: number;
+  error: string | null;
+  updated_at: string;
+}
+
+// Background visit processing run, advanced one tractor at a time by the edge function
+export interface ProcessingJob {
+  id: string;
+  tenant_id: string;
+  created_by: string | null;
+  status: ProcessingJobStatus;
+  mode: 'incremental' | 'full';
+  tractor_id: string | null;
+  total_blocks: number;
+  processed_blocks: number;
+  failed_blocks: number;
+  total_tractors: number;
+  processed_tractors: number;
+  last_tractor_id: string | null;
+  results: ProcessingJobResults;
+  started_at: string | null;
+  finished_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 // Extended types with relations
 export interface BlockWithMetrics extends Block {
   metrics: BlockMetrics | null;
@@ -91,6 +305,10 @@ export interface VisitWithPath extends BlockVisit {
   pings: GpsPing[];
 }
 
+export interface ProcessingJobWithBlocks extends ProcessingJob {
+  processing_job_blocks: ProcessingJobBlock[];
+}
+
 export interface VisitCoverageStats {
   averageSpeed: number;        // km/h
   maxSpeed: number;            // km/h
@@ -98,6 +316,7 @@ export interface VisitCoverageStats {
   coveredArea: number;         // hectares
   totalDistance: number;       // meters
   missedAreas: Feature<Polygon>[];
+  workWidthMeters: number;     // implement width used for the coverage
 }
 
 // Helper type for block status calculation
@@ -154,3 +373,12 @@ export function formatTimeSinceCompact(date: string | null): string {
   if (hours < 24) return `${Math.round(hours)}h`;
   return `${Math.round(hours / 24)}d`;
 }
+
+// Visit duration minus the time spent in stops; null for open visits or
+// visits detected before stop detection
+export function getEffectiveWorkMinutes(visit: BlockVisit): number | null {
+  if (!visit.ended_at || visit.stopped_minutes === null) return null;
+
+  const duration = (new Date(visit.ended_at).getTime() - new Date(visit.started_at).getTime()) / (1000 * 60);
+  return Math.max(0, duration - visit.stopped_minutes);
+}
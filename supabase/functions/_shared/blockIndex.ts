@@ -0,0 +1,200 @@
+// Spatial index over block bounding boxes so each ping is only tested against
+// the few blocks it can fall in, instead of every block of the tenant.
+// Pure TypeScript like visitDetection.ts, shared by the edge function and tests.
+
+import {
+  isPointInPolygon,
+  type DetectionPing,
+  type PolygonRings,
+  type RawVisit,
+} from "./visitDetection.ts";
+
+export interface IndexedBlock {
+  id: string;
+  polygons: PolygonRings[];
+}
+
+interface BBox {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+interface IndexNode {
+  bbox: BBox;
+  children: IndexNode[];
+  // Set on leaf entries only
+  block: IndexedBlock | null;
+}
+
+export interface BlockIndex {
+  root: IndexNode | null;
+  size: number;
+}
+
+// Children per node of the packed R-tree
+const NODE_SIZE = 16;
+
+function getBBox(polygons: PolygonRings[]): BBox {
+  const bbox = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+  // Holes lie inside the outer ring, so only outer rings matter
+  for (const [outer] of polygons) {
+    for (const [x, y] of outer) {
+      if (x < bbox.minX) bbox.minX = x;
+      if (y < bbox.minY) bbox.minY = y;
+      if (x > bbox.maxX) bbox.maxX = x;
+      if (y > bbox.maxY) bbox.maxY = y;
+    }
+  }
+  return bbox;
+}
+
+function unionBBox(nodes: IndexNode[]): BBox {
+  const bbox = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+  for (const { bbox: b } of nodes) {
+    if (b.minX < bbox.minX) bbox.minX = b.minX;
+    if (b.minY < bbox.minY) bbox.minY = b.minY;
+    if (b.maxX > bbox.maxX) bbox.maxX = b.maxX;
+    if (b.maxY > bbox.maxY) bbox.maxY = b.maxY;
+  }
+  return bbox;
+}
+
+const centerX = (node: IndexNode) => (node.bbox.minX + node.bbox.maxX) / 2;
+const centerY = (node: IndexNode) => (node.bbox.minY + node.bbox.maxY) / 2;
+
+// Sort-Tile-Recursive packing: vertical slices by x, then runs of NODE_SIZE by y
+function packLevel(nodes: IndexNode[]): IndexNode[] {
+  const parentCount = Math.ceil(nodes.length / NODE_SIZE);
+  const sliceSize = Math.ceil(Math.sqrt(parentCount)) * NODE_SIZE;
+  const byX = [...nodes].sort((a, b) => centerX(a) - centerX(b));
+  const parents: IndexNode[] = [];
+
+  for (let i = 0; i < byX.length; i += sliceSize) {
+    const slice = byX.slice(i, i + sliceSize).sort((a, b) => centerY(a) - centerY(b));
+    for (let j = 0; j < slice.length; j += NODE_SIZE) {
+      const children = slice.slice(j, j + NODE_SIZE);
+      parents.push({ bbox: unionBBox(children), children, block: null });
+    }
+  }
+
+  return parents;
+}
+
+// Bulk-load a static R-tree over the blocks' bounding boxes
+export function buildBlockIndex(blocks: IndexedBlock[]): BlockIndex {
+  let level: IndexNode[] = blocks.map((block) => ({
+    bbox: getBBox(block.polygons),
+    children: [],
+    block,
+  }));
+
+  if (level.length === 0) {
+    return { root: null, size: 0 };
+  }
+
+  while (level.length > 1) {
+    level = packLevel(level);
+  }
+
+  return { root: level[0], size: blocks.length };
+}
+
+// Blocks whose polygon contains the point (bounding box lookup, then exact test)
+export function findBlocksAtPoint(index: BlockIndex, point: [number, number]): IndexedBlock[] {
+  const [x, y] = point;
+  const found: IndexedBlock[] = [];
+  if (!index.root) return found;
+
+  const stack: IndexNode[] = [index.root];
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    const { bbox } = node;
+    if (x < bbox.minX || x > bbox.maxX || y < bbox.minY || y > bbox.maxY) {
+      continue;
+    }
+    if (node.block) {
+      if (isPointInPolygon(point, node.block.polygons)) {
+        found.push(node.block);
+      }
+    } else {
+      stack.push(...node.children);
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Step 1 of visit detection for all blocks in a single pass over one
+ * tractor's sorted pings. Same result as running detectRawVisits per block:
+ * a raw visit is a run of consecutive pings inside the block.
+ */
+export function detectRawVisitsByBlock<P extends DetectionPing>(
+  pings: P[],
+  index: BlockIndex
+): Map<string, RawVisit<P>[]> {
+  const visitsByBlock = new Map<string, RawVisit<P>[]>();
+  // Run in progress per block, with the index of its last ping
+  const openRuns = new Map<string, { pings: P[]; lastIndex: number }>();
+
+  const closeRun = (blockId: string, run: { pings: P[] }) => {
+    let visits = visitsByBlock.get(blockId);
+    if (!visits) {
+      visits = [];
+      visitsByBlock.set(blockId, visits);
+    }
+    visits.push({
+      started_at: run.pings[0].ts,
+      ended_at: run.pings[run.pings.length - 1].ts,
+      pings: run.pings,
+    });
+  };
+
+  for (let i = 0; i < pings.length; i++) {
+    const ping = pings[i];
+    for (const block of findBlocksAtPoint(index, [ping.lon, ping.lat])) {
+      const run = openRuns.get(block.id);
+      if (run && run.lastIndex === i - 1) {
+        // Continue visit
+        run.pings.push(ping);
+        run.lastIndex = i;
+      } else {
+        // The previous run ended when a ping fell outside the block
+        if (run) closeRun(block.id, run);
+        openRuns.set(block.id, { pings: [ping], lastIndex: i });
+      }
+    }
+  }
+
+  // Handle ongoing visits (tractor still in block at end of data); a block's
+  // open run is always its latest, so each list stays chronological
+  for (const [blockId, run] of openRuns) {
+    closeRun(blockId, run);
+  }
+
+  return visitsByBlock;
+}
+
+/**
+ * Keep only the pings a time cut-off selects, e.g. those after a watermark.
+ * Valid for cut-offs only: dropping a prefix of the pings leaves every run
+ * intact except the first, which may lose its start.
+ */
+export function filterRawVisits<P extends DetectionPing>(
+  rawVisits: RawVisit<P>[],
+  keep: (ping: P) => boolean
+): RawVisit<P>[] {
+  const filtered: RawVisit<P>[] = [];
+  for (const visit of rawVisits) {
+    const pings = visit.pings.filter(keep);
+    if (pings.length === 0) continue;
+    filtered.push({
+      started_at: pings[0].ts,
+      ended_at: pings[pings.length - 1].ts,
+      pings,
+    });
+  }
+  return filtered;
+}
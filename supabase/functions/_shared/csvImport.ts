@@ -0,0 +1,201 @@
+// Reading of delimited text files (CSV, TXT exports of trackers) row by row,
+// so large files can be parsed as a stream by process-gps-file. The dialog
+// uses the same functions for the preview of those files, so both read the
+// header and the columns alike. Pure TypeScript.
+
+import { parseOnOff, type IngestPing } from "./pingIngest.ts";
+import { DEFAULT_TIMESTAMP_OPTIONS, parseTimestamp, type TimestampOptions } from "./timestamps.ts";
+
+export type CsvDelimiter = "," | ";" | "\t";
+export type CoordinateOrder = "lat_lon" | "lon_lat";
+export type DecimalSeparator = "." | ",";
+
+// Spreadsheet column used for each ping field, by header name
+export interface CsvColumnMapping {
+  timestamp: string | null;
+  // Latitude and longitude in one column, as "lat,lon", "lat;lon" or "lat lon"
+  coordinates: string | null;
+  latitude: string | null;
+  longitude: string | null;
+  speed: string | null;
+  // Telemetry of trackers that report it (see PingTelemetry); missing on
+  // mappings saved before it could be imported
+  heading?: string | null;
+  altitude?: string | null;
+  hdop?: string | null;
+  satellites?: string | null;
+  ignition?: string | null;
+  pto?: string | null;
+}
+
+// How dates and numbers are written in the file
+export interface CsvValueFormat extends TimestampOptions {
+  // Order of the values in the combined coordinates column
+  coordinate_order: CoordinateOrder;
+  decimal_separator: DecimalSeparator;
+}
+
+export const DEFAULT_VALUE_FORMAT: CsvValueFormat = {
+  ...DEFAULT_TIMESTAMP_OPTIONS,
+  coordinate_order: "lat_lon",
+  decimal_separator: ".",
+};
+
+// How process-gps-file reads the parts of an uploaded file
+export interface CsvParseOptions {
+  delimiter: CsvDelimiter;
+  // Index of the header among the non-empty lines of the file
+  header_row: number;
+  // Fields of the header line
+  columns: string[];
+  // Missing or partial on batches uploaded before these could be chosen
+  value_format?: Partial<CsvValueFormat>;
+}
+
+const DELIMITERS: CsvDelimiter[] = [",", ";", "\t"];
+
+// Storage bucket of large files, uploaded by the import dialog in parts that
+// each end at a line break, under <tenant_id>/<import_batch_id>/
+export const GPS_IMPORTS_BUCKET = "gps-imports";
+
+export function importPartPath(tenantId: string, batchId: string, part: number) {
+  return `${tenantId}/${batchId}/${String(part).padStart(5, "0")}.csv`;
+}
+
+// Fields of a line, honouring double quotes ("" is an escaped quote)
+export function splitCsvLine(line: string, delimiter: CsvDelimiter): string[] {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field.trim() === "") {
+      field = "";
+      quoted = true;
+    } else if (char === delimiter) {
+      fields.push(field.trim());
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+}
+
+// The delimiter splitting the header line into the most columns
+export function detectDelimiter(headerLine: string): CsvDelimiter {
+  let best: CsvDelimiter = ",";
+  let bestCount = 1;
+  for (const delimiter of DELIMITERS) {
+    const count = splitCsvLine(headerLine, delimiter).length;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * Splits text arriving in chunks into lines. Lines end with \n or \r\n; the
+ * last one is returned by flush() when it has no line break.
+ */
+export function createLineSplitter() {
+  let rest = "";
+
+  return {
+    push(text: string): string[] {
+      const lines = (rest + text).split("\n");
+      rest = lines.pop() ?? "";
+      return lines.map((line) => line.replace(/\r$/, ""));
+    },
+    flush(): string[] {
+      const last = rest.replace(/\r$/, "");
+      rest = "";
+      return last ? [last] : [];
+    },
+  };
+}
+
+const parseNumber = (value: string | undefined, decimalSeparator: DecimalSeparator) => {
+  if (value === undefined || value.trim() === "") return NaN;
+  const number = decimalSeparator === "," ? value.trim().replace(",", ".") : value.trim();
+  return Number(number);
+};
+
+/**
+ * Latitude and longitude of a combined coordinates value. The two numbers
+ * are separated by a semicolon, whitespace or, with a decimal point, a comma.
+ */
+export function parseCoordinates(value: string, format: Pick<CsvValueFormat, "coordinate_order" | "decimal_separator">): [number, number] | null {
+  const separator = format.decimal_separator === "," ? /\s*;\s*|\s+/ : /\s*[;,]\s*|\s+/;
+  const parts = value.trim().split(separator).map((part) => parseNumber(part, format.decimal_separator));
+  if (parts.length !== 2 || parts.some(isNaN)) return null;
+  return format.coordinate_order === "lon_lat" ? [parts[1], parts[0]] : [parts[0], parts[1]];
+}
+
+/**
+ * Ping of a data row, or why it can't be read. Timestamps are read in the
+ * format and time zone of the file; settings missing from batches saved
+ * before they existed take their defaults.
+ */
+export function csvRowToPing(
+  fields: string[],
+  columns: string[],
+  mapping: CsvColumnMapping,
+  valueFormat: Partial<CsvValueFormat> = DEFAULT_VALUE_FORMAT
+): { ping: IngestPing } | { reason: string } {
+  const format = { ...DEFAULT_VALUE_FORMAT, ...valueFormat };
+  const value = (column: string | null | undefined) => (column ? fields[columns.indexOf(column)] : undefined);
+
+  const rawTs = value(mapping.timestamp);
+  const ts = rawTs ? parseTimestamp(rawTs, format) : null;
+  if (!ts) {
+    return { reason: "Timestamp inválido o faltante" };
+  }
+
+  let lat = NaN;
+  let lon = NaN;
+  if (mapping.coordinates) {
+    [lat, lon] = parseCoordinates(value(mapping.coordinates) ?? "", format) ?? [NaN, NaN];
+  } else {
+    lat = parseNumber(value(mapping.latitude), format.decimal_separator);
+    lon = parseNumber(value(mapping.longitude), format.decimal_separator);
+  }
+  if (isNaN(lat) || isNaN(lon)) {
+    return { reason: "Coordenadas inválidas o faltantes" };
+  }
+
+  // Optional values that can't be read are left out, not errors
+  const optionalNumber = (column: string | null | undefined) => {
+    const number = parseNumber(value(column), format.decimal_separator);
+    return isNaN(number) ? undefined : number;
+  };
+  const onOff = (column: string | null | undefined) => parseOnOff(value(column));
+
+  return {
+    ping: {
+      ts,
+      lat,
+      lon,
+      speed: optionalNumber(mapping.speed),
+      heading: optionalNumber(mapping.heading),
+      altitude: optionalNumber(mapping.altitude),
+      hdop: optionalNumber(mapping.hdop),
+      satellites: optionalNumber(mapping.satellites),
+      ignition: onOff(mapping.ignition),
+      pto: onOff(mapping.pto),
+    },
+  };
+}
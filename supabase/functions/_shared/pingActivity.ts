@@ -0,0 +1,199 @@
+// Classification of a tractor's pings into what it was doing: working,
+// turning at a headland, driving in transit, or standing idle. Pure
+// TypeScript, shared by visit detection (edge function) and the frontend.
+
+export type PingActivity = "working" | "turning" | "transit" | "idle";
+
+export interface ActivityPing {
+  ts: string;
+  lat: number;
+  lon: number;
+  // Reported ground speed in km/h, derived from positions when missing
+  speed?: number | null;
+  // Reported by some trackers; null or missing when not
+  ignition?: boolean | null;
+  pto?: boolean | null;
+}
+
+// Speed bands separating idle, working and transit, plus the heading change
+// that marks a turn. Configured per tenant/block alongside the visit thresholds.
+export interface SpeedBands {
+  idle_max_speed_kmh: number;
+  work_max_speed_kmh: number;
+  turn_min_heading_change_deg: number;
+}
+
+// What the tracker reports that tells work apart, on top of the speed bands.
+// A ping with the ignition off is always idle.
+export interface WorkSignals {
+  // Pings with the PTO disengaged are not work whatever their speed; pings
+  // that don't report the PTO go by speed alone
+  require_pto_for_work: boolean;
+}
+
+export interface ActivityMinutes {
+  // Turning is part of the work (headland turns), so it counts as working time
+  working_minutes: number;
+  transit_minutes: number;
+  idle_minutes: number;
+}
+
+export type OperationType = "general" | "spraying" | "mowing" | "tillage" | "harvest";
+
+// Typical working speeds per operation, offered as presets in the settings
+export const OPERATION_SPEED_BANDS: Record<
+  OperationType,
+  { label: string } & Pick<SpeedBands, "idle_max_speed_kmh" | "work_max_speed_kmh">
+> = {
+  general: { label: "General", idle_max_speed_kmh: 1, work_max_speed_kmh: 15 },
+  spraying: { label: "Pulverización", idle_max_speed_kmh: 1, work_max_speed_kmh: 12 },
+  mowing: { label: "Desbrozado / segado", idle_max_speed_kmh: 1, work_max_speed_kmh: 10 },
+  tillage: { label: "Rastraje / labranza", idle_max_speed_kmh: 1, work_max_speed_kmh: 12 },
+  harvest: { label: "Cosecha", idle_max_speed_kmh: 0.5, work_max_speed_kmh: 8 },
+};
+
+// Longer gaps between pings are missing data, not time spent on an activity
+export const MAX_ACTIVITY_INTERVAL_MINUTES = 5;
+
+// Below this displacement the heading of a segment is just GPS noise
+const MIN_HEADING_DISTANCE_METERS = 1;
+
+const EARTH_RADIUS_METERS = 6371008.8;
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+
+export function distanceMeters(a: ActivityPing, b: ActivityPing): number {
+  const dLat = toRad(b.lat - a.lat);
+  const dLon = toRad(b.lon - a.lon);
+  const h = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+function bearingDeg(a: ActivityPing, b: ActivityPing): number {
+  const y = Math.sin(toRad(b.lon - a.lon)) * Math.cos(toRad(b.lat));
+  const x = Math.cos(toRad(a.lat)) * Math.sin(toRad(b.lat))
+    - Math.sin(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.cos(toRad(b.lon - a.lon));
+  return (Math.atan2(y, x) * 180) / Math.PI;
+}
+
+export function segmentSpeedKmh(a: ActivityPing, b: ActivityPing): number {
+  const hours = (new Date(b.ts).getTime() - new Date(a.ts).getTime()) / (1000 * 60 * 60);
+  return hours > 0 ? distanceMeters(a, b) / 1000 / hours : 0;
+}
+
+/**
+ * Classify each ping of a sorted trace. Speed bands decide idle / working /
+ * transit; a working ping where the direction of travel changes by at least
+ * the turn threshold is a turn. Work signals the tracker reports override
+ * the speed: see WorkSignals.
+ */
+export function classifyPingActivity(pings: ActivityPing[], bands: SpeedBands & Partial<WorkSignals>): PingActivity[] {
+  return pings.map((ping, i) => {
+    const prev = pings[i - 1];
+    const next = pings[i + 1];
+
+    if (ping.ignition === false) return "idle";
+
+    let speed = ping.speed;
+    if (speed === null || speed === undefined) {
+      speed = prev ? segmentSpeedKmh(prev, ping) : next ? segmentSpeedKmh(ping, next) : 0;
+    }
+
+    if (speed <= bands.idle_max_speed_kmh) return "idle";
+    if (speed > bands.work_max_speed_kmh) return "transit";
+    if (bands.require_pto_for_work && ping.pto === false) return "transit";
+
+    if (prev && next
+      && distanceMeters(prev, ping) >= MIN_HEADING_DISTANCE_METERS
+      && distanceMeters(ping, next) >= MIN_HEADING_DISTANCE_METERS) {
+      const change = Math.abs(bearingDeg(prev, ping) - bearingDeg(ping, next)) % 360;
+      if (Math.min(change, 360 - change) >= bands.turn_min_heading_change_deg) {
+        return "turning";
+      }
+    }
+
+    return "working";
+  });
+}
+
+export function isWorkingActivity(activity: PingActivity): boolean {
+  return activity === "working" || activity === "turning";
+}
+
+// Minutes per activity; each interval between pings counts for the earlier ping
+export function summarizeActivity(pings: ActivityPing[], activities: PingActivity[]): ActivityMinutes {
+  const summary: ActivityMinutes = { working_minutes: 0, transit_minutes: 0, idle_minutes: 0 };
+
+  for (let i = 0; i < pings.length - 1; i++) {
+    const minutes = (new Date(pings[i + 1].ts).getTime() - new Date(pings[i].ts).getTime()) / (1000 * 60);
+    if (minutes <= 0 || minutes > MAX_ACTIVITY_INTERVAL_MINUTES) continue;
+
+    const activity = activities[i];
+    if (isWorkingActivity(activity)) {
+      summary.working_minutes += minutes;
+    } else if (activity === "transit") {
+      summary.transit_minutes += minutes;
+    } else {
+      summary.idle_minutes += minutes;
+    }
+  }
+
+  return summary;
+}
+
+// A tractor stopped inside a visit: consecutive pings within `stop_radius_meters`
+// of the first one for at least `stop_min_minutes` (refuelling, breakdowns, breaks)
+export interface StopThresholds {
+  stop_radius_meters: number;
+  stop_min_minutes: number;
+}
+
+export interface StopSegment {
+  started_at: string;
+  ended_at: string;
+  // Centroid of the stopped pings
+  lat: number;
+  lon: number;
+  duration_minutes: number;
+  ping_count: number;
+}
+
+/**
+ * Find the stops in a sorted trace. Each stop starts at a ping and takes every
+ * following ping that stays within the radius of it; a gap longer than
+ * MAX_ACTIVITY_INTERVAL_MINUTES ends the stop, since missing data is not a stop.
+ */
+export function detectStops(pings: ActivityPing[], thresholds: StopThresholds): StopSegment[] {
+  const stops: StopSegment[] = [];
+  const toMs = (ts: string) => new Date(ts).getTime();
+  let i = 0;
+
+  while (i < pings.length) {
+    let j = i + 1;
+    while (
+      j < pings.length
+      && (toMs(pings[j].ts) - toMs(pings[j - 1].ts)) / (1000 * 60) <= MAX_ACTIVITY_INTERVAL_MINUTES
+      && distanceMeters(pings[i], pings[j]) <= thresholds.stop_radius_meters
+    ) {
+      j++;
+    }
+
+    const durationMinutes = (toMs(pings[j - 1].ts) - toMs(pings[i].ts)) / (1000 * 60);
+    if (durationMinutes >= thresholds.stop_min_minutes) {
+      const stopped = pings.slice(i, j);
+      stops.push({
+        started_at: pings[i].ts,
+        ended_at: pings[j - 1].ts,
+        lat: stopped.reduce((sum, p) => sum + p.lat, 0) / stopped.length,
+        lon: stopped.reduce((sum, p) => sum + p.lon, 0) / stopped.length,
+        duration_minutes: durationMinutes,
+        ping_count: stopped.length,
+      });
+      i = j;
+    } else {
+      i++;
+    }
+  }
+
+  return stops;
+}
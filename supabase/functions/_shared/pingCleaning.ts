@@ -0,0 +1,139 @@
+// Cleaning of imported traces before they are stored: zero coordinates,
+// fixes the receiver itself rates as poor, teleport spikes and, optionally,
+// multipath jitter. Pure TypeScript, shared by import-gps-data and the frontend.
+
+import { segmentSpeedKmh } from "./pingActivity.ts";
+
+export type PingQualityFlag = "zero" | "hdop" | "accuracy" | "speed";
+
+export const PING_QUALITY_LABELS: Record<PingQualityFlag, string> = {
+  zero: "Coordenadas 0/0",
+  hdop: "HDOP sobre el máximo",
+  accuracy: "Precisión sobre el máximo",
+  speed: "Saltos a velocidad imposible",
+};
+
+export interface PingCleaningOptions {
+  enabled: boolean;
+  // Drop bad pings, or store them flagged so detection and distances skip them
+  mode: "drop" | "flag";
+  // A ping reached and left above this speed is a spike, km/h
+  max_speed_kmh: number;
+  // Only applied to pings that report HDOP / horizontal accuracy (meters)
+  max_hdop: number | null;
+  max_accuracy_m: number | null;
+  reject_zero: boolean;
+  // Replace each clean position with the median of it and its neighbours
+  smoothing: boolean;
+}
+
+export const DEFAULT_PING_CLEANING: PingCleaningOptions = {
+  enabled: true,
+  mode: "drop",
+  max_speed_kmh: 60,
+  max_hdop: 5,
+  max_accuracy_m: 50,
+  reject_zero: true,
+  smoothing: false,
+};
+
+export interface CleanablePing {
+  ts: string;
+  lat: number;
+  lon: number;
+  hdop?: number | null;
+  accuracy?: number | null;
+}
+
+// Neighbours further apart than this don't smooth each other
+const SMOOTHING_MAX_GAP_MS = 60 * 1000;
+
+const median3 = (a: number, b: number, c: number) => Math.max(Math.min(a, b), Math.min(Math.max(a, b), c));
+
+// A ping reached from `before` and left to `next` both above max_speed_kmh
+export function isSpeedSpike(
+  before: CleanablePing,
+  ping: CleanablePing,
+  next: CleanablePing,
+  options: PingCleaningOptions
+): boolean {
+  return segmentSpeedKmh(before, ping) > options.max_speed_kmh && segmentSpeedKmh(ping, next) > options.max_speed_kmh;
+}
+
+/**
+ * Flag the bad pings of a trace, sorted by time. `previous` is the last clean
+ * ping stored before the trace, so spikes at its start are still caught.
+ * A ping is a spike when it is reached from the previous clean ping and left
+ * to the next one both above max_speed_kmh; a single fast segment is a real
+ * move after a gap in the data and is kept. Without a previous ping, the first
+ * one is a spike when it is too far from the next two, which agree. The last
+ * ping can't be judged until the pings after it arrive (see importPings). Flagged
+ * pings are returned too, with the reason, so callers can drop or store them.
+ */
+export function cleanPings<T extends CleanablePing>(
+  pings: T[],
+  options: PingCleaningOptions,
+  previous: CleanablePing | null = null
+): { pings: (T & { quality_flag: PingQualityFlag | null })[]; counts: Partial<Record<PingQualityFlag, number>> } {
+  const sorted = [...pings].sort((a, b) => new Date(a.ts).getTime() - new Date(b.ts).getTime());
+  const flags: (PingQualityFlag | null)[] = sorted.map(() => null);
+
+  if (!options.enabled) {
+    return { pings: sorted.map((ping) => ({ ...ping, quality_flag: null })), counts: {} };
+  }
+
+  sorted.forEach((ping, i) => {
+    if (options.reject_zero && Math.abs(ping.lat) < 1e-6 && Math.abs(ping.lon) < 1e-6) {
+      flags[i] = "zero";
+    } else if (options.max_hdop !== null && typeof ping.hdop === "number" && ping.hdop > options.max_hdop) {
+      flags[i] = "hdop";
+    } else if (options.max_accuracy_m !== null && typeof ping.accuracy === "number" && ping.accuracy > options.max_accuracy_m) {
+      flags[i] = "accuracy";
+    }
+  });
+
+  const nextClean = (i: number) => {
+    for (let k = i + 1; k < sorted.length; k++) {
+      if (!flags[k]) return k;
+    }
+    return null;
+  };
+  const tooFast = (a: CleanablePing, b: CleanablePing) => segmentSpeedKmh(a, b) > options.max_speed_kmh;
+
+  let last: CleanablePing | null = previous;
+  sorted.forEach((ping, i) => {
+    if (flags[i]) return;
+    const j = nextClean(i);
+    const next = j === null ? null : sorted[j];
+
+    const spike = last
+      // The last ping has no next one yet; importPings checks it with the next chunk
+      ? next !== null && isSpeedSpike(last, ping, next, options)
+      // Nothing before it: a spike if the next two pings agree with each other but not with it
+      : next !== null && tooFast(ping, next) && nextClean(j!) !== null && !tooFast(next, sorted[nextClean(j!)!]);
+    if (spike) {
+      flags[i] = "speed";
+      return;
+    }
+    last = ping;
+  });
+
+  const result = sorted.map((ping, i) => ({ ...ping, quality_flag: flags[i] }));
+
+  if (options.smoothing) {
+    const clean = result.filter((ping) => !ping.quality_flag);
+    const original = clean.map((ping) => ({ ts: new Date(ping.ts).getTime(), lat: ping.lat, lon: ping.lon }));
+    for (let k = 1; k < clean.length - 1; k++) {
+      const [a, b, c] = [original[k - 1], original[k], original[k + 1]];
+      if (b.ts - a.ts > SMOOTHING_MAX_GAP_MS || c.ts - b.ts > SMOOTHING_MAX_GAP_MS) continue;
+      clean[k].lat = median3(a.lat, b.lat, c.lat);
+      clean[k].lon = median3(a.lon, b.lon, c.lon);
+    }
+  }
+
+  const counts: Partial<Record<PingQualityFlag, number>> = {};
+  for (const flag of flags) {
+    if (flag) counts[flag] = (counts[flag] ?? 0) + 1;
+  }
+  return { pings: result, counts };
+}
@@ -0,0 +1,178 @@
+// Validation, cleaning and storage of imported pings for one tractor, shared
+// by import-gps-data (chunks posted by the browser) and process-gps-file
+// (large files parsed on the server). Storage goes through PingImportStore so
+// this stays pure TypeScript, like the rest of _shared.
+
+import {
+  cleanPings,
+  isSpeedSpike,
+  PING_QUALITY_LABELS,
+  type CleanablePing,
+  type PingCleaningOptions,
+  type PingQualityFlag,
+} from "./pingCleaning.ts";
+import { pingTelemetryRow, validatePing, type IngestPing, type PingTelemetryRow } from "./pingIngest.ts";
+
+export interface ImportStats {
+  total: number;
+  inserted: number;
+  duplicates: number;
+  errors: number;
+  errorDetails: { row: number; reason: string }[];
+  // Pings dropped (counted in errors) or flagged by the cleaning, per reason
+  cleaned: Partial<Record<PingQualityFlag, number>>;
+}
+
+export interface ImportPingRow extends PingTelemetryRow {
+  ts: string;
+  lat: number;
+  lon: number;
+  speed: number | null;
+  work_state: boolean | null;
+  quality_flag: PingQualityFlag | null;
+}
+
+export interface StoredImportPing {
+  ts: string;
+  lat: number;
+  lon: number;
+  quality_flag: string | null;
+}
+
+export interface PingImportStore {
+  // Last clean ping of the tractor before ts, to clean across chunks
+  findPreviousPing(beforeTs: string): Promise<CleanablePing | null>;
+  // A stored ping found to be a spike once the pings after it arrived: flagged,
+  // or deleted when the cleaning drops bad pings
+  flagStoredPing(ts: string, flag: PingQualityFlag): Promise<void>;
+  deleteStoredPing(ts: string): Promise<void>;
+  // Rows already stored for the tractor at the same ts are skipped; resolves
+  // to the rows actually inserted and throws when the insert fails
+  insertPings(rows: ImportPingRow[]): Promise<StoredImportPing[]>;
+}
+
+// Error details kept per call; the rest are only counted
+const MAX_ERROR_DETAILS = 50;
+const INSERT_BATCH_SIZE = 500;
+
+export function emptyImportStats(total = 0): ImportStats {
+  return { total, inserted: 0, duplicates: 0, errors: 0, errorDetails: [], cleaned: {} };
+}
+
+/**
+ * Validate, clean and insert pings in batches. Row numbers in errorDetails
+ * are 1-based positions in `pings`; row 0 entries summarize the cleaning.
+ * Also returns the latest clean ping inserted, for the tractor's position.
+ */
+export async function importPings(
+  pings: IngestPing[],
+  store: PingImportStore,
+  cleaning: PingCleaningOptions
+): Promise<{ stats: ImportStats; latestPing: StoredImportPing | null }> {
+  const stats = emptyImportStats(pings.length);
+
+  const validPings: (Omit<ImportPingRow, "quality_flag"> & { accuracy: number | null })[] = [];
+  pings.forEach((ping, i) => {
+    const validation = validatePing(ping, i);
+    if (!validation.valid) {
+      stats.errors++;
+      if (stats.errorDetails.length < MAX_ERROR_DETAILS) {
+        stats.errorDetails.push({ row: i + 1, reason: validation.reason! });
+      }
+      return;
+    }
+
+    validPings.push({
+      ts: validation.ts!,
+      lat: ping.lat,
+      lon: ping.lon,
+      speed: typeof ping.speed === "number" ? ping.speed : null,
+      work_state: typeof ping.work_state === "boolean" ? ping.work_state : null,
+      ...pingTelemetryRow(ping),
+      accuracy: typeof ping.accuracy === "number" ? ping.accuracy : null,
+    });
+  });
+
+  // Clean the trace, continuing from the last clean ping stored before it so
+  // spikes at the start of a chunk are caught too
+  const firstTs = validPings.reduce<string | null>((first, p) => (!first || p.ts < first ? p.ts : first), null);
+  const previousPing = firstTs ? await store.findPreviousPing(firstTs) : null;
+
+  let cleaned = cleanPings(validPings, cleaning, previousPing);
+
+  // The previous ping ended its own chunk, where no ping after it was known
+  // yet. If it turns out to be a spike, it is discarded and the chunk is
+  // cleaned again from the clean ping before it.
+  const firstClean = cleaned.pings.find((ping) => !ping.quality_flag);
+  const beforePrevious = cleaning.enabled && previousPing && firstClean
+    ? await store.findPreviousPing(previousPing.ts)
+    : null;
+  if (beforePrevious && isSpeedSpike(beforePrevious, previousPing!, firstClean!, cleaning)) {
+    try {
+      if (cleaning.mode === "flag") {
+        await store.flagStoredPing(previousPing!.ts, "speed");
+      } else {
+        await store.deleteStoredPing(previousPing!.ts);
+      }
+      cleaned = cleanPings(validPings, cleaning, beforePrevious);
+      cleaned.counts.speed = (cleaned.counts.speed ?? 0) + 1;
+    } catch (error) {
+      console.error("Error discarding previous ping:", error);
+    }
+  }
+
+  stats.cleaned = cleaned.counts;
+  for (const [flag, count] of Object.entries(cleaned.counts) as [PingQualityFlag, number][]) {
+    stats.errorDetails.push({
+      row: 0,
+      reason: `Limpieza: ${PING_QUALITY_LABELS[flag]}: ${count} ${cleaning.mode === "flag" ? "marcados" : "descartados"}`,
+    });
+  }
+
+  const pingsToStore = cleaning.mode === "flag"
+    ? cleaned.pings
+    : cleaned.pings.filter((ping) => !ping.quality_flag);
+  stats.errors += cleaned.pings.length - pingsToStore.length;
+
+  // Pings already stored for the tractor, or repeated within the chunk, are
+  // skipped by the (tractor_id, ts) constraint and counted as duplicates
+  let latestPing: StoredImportPing | null = null;
+  for (let i = 0; i < pingsToStore.length; i += INSERT_BATCH_SIZE) {
+    const batch = pingsToStore.slice(i, i + INSERT_BATCH_SIZE).map((ping) => ({
+      ts: ping.ts,
+      lat: ping.lat,
+      lon: ping.lon,
+      speed: ping.speed,
+      work_state: ping.work_state,
+      heading: ping.heading,
+      altitude: ping.altitude,
+      hdop: ping.hdop,
+      satellites: ping.satellites,
+      ignition: ping.ignition,
+      pto: ping.pto,
+      quality_flag: ping.quality_flag,
+    }));
+
+    let inserted: StoredImportPing[];
+    try {
+      inserted = await store.insertPings(batch);
+    } catch (error) {
+      console.error("Insert error:", error);
+      stats.errors += batch.length;
+      stats.errorDetails.push({
+        row: i,
+        reason: `Error de inserción: ${error instanceof Error ? error.message : String(error)}`,
+      });
+      continue;
+    }
+
+    stats.inserted += inserted.length;
+    stats.duplicates += batch.length - inserted.length;
+    for (const ping of inserted) {
+      if (ping.quality_flag) continue;
+      if (!latestPing || new Date(ping.ts) > new Date(latestPing.ts)) latestPing = ping;
+    }
+  }
+
+  return { stats, latestPing };
+}
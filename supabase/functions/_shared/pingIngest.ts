@@ -0,0 +1,211 @@
+// Ping validation shared by the ingestion endpoints, plus what trackers need
+// to post on their own: device tokens and the JSON/CSV bodies they send.
+// Pure TypeScript, shared by the edge functions and the frontend.
+
+import { parseTimestamp } from "./timestamps.ts";
+
+// What trackers report besides the position, when they do
+export interface PingTelemetry {
+  // Course over ground, degrees clockwise from north
+  heading?: number;
+  // Meters above sea level
+  altitude?: number;
+  // Fix quality, also used by the import cleaning
+  hdop?: number;
+  satellites?: number;
+  ignition?: boolean;
+  // Power take-off engaged
+  pto?: boolean;
+}
+
+export interface IngestPing extends PingTelemetry {
+  ts: string;
+  lat: number;
+  lon: number;
+  // km/h
+  speed?: number;
+  work_state?: boolean;
+  // Horizontal accuracy, meters
+  accuracy?: number;
+}
+
+// Telemetry columns of gps_pings, NULL when not reported
+export interface PingTelemetryRow {
+  heading: number | null;
+  altitude: number | null;
+  hdop: number | null;
+  satellites: number | null;
+  ignition: boolean | null;
+  pto: boolean | null;
+}
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+/**
+ * Telemetry of a valid ping as stored. Values out of range are dropped rather
+ * than rejecting the ping: the position is still good without them.
+ */
+export function pingTelemetryRow(ping: PingTelemetry | Partial<PingTelemetryRow>): PingTelemetryRow {
+  const { heading, altitude, hdop, satellites, ignition, pto } = ping;
+  return {
+    heading: isFiniteNumber(heading) && heading >= 0 && heading <= 360 ? heading : null,
+    altitude: isFiniteNumber(altitude) ? altitude : null,
+    hdop: isFiniteNumber(hdop) && hdop >= 0 ? hdop : null,
+    satellites: isFiniteNumber(satellites) && Number.isInteger(satellites) && satellites >= 0 ? satellites : null,
+    ignition: typeof ignition === "boolean" ? ignition : null,
+    pto: typeof pto === "boolean" ? pto : null,
+  };
+}
+
+// On/off values as trackers and spreadsheets write them; undefined when unreadable
+export function parseOnOff(value: unknown): boolean | undefined {
+  if (typeof value === "boolean") return value;
+  if (typeof value === "number") return value === 1 ? true : value === 0 ? false : undefined;
+  if (typeof value !== "string") return undefined;
+  const text = value.normalize("NFD").replace(/[\u0300-\u036f]/g, "").trim().toLowerCase();
+  if (["1", "true", "on", "yes", "si", "encendido", "activo"].includes(text)) return true;
+  if (["0", "false", "off", "no", "apagado", "inactivo"].includes(text)) return false;
+  return undefined;
+}
+
+export const MAX_PINGS_PER_REQUEST = 10000;
+
+// ts is the ping's timestamp in UTC when valid: values without an offset are
+// read as UTC, the same in the browser and in Deno
+export function validatePing(ping: IngestPing, index: number): { valid: boolean; reason?: string; ts?: string } {
+  // Missing or non-numeric values arrive as NaN, which no range check catches
+  if (!Number.isFinite(ping.lat) || !Number.isFinite(ping.lon)) {
+    return { valid: false, reason: `Fila ${index + 1}: Coordenadas inválidas o faltantes` };
+  }
+
+  // Validate latitude
+  if (ping.lat < -90 || ping.lat > 90) {
+    return { valid: false, reason: `Fila ${index + 1}: Latitud inválida (${ping.lat})` };
+  }
+
+  // Validate longitude
+  if (ping.lon < -180 || ping.lon > 180) {
+    return { valid: false, reason: `Fila ${index + 1}: Longitud inválida (${ping.lon})` };
+  }
+
+  // Validate timestamp
+  const ts = typeof ping.ts === "string" ? parseTimestamp(ping.ts) : null;
+  if (!ts) {
+    return { valid: false, reason: `Fila ${index + 1}: Timestamp inválido (${ping.ts})` };
+  }
+  const tsDate = new Date(ts);
+
+  // Check if timestamp is not in the future (with 1 hour tolerance)
+  const now = new Date();
+  now.setHours(now.getHours() + 1);
+  if (tsDate > now) {
+    return { valid: false, reason: `Fila ${index + 1}: Timestamp futuro (${ping.ts})` };
+  }
+
+  return { valid: true, ts };
+}
+
+// Device tokens: "trk_" plus 40 hex characters. Only their SHA-256 is stored.
+export const DEVICE_TOKEN_PREFIX = "trk_";
+export const DEVICE_TOKEN_DISPLAY_LENGTH = DEVICE_TOKEN_PREFIX.length + 6;
+
+export function generateDeviceToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(20));
+  return DEVICE_TOKEN_PREFIX + Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+export async function hashDeviceToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+export interface IngestBody {
+  // Sender's id for the batch, echoed in the acknowledgement
+  batchId: string | null;
+  pings: IngestPing[];
+  // Row of each ping in the body, 1-based: its line in a CSV body, its
+  // position in a JSON one. Errors about a ping must report this row.
+  rows: number[];
+  // Lines of a CSV body that are not pings, 1-based
+  errors: { row: number; reason: string }[];
+}
+
+// ISO 8601 as is; numbers are Unix epoch seconds, or milliseconds when that large
+export function normalizeTimestamp(value: unknown): string {
+  const epoch = typeof value === "number" ? value : typeof value === "string" && /^\d+(\.\d+)?$/.test(value.trim()) ? Number(value) : null;
+  if (epoch === null) return String(value ?? "");
+  const date = new Date(epoch > 1e11 ? epoch : epoch * 1000);
+  return isNaN(date.getTime()) ? String(value) : date.toISOString();
+}
+
+function toPing(item: Record<string, unknown>): IngestPing {
+  const optionalNumber = (value: unknown) => (value === undefined || value === null || value === "" ? undefined : Number(value));
+  return {
+    ts: normalizeTimestamp(item.ts),
+    lat: Number(item.lat),
+    lon: Number(item.lon),
+    speed: optionalNumber(item.speed),
+    heading: optionalNumber(item.heading),
+    altitude: optionalNumber(item.altitude),
+    hdop: optionalNumber(item.hdop),
+    satellites: optionalNumber(item.satellites),
+    ignition: parseOnOff(item.ignition),
+    pto: parseOnOff(item.pto),
+  };
+}
+
+/**
+ * Pings of a tracker request. JSON bodies are `{ batch_id?, pings: [...] }`
+ * or a bare array of `{ ts, lat, lon, speed?, heading?, altitude?, hdop?,
+ * satellites?, ignition?, pto? }`. CSV bodies have one
+ * `ts,lat,lon[,speed]` line per ping; a header line and `#` comments are
+ * skipped. Timestamps are ISO 8601 or Unix epoch seconds. Values are checked
+ * later by validatePing; this only throws on bodies that cannot be read.
+ */
+export function parseIngestBody(text: string, contentType: string | null): IngestBody {
+  const trimmed = text.trim();
+  const isJson = contentType?.includes("json") || trimmed.startsWith("{") || trimmed.startsWith("[");
+
+  if (isJson) {
+    let body: unknown;
+    try {
+      body = JSON.parse(trimmed);
+    } catch {
+      throw new Error("El cuerpo no es un JSON válido");
+    }
+    const items = Array.isArray(body) ? body : (body as { pings?: unknown })?.pings;
+    if (!Array.isArray(items)) {
+      throw new Error("Se requiere un arreglo de pings");
+    }
+    const batchId = Array.isArray(body) ? null : (body as { batch_id?: unknown }).batch_id;
+    return {
+      batchId: typeof batchId === "string" || typeof batchId === "number" ? String(batchId) : null,
+      pings: items.map((item) => toPing((item ?? {}) as Record<string, unknown>)),
+      rows: items.map((_, i) => i + 1),
+      errors: [],
+    };
+  }
+
+  const pings: IngestPing[] = [];
+  const rows: number[] = [];
+  const errors: { row: number; reason: string }[] = [];
+  let firstLine = true;
+  // Split the untrimmed text so rows are the sender's line numbers
+  text.split(/\r?\n/).forEach((rawLine, i) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#")) return;
+
+    const [ts, lat, lon, speed] = line.split(",").map((field) => field.trim());
+    const header = firstLine && isNaN(Number(lat));
+    firstLine = false;
+    if (header) return;
+    if (lon === undefined) {
+      errors.push({ row: i + 1, reason: `Línea ${i + 1}: se esperaban ts,lat,lon[,speed]` });
+      return;
+    }
+    pings.push(toPing({ ts, lat, lon, speed }));
+    rows.push(i + 1);
+  });
+
+  return { batchId: null, pings, rows, errors };
+}
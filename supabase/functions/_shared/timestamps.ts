@@ -0,0 +1,186 @@
+// Conversion of the timestamps of imported files to UTC. Loggers write local
+// time without an offset, and Date reads such values in the runtime's time
+// zone (the browser's, UTC in Deno), so dates are parsed here field by field
+// and placed in the time zone declared for the file. Pure TypeScript.
+
+// How the dates of a file are written: "auto" is year-first (ISO 8601) or
+// epoch seconds/milliseconds told apart by size
+export type TimestampFormat = "auto" | "dmy" | "mdy" | "epoch_s" | "epoch_ms";
+
+export interface TimestampOptions {
+  timestamp_format: TimestampFormat;
+  // IANA time zone of values without an offset, e.g. America/Santiago
+  timezone: string;
+}
+
+export const DEFAULT_TIMESTAMP_OPTIONS: TimestampOptions = {
+  timestamp_format: "auto",
+  timezone: "UTC",
+};
+
+export const TIMESTAMP_FORMAT_LABELS: Record<TimestampFormat, string> = {
+  auto: "Año primero (2026-01-31 14:05) o epoch",
+  dmy: "Día primero (31/01/2026 14:05)",
+  mdy: "Mes primero (01/31/2026 02:05 PM)",
+  epoch_s: "Epoch en segundos",
+  epoch_ms: "Epoch en milisegundos",
+};
+
+interface DateFields {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+  // Minutes east of UTC written in the value, if any
+  offset: number | null;
+}
+
+const TIME = String.raw`(?:[T ,]+(\d{1,2}):(\d{2})(?::(\d{2})(?:[.,](\d{1,9}))?)?\s*([ap]\.?\s?m\.?)?)?`;
+const OFFSET = String.raw`\s*(Z|[+-]\d{2}(?::?\d{2})?)?`;
+const YEAR_FIRST = new RegExp(String.raw`^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})${TIME}${OFFSET}$`, "i");
+const YEAR_LAST = new RegExp(String.raw`^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4}|\d{2})${TIME}${OFFSET}$`, "i");
+const EPOCH = /^-?\d+(\.\d+)?$/;
+
+function parseOffset(value: string | undefined): number | null {
+  if (!value) return null;
+  if (value.toUpperCase() === "Z") return 0;
+  const digits = value.slice(1).replace(":", "");
+  const minutes = Number(digits.slice(0, 2)) * 60 + Number(digits.slice(2) || 0);
+  return value[0] === "-" ? -minutes : minutes;
+}
+
+// Fields of a date matched by YEAR_FIRST or YEAR_LAST, the date part first
+function toFields(date: [number, number, number], time: (string | undefined)[]): DateFields | null {
+  const [year, month, day] = date;
+  const [hourText, minuteText, secondText, fraction, meridiem, offsetText] = time;
+  let hour = Number(hourText ?? 0);
+
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return null;
+    const pm = meridiem.toLowerCase().startsWith("p");
+    hour = (hour % 12) + (pm ? 12 : 0);
+  }
+
+  const fields: DateFields = {
+    year,
+    month,
+    day,
+    hour,
+    minute: Number(minuteText ?? 0),
+    second: Number(secondText ?? 0),
+    millisecond: fraction ? Math.round(Number(`0.${fraction}`) * 1000) : 0,
+    offset: parseOffset(offsetText),
+  };
+
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const valid = month >= 1 && month <= 12 && day >= 1 && day <= daysInMonth &&
+    fields.hour <= 23 && fields.minute <= 59 && fields.second <= 59;
+  return valid ? fields : null;
+}
+
+function parseDateFields(value: string, format: "auto" | "dmy" | "mdy"): DateFields | null {
+  // Year-first dates are unambiguous, so they are read in every format (a
+  // spreadsheet's date cells come out that way whatever the rest of the file)
+  const yearFirst = YEAR_FIRST.exec(value);
+  if (yearFirst) {
+    const [, year, month, day, ...time] = yearFirst;
+    return toFields([Number(year), Number(month), Number(day)], time);
+  }
+  if (format === "auto") return null;
+
+  const yearLast = YEAR_LAST.exec(value);
+  if (!yearLast) return null;
+  const [, first, second, yearText, ...time] = yearLast;
+  const year = yearText.length === 2 ? 2000 + Number(yearText) : Number(yearText);
+  const [month, day] = format === "dmy" ? [Number(second), Number(first)] : [Number(first), Number(second)];
+  return toFields([year, month, day], time);
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function zoneFormatter(timezone: string) {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+// Milliseconds the time zone's clock is ahead of UTC at an instant
+function zoneOffset(instant: number, timezone: string): number {
+  const parts: Record<string, number> = {};
+  for (const part of zoneFormatter(timezone).formatToParts(new Date(instant))) {
+    if (part.type !== "literal") parts[part.type] = Number(part.value);
+  }
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return wallClock - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * Instant at which the time zone's clock showed the given wall time. Times
+ * skipped when clocks go forward come out one hour later; times repeated when
+ * they go back take the offset in force before the change.
+ */
+function zonedTimeToUtc(wallClock: number, timezone: string): number {
+  const before = zoneOffset(wallClock - 12 * 60 * 60 * 1000, timezone);
+  const after = zoneOffset(wallClock + 12 * 60 * 60 * 1000, timezone);
+  if (before === after) return wallClock - before;
+
+  // A clock change near this time: the first offset whose instant reads back
+  // as this wall time, else the time fell in the gap
+  for (const offset of [before, after]) {
+    if (zoneOffset(wallClock - offset, timezone) === offset) return wallClock - offset;
+  }
+  return wallClock - before;
+}
+
+export function isValidTimeZone(timezone: string): boolean {
+  try {
+    zoneFormatter(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * A timestamp of an imported file as an ISO 8601 string in UTC, or null when
+ * it can't be read in the given format. Values with an offset (Z, -03:00)
+ * keep it; the others are wall times in options.timezone.
+ */
+export function parseTimestamp(value: string, options: TimestampOptions = DEFAULT_TIMESTAMP_OPTIONS): string | null {
+  const text = value.trim();
+  const format = options.timestamp_format;
+
+  if (EPOCH.test(text)) {
+    if (format !== "auto" && format !== "epoch_s" && format !== "epoch_ms") return null;
+    const epoch = Number(text);
+    const milliseconds = format === "epoch_ms" || (format === "auto" && Math.abs(epoch) > 1e11) ? epoch : epoch * 1000;
+    const date = new Date(milliseconds);
+    return isNaN(date.getTime()) ? null : date.toISOString();
+  }
+  if (format === "epoch_s" || format === "epoch_ms") return null;
+
+  const fields = parseDateFields(text, format);
+  if (!fields) return null;
+
+  const wallClock = Date.UTC(fields.year, fields.month - 1, fields.day, fields.hour, fields.minute, fields.second, fields.millisecond);
+  if (fields.offset !== null) {
+    return new Date(wallClock - fields.offset * 60 * 1000).toISOString();
+  }
+  if (!isValidTimeZone(options.timezone)) return null;
+  return new Date(zonedTimeToUtc(wallClock, options.timezone)).toISOString();
+}
@@ -0,0 +1,126 @@
+// Comparison of stored block visits against a freshly detected set, and the
+// block_metrics derived from a set of visits. Shared by the
+// process-historical-visits edge function (dry runs, metric updates) and the
+// frontend preview dialog.
+
+export interface StoredVisit {
+  id?: string;
+  tractor_id: string;
+  started_at: string;
+  ended_at: string | null;
+  ping_count?: number | null;
+}
+
+export interface ProposedVisit {
+  tractor_id: string;
+  started_at: string;
+  ended_at: string;
+  ping_count: number;
+}
+
+export interface VisitChange {
+  before: StoredVisit;
+  after: ProposedVisit;
+}
+
+export interface VisitDiff {
+  added: ProposedVisit[];
+  removed: StoredVisit[];
+  // Same pass with different bounds, usually extended by merging re-entries
+  extended: VisitChange[];
+  unchanged: number;
+}
+
+export interface BlockMetricsSnapshot {
+  last_seen_at: string | null;
+  last_tractor_id: string | null;
+  total_passes: number;
+  passes_24h: number;
+  passes_7d: number;
+}
+
+function toMs(ts: string): number {
+  return new Date(ts).getTime();
+}
+
+function endMs(visit: StoredVisit | ProposedVisit): number {
+  return toMs(visit.ended_at || visit.started_at);
+}
+
+function overlaps(a: StoredVisit | ProposedVisit, b: StoredVisit | ProposedVisit): boolean {
+  return toMs(a.started_at) <= endMs(b) && toMs(b.started_at) <= endMs(a);
+}
+
+/**
+ * Match proposed visits to stored ones of the same tractor by time overlap.
+ * A proposed visit overlapping no stored visit is added; a stored visit no
+ * proposed visit overlaps is removed. When several stored visits overlap one
+ * proposed visit (they would be merged) the first is extended and the rest
+ * are removed.
+ */
+export function diffVisits(existing: StoredVisit[], proposed: ProposedVisit[]): VisitDiff {
+  const diff: VisitDiff = { added: [], removed: [], extended: [], unchanged: 0 };
+  const matched = new Set<StoredVisit>();
+
+  const sortedProposed = [...proposed].sort((a, b) => toMs(a.started_at) - toMs(b.started_at));
+  const sortedExisting = [...existing].sort((a, b) => toMs(a.started_at) - toMs(b.started_at));
+
+  for (const after of sortedProposed) {
+    const before = sortedExisting.find((v) =>
+      !matched.has(v) && v.tractor_id === after.tractor_id && overlaps(v, after)
+    );
+
+    if (!before) {
+      diff.added.push(after);
+      continue;
+    }
+
+    matched.add(before);
+    const sameBounds = toMs(before.started_at) === toMs(after.started_at)
+      && endMs(before) === endMs(after)
+      && (before.ping_count ?? after.ping_count) === after.ping_count;
+
+    if (sameBounds) {
+      diff.unchanged++;
+    } else {
+      diff.extended.push({ before, after });
+    }
+  }
+
+  diff.removed = sortedExisting.filter((v) => !matched.has(v));
+  return diff;
+}
+
+/**
+ * Stored visit of the same tractor that overlaps a proposed one, if any. Used
+ * to carry per-visit choices (like the implement) over when visits are
+ * deleted and detected again.
+ */
+export function findOverlappingVisit<T extends StoredVisit>(
+  existing: T[],
+  visit: StoredVisit | ProposedVisit
+): T | null {
+  return existing.find((v) => v.tractor_id === visit.tractor_id && overlaps(v, visit)) ?? null;
+}
+
+// Derive the block_metrics values from all visits of a block
+export function computeBlockMetrics(
+  visits: Array<StoredVisit | ProposedVisit>,
+  now: number = Date.now()
+): BlockMetricsSnapshot {
+  const lastVisit = visits.length > 0
+    ? visits.reduce((latest, v) => (endMs(v) > endMs(latest) ? v : latest))
+    : null;
+
+  // Calculate 24h and 7d passes
+  const h24Ago = now - 24 * 60 * 60 * 1000;
+  const d7Ago = now - 7 * 24 * 60 * 60 * 1000;
+
+  return {
+    last_seen_at: lastVisit ? (lastVisit.ended_at || lastVisit.started_at) : null,
+    last_tractor_id: lastVisit?.tractor_id || null,
+    total_passes: visits.length,
+    passes_24h: visits.filter((v) => toMs(v.started_at) >= h24Ago).length,
+    passes_7d: visits.filter((v) => toMs(v.started_at) >= d7Ago).length,
+  };
+}
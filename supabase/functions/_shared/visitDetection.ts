@@ -0,0 +1,345 @@
+// Visit detection algorithm shared by the process-historical-visits edge function
+// and the frontend. Pure TypeScript without runtime-specific imports so it runs
+// unchanged under Deno, Vite and Vitest.
+
+import {
+  classifyPingActivity,
+  detectStops,
+  isWorkingActivity,
+  summarizeActivity,
+  type ActivityMinutes,
+  type PingActivity,
+  type SpeedBands,
+  type StopSegment,
+  type StopThresholds,
+  type WorkSignals,
+} from "./pingActivity.ts";
+
+// Minimal ping shape needed for detection; callers may carry extra fields
+export interface DetectionPing {
+  ts: string;
+  lat: number;
+  lon: number;
+  speed?: number | null;
+  ignition?: boolean | null;
+  pto?: boolean | null;
+}
+
+// Polygon as a list of linear rings: the first ring is the outer boundary,
+// any further rings are holes (wells, sheds, tree islands excluded from the block)
+export type PolygonRings = number[][][];
+
+// Visit detection thresholds. Defaults apply unless the tenant
+// (visit_detection_settings row without block_id) or the block overrides them.
+// The speed bands and work signals decide which pings count as work and the
+// stop thresholds which stretches of a visit are stops (see pingActivity.ts).
+export interface VisitThresholds extends SpeedBands, WorkSignals, StopThresholds {
+  // Gap threshold for merging visits (in minutes)
+  // If a tractor leaves and re-enters within this time, it's considered the same visit
+  merge_gap_minutes: number;
+  // Minimum requirements for a valid visit (to filter out transits),
+  // counting only working pings and working time
+  min_pings_for_valid_visit: number;
+  min_duration_minutes: number;
+  // Penetration depth filter: working pings must be this far from the polygon
+  // edge to distinguish real work from perimeter transit
+  min_penetration_depth_meters: number;
+  min_deep_pings: number;
+}
+
+export type VisitThresholdOverrides = {
+  [K in keyof VisitThresholds]?: VisitThresholds[K] | null;
+};
+
+export const DEFAULT_VISIT_THRESHOLDS: VisitThresholds = {
+  merge_gap_minutes: 30,
+  min_pings_for_valid_visit: 15,
+  min_duration_minutes: 3,
+  min_penetration_depth_meters: 15,
+  min_deep_pings: 5,
+  idle_max_speed_kmh: 1,
+  work_max_speed_kmh: 15,
+  turn_min_heading_change_deg: 45,
+  require_pto_for_work: false,
+  stop_radius_meters: 15,
+  stop_min_minutes: 5,
+};
+
+export interface RawVisit<P extends DetectionPing = DetectionPing> {
+  started_at: string;
+  ended_at: string;
+  pings: P[];
+}
+
+export interface VisitCandidate<P extends DetectionPing = DetectionPing> extends RawVisit<P> {
+  valid: boolean;
+  // Why the candidate was discarded as a transit, null when valid
+  rejection: string | null;
+  // Time spent working, in transit and idle inside the block
+  activity: ActivityMinutes;
+  // Stretches where the tractor stood still, in chronological order
+  stops: StopSegment[];
+}
+
+// Mean earth radius used by turf, so depths match what the map shows
+const EARTH_RADIUS_METERS = 6371008.8;
+
+function toMs(ts: string): number {
+  return new Date(ts).getTime();
+}
+
+// Layer overrides (tenant default, then block) over the built-in defaults, field by field
+export function resolveVisitThresholds(
+  ...overrides: Array<VisitThresholdOverrides | null | undefined>
+): VisitThresholds {
+  const resolved = { ...DEFAULT_VISIT_THRESHOLDS };
+  for (const row of overrides) {
+    if (!row) continue;
+    for (const key of Object.keys(DEFAULT_VISIT_THRESHOLDS) as Array<keyof VisitThresholds>) {
+      const value = row[key];
+      if (value !== null && value !== undefined) {
+        Object.assign(resolved, { [key]: value });
+      }
+    }
+  }
+  return resolved;
+}
+
+// Normalize Polygon / MultiPolygon geometries (bare or wrapped in a Feature)
+export function getBlockPolygons(geojson: unknown): PolygonRings[] | null {
+  const value = geojson as { type?: string; geometry?: unknown; coordinates?: unknown } | null;
+  const geometry = (value?.type === 'Feature' ? value.geometry : value) as
+    { type?: string; coordinates?: unknown } | null;
+
+  if (geometry?.type === 'Polygon' && Array.isArray(geometry.coordinates)) {
+    return [geometry.coordinates as PolygonRings];
+  }
+  if (geometry?.type === 'MultiPolygon' && Array.isArray(geometry.coordinates)) {
+    return geometry.coordinates as PolygonRings[];
+  }
+  return null;
+}
+
+// Simple point-in-ring check using ray casting algorithm
+export function isPointInRing(point: [number, number], ring: number[][]): boolean {
+  const [x, y] = point;
+  let inside = false;
+
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const xi = ring[i][0], yi = ring[i][1];
+    const xj = ring[j][0], yj = ring[j][1];
+
+    if (((yi > y) !== (yj > y)) && (x < (xj - xi) * (y - yi) / (yj - yi) + xi)) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
+
+// A point is inside a block when it is inside the outer ring of any of its
+// polygons and not inside one of that polygon's holes
+export function isPointInPolygon(point: [number, number], polygons: PolygonRings[]): boolean {
+  return polygons.some(([outer, ...holes]) =>
+    isPointInRing(point, outer) && !holes.some((hole) => isPointInRing(point, hole))
+  );
+}
+
+// Calculate distance from a point to the nearest edge of a block (in meters).
+// Hole boundaries count as edges, so pings skirting an exclusion are not "deep".
+// Uses a local equirectangular projection around the point, which is accurate
+// to well under a meter at block scale.
+export function distanceToPolygonEdge(point: [number, number], polygons: PolygonRings[]): number {
+  const [lon0, lat0] = point;
+  const metersPerDegLat = (Math.PI / 180) * EARTH_RADIUS_METERS;
+  const metersPerDegLon = metersPerDegLat * Math.cos((lat0 * Math.PI) / 180);
+  let minDistance = Infinity;
+
+  // Iterate through each edge segment of every ring
+  for (const rings of polygons) {
+    for (const ring of rings) {
+      for (let i = 0; i < ring.length - 1; i++) {
+        const ax = (ring[i][0] - lon0) * metersPerDegLon;
+        const ay = (ring[i][1] - lat0) * metersPerDegLat;
+        const bx = (ring[i + 1][0] - lon0) * metersPerDegLon;
+        const by = (ring[i + 1][1] - lat0) * metersPerDegLat;
+
+        // Closest point of segment AB to the origin (the ping)
+        const dx = bx - ax;
+        const dy = by - ay;
+        const lengthSq = dx * dx + dy * dy;
+        const t = lengthSq > 0 ? Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSq)) : 0;
+        const distance = Math.hypot(ax + t * dx, ay + t * dy);
+
+        if (distance < minDistance) {
+          minDistance = distance;
+        }
+      }
+    }
+  }
+
+  return minDistance;
+}
+
+// Step 1: Detect raw visits (each entry/exit creates one).
+// Pings must be sorted by timestamp and belong to a single tractor.
+export function detectRawVisits<P extends DetectionPing>(pings: P[], polygons: PolygonRings[]): RawVisit<P>[] {
+  const rawVisits: RawVisit<P>[] = [];
+  let currentPings: P[] | null = null;
+
+  for (const ping of pings) {
+    const isInside = isPointInPolygon([ping.lon, ping.lat], polygons);
+
+    if (isInside) {
+      if (!currentPings) {
+        // Start new visit
+        currentPings = [ping];
+      } else {
+        // Continue visit
+        currentPings.push(ping);
+      }
+    } else if (currentPings) {
+      // End visit
+      rawVisits.push({
+        started_at: currentPings[0].ts,
+        ended_at: currentPings[currentPings.length - 1].ts,
+        pings: currentPings,
+      });
+      currentPings = null;
+    }
+  }
+
+  // Handle ongoing visit (tractor still in block at end of data)
+  if (currentPings && currentPings.length > 0) {
+    rawVisits.push({
+      started_at: currentPings[0].ts,
+      ended_at: currentPings[currentPings.length - 1].ts,
+      pings: currentPings,
+    });
+  }
+
+  return rawVisits;
+}
+
+// Step 2: Merge visits that are close together (gap < mergeGapMinutes)
+export function mergeVisits<P extends DetectionPing>(rawVisits: RawVisit<P>[], mergeGapMinutes: number): RawVisit<P>[] {
+  const mergedVisits: RawVisit<P>[] = [];
+  let current: RawVisit<P> | null = null;
+
+  for (const visit of rawVisits) {
+    if (!current) {
+      current = { ...visit, pings: [...visit.pings] };
+      continue;
+    }
+
+    const gapMinutes = (toMs(visit.started_at) - toMs(current.ended_at)) / (1000 * 60);
+
+    if (gapMinutes < mergeGapMinutes) {
+      // Merge: extend the current visit and accumulate pings
+      current.ended_at = visit.ended_at;
+      current.pings.push(...visit.pings);
+    } else {
+      // Gap too long: save the previous and start a new one
+      mergedVisits.push(current);
+      current = { ...visit, pings: [...visit.pings] };
+    }
+  }
+
+  // Don't forget the last merged visit
+  if (current) {
+    mergedVisits.push(current);
+  }
+
+  return mergedVisits;
+}
+
+// Step 3: Check a merged visit against the transit filters
+// (not enough working pings, working time, or penetration depth). Returns the
+// reason it was rejected, or null for a valid visit.
+export function getTransitRejection(
+  visit: RawVisit,
+  polygons: PolygonRings[],
+  thresholds: VisitThresholds,
+  activities: PingActivity[] = classifyPingActivity(visit.pings, thresholds)
+): string | null {
+  const workingPings = visit.pings.filter((_, i) => isWorkingActivity(activities[i]));
+  const pingCount = workingPings.length;
+
+  // Check minimum pings
+  if (pingCount < thresholds.min_pings_for_valid_visit) {
+    return `only ${pingCount} pings while working (min: ${thresholds.min_pings_for_valid_visit})`;
+  }
+
+  // Check minimum duration
+  const durationMinutes = summarizeActivity(visit.pings, activities).working_minutes;
+
+  if (durationMinutes < thresholds.min_duration_minutes) {
+    return `only ${durationMinutes.toFixed(1)} working minutes (min: ${thresholds.min_duration_minutes})`;
+  }
+
+  // Check penetration depth - count working pings that are far from the edge,
+  // stopping as soon as enough of them are found
+  let deepPings = 0;
+  for (const ping of workingPings) {
+    if (distanceToPolygonEdge([ping.lon, ping.lat], polygons) >= thresholds.min_penetration_depth_meters) {
+      deepPings++;
+      if (deepPings >= thresholds.min_deep_pings) break;
+    }
+  }
+
+  if (deepPings < thresholds.min_deep_pings) {
+    return `only ${deepPings} pings with depth >= ${thresholds.min_penetration_depth_meters}m (min: ${thresholds.min_deep_pings})`;
+  }
+
+  return null;
+}
+
+/**
+ * Detect merged visit candidates for one tractor inside one block.
+ * Every candidate is returned, flagged with whether it passes the transit
+ * filters, so callers can track the last (possibly still open) candidate.
+ */
+export function detectVisitCandidates<P extends DetectionPing>(
+  pings: P[],
+  polygons: PolygonRings[],
+  thresholds: VisitThresholds
+): VisitCandidate<P>[] {
+  return classifyVisits(detectRawVisits(pings, polygons), polygons, thresholds);
+}
+
+// Steps 2 and 3 for raw visits already detected (e.g. by the block index)
+export function classifyVisits<P extends DetectionPing>(
+  rawVisits: RawVisit<P>[],
+  polygons: PolygonRings[],
+  thresholds: VisitThresholds
+): VisitCandidate<P>[] {
+  const merged = mergeVisits(rawVisits, thresholds.merge_gap_minutes);
+
+  return merged.map((visit) => {
+    const activities = classifyPingActivity(visit.pings, thresholds);
+    const rejection = getTransitRejection(visit, polygons, thresholds, activities);
+    return {
+      ...visit,
+      valid: rejection === null,
+      rejection,
+      activity: summarizeActivity(visit.pings, activities),
+      stops: detectStops(visit.pings, thresholds),
+    };
+  });
+}
+
+/**
+ * The last candidate is still open while a re-entry after the last processed
+ * ping could be merged into it. Returns that candidate, or null when closed.
+ */
+export function getOpenCandidate<P extends DetectionPing>(
+  candidates: VisitCandidate<P>[],
+  lastPingAt: string,
+  mergeGapMinutes: number
+): VisitCandidate<P> | null {
+  const last = candidates[candidates.length - 1];
+  if (!last) return null;
+
+  const gapMinutes = (toMs(lastPingAt) - toMs(last.ended_at)) / (1000 * 60);
+  return gapMinutes < mergeGapMinutes ? last : null;
+}
@@ -1,55 +1,20 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { DEFAULT_PING_CLEANING, type PingCleaningOptions } from "../_shared/pingCleaning.ts";
+import { importPings } from "../_shared/pingImport.ts";
+import { MAX_PINGS_PER_REQUEST, type IngestPing } from "../_shared/pingIngest.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-interface GpsPing {
-  ts: string;
-  lat: number;
-  lon: number;
-  speed?: number;
-}
-
 interface ImportRequest {
   tractor_id: string;
-  pings: GpsPing[];
-}
-
-interface ImportStats {
-  total: number;
-  inserted: number;
-  duplicates: number;
-  errors: number;
-  errorDetails: { row: number; reason: string }[];
-}
-
-function validatePing(ping: GpsPing, index: number): { valid: boolean; reason?: string } {
-  // Validate latitude
-  if (typeof ping.lat !== "number" || ping.lat < -90 || ping.lat > 90) {
-    return { valid: false, reason: `Fila ${index + 1}: Latitud inválida (${ping.lat})` };
-  }
-
-  // Validate longitude
-  if (typeof ping.lon !== "number" || ping.lon < -180 || ping.lon > 180) {
-    return { valid: false, reason: `Fila ${index + 1}: Longitud inválida (${ping.lon})` };
-  }
-
-  // Validate timestamp
-  const tsDate = new Date(ping.ts);
-  if (isNaN(tsDate.getTime())) {
-    return { valid: false, reason: `Fila ${index + 1}: Timestamp inválido (${ping.ts})` };
-  }
-
-  // Check if timestamp is not in the future (with 1 hour tolerance)
-  const now = new Date();
-  now.setHours(now.getHours() + 1);
-  if (tsDate > now) {
-    return { valid: false, reason: `Fila ${index + 1}: Timestamp futuro (${ping.ts})` };
-  }
-
-  return { valid: true };
+  pings: IngestPing[];
+  // Overrides of DEFAULT_PING_CLEANING
+  cleaning?: Partial<PingCleaningOptions>;
+  // import_batches row of the file being imported; inserted pings are tagged with it
+  import_batch_id?: string;
 }
 
 Deno.serve(async (req) => {
@@ -106,6 +71,7 @@ Deno.serve(async (req) => {
     // Parse request body
     const body: ImportRequest = await req.json();
     const { tractor_id, pings } = body;
+    const cleaning: PingCleaningOptions = { ...DEFAULT_PING_CLEANING, ...body.cleaning };
 
     if (!tractor_id || !pings || !Array.isArray(pings)) {
       return new Response(
@@ -115,7 +81,7 @@ Deno.serve(async (req) => {
     }
 
     // Limit pings per request
-    if (pings.length > 10000) {
+    if (pings.length > MAX_PINGS_PER_REQUEST) {
       return new Response(
         JSON.stringify({ error: "Máximo 10,000 pings por request" }),
         { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
@@ -125,7 +91,7 @@ Deno.serve(async (req) => {
     // Verify tractor belongs to user's tenant
     const { data: tractor, error: tractorError } = await supabase
       .from("tractors")
-      .select("id, tenant_id")
+      .select("id, tenant_id, last_seen_at, archived_at")
       .eq("id", tractor_id)
       .eq("tenant_id", tenantId)
       .single();
@@ -137,93 +103,83 @@ Deno.serve(async (req) => {
       );
     }
 
-    // Initialize stats
-    const stats: ImportStats = {
-      total: pings.length,
-      inserted: 0,
-      duplicates: 0,
-      errors: 0,
-      errorDetails: [],
-    };
-
-    // Validate all pings first
-    const validPings: { ts: string; lat: number; lon: number; speed: number | null }[] = [];
-    
-    for (let i = 0; i < pings.length; i++) {
-      const ping = pings[i];
-      const validation = validatePing(ping, i);
-      
-      if (!validation.valid) {
-        stats.errors++;
-        if (stats.errorDetails.length < 50) { // Limit error details
-          stats.errorDetails.push({ row: i + 1, reason: validation.reason! });
-        }
-        continue;
-      }
-
-      validPings.push({
-        ts: new Date(ping.ts).toISOString(),
-        lat: ping.lat,
-        lon: ping.lon,
-        speed: typeof ping.speed === "number" ? ping.speed : null,
-      });
+    if (tractor.archived_at) {
+      return new Response(
+        JSON.stringify({ error: "El tractor está archivado y no acepta nuevos datos" }),
+        { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
     }
 
-    // Get existing timestamps to detect duplicates
-    const timestamps = validPings.map(p => p.ts);
-    const { data: existingPings } = await supabase
-      .from("gps_pings")
-      .select("ts")
-      .eq("tractor_id", tractor_id)
-      .in("ts", timestamps);
-
-    const existingTimestamps = new Set(existingPings?.map(p => p.ts) || []);
-
-    // Filter out duplicates
-    const newPings = validPings.filter(p => {
-      if (existingTimestamps.has(p.ts)) {
-        stats.duplicates++;
-        return false;
-      }
-      return true;
-    });
-
-    // Insert in batches of 500
-    const BATCH_SIZE = 500;
-    let latestPing: { ts: string; lat: number; lon: number } | null = null;
-
-    for (let i = 0; i < newPings.length; i += BATCH_SIZE) {
-      const batch = newPings.slice(i, i + BATCH_SIZE).map(ping => ({
-        tenant_id: tenantId,
-        tractor_id: tractor_id,
-        ts: ping.ts,
-        lat: ping.lat,
-        lon: ping.lon,
-        speed: ping.speed,
-      }));
-
-      const { error: insertError } = await supabase
-        .from("gps_pings")
-        .insert(batch);
-
-      if (insertError) {
-        console.error("Insert error:", insertError);
-        stats.errors += batch.length;
-        stats.errorDetails.push({ row: i, reason: `Error de inserción: ${insertError.message}` });
-      } else {
-        stats.inserted += batch.length;
-        
-        // Track latest ping for tractor update
-        for (const ping of batch) {
-          if (!latestPing || new Date(ping.ts) > new Date(latestPing.ts)) {
-            latestPing = { ts: ping.ts, lat: ping.lat, lon: ping.lon };
-          }
-        }
+    // The batch must be this tractor's and still open, or a rolled back
+    // import could get new pings
+    if (body.import_batch_id) {
+      const { data: batch } = await supabase
+        .from("import_batches")
+        .select("id")
+        .eq("id", body.import_batch_id)
+        .eq("tenant_id", tenantId)
+        .eq("tractor_id", tractor_id)
+        .eq("status", "importing")
+        .maybeSingle();
+
+      if (!batch) {
+        return new Response(
+          JSON.stringify({ error: "El lote de importación no existe o ya fue cerrado" }),
+          { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
       }
     }
 
-    // Update tractor's last position if we inserted any pings
-    if (latestPing) {
+    const { stats, latestPing } = await importPings(pings, {
+      findPreviousPing: async (beforeTs) => {
+        const { data } = await supabase
+          .from("gps_pings")
+          .select("ts, lat, lon")
+          .eq("tractor_id", tractor_id)
+          .is("quality_flag", null)
+          .lt("ts", beforeTs)
+          .order("ts", { ascending: false })
+          .limit(1)
+          .maybeSingle();
+        return data;
+      },
+      flagStoredPing: async (ts, flag) => {
+        const { error } = await supabase
+          .from("gps_pings")
+          .update({ quality_flag: flag })
+          .eq("tractor_id", tractor_id)
+          .eq("ts", ts);
+        if (error) throw new Error(error.message);
+      },
+      deleteStoredPing: async (ts) => {
+        const { error } = await supabase
+          .from("gps_pings")
+          .delete()
+          .eq("tractor_id", tractor_id)
+          .eq("ts", ts);
+        if (error) throw new Error(error.message);
+      },
+      insertPings: async (rows) => {
+        const { data, error } = await supabase
+          .from("gps_pings")
+          .upsert(
+            rows.map((row) => ({
+              ...row,
+              tenant_id: tenantId,
+              tractor_id,
+              import_batch_id: body.import_batch_id ?? null,
+            })),
+            { onConflict: "tractor_id,ts", ignoreDuplicates: true }
+          )
+          .select("ts, lat, lon, quality_flag");
+        if (error) throw new Error(error.message);
+        return data;
+      },
+    }, cleaning);
+
+    // Update tractor's last position if we inserted any pings newer than it;
+    // imported history must not move the tractor back in time
+    if (latestPing && (!tractor.last_seen_at || new Date(latestPing.ts) > new Date(tractor.last_seen_at))) {
       await supabase
         .from("tractors")
         .update({
@@ -0,0 +1,169 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  hashDeviceToken,
+  MAX_PINGS_PER_REQUEST,
+  parseIngestBody,
+  pingTelemetryRow,
+  validatePing,
+  type PingTelemetryRow,
+} from "../_shared/pingIngest.ts";
+
+// Ingestion endpoint for GPS trackers. Each tracker authenticates with a
+// device token bound to one tractor (Authorization: Bearer <token>, or
+// X-Device-Token) and posts batches of pings as JSON or CSV. Pings already
+// stored for the tractor count as duplicates, so a tracker that missed the
+// acknowledgement can resend the same batch safely.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-device-token, x-batch-id",
+};
+
+const BATCH_SIZE = 500;
+// Rejected pings detailed in the acknowledgement
+const MAX_ERROR_DETAILS = 20;
+
+function jsonResponse(body: unknown, status: number) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Método no permitido" }, 405);
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    const token = req.headers.get("X-Device-Token")
+      ?? (authHeader?.startsWith("Bearer ") ? authHeader.slice("Bearer ".length) : null);
+    if (!token) {
+      return jsonResponse({ error: "Falta el token del dispositivo" }, 401);
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: deviceToken } = await supabase
+      .from("tractor_device_tokens")
+      .select("id, tenant_id, tractor_id")
+      .eq("token_hash", await hashDeviceToken(token.trim()))
+      .is("revoked_at", null)
+      .maybeSingle();
+
+    if (!deviceToken) {
+      return jsonResponse({ error: "Token de dispositivo inválido o revocado" }, 401);
+    }
+
+    const { data: tractor, error: tractorError } = await supabase
+      .from("tractors")
+      .select("id, last_seen_at, archived_at")
+      .eq("id", deviceToken.tractor_id)
+      .eq("tenant_id", deviceToken.tenant_id)
+      .single();
+
+    if (tractorError || !tractor) {
+      return jsonResponse({ error: "Tractor no encontrado" }, 404);
+    }
+    if (tractor.archived_at) {
+      return jsonResponse({ error: "El tractor está archivado y no acepta nuevos datos" }, 409);
+    }
+
+    let body;
+    try {
+      body = parseIngestBody(await req.text(), req.headers.get("Content-Type"));
+    } catch (error) {
+      return jsonResponse({ error: error instanceof Error ? error.message : "Cuerpo inválido" }, 400);
+    }
+
+    if (body.pings.length > MAX_PINGS_PER_REQUEST) {
+      return jsonResponse({ error: `Máximo ${MAX_PINGS_PER_REQUEST} pings por request` }, 413);
+    }
+
+    const batchId = body.batchId ?? req.headers.get("X-Batch-Id");
+    const errors = body.errors.slice(0, MAX_ERROR_DETAILS);
+    let rejected = body.errors.length;
+
+    const validPings: ({ ts: string; lat: number; lon: number; speed: number | null } & PingTelemetryRow)[] = [];
+    body.pings.forEach((ping, i) => {
+      // Same row as the body's own errors: the CSV line, or the JSON position
+      const row = body.rows[i];
+      const validation = validatePing(ping, row - 1);
+      if (!validation.valid) {
+        rejected++;
+        if (errors.length < MAX_ERROR_DETAILS) {
+          errors.push({ row, reason: validation.reason! });
+        }
+        return;
+      }
+      validPings.push({
+        ts: validation.ts!,
+        lat: ping.lat,
+        lon: ping.lon,
+        speed: typeof ping.speed === "number" && Number.isFinite(ping.speed) ? ping.speed : null,
+        ...pingTelemetryRow(ping),
+      });
+    });
+
+    // Pings already stored, or repeated within the batch, are skipped by the
+    // (tractor_id, ts) constraint; only inserted rows come back
+    const insertedPings: { ts: string; lat: number; lon: number }[] = [];
+    for (let i = 0; i < validPings.length; i += BATCH_SIZE) {
+      const { data, error: insertError } = await supabase
+        .from("gps_pings")
+        .upsert(
+          validPings.slice(i, i + BATCH_SIZE).map((ping) => ({
+            tenant_id: deviceToken.tenant_id,
+            tractor_id: tractor.id,
+            ...ping,
+          })),
+          { onConflict: "tractor_id,ts", ignoreDuplicates: true }
+        )
+        .select("ts, lat, lon");
+
+      // Not acknowledged: the tracker keeps the batch and resends it
+      if (insertError) {
+        console.error("Insert error:", insertError);
+        return jsonResponse({ error: `Error de inserción: ${insertError.message}` }, 500);
+      }
+      insertedPings.push(...data);
+    }
+
+    // Move the tractor only forward in time; trackers may flush old buffers
+    const latestPing = insertedPings.reduce<typeof insertedPings[number] | null>(
+      (latest, ping) => (!latest || new Date(ping.ts) > new Date(latest.ts) ? ping : latest),
+      null
+    );
+    if (latestPing && (!tractor.last_seen_at || new Date(latestPing.ts) > new Date(tractor.last_seen_at))) {
+      await supabase
+        .from("tractors")
+        .update({ last_lat: latestPing.lat, last_lon: latestPing.lon, last_seen_at: latestPing.ts })
+        .eq("id", tractor.id);
+    }
+
+    await supabase
+      .from("tractor_device_tokens")
+      .update({ last_used_at: new Date().toISOString() })
+      .eq("id", deviceToken.id);
+
+    return jsonResponse({
+      ack: batchId,
+      received: body.pings.length + body.errors.length,
+      inserted: insertedPings.length,
+      duplicates: validPings.length - insertedPings.length,
+      rejected,
+      errors,
+      last_ts: validPings.reduce<string | null>((latest, p) => (!latest || p.ts > latest ? p.ts : latest), null),
+    }, 200);
+  } catch (error: unknown) {
+    console.error("Error:", error);
+    const message = error instanceof Error ? error.message : "Error interno del servidor";
+    return jsonResponse({ error: message }, 500);
+  }
+});
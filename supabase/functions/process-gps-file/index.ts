@@ -0,0 +1,399 @@
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  createLineSplitter,
+  csvRowToPing,
+  GPS_IMPORTS_BUCKET,
+  importPartPath,
+  splitCsvLine,
+  type CsvColumnMapping,
+  type CsvParseOptions,
+} from "../_shared/csvImport.ts";
+import { DEFAULT_PING_CLEANING, type PingCleaningOptions } from "../_shared/pingCleaning.ts";
+import { importPings, type PingImportStore } from "../_shared/pingImport.ts";
+import type { IngestPing } from "../_shared/pingIngest.ts";
+
+// Parses large CSV files uploaded to storage in parts by the import dialog.
+// Each invocation streams one part into gps_pings and records its progress on
+// the import batch, then invokes this function again for the next part, so a
+// file of any size is imported without hitting the function time limit and
+// an interrupted import resumes from the last finished part.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+// Pings validated, cleaned and inserted together while streaming a part
+const FLUSH_ROWS = 5000;
+// A processing batch not updated for this long lost its invocation chain
+const STALE_BATCH_MINUTES = 5;
+// Parse error messages kept on the batch; the rest are only counted
+const MAX_ERROR_DETAILS = 20;
+
+interface FileParseOptions extends CsvParseOptions {
+  cleaning?: Partial<PingCleaningOptions>;
+  // Start a full visit reprocessing of the tractor once imported
+  process_visits?: boolean;
+}
+
+interface BatchStats {
+  total: number;
+  inserted: number;
+  duplicates: number;
+  errors: number;
+  errorDetails: { row: number; reason: string }[];
+}
+
+interface ImportBatch {
+  id: string;
+  tenant_id: string;
+  tractor_id: string;
+  status: string;
+  column_mapping: CsvColumnMapping;
+  parse_options: FileParseOptions;
+  stats: Partial<BatchStats>;
+  parts_total: number;
+  parts_uploaded: number;
+  parts_processed: number;
+  first_ping_at: string | null;
+  last_ping_at: string | null;
+  updated_at: string;
+}
+
+const BATCH_COLUMNS =
+  "id, tenant_id, tractor_id, status, column_mapping, parse_options, stats, parts_total, parts_uploaded, parts_processed, first_ping_at, last_ping_at, updated_at";
+
+// Run the next part in a fresh invocation of this function
+function scheduleNextPart(batchId: string) {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+  EdgeRuntime.waitUntil(
+    fetch(`${supabaseUrl}/functions/v1/process-gps-file`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${supabaseServiceKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ import_batch_id: batchId, continue: true }),
+    })
+      .then((res) => res.text())
+      .catch((error) => console.error(`Import ${batchId}: could not schedule next part:`, error))
+  );
+}
+
+async function fetchBatch(supabase: SupabaseClient, batchId: string): Promise<ImportBatch | null> {
+  const { data } = await supabase.from("import_batches").select(BATCH_COLUMNS).eq("id", batchId).maybeSingle();
+  return data as ImportBatch | null;
+}
+
+function pingStore(supabase: SupabaseClient, batch: ImportBatch): PingImportStore {
+  return {
+    findPreviousPing: async (beforeTs) => {
+      const { data } = await supabase
+        .from("gps_pings")
+        .select("ts, lat, lon")
+        .eq("tractor_id", batch.tractor_id)
+        .is("quality_flag", null)
+        .lt("ts", beforeTs)
+        .order("ts", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      return data;
+    },
+    flagStoredPing: async (ts, flag) => {
+      const { error } = await supabase
+        .from("gps_pings")
+        .update({ quality_flag: flag })
+        .eq("tractor_id", batch.tractor_id)
+        .eq("ts", ts);
+      if (error) throw new Error(error.message);
+    },
+    deleteStoredPing: async (ts) => {
+      const { error } = await supabase
+        .from("gps_pings")
+        .delete()
+        .eq("tractor_id", batch.tractor_id)
+        .eq("ts", ts);
+      if (error) throw new Error(error.message);
+    },
+    insertPings: async (rows) => {
+      const { data, error } = await supabase
+        .from("gps_pings")
+        .upsert(
+          rows.map((row) => ({
+            ...row,
+            tenant_id: batch.tenant_id,
+            tractor_id: batch.tractor_id,
+            import_batch_id: batch.id,
+          })),
+          { onConflict: "tractor_id,ts", ignoreDuplicates: true }
+        )
+        .select("ts, lat, lon, quality_flag");
+      if (error) throw new Error(error.message);
+      return data;
+    },
+  };
+}
+
+/**
+ * Stream the next unprocessed part of a batch into gps_pings. Progress is
+ * saved once the part is done; a part cut short is parsed again from the
+ * start, and the pings it already stored count as duplicates.
+ */
+async function processNextPart(supabase: SupabaseClient, batchId: string): Promise<void> {
+  const batch = await fetchBatch(supabase, batchId);
+  // Rolled back or finished meanwhile
+  if (!batch || batch.status !== "processing") return;
+
+  if (batch.parts_processed >= batch.parts_total) {
+    await finishBatch(supabase, batch);
+    return;
+  }
+
+  const part = batch.parts_processed;
+  const options = batch.parse_options;
+  const cleaning: PingCleaningOptions = { ...DEFAULT_PING_CLEANING, ...options.cleaning };
+  const stats: BatchStats = {
+    total: batch.stats.total ?? 0,
+    inserted: batch.stats.inserted ?? 0,
+    duplicates: batch.stats.duplicates ?? 0,
+    errors: batch.stats.errors ?? 0,
+    errorDetails: batch.stats.errorDetails ?? [],
+  };
+  let firstPingAt = batch.first_ping_at;
+  let lastPingAt = batch.last_ping_at;
+  const store = pingStore(supabase, batch);
+
+  const { data: tractor } = await supabase
+    .from("tractors")
+    .select("last_seen_at")
+    .eq("id", batch.tractor_id)
+    .single();
+  let lastSeenAt: string | null = tractor?.last_seen_at ?? null;
+
+  const addError = (reason: string) => {
+    stats.total++;
+    stats.errors++;
+    if (stats.errorDetails.length < MAX_ERROR_DETAILS) stats.errorDetails.push({ row: 0, reason });
+  };
+
+  let pending: IngestPing[] = [];
+  // Set when the batch was rolled back while this part ran
+  let stopped = false;
+  const flush = async () => {
+    if (pending.length === 0 || stopped) return;
+    const pings = pending;
+    pending = [];
+
+    const { data: current } = await supabase.from("import_batches").select("status").eq("id", batchId).single();
+    if (current?.status !== "processing") {
+      stopped = true;
+      return;
+    }
+
+    const result = await importPings(pings, store, cleaning);
+    stats.total += result.stats.total;
+    stats.inserted += result.stats.inserted;
+    stats.duplicates += result.stats.duplicates;
+    stats.errors += result.stats.errors;
+    for (const detail of result.stats.errorDetails) {
+      if (stats.errorDetails.length >= MAX_ERROR_DETAILS) break;
+      stats.errorDetails.push({ row: 0, reason: `Parte ${part + 1}: ${detail.reason}` });
+    }
+
+    for (const ping of pings) {
+      if (!firstPingAt || ping.ts < firstPingAt) firstPingAt = ping.ts;
+      if (!lastPingAt || ping.ts > lastPingAt) lastPingAt = ping.ts;
+    }
+
+    // Imported history must not move the tractor back in time
+    const latest = result.latestPing;
+    if (latest && (!lastSeenAt || new Date(latest.ts) > new Date(lastSeenAt))) {
+      await supabase
+        .from("tractors")
+        .update({ last_lat: latest.lat, last_lon: latest.lon, last_seen_at: latest.ts })
+        .eq("id", batch.tractor_id);
+      lastSeenAt = latest.ts;
+    }
+  };
+
+  const { data: file, error: downloadError } = await supabase.storage
+    .from(GPS_IMPORTS_BUCKET)
+    .download(importPartPath(batch.tenant_id, batch.id, part));
+  if (downloadError || !file) {
+    throw new Error(`No se pudo leer la parte ${part + 1}: ${downloadError?.message ?? "archivo faltante"}`);
+  }
+
+  // Lines are counted over the non-empty ones, as header_row is
+  let lineIndex = 0;
+  const handleLine = async (line: string) => {
+    if (stopped || !line.trim()) return;
+    const index = lineIndex++;
+    if (part === 0 && index <= options.header_row) return;
+
+    const row = csvRowToPing(splitCsvLine(line, options.delimiter), options.columns, batch.column_mapping, options.value_format);
+    if ("reason" in row) {
+      addError(`Parte ${part + 1}, línea ${index + 1}: ${row.reason}`);
+      return;
+    }
+    pending.push(row.ping);
+    if (pending.length >= FLUSH_ROWS) await flush();
+  };
+
+  const splitter = createLineSplitter();
+  const reader = file.stream().pipeThrough(new TextDecoderStream()).getReader();
+  while (!stopped) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    for (const line of splitter.push(value)) await handleLine(line);
+  }
+  for (const line of splitter.flush()) await handleLine(line);
+  await flush();
+
+  if (stopped) {
+    await reader.cancel();
+    console.log(`Import ${batchId}: rolled back during part ${part + 1}`);
+    return;
+  }
+
+  const { error: updateError } = await supabase
+    .from("import_batches")
+    .update({
+      parts_processed: part + 1,
+      stats,
+      first_ping_at: firstPingAt,
+      last_ping_at: lastPingAt,
+    })
+    .eq("id", batchId)
+    .eq("status", "processing");
+  if (updateError) {
+    throw new Error(`Error saving progress: ${updateError.message}`);
+  }
+
+  console.log(`Import ${batchId}: part ${part + 1} of ${batch.parts_total} done`);
+  if (part + 1 >= batch.parts_total) {
+    await finishBatch(supabase, { ...batch, stats, first_ping_at: firstPingAt, last_ping_at: lastPingAt });
+  } else {
+    scheduleNextPart(batchId);
+  }
+}
+
+// Mark the batch completed, drop its parts and start the visit reprocessing
+async function finishBatch(supabase: SupabaseClient, batch: ImportBatch) {
+  const { data: completed } = await supabase
+    .from("import_batches")
+    .update({ status: "completed", error: null })
+    .eq("id", batch.id)
+    .eq("status", "processing")
+    .select("id");
+  if (!completed?.length) return;
+
+  const paths = Array.from({ length: batch.parts_total }, (_, part) => importPartPath(batch.tenant_id, batch.id, part));
+  const { error: removeError } = await supabase.storage.from(GPS_IMPORTS_BUCKET).remove(paths);
+  if (removeError) console.error(`Import ${batch.id}: could not remove parts:`, removeError);
+
+  // Decided on the pings read rather than stats.inserted: a part cut short and
+  // parsed again counts the pings it had stored as duplicates, so the inserted
+  // count can be 0 for a file whose pings were all imported
+  if (batch.parse_options.process_visits && batch.first_ping_at !== null) {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    try {
+      // Imported history may predate the last processed ping: rebuild the tractor's visits
+      const res = await fetch(`${supabaseUrl}/functions/v1/process-historical-visits`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${supabaseServiceKey}`, "Content-Type": "application/json" },
+        body: JSON.stringify({ tenant_id: batch.tenant_id, tractor_id: batch.tractor_id, mode: "full", background: true }),
+      });
+      await res.text();
+    } catch (error) {
+      console.error(`Import ${batch.id}: could not start visit processing:`, error);
+    }
+  }
+
+  console.log(`Import ${batch.id}: complete`, batch.stats);
+}
+
+async function runPart(supabase: SupabaseClient, batchId: string) {
+  try {
+    await processNextPart(supabase, batchId);
+  } catch (error) {
+    // Parts stay in storage so the import can be resumed from this one
+    const message = error instanceof Error ? error.message : "Error desconocido";
+    console.error(`Import ${batchId}: part failed:`, error);
+    await supabase
+      .from("import_batches")
+      .update({ status: "failed", error: message })
+      .eq("id", batchId)
+      .eq("status", "processing");
+  }
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const body = await req.json();
+    const batchId: string | undefined = body.import_batch_id;
+    if (!batchId) {
+      return json({ error: "Se requiere import_batch_id" }, 400);
+    }
+
+    const token = (req.headers.get("Authorization") ?? "").replace("Bearer ", "");
+
+    // Next part of a running import, scheduled by the previous one
+    if (body.continue === true) {
+      if (token !== supabaseServiceKey) {
+        return json({ error: "No autorizado" }, 401);
+      }
+      EdgeRuntime.waitUntil(runPart(supabase, batchId));
+      return json({ success: true }, 202);
+    }
+
+    // Start (or resume) an import for the user who uploaded it
+    const { data: userData } = await supabase.auth.getUser(token);
+    if (!userData?.user) {
+      return json({ error: "No autorizado" }, 401);
+    }
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("tenant_id")
+      .eq("user_id", userData.user.id)
+      .single();
+
+    const batch = await fetchBatch(supabase, batchId);
+    if (!batch || batch.tenant_id !== profile?.tenant_id) {
+      return json({ error: "Importación no encontrada" }, 404);
+    }
+
+    const stalled = Date.now() - new Date(batch.updated_at).getTime() > STALE_BATCH_MINUTES * 60 * 1000;
+    const canStart =
+      (batch.status === "uploading" && batch.parts_uploaded >= batch.parts_total) ||
+      (batch.status === "processing" && stalled) ||
+      (batch.status === "failed" && batch.parts_processed < batch.parts_total);
+    if (!canStart) {
+      return json({ error: batch.status === "uploading" ? "El archivo no terminó de subirse" : "La importación ya está en curso" }, 409);
+    }
+
+    await supabase.from("import_batches").update({ status: "processing", error: null }).eq("id", batchId);
+    EdgeRuntime.waitUntil(runPart(supabase, batchId));
+
+    return json({ success: true }, 202);
+  } catch (error: unknown) {
+    console.error("Error:", error);
+    const message = error instanceof Error ? error.message : "Error interno del servidor";
+    return json({ error: message }, 500);
+  }
+});
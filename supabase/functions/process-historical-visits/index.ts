@@ -1,6 +1,30 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-import { point, lineString, pointToLineDistance } from "https://esm.sh/@turf/turf@7.0.0";
+import {
+  classifyVisits,
+  DEFAULT_VISIT_THRESHOLDS,
+  getBlockPolygons,
+  getOpenCandidate,
+  resolveVisitThresholds,
+  type PolygonRings,
+  type VisitThresholds,
+} from "../_shared/visitDetection.ts";
+import {
+  buildBlockIndex,
+  detectRawVisitsByBlock,
+  filterRawVisits,
+  type BlockIndex,
+} from "../_shared/blockIndex.ts";
+import {
+  computeBlockMetrics,
+  diffVisits,
+  findOverlappingVisit,
+  type BlockMetricsSnapshot,
+  type ProposedVisit,
+  type StoredVisit,
+  type VisitDiff,
+} from "../_shared/visitChanges.ts";
+import type { StopSegment } from "../_shared/pingActivity.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -12,76 +36,826 @@ interface GpsPing {
   ts: string;
   lat: number;
   lon: number;
+  speed: number | null;
+  ignition: boolean | null;
+  pto: boolean | null;
   tractor_id: string;
   tenant_id: string;
 }
 
 interface Block {
   id: string;
-  geometry_geojson: any;
+  geometry_geojson: unknown;
   tenant_id: string;
 }
 
-// Simple point-in-polygon check using ray casting algorithm
-function isPointInPolygon(point: [number, number], polygon: number[][]): boolean {
-  const [x, y] = point;
-  let inside = false;
-  
-  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
-    const xi = polygon[i][0], yi = polygon[i][1];
-    const xj = polygon[j][0], yj = polygon[j][1];
-    
-    if (((yi > y) !== (yj > y)) && (x < (xj - xi) * (y - yi) / (yj - yi) + xi)) {
-      inside = !inside;
+type VisitThresholdsRow = { [K in keyof VisitThresholds]: VisitThresholds[K] | null } & {
+  block_id: string | null;
+};
+
+type ProcessingMode = "incremental" | "full";
+
+interface ProcessingState {
+  block_id: string;
+  tractor_id: string;
+  last_ping_at: string;
+  open_visit_started_at: string | null;
+  open_visit_id: string | null;
+}
+
+interface BlockPreview extends VisitDiff {
+  block_id: string;
+  metrics_before: BlockMetricsSnapshot;
+  metrics_after: BlockMetricsSnapshot;
+}
+
+function toMs(ts: string): number {
+  return new Date(ts).getTime();
+}
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+// Supabase edge runtime global: keeps the worker alive for work after the response
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+interface ProcessingResults {
+  visitsCreated: number;
+  visitsUpdated: number;
+  metricsUpdated: number;
+  pingsProcessed: number;
+  errors: string[];
+}
+
+interface BlockOutcome {
+  visitsCreated: number;
+  visitsUpdated: number;
+  error: string | null;
+}
+
+// Progress of a block within a background job, summed over its tractors
+interface JobBlock {
+  block_id: string;
+  visits_created: number;
+  visits_updated: number;
+  error: string | null;
+}
+
+interface ProcessingJob {
+  id: string;
+  tenant_id: string;
+  status: "pending" | "running" | "completed" | "failed";
+  mode: ProcessingMode;
+  tractor_id: string | null;
+  processed_tractors: number;
+  last_tractor_id: string | null;
+  results: ProcessingResults;
+  started_at: string | null;
+  updated_at: string;
+}
+
+// A running job not updated for this long is assumed to have lost its chunk chain
+const STALE_JOB_MINUTES = 5;
+
+function emptyResults(): ProcessingResults {
+  return { visitsCreated: 0, visitsUpdated: 0, metricsUpdated: 0, pingsProcessed: 0, errors: [] };
+}
+
+function sumStopMinutes(stops: StopSegment[]): number {
+  return stops.reduce((sum, stop) => sum + stop.duration_minutes, 0);
+}
+
+function toStopRows(tenantId: string, visitId: string, stops: StopSegment[]) {
+  return stops.map((stop) => ({ tenant_id: tenantId, visit_id: visitId, ...stop }));
+}
+
+// Visits about to be deleted whose implement was picked by hand
+type PinnedVisit = StoredVisit & { block_id: string; implement_id: string };
+
+async function fetchPinnedVisits(
+  supabase: SupabaseClient,
+  match: Record<string, string>
+): Promise<PinnedVisit[]> {
+  const { data, error } = await supabase
+    .from("block_visits")
+    .select("block_id, tractor_id, started_at, ended_at, implement_id")
+    .match(match)
+    .not("implement_id", "is", null);
+
+  if (error) {
+    console.error("Error fetching visit implements:", error.message);
+    return [];
+  }
+  return (data || []) as PinnedVisit[];
+}
+
+// Fetch a tractor's pings in ascending order, optionally only those after a given timestamp
+async function fetchTractorPings(
+  supabase: SupabaseClient,
+  tenantId: string,
+  tractorId: string,
+  since: string | null
+): Promise<GpsPing[]> {
+  // Paginate through all pings (Supabase default limit is 1000). Pages are
+  // keyed on the last timestamp read: an OFFSET makes every page rescan the
+  // ones before it, and a tractor's pings are unique per timestamp
+  const pings: GpsPing[] = [];
+  const pageSize = 1000;
+  let lastTs: string | null = null;
+
+  while (true) {
+    let pingsQuery = supabase
+      .from("gps_pings")
+      .select("id, ts, lat, lon, speed, ignition, pto, tractor_id, tenant_id")
+      .eq("tenant_id", tenantId)
+      .eq("tractor_id", tractorId)
+      // Pings flagged by the import cleaning would create false visits
+      .is("quality_flag", null)
+      .order("ts", { ascending: true })
+      .limit(pageSize);
+
+    if (lastTs) {
+      pingsQuery = pingsQuery.gt("ts", lastTs);
+    } else if (since) {
+      pingsQuery = pingsQuery.gte("ts", since);
+    }
+
+    const { data, error } = await pingsQuery;
+
+    if (error) {
+      throw new Error(`Error fetching pings: ${error.message}`);
+    }
+
+    pings.push(...(data || []));
+    if (!data || data.length < pageSize) {
+      break;
     }
+    lastTs = data[data.length - 1].ts;
   }
-  
-  return inside;
+
+  return pings;
 }
 
-function getPolygonCoordinates(geojson: any): number[][] | null {
-  try {
-    if (geojson.type === 'Polygon') {
-      return geojson.coordinates[0];
+// Recalculate block_metrics from the visits stored for a block
+async function updateBlockMetrics(supabase: SupabaseClient, blockId: string): Promise<string | null> {
+  const { data: storedVisits, error: visitsError } = await supabase
+    .from("block_visits")
+    .select("tractor_id, started_at, ended_at")
+    .eq("block_id", blockId);
+
+  if (visitsError) {
+    return `Error fetching visits: ${visitsError.message}`;
+  }
+
+  const metricsUpdate = {
+    block_id: blockId,
+    ...computeBlockMetrics((storedVisits || []) as StoredVisit[]),
+    updated_at: new Date().toISOString(),
+  };
+
+  const { error: upsertError } = await supabase
+    .from("block_metrics")
+    .upsert(metricsUpdate, { onConflict: "block_id" });
+
+  return upsertError ? `Error updating metrics: ${upsertError.message}` : null;
+}
+
+// Compare what a full rebuild would produce against the stored visits of each
+// block, without writing anything
+async function previewFullRebuild(
+  supabase: SupabaseClient,
+  tenantId: string,
+  tractorIds: string[],
+  tractorFilter: string | null,
+  polygons: Map<string, PolygonRings[]>,
+  thresholdsByBlock: Map<string, VisitThresholds>
+): Promise<BlockPreview[]> {
+  const blockIds = Array.from(polygons.keys());
+  const proposedByBlock = new Map<string, ProposedVisit[]>(blockIds.map((id) => [id, []]));
+  const index = indexBlocks(polygons);
+
+  for (const tractorId of tractorIds) {
+    const pings = await fetchTractorPings(supabase, tenantId, tractorId, null);
+    if (pings.length === 0) {
+      continue;
+    }
+
+    const rawVisitsByBlock = detectRawVisitsByBlock(pings, index);
+    for (const [blockId, rawVisits] of rawVisitsByBlock) {
+      const candidates = classifyVisits(rawVisits, polygons.get(blockId)!, thresholdsByBlock.get(blockId)!);
+      for (const candidate of candidates) {
+        if (!candidate.valid) continue;
+        proposedByBlock.get(blockId)!.push({
+          tractor_id: tractorId,
+          started_at: candidate.started_at,
+          ended_at: candidate.ended_at,
+          ping_count: candidate.pings.length,
+        });
+      }
+    }
+  }
+
+  const previews: BlockPreview[] = [];
+  const now = Date.now();
+
+  for (const blockId of blockIds) {
+    const { data: storedVisits, error: visitsError } = await supabase
+      .from("block_visits")
+      .select("id, tractor_id, started_at, ended_at, ping_count")
+      .eq("block_id", blockId);
+
+    if (visitsError) {
+      throw new Error(`Error fetching visits: ${visitsError.message}`);
+    }
+
+    const stored = (storedVisits || []) as StoredVisit[];
+    // Visits of other tractors survive a rebuild restricted to one tractor
+    const affected = tractorFilter ? stored.filter((v) => v.tractor_id === tractorFilter) : stored;
+    const untouched = tractorFilter ? stored.filter((v) => v.tractor_id !== tractorFilter) : [];
+    const proposed = proposedByBlock.get(blockId)!;
+
+    previews.push({
+      block_id: blockId,
+      ...diffVisits(affected, proposed),
+      // Both sides are recomputed now so stale 24h/7d counters don't show up as changes
+      metrics_before: computeBlockMetrics(stored, now),
+      metrics_after: computeBlockMetrics([...untouched, ...proposed], now),
+    });
+  }
+
+  return previews;
+}
+
+// Parse block geometries, recording an error for blocks without a usable polygon
+function getPolygons(blocks: Block[], results: ProcessingResults): Map<string, PolygonRings[]> {
+  const polygons = new Map<string, PolygonRings[]>();
+  for (const block of blocks) {
+    const polygon = getBlockPolygons(block.geometry_geojson);
+    if (!polygon) {
+      results.errors.push(`Block ${block.id}: Invalid geometry`);
+      continue;
+    }
+    polygons.set(block.id, polygon);
+  }
+  return polygons;
+}
+
+function indexBlocks(polygons: Map<string, PolygonRings[]>): BlockIndex {
+  return buildBlockIndex(Array.from(polygons, ([id, blockPolygons]) => ({ id, polygons: blockPolygons })));
+}
+
+// Tractors to process (either specific one or all for tenant)
+async function fetchTractorIds(
+  supabase: SupabaseClient,
+  tenantId: string,
+  tractorId: string | null
+): Promise<string[]> {
+  if (tractorId) {
+    return [tractorId];
+  }
+
+  const { data: tractors, error: tractorsError } = await supabase
+    .from("tractors")
+    .select("id")
+    .eq("tenant_id", tenantId)
+    // Background jobs walk the tractors in this order
+    .order("id");
+
+  if (tractorsError) {
+    throw new Error(`Error fetching tractors: ${tractorsError.message}`);
+  }
+  return (tractors || []).map((t: { id: string }) => t.id);
+}
+
+// Detection thresholds: tenant default row plus per-block overrides
+async function fetchThresholds(
+  supabase: SupabaseClient,
+  tenantId: string,
+  blockIds: string[]
+): Promise<Map<string, VisitThresholds>> {
+  const { data: settingsRows, error: settingsError } = await supabase
+    .from("visit_detection_settings")
+    .select(["block_id", ...Object.keys(DEFAULT_VISIT_THRESHOLDS)].join(", "))
+    .eq("tenant_id", tenantId);
+
+  if (settingsError) {
+    throw new Error(`Error fetching detection settings: ${settingsError.message}`);
+  }
+
+  const tenantSettings = (settingsRows || []).find((r: VisitThresholdsRow) => r.block_id === null);
+  const thresholdsByBlock = new Map<string, VisitThresholds>();
+  for (const blockId of blockIds) {
+    const blockSettings = (settingsRows || []).find((r: VisitThresholdsRow) => r.block_id === blockId);
+    thresholdsByBlock.set(blockId, resolveVisitThresholds(tenantSettings, blockSettings));
+  }
+  return thresholdsByBlock;
+}
+
+/**
+ * Detect and store visits for the given blocks, then refresh their metrics
+ * unless `refreshMetrics` is off (background jobs refresh them once every
+ * tractor is done). Counters and errors accumulate into `results`; the
+ * returned map tells how each block went so jobs can track them individually.
+ */
+async function processBlocks(
+  supabase: SupabaseClient,
+  tenantId: string,
+  mode: ProcessingMode,
+  tractorIds: string[],
+  tractorFilter: string | null,
+  polygons: Map<string, PolygonRings[]>,
+  thresholdsByBlock: Map<string, VisitThresholds>,
+  results: ProcessingResults,
+  refreshMetrics = true
+): Promise<Map<string, BlockOutcome>> {
+  const blockIds = Array.from(polygons.keys());
+  const outcomes = new Map<string, BlockOutcome>(
+    blockIds.map((id) => [id, { visitsCreated: 0, visitsUpdated: 0, error: null }])
+  );
+  const fail = (blockId: string, message: string) => {
+    results.errors.push(`Block ${blockId}: ${message}`);
+    const outcome = outcomes.get(blockId)!;
+    outcome.error = outcome.error ?? message;
+  };
+
+  const stateByPair = new Map<string, ProcessingState>();
+  const index = indexBlocks(polygons);
+  // Re-detected visits keep the implement picked for the visit they replace
+  const pinnedVisits: PinnedVisit[] = [];
+
+  if (mode === "full") {
+    // Delete existing visits and watermarks (to avoid duplicates)
+    for (const blockId of blockIds) {
+      const deleteQuery: Record<string, string> = { block_id: blockId };
+      if (tractorFilter) {
+        deleteQuery.tractor_id = tractorFilter;
+      }
+
+      pinnedVisits.push(...await fetchPinnedVisits(supabase, deleteQuery));
+      const { error: deleteError } = await supabase
+        .from("block_visits")
+        .delete()
+        .match(deleteQuery);
+
+      if (deleteError) {
+        fail(blockId, `Error deleting old visits: ${deleteError.message}`);
+      }
+
+      await supabase.from("visit_processing_state").delete().match(deleteQuery);
+    }
+  } else if (blockIds.length > 0) {
+    let stateQuery = supabase
+      .from("visit_processing_state")
+      .select("block_id, tractor_id, last_ping_at, open_visit_started_at, open_visit_id")
+      .in("block_id", blockIds);
+
+    if (tractorFilter) {
+      stateQuery = stateQuery.eq("tractor_id", tractorFilter);
+    }
+
+    const { data: states, error: statesError } = await stateQuery;
+    if (statesError) {
+      throw new Error(`Error fetching processing state: ${statesError.message}`);
+    }
+    for (const state of (states || []) as ProcessingState[]) {
+      stateByPair.set(`${state.block_id}:${state.tractor_id}`, state);
+    }
+  }
+
+  for (const tractorId of tractorIds) {
+    // Earliest ping any block still needs: the start of its open visit,
+    // or its watermark when nothing can be extended any more
+    let since: string | null = null;
+    if (mode === "incremental") {
+      for (const blockId of blockIds) {
+        const state = stateByPair.get(`${blockId}:${tractorId}`);
+        if (!state) {
+          since = null;
+          break;
+        }
+        const resumeAt = state.open_visit_started_at ?? state.last_ping_at;
+        if (since === null || toMs(resumeAt) < toMs(since)) {
+          since = resumeAt;
+        }
+      }
+    }
+
+    const pings = await fetchTractorPings(supabase, tenantId, tractorId, since);
+    if (pings.length === 0) {
+      continue;
+    }
+
+    const lastPingAt = pings[pings.length - 1].ts;
+    console.log(`Tractor ${tractorId}: ${pings.length} GPS pings to process`);
+    results.pingsProcessed += pings.length;
+
+    // One pass over the pings finds the raw visits of every block
+    const rawVisitsByBlock = detectRawVisitsByBlock(pings, index);
+
+    for (const blockId of blockIds) {
+      const polygon = polygons.get(blockId)!;
+      const thresholds = thresholdsByBlock.get(blockId)!;
+      const state = stateByPair.get(`${blockId}:${tractorId}`);
+      const outcome = outcomes.get(blockId)!;
+
+      if (state && toMs(lastPingAt) <= toMs(state.last_ping_at)) {
+        // No new pings since the last run
+        continue;
+      }
+
+      const blockRawVisits = rawVisitsByBlock.get(blockId) ?? [];
+      const rawVisits = state
+        ? filterRawVisits(blockRawVisits, (p) => state.open_visit_started_at
+            ? toMs(p.ts) >= toMs(state.open_visit_started_at)
+            : toMs(p.ts) > toMs(state.last_ping_at))
+        : blockRawVisits;
+
+      const candidates = classifyVisits(rawVisits, polygon, thresholds);
+      for (const candidate of candidates) {
+        if (candidate.rejection) {
+          console.log(`Filtering visit: ${candidate.rejection}`);
+        }
+      }
+      const validVisits = candidates.filter((c) => c.valid);
+      const visitIdsByStart = new Map<number, string>();
+      const stopsToInsert: ReturnType<typeof toStopRows> = [];
+
+      if (mode === "incremental" && !state) {
+        // First incremental run for this pair: replace visits from earlier full runs
+        pinnedVisits.push(...await fetchPinnedVisits(supabase, { block_id: blockId, tractor_id: tractorId }));
+        await supabase
+          .from("block_visits")
+          .delete()
+          .match({ block_id: blockId, tractor_id: tractorId });
+      } else if (state?.open_visit_id) {
+        // Extend the open visit in place; it is always re-detected as the first candidate
+        const first = validVisits[0];
+        if (first && toMs(first.started_at) === toMs(state.open_visit_started_at!)) {
+          const { error: updateError } = await supabase
+            .from("block_visits")
+            .update({
+              ended_at: first.ended_at,
+              ping_count: first.pings.length,
+              ...first.activity,
+              stopped_minutes: sumStopMinutes(first.stops),
+            })
+            .eq("id", state.open_visit_id);
+
+          if (updateError) {
+            fail(blockId, `Error updating visit: ${updateError.message}`);
+          } else {
+            results.visitsUpdated++;
+            outcome.visitsUpdated++;
+            // Stops of the open visit are re-detected along with it
+            await supabase.from("visit_stops").delete().eq("visit_id", state.open_visit_id);
+            stopsToInsert.push(...toStopRows(tenantId, state.open_visit_id, first.stops));
+          }
+          visitIdsByStart.set(toMs(first.started_at), state.open_visit_id);
+          validVisits.shift();
+        } else {
+          pinnedVisits.push(...await fetchPinnedVisits(supabase, { id: state.open_visit_id }));
+          await supabase.from("block_visits").delete().eq("id", state.open_visit_id);
+        }
+      }
+
+      // Insert new visits
+      const blockPinned = pinnedVisits.filter((p) => p.block_id === blockId);
+      const visitsToInsert = validVisits.map((v) => ({
+        block_id: blockId,
+        tenant_id: tenantId,
+        tractor_id: tractorId,
+        started_at: v.started_at,
+        ended_at: v.ended_at,
+        ping_count: v.pings.length,
+        ...v.activity,
+        stopped_minutes: sumStopMinutes(v.stops),
+        implement_id: findOverlappingVisit(blockPinned, {
+          tractor_id: tractorId,
+          started_at: v.started_at,
+          ended_at: v.ended_at,
+          ping_count: v.pings.length,
+        })?.implement_id ?? null,
+      }));
+      const stopsByStart = new Map(validVisits.map((v) => [toMs(v.started_at), v.stops]));
+
+      // Insert in batches of 100
+      for (let i = 0; i < visitsToInsert.length; i += 100) {
+        const batch = visitsToInsert.slice(i, i + 100);
+        const { data: inserted, error: insertError } = await supabase
+          .from("block_visits")
+          .insert(batch)
+          .select("id, started_at");
+
+        if (insertError) {
+          fail(blockId, `Error inserting visits: ${insertError.message}`);
+        } else {
+          results.visitsCreated += batch.length;
+          outcome.visitsCreated += batch.length;
+          for (const visit of inserted || []) {
+            visitIdsByStart.set(toMs(visit.started_at), visit.id);
+            stopsToInsert.push(...toStopRows(tenantId, visit.id, stopsByStart.get(toMs(visit.started_at)) ?? []));
+          }
+        }
+      }
+
+      for (let i = 0; i < stopsToInsert.length; i += 500) {
+        const { error: stopsError } = await supabase
+          .from("visit_stops")
+          .insert(stopsToInsert.slice(i, i + 500));
+
+        if (stopsError) {
+          fail(blockId, `Error inserting visit stops: ${stopsError.message}`);
+        }
+      }
+
+      // Watermark for the next run; the last candidate stays open while a
+      // re-entry could still be merged into it
+      const openCandidate = getOpenCandidate(candidates, lastPingAt, thresholds.merge_gap_minutes);
+      const { error: stateError } = await supabase
+        .from("visit_processing_state")
+        .upsert({
+          tenant_id: tenantId,
+          block_id: blockId,
+          tractor_id: tractorId,
+          last_ping_at: lastPingAt,
+          open_visit_started_at: openCandidate?.started_at ?? null,
+          open_visit_id: openCandidate?.valid
+            ? visitIdsByStart.get(toMs(openCandidate.started_at)) ?? null
+            : null,
+        }, { onConflict: "block_id,tractor_id" });
+
+      if (stateError) {
+        fail(blockId, `Error saving processing state: ${stateError.message}`);
+      }
+
+      if (validVisits.length > 0 || state?.open_visit_id) {
+        console.log(`Block ${blockId} / tractor ${tractorId}: ${candidates.filter((c) => c.valid).length} valid visits`);
+      }
     }
-    if (geojson.type === 'Feature' && geojson.geometry?.type === 'Polygon') {
-      return geojson.geometry.coordinates[0];
+  }
+
+  // Update block metrics (recomputed from stored visits so incremental runs stay exact)
+  for (const blockId of refreshMetrics ? blockIds : []) {
+    const metricsError = await updateBlockMetrics(supabase, blockId);
+    if (metricsError) {
+      fail(blockId, metricsError);
+    } else {
+      results.metricsUpdated++;
     }
-    return null;
-  } catch {
-    return null;
   }
+
+  return outcomes;
 }
 
-// Calculate distance from a point to the nearest edge of a polygon (in meters)
-function distanceToPolygonEdge(pointCoord: [number, number], polygon: number[][]): number {
-  const pt = point(pointCoord);
-  let minDistance = Infinity;
-  
-  // Iterate through each edge segment of the polygon
-  for (let i = 0; i < polygon.length - 1; i++) {
-    const edge = lineString([polygon[i], polygon[i + 1]]);
-    const distance = pointToLineDistance(pt, edge, { units: 'meters' });
-    if (distance < minDistance) {
-      minDistance = distance;
+// Run the next chunk of a background job in a fresh invocation of this function
+function scheduleJobChunk(jobId: string) {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+  EdgeRuntime.waitUntil(
+    fetch(`${supabaseUrl}/functions/v1/process-historical-visits`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${supabaseServiceKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ job_id: jobId }),
+    })
+      .then((res) => res.text())
+      .catch((error) => console.error(`Job ${jobId}: could not schedule next chunk:`, error))
+  );
+}
+
+/**
+ * Run the next tractor of a job over all its unfinished blocks, add up how
+ * each block went and schedule the following chunk, so every tractor's pings
+ * are read once per job. Tractors go in id order after last_tractor_id, so
+ * re-invoking with the job id resumes with the tractor a dead chunk left
+ * unfinished. Once no tractor is left the blocks' metrics are refreshed and
+ * each block is marked completed or failed.
+ */
+async function runJobChunk(supabase: SupabaseClient, jobId: string): Promise<void> {
+  const { data: job, error: jobError } = await supabase
+    .from("processing_jobs")
+    .select("id, tenant_id, status, mode, tractor_id, processed_tractors, last_tractor_id, results, started_at, updated_at")
+    .eq("id", jobId)
+    .single();
+
+  if (jobError || !job) {
+    console.error(`Job ${jobId}: not found`, jobError);
+    return;
+  }
+  const currentJob = job as ProcessingJob;
+  if (currentJob.status === "completed" || currentJob.status === "failed") {
+    return;
+  }
+
+  const { data: blockRows, error: blockRowsError } = await supabase
+    .from("processing_job_blocks")
+    .select("block_id, visits_created, visits_updated, error")
+    .eq("job_id", jobId)
+    .in("status", ["pending", "running"]);
+
+  if (blockRowsError) {
+    console.error(`Job ${jobId}: error fetching blocks`, blockRowsError);
+    return;
+  }
+
+  const jobBlocks = (blockRows || []) as JobBlock[];
+  const chunkResults = emptyResults();
+  let tractorId: string | null = null;
+
+  if (jobBlocks.length > 0) {
+    try {
+      const tractorIds = await fetchTractorIds(supabase, currentJob.tenant_id, currentJob.tractor_id);
+      const lastTractorId = currentJob.last_tractor_id;
+      tractorId = tractorIds.find((id) => !lastTractorId || id > lastTractorId) ?? null;
+    } catch (error) {
+      console.error(`Job ${jobId}: error fetching tractors`, error);
+      return;
+    }
+  }
+
+  if (tractorId) {
+    await supabase
+      .from("processing_jobs")
+      .update({ status: "running", started_at: currentJob.started_at ?? new Date().toISOString() })
+      .eq("id", jobId);
+    await supabase
+      .from("processing_job_blocks")
+      .update({ status: "running" })
+      .eq("job_id", jobId)
+      .eq("status", "pending");
+
+    console.log(`Job ${jobId}: processing tractor ${tractorId} over ${jobBlocks.length} blocks`);
+
+    let outcomes = new Map<string, BlockOutcome>();
+    try {
+      const { data: blocks, error: blocksError } = await supabase
+        .from("blocks")
+        .select("id, geometry_geojson, tenant_id")
+        .eq("tenant_id", currentJob.tenant_id);
+
+      if (blocksError) {
+        throw new Error(`Error fetching blocks: ${blocksError.message}`);
+      }
+
+      // Invalid geometries are reported once, when their row is updated below
+      const jobBlockIds = new Set(jobBlocks.map((row) => row.block_id));
+      const polygons = getPolygons(
+        ((blocks || []) as Block[]).filter((block) => jobBlockIds.has(block.id)),
+        emptyResults()
+      );
+      const thresholdsByBlock = await fetchThresholds(supabase, currentJob.tenant_id, Array.from(polygons.keys()));
+
+      outcomes = await processBlocks(
+        supabase, currentJob.tenant_id, currentJob.mode, [tractorId], tractorId,
+        polygons, thresholdsByBlock, chunkResults, false
+      );
+    } catch (error) {
+      // Nothing this tractor left in the blocks can be trusted, fail them all
+      const message = error instanceof Error ? error.message : "Unknown error";
+      console.error(`Job ${jobId}: tractor ${tractorId} failed:`, error);
+      for (const row of jobBlocks) {
+        chunkResults.errors.push(`Block ${row.block_id}: ${message}`);
+        outcomes.set(row.block_id, { visitsCreated: 0, visitsUpdated: 0, error: message });
+      }
+    }
+
+    for (const row of jobBlocks) {
+      // Blocks missing from the outcomes had no usable geometry
+      const outcome = outcomes.get(row.block_id) ?? { visitsCreated: 0, visitsUpdated: 0, error: "Invalid geometry" };
+      const newError = outcome.error !== null && row.error === null;
+      if (outcome.visitsCreated === 0 && outcome.visitsUpdated === 0 && !newError) {
+        continue;
+      }
+      if (newError && !outcomes.has(row.block_id)) {
+        chunkResults.errors.push(`Block ${row.block_id}: Invalid geometry`);
+      }
+
+      // A block keeps its first error; it is settled as failed at the end
+      await supabase
+        .from("processing_job_blocks")
+        .update({
+          visits_created: row.visits_created + outcome.visitsCreated,
+          visits_updated: row.visits_updated + outcome.visitsUpdated,
+          error: row.error ?? outcome.error,
+        })
+        .eq("job_id", jobId)
+        .eq("block_id", row.block_id);
+    }
+  } else {
+    // Every tractor is done: refresh the metrics and settle the blocks
+    for (const row of jobBlocks) {
+      let blockError = row.error;
+      const metricsError = await updateBlockMetrics(supabase, row.block_id);
+      if (metricsError) {
+        chunkResults.errors.push(`Block ${row.block_id}: ${metricsError}`);
+        blockError = blockError ?? metricsError;
+      } else {
+        chunkResults.metricsUpdated++;
+      }
+
+      await supabase
+        .from("processing_job_blocks")
+        .update({ status: blockError ? "failed" : "completed", error: blockError })
+        .eq("job_id", jobId)
+        .eq("block_id", row.block_id);
     }
   }
-  
-  return minDistance;
+
+  // Progress is recounted from the block rows so retries keep it consistent
+  const { data: statusRows } = await supabase
+    .from("processing_job_blocks")
+    .select("status")
+    .eq("job_id", jobId);
+
+  const statuses = (statusRows || []).map((r: { status: string }) => r.status);
+  const failedBlocks = statuses.filter((s) => s === "failed").length;
+  const remaining = statuses.filter((s) => s === "pending" || s === "running").length;
+
+  const results: ProcessingResults = {
+    visitsCreated: currentJob.results.visitsCreated + chunkResults.visitsCreated,
+    visitsUpdated: currentJob.results.visitsUpdated + chunkResults.visitsUpdated,
+    metricsUpdated: currentJob.results.metricsUpdated + chunkResults.metricsUpdated,
+    pingsProcessed: currentJob.results.pingsProcessed + chunkResults.pingsProcessed,
+    errors: [...currentJob.results.errors, ...chunkResults.errors],
+  };
+
+  const finished = remaining === 0;
+  await supabase
+    .from("processing_jobs")
+    .update({
+      status: finished ? (failedBlocks > 0 ? "failed" : "completed") : "running",
+      processed_blocks: statuses.length - remaining,
+      failed_blocks: failedBlocks,
+      ...(tractorId ? { processed_tractors: currentJob.processed_tractors + 1, last_tractor_id: tractorId } : {}),
+      results,
+      finished_at: finished ? new Date().toISOString() : null,
+    })
+    .eq("id", jobId);
+
+  if (finished) {
+    console.log(`Job ${jobId}: complete`, results);
+  } else {
+    scheduleJobChunk(jobId);
+  }
 }
 
-// Gap threshold for merging visits (in minutes)
-// If a tractor leaves and re-enters within this time, it's considered the same visit
-const MERGE_GAP_MINUTES = 30;
+// Reset a job's failed blocks (or resume a stalled job) and start processing
+// again; only jobs of the given tenant are found
+async function retryJob(supabase: SupabaseClient, jobId: string, tenantId: string): Promise<string | null> {
+  const { data: job, error: jobError } = await supabase
+    .from("processing_jobs")
+    .select("id, tenant_id, status, mode, tractor_id, processed_tractors, last_tractor_id, results, started_at, updated_at")
+    .eq("id", jobId)
+    .eq("tenant_id", tenantId)
+    .maybeSingle();
 
-// Minimum requirements for a valid visit (to filter out transits)
-const MIN_PINGS_FOR_VALID_VISIT = 15;
-const MIN_DURATION_MINUTES = 3;
+  if (jobError || !job) {
+    return "Job not found";
+  }
 
-// Penetration depth filter: pings must be this far from the polygon edge
-// to distinguish real work from perimeter transit
-const MIN_PENETRATION_DEPTH_METERS = 15;
-const MIN_DEEP_PINGS = 5;
+  const currentJob = job as ProcessingJob;
+  const stalled = Date.now() - toMs(currentJob.updated_at) > STALE_JOB_MINUTES * 60 * 1000;
+  if ((currentJob.status === "running" || currentJob.status === "pending") && !stalled) {
+    return "Job is already running";
+  }
+
+  const { data: failedRows } = await supabase
+    .from("processing_job_blocks")
+    .select("block_id")
+    .eq("job_id", jobId)
+    .eq("status", "failed");
+
+  const retriedIds = new Set((failedRows || []).map((r: { block_id: string }) => r.block_id));
+
+  await supabase
+    .from("processing_job_blocks")
+    .update({ status: "pending", visits_created: 0, visits_updated: 0, error: null })
+    .eq("job_id", jobId)
+    .eq("status", "failed");
+
+  // Errors of retried blocks are replaced by whatever the retry reports.
+  // Retried blocks go through every tractor again, a stalled job resumes
+  // from the tractor it was on
+  await supabase
+    .from("processing_jobs")
+    .update({
+      status: "pending",
+      finished_at: null,
+      ...(retriedIds.size > 0 ? { processed_tractors: 0, last_tractor_id: null } : {}),
+      results: {
+        ...currentJob.results,
+        errors: currentJob.results.errors.filter((e) =>
+          !Array.from(retriedIds).some((id) => e.startsWith(`Block ${id}:`))
+        ),
+      },
+    })
+    .eq("id", jobId);
+
+  scheduleJobChunk(jobId);
+  return null;
+}
 
 serve(async (req) => {
   // Handle CORS
@@ -97,22 +871,74 @@ serve(async (req) => {
     const body = await req.json();
     const { block_id, tractor_id, tenant_id: providedTenantId } = body;
 
+    // Continue (or retry) a background job; the chunk runs after responding
+    if (body.job_id) {
+      const token = (req.headers.get("authorization") ?? "").replace("Bearer ", "");
+      if (body.retry) {
+        // Retried by a user of the job's tenant from the jobs panel
+        const { data: userData } = await supabase.auth.getUser(token);
+        const { data: profile } = userData?.user
+          ? await supabase.from("profiles").select("tenant_id").eq("user_id", userData.user.id).single()
+          : { data: null };
+        if (!profile?.tenant_id) {
+          return new Response(
+            JSON.stringify({ error: "Unauthorized" }),
+            { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+          );
+        }
+
+        const retryError = await retryJob(supabase, body.job_id, profile.tenant_id);
+        if (retryError) {
+          return new Response(
+            JSON.stringify({ error: retryError }),
+            { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+          );
+        }
+      } else {
+        // Next chunk, scheduled by the previous one with the service key
+        if (token !== supabaseServiceKey) {
+          return new Response(
+            JSON.stringify({ error: "Unauthorized" }),
+            { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+          );
+        }
+        EdgeRuntime.waitUntil(runJobChunk(supabase, body.job_id));
+      }
+
+      return new Response(
+        JSON.stringify({ success: true, jobId: body.job_id }),
+        { status: 202, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Incremental mode only looks at pings newer than each block/tractor watermark;
+    // full mode discards stored visits and rebuilds them from the whole history
+    const mode: ProcessingMode = body.mode === "full" ? "full" : "incremental";
+    // Dry runs preview a full rebuild: nothing is written, the diff is returned
+    const dryRun = body.dry_run === true;
+    // Background runs create a processing job and return right away
+    const background = body.background === true;
+
     // Get tenant_id from auth or from provided value
     let tenantId = providedTenantId;
+    let userId: string | null = null;
     
-    if (!tenantId) {
+    if (!tenantId || background) {
       // Try to get from authorization header
       const authHeader = req.headers.get("authorization");
       if (authHeader) {
         const token = authHeader.replace("Bearer ", "");
         const { data: userData } = await supabase.auth.getUser(token);
         if (userData?.user) {
-          const { data: profile } = await supabase
-            .from("profiles")
-            .select("tenant_id")
-            .eq("user_id", userData.user.id)
-            .single();
-          tenantId = profile?.tenant_id;
+          userId = userData.user.id;
+          if (!tenantId) {
+            const { data: profile } = await supabase
+              .from("profiles")
+              .select("tenant_id")
+              .eq("user_id", userData.user.id)
+              .single();
+            tenantId = profile?.tenant_id;
+          }
         }
       }
     }
@@ -124,7 +950,7 @@ serve(async (req) => {
       );
     }
 
-    console.log(`Processing historical visits for tenant: ${tenantId}`);
+    console.log(`Processing historical visits for tenant: ${tenantId} (mode: ${mode}${dryRun ? ", dry run" : ""}${background ? ", background" : ""})`);
 
     // Fetch blocks (either specific one or all for tenant)
     let blocksQuery = supabase
@@ -143,303 +969,87 @@ serve(async (req) => {
     }
 
     if (!blocks || blocks.length === 0) {
+      // Dry runs keep their shape: nothing would change
       return new Response(
-        JSON.stringify({ message: "No blocks found", processed: 0 }),
+        JSON.stringify(dryRun
+          ? { success: true, mode: "full", dryRun: true, blocks: [], errors: [] }
+          : { message: "No blocks found", processed: 0 }),
         { headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
     console.log(`Found ${blocks.length} blocks to process`);
 
-    // Fetch GPS pings, optionally filtered by tractor
-    let pingsQuery = supabase
-      .from("gps_pings")
-      .select("id, ts, lat, lon, tractor_id, tenant_id")
-      .eq("tenant_id", tenantId)
-      .order("ts", { ascending: true });
-    
-    if (tractor_id) {
-      pingsQuery = pingsQuery.eq("tractor_id", tractor_id);
-    }
-
-    // Paginate through all pings (Supabase default limit is 1000)
-    const allPings: GpsPing[] = [];
-    let offset = 0;
-    const pageSize = 1000;
-    let hasMore = true;
-
-    while (hasMore) {
-      const { data: pings, error: pingsError } = await pingsQuery
-        .range(offset, offset + pageSize - 1);
+    if (background) {
+      const tractorIds = await fetchTractorIds(supabase, tenantId, tractor_id ?? null);
+      const { data: job, error: jobError } = await supabase
+        .from("processing_jobs")
+        .insert({
+          tenant_id: tenantId,
+          created_by: userId,
+          mode,
+          tractor_id: tractor_id ?? null,
+          total_blocks: blocks.length,
+          total_tractors: tractorIds.length,
+        })
+        .select("id")
+        .single();
 
-      if (pingsError) {
-        throw new Error(`Error fetching pings: ${pingsError.message}`);
+      if (jobError || !job) {
+        throw new Error(`Error creating job: ${jobError?.message}`);
       }
 
-      if (!pings || pings.length === 0) {
-        hasMore = false;
-      } else {
-        allPings.push(...pings);
-        offset += pageSize;
-        hasMore = pings.length === pageSize;
+      const jobBlocks = (blocks as Block[]).map((b) => ({ job_id: job.id, block_id: b.id }));
+      for (let i = 0; i < jobBlocks.length; i += 500) {
+        const { error: jobBlocksError } = await supabase
+          .from("processing_job_blocks")
+          .insert(jobBlocks.slice(i, i + 500));
+
+        if (jobBlocksError) {
+          throw new Error(`Error creating job blocks: ${jobBlocksError.message}`);
+        }
       }
-    }
 
-    console.log(`Found ${allPings.length} GPS pings to process`);
+      EdgeRuntime.waitUntil(runJobChunk(supabase, job.id));
 
-    if (allPings.length === 0) {
       return new Response(
-        JSON.stringify({ message: "No GPS pings found", processed: 0 }),
-        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        JSON.stringify({ success: true, jobId: job.id }),
+        { status: 202, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
-    // Group pings by tractor
-    const pingsByTractor = new Map<string, GpsPing[]>();
-    for (const ping of allPings) {
-      if (!pingsByTractor.has(ping.tractor_id)) {
-        pingsByTractor.set(ping.tractor_id, []);
-      }
-      pingsByTractor.get(ping.tractor_id)!.push(ping);
-    }
-
-    // Process visits for each block
-    const results = {
-      visitsCreated: 0,
-      metricsUpdated: 0,
-      errors: [] as string[],
-    };
-
-    for (const block of blocks) {
-      const polygon = getPolygonCoordinates(block.geometry_geojson);
-      if (!polygon) {
-        results.errors.push(`Block ${block.id}: Invalid geometry`);
-        continue;
-      }
-
-      // Track visits per tractor for this block
-      const blockVisits: Array<{
-        tractor_id: string;
-        started_at: string;
-        ended_at: string | null;
-        ping_count: number;
-      }> = [];
-
-      for (const [tractorId, pings] of pingsByTractor) {
-        // Step 1: Detect raw visits (each entry/exit creates one)
-        // Store full pings array to calculate penetration depth later
-        const rawVisits: Array<{
-          started_at: string;
-          ended_at: string;
-          pings: GpsPing[];
-        }> = [];
-        
-        let currentVisit: { started_at: string; pings: GpsPing[] } | null = null;
-
-        for (const ping of pings) {
-          const isInside = isPointInPolygon([ping.lon, ping.lat], polygon);
-
-          if (isInside) {
-            if (!currentVisit) {
-              // Start new visit
-              currentVisit = { started_at: ping.ts, pings: [ping] };
-            } else {
-              // Continue visit
-              currentVisit.pings.push(ping);
-            }
-          } else if (currentVisit) {
-            // End visit
-            const lastPing = currentVisit.pings[currentVisit.pings.length - 1];
-            rawVisits.push({
-              started_at: currentVisit.started_at,
-              ended_at: lastPing.ts,
-              pings: [...currentVisit.pings],
-            });
-            currentVisit = null;
-          }
-        }
-
-        // Handle ongoing visit (tractor still in block at end of data)
-        if (currentVisit && currentVisit.pings.length > 0) {
-          const lastPing = currentVisit.pings[currentVisit.pings.length - 1];
-          rawVisits.push({
-            started_at: currentVisit.started_at,
-            ended_at: lastPing.ts,
-            pings: [...currentVisit.pings],
-          });
-        }
-
-        // Step 2: Merge visits that are close together (gap < MERGE_GAP_MINUTES)
-        const mergedVisitsForTractor: Array<{
-          started_at: string;
-          ended_at: string;
-          pings: GpsPing[];
-        }> = [];
-
-        let currentMergedVisit: {
-          started_at: string;
-          ended_at: string;
-          pings: GpsPing[];
-        } | null = null;
-
-        for (const visit of rawVisits) {
-          if (!currentMergedVisit) {
-            currentMergedVisit = { 
-              started_at: visit.started_at, 
-              ended_at: visit.ended_at, 
-              pings: [...visit.pings] 
-            };
-          } else {
-            const gapMs = new Date(visit.started_at).getTime() 
-                        - new Date(currentMergedVisit.ended_at).getTime();
-            const gapMinutes = gapMs / (1000 * 60);
-
-            if (gapMinutes < MERGE_GAP_MINUTES) {
-              // Merge: extend the current visit and accumulate pings
-              currentMergedVisit.ended_at = visit.ended_at;
-              currentMergedVisit.pings.push(...visit.pings);
-            } else {
-              // Gap >= 30 min: save the previous and start a new one
-              mergedVisitsForTractor.push(currentMergedVisit);
-              currentMergedVisit = { 
-                started_at: visit.started_at, 
-                ended_at: visit.ended_at, 
-                pings: [...visit.pings] 
-              };
-            }
-          }
-        }
-
-        // Don't forget the last merged visit
-        if (currentMergedVisit) {
-          mergedVisitsForTractor.push(currentMergedVisit);
-        }
-
-        // Step 3: Filter out transit visits (not enough pings, duration, or penetration depth)
-        for (const visit of mergedVisitsForTractor) {
-          const pingCount = visit.pings.length;
-          
-          // Check minimum pings
-          if (pingCount < MIN_PINGS_FOR_VALID_VISIT) {
-            console.log(`Filtering visit: only ${pingCount} pings (min: ${MIN_PINGS_FOR_VALID_VISIT})`);
-            continue;
-          }
-          
-          // Check minimum duration
-          const durationMs = new Date(visit.ended_at).getTime() 
-                           - new Date(visit.started_at).getTime();
-          const durationMinutes = durationMs / (1000 * 60);
-          
-          if (durationMinutes < MIN_DURATION_MINUTES) {
-            console.log(`Filtering visit: only ${durationMinutes.toFixed(1)} minutes (min: ${MIN_DURATION_MINUTES})`);
-            continue;
-          }
-          
-          // Check penetration depth - count pings that are far from the edge
-          const deepPings = visit.pings.filter(ping => {
-            const depth = distanceToPolygonEdge([ping.lon, ping.lat], polygon);
-            return depth >= MIN_PENETRATION_DEPTH_METERS;
-          }).length;
-          
-          if (deepPings < MIN_DEEP_PINGS) {
-            console.log(`Filtering visit: only ${deepPings} pings with depth >= ${MIN_PENETRATION_DEPTH_METERS}m (min: ${MIN_DEEP_PINGS})`);
-            continue;
-          }
-          
-          // Valid visit - add it
-          blockVisits.push({
-            tractor_id: tractorId,
-            started_at: visit.started_at,
-            ended_at: visit.ended_at,
-            ping_count: pingCount,
-          });
-        }
-      }
-
-      console.log(`Block ${block.id}: Found ${blockVisits.length} valid visits`);
-
-      // Delete existing visits for this block (to avoid duplicates)
-      const deleteQuery: any = { block_id: block.id };
-      if (tractor_id) {
-        deleteQuery.tractor_id = tractor_id;
-      }
-
-      const { error: deleteError } = await supabase
-        .from("block_visits")
-        .delete()
-        .match(deleteQuery);
+    const results = emptyResults();
+    const polygons = getPolygons(blocks as Block[], results);
+    const tractorIds = await fetchTractorIds(supabase, tenantId, tractor_id ?? null);
+    const thresholdsByBlock = await fetchThresholds(supabase, tenantId, Array.from(polygons.keys()));
 
-      if (deleteError) {
-        results.errors.push(`Block ${block.id}: Error deleting old visits: ${deleteError.message}`);
-      }
-
-      // Insert new visits
-      if (blockVisits.length > 0) {
-        const visitsToInsert = blockVisits.map((v) => ({
-          block_id: block.id,
-          tenant_id: tenantId,
-          tractor_id: v.tractor_id,
-          started_at: v.started_at,
-          ended_at: v.ended_at,
-          ping_count: v.ping_count,
-        }));
-
-        // Insert in batches of 100
-        for (let i = 0; i < visitsToInsert.length; i += 100) {
-          const batch = visitsToInsert.slice(i, i + 100);
-          const { error: insertError } = await supabase
-            .from("block_visits")
-            .insert(batch);
-
-          if (insertError) {
-            results.errors.push(`Block ${block.id}: Error inserting visits: ${insertError.message}`);
-          } else {
-            results.visitsCreated += batch.length;
-          }
-        }
-      }
+    if (dryRun) {
+      const preview = await previewFullRebuild(
+        supabase, tenantId, tractorIds, tractor_id ?? null, polygons, thresholdsByBlock
+      );
 
-      // Update block metrics
-      const lastVisit = blockVisits.length > 0 
-        ? blockVisits.reduce((latest, v) => 
-            new Date(v.ended_at || v.started_at) > new Date(latest.ended_at || latest.started_at) ? v : latest
-          )
-        : null;
-
-      // Calculate 24h and 7d passes
-      const now = new Date();
-      const h24Ago = new Date(now.getTime() - 24 * 60 * 60 * 1000);
-      const d7Ago = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-
-      const passes24h = blockVisits.filter((v) => new Date(v.started_at) >= h24Ago).length;
-      const passes7d = blockVisits.filter((v) => new Date(v.started_at) >= d7Ago).length;
-
-      const metricsUpdate = {
-        block_id: block.id,
-        last_seen_at: lastVisit ? (lastVisit.ended_at || lastVisit.started_at) : null,
-        last_tractor_id: lastVisit?.tractor_id || null,
-        total_passes: blockVisits.length,
-        passes_24h: passes24h,
-        passes_7d: passes7d,
-        updated_at: new Date().toISOString(),
-      };
-
-      const { error: upsertError } = await supabase
-        .from("block_metrics")
-        .upsert(metricsUpdate, { onConflict: "block_id" });
-
-      if (upsertError) {
-        results.errors.push(`Block ${block.id}: Error updating metrics: ${upsertError.message}`);
-      } else {
-        results.metricsUpdated++;
-      }
+      return new Response(
+        JSON.stringify({
+          success: true,
+          mode: "full",
+          dryRun: true,
+          blocks: preview,
+          errors: results.errors,
+        }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
     }
 
+    await processBlocks(
+      supabase, tenantId, mode, tractorIds, tractor_id ?? null, polygons, thresholdsByBlock, results
+    );
+
     console.log(`Processing complete:`, results);
 
     return new Response(
       JSON.stringify({
         success: true,
+        mode,
         ...results,
       }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
@@ -0,0 +1,29 @@
+-- Per block/tractor watermark for incremental visit processing
+CREATE TABLE public.visit_processing_state (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID REFERENCES public.tenants(id) ON DELETE CASCADE NOT NULL,
+    block_id UUID REFERENCES public.blocks(id) ON DELETE CASCADE NOT NULL,
+    tractor_id UUID REFERENCES public.tractors(id) ON DELETE CASCADE NOT NULL,
+    -- Timestamp of the newest ping already processed for this pair
+    last_ping_at TIMESTAMPTZ NOT NULL,
+    -- Start of the last visit candidate that can still be extended by new pings
+    -- (ended less than MERGE_GAP_MINUTES before last_ping_at), NULL when closed
+    open_visit_started_at TIMESTAMPTZ,
+    -- Stored visit for that candidate, NULL if it did not pass the filters yet
+    open_visit_id UUID REFERENCES public.block_visits(id) ON DELETE SET NULL,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    UNIQUE (block_id, tractor_id)
+);
+
+ALTER TABLE public.visit_processing_state ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view tenant processing state" ON public.visit_processing_state
+    FOR SELECT USING (
+        tenant_id IN (SELECT tenant_id FROM public.profiles WHERE user_id = auth.uid())
+    );
+
+CREATE TRIGGER update_visit_processing_state_updated_at
+    BEFORE UPDATE ON public.visit_processing_state
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_block_visits_block_tractor ON public.block_visits(block_id, tractor_id, started_at DESC);
@@ -0,0 +1,35 @@
+-- Visit detection thresholds: one tenant default row (block_id NULL) plus optional
+-- per-block overrides. NULL columns in an override inherit the tenant default.
+CREATE TABLE public.visit_detection_settings (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID REFERENCES public.tenants(id) ON DELETE CASCADE NOT NULL,
+    block_id UUID REFERENCES public.blocks(id) ON DELETE CASCADE,
+    merge_gap_minutes DOUBLE PRECISION CHECK (merge_gap_minutes >= 0),
+    min_pings_for_valid_visit INTEGER CHECK (min_pings_for_valid_visit >= 0),
+    min_duration_minutes DOUBLE PRECISION CHECK (min_duration_minutes >= 0),
+    min_penetration_depth_meters DOUBLE PRECISION CHECK (min_penetration_depth_meters >= 0),
+    min_deep_pings INTEGER CHECK (min_deep_pings >= 0),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.visit_detection_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE UNIQUE INDEX idx_visit_detection_settings_tenant_default
+    ON public.visit_detection_settings(tenant_id) WHERE block_id IS NULL;
+CREATE UNIQUE INDEX idx_visit_detection_settings_block
+    ON public.visit_detection_settings(block_id) WHERE block_id IS NOT NULL;
+
+CREATE POLICY "Users can view tenant detection settings" ON public.visit_detection_settings
+    FOR SELECT USING (
+        tenant_id IN (SELECT tenant_id FROM public.profiles WHERE user_id = auth.uid())
+    );
+
+CREATE POLICY "Users can manage tenant detection settings" ON public.visit_detection_settings
+    FOR ALL USING (
+        tenant_id IN (SELECT tenant_id FROM public.profiles WHERE user_id = auth.uid())
+    );
+
+CREATE TRIGGER update_visit_detection_settings_updated_at
+    BEFORE UPDATE ON public.visit_detection_settings
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,59 @@
+-- Background visit processing jobs, run by process-historical-visits in chunks of blocks
+CREATE TABLE public.processing_jobs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID REFERENCES public.tenants(id) ON DELETE CASCADE NOT NULL,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'failed')),
+    mode TEXT NOT NULL DEFAULT 'full' CHECK (mode IN ('incremental', 'full')),
+    -- Restrict processing to one tractor's pings, NULL for all tractors
+    tractor_id UUID REFERENCES public.tractors(id) ON DELETE SET NULL,
+    total_blocks INTEGER NOT NULL DEFAULT 0,
+    processed_blocks INTEGER NOT NULL DEFAULT 0,
+    failed_blocks INTEGER NOT NULL DEFAULT 0,
+    -- Accumulated counters and error list, same shape as a synchronous run's response
+    results JSONB NOT NULL DEFAULT '{"visitsCreated": 0, "visitsUpdated": 0, "metricsUpdated": 0, "pingsProcessed": 0, "errors": []}'::jsonb,
+    started_at TIMESTAMPTZ,
+    finished_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- One row per block of a job; chunks pick up pending blocks so a job can resume
+CREATE TABLE public.processing_job_blocks (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    job_id UUID REFERENCES public.processing_jobs(id) ON DELETE CASCADE NOT NULL,
+    block_id UUID REFERENCES public.blocks(id) ON DELETE CASCADE NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'failed')),
+    visits_created INTEGER NOT NULL DEFAULT 0,
+    visits_updated INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    UNIQUE (job_id, block_id)
+);
+
+ALTER TABLE public.processing_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.processing_job_blocks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view tenant processing jobs" ON public.processing_jobs
+    FOR SELECT USING (
+        tenant_id IN (SELECT tenant_id FROM public.profiles WHERE user_id = auth.uid())
+    );
+
+CREATE POLICY "Users can view tenant processing job blocks" ON public.processing_job_blocks
+    FOR SELECT USING (
+        job_id IN (
+            SELECT id FROM public.processing_jobs
+            WHERE tenant_id IN (SELECT tenant_id FROM public.profiles WHERE user_id = auth.uid())
+        )
+    );
+
+CREATE TRIGGER update_processing_jobs_updated_at
+    BEFORE UPDATE ON public.processing_jobs
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_processing_job_blocks_updated_at
+    BEFORE UPDATE ON public.processing_job_blocks
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_processing_jobs_tenant_created ON public.processing_jobs(tenant_id, created_at DESC);
+CREATE INDEX idx_processing_job_blocks_job_status ON public.processing_job_blocks(job_id, status);
@@ -0,0 +1,12 @@
+-- Ping activity classification: speed bands per tenant/block and time per
+-- activity on each visit
+ALTER TABLE public.visit_detection_settings
+    ADD COLUMN idle_max_speed_kmh DOUBLE PRECISION CHECK (idle_max_speed_kmh >= 0),
+    ADD COLUMN work_max_speed_kmh DOUBLE PRECISION CHECK (work_max_speed_kmh >= 0),
+    ADD COLUMN turn_min_heading_change_deg DOUBLE PRECISION CHECK (turn_min_heading_change_deg BETWEEN 0 AND 180);
+
+-- NULL for visits detected before classification existed, until reprocessed
+ALTER TABLE public.block_visits
+    ADD COLUMN working_minutes DOUBLE PRECISION,
+    ADD COLUMN transit_minutes DOUBLE PRECISION,
+    ADD COLUMN idle_minutes DOUBLE PRECISION;
@@ -0,0 +1,32 @@
+-- Stops inside visits: stationary stretches detected during visit processing
+ALTER TABLE public.visit_detection_settings
+    ADD COLUMN stop_radius_meters DOUBLE PRECISION CHECK (stop_radius_meters > 0),
+    ADD COLUMN stop_min_minutes DOUBLE PRECISION CHECK (stop_min_minutes > 0);
+
+-- Total minutes spent in stops, NULL for visits detected before stops existed
+ALTER TABLE public.block_visits
+    ADD COLUMN stopped_minutes DOUBLE PRECISION;
+
+-- Child records of a visit, replaced whenever the visit is re-detected
+CREATE TABLE public.visit_stops (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID REFERENCES public.tenants(id) ON DELETE CASCADE NOT NULL,
+    visit_id UUID REFERENCES public.block_visits(id) ON DELETE CASCADE NOT NULL,
+    started_at TIMESTAMPTZ NOT NULL,
+    ended_at TIMESTAMPTZ NOT NULL,
+    -- Centroid of the stopped pings
+    lat DOUBLE PRECISION NOT NULL,
+    lon DOUBLE PRECISION NOT NULL,
+    duration_minutes DOUBLE PRECISION NOT NULL,
+    ping_count INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.visit_stops ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view tenant visit stops" ON public.visit_stops
+    FOR SELECT USING (
+        tenant_id IN (SELECT tenant_id FROM public.profiles WHERE user_id = auth.uid())
+    );
+
+CREATE INDEX idx_visit_stops_visit_started ON public.visit_stops(visit_id, started_at);
@@ -0,0 +1,24 @@
+-- Fleet management: tractors are archived instead of deleted so their
+-- pings and visits keep pointing at them
+ALTER TABLE public.tractors
+    ADD COLUMN archived_at TIMESTAMPTZ,
+    ADD COLUMN updated_at TIMESTAMPTZ NOT NULL DEFAULT now();
+
+CREATE TRIGGER update_tractors_updated_at
+    BEFORE UPDATE ON public.tractors
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Keep the first of tractors registered twice before the index existed and
+-- archive the rest; their pings and visits stay with them
+UPDATE public.tractors a
+SET archived_at = now()
+FROM public.tractors b
+WHERE a.tenant_id = b.tenant_id
+  AND a.identifier = b.identifier
+  AND (a.created_at, a.id) > (b.created_at, b.id);
+
+-- The identifier is what GPS devices and imported files report, so it must
+-- resolve to a single active tractor within a tenant. Archived ones free it
+-- for a replacement.
+CREATE UNIQUE INDEX idx_tractors_tenant_identifier ON public.tractors(tenant_id, identifier)
+    WHERE archived_at IS NULL;
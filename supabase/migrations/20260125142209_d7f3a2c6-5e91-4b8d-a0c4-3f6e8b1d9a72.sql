@@ -0,0 +1,60 @@
+-- Implements (mowers, sprayers, seeders...) whose working width drives coverage
+CREATE TABLE public.implements (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID REFERENCES public.tenants(id) ON DELETE CASCADE NOT NULL,
+    name TEXT NOT NULL,
+    type TEXT NOT NULL DEFAULT 'other' CHECK (type IN ('mower', 'sprayer', 'seeder', 'tillage', 'harvester', 'other')),
+    working_width_meters DOUBLE PRECISION NOT NULL CHECK (working_width_meters > 0),
+    -- Position of the implement's center relative to the GPS antenna:
+    -- meters behind it along the direction of travel, and meters to its right
+    offset_back_meters DOUBLE PRECISION NOT NULL DEFAULT 0,
+    offset_right_meters DOUBLE PRECISION NOT NULL DEFAULT 0,
+    archived_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Implement hitched to a tractor from started_at until ended_at (NULL while still hitched)
+CREATE TABLE public.implement_assignments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID REFERENCES public.tenants(id) ON DELETE CASCADE NOT NULL,
+    implement_id UUID REFERENCES public.implements(id) ON DELETE CASCADE NOT NULL,
+    tractor_id UUID REFERENCES public.tractors(id) ON DELETE CASCADE NOT NULL,
+    started_at TIMESTAMPTZ NOT NULL,
+    ended_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    CHECK (ended_at IS NULL OR ended_at > started_at)
+);
+
+-- Implement chosen for a single visit, overriding the tractor's assignment
+ALTER TABLE public.block_visits
+    ADD COLUMN implement_id UUID REFERENCES public.implements(id) ON DELETE SET NULL;
+
+ALTER TABLE public.implements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.implement_assignments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view tenant implements" ON public.implements
+    FOR SELECT USING (
+        tenant_id IN (SELECT tenant_id FROM public.profiles WHERE user_id = auth.uid())
+    );
+
+CREATE POLICY "Users can manage tenant implements" ON public.implements
+    FOR ALL USING (
+        tenant_id IN (SELECT tenant_id FROM public.profiles WHERE user_id = auth.uid())
+    );
+
+CREATE POLICY "Users can view tenant implement assignments" ON public.implement_assignments
+    FOR SELECT USING (
+        tenant_id IN (SELECT tenant_id FROM public.profiles WHERE user_id = auth.uid())
+    );
+
+CREATE POLICY "Users can manage tenant implement assignments" ON public.implement_assignments
+    FOR ALL USING (
+        tenant_id IN (SELECT tenant_id FROM public.profiles WHERE user_id = auth.uid())
+    );
+
+CREATE TRIGGER update_implements_updated_at
+    BEFORE UPDATE ON public.implements
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_implement_assignments_tractor_started ON public.implement_assignments(tractor_id, started_at);
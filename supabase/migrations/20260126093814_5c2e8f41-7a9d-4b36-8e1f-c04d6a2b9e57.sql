@@ -0,0 +1,114 @@
+-- Operators (drivers) who work the tractors
+CREATE TABLE public.operators (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID REFERENCES public.tenants(id) ON DELETE CASCADE NOT NULL,
+    name TEXT NOT NULL,
+    -- Employee number or payroll code, optional
+    code TEXT,
+    archived_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Operator driving a tractor from started_at until ended_at (NULL while the shift is open)
+CREATE TABLE public.operator_shifts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID REFERENCES public.tenants(id) ON DELETE CASCADE NOT NULL,
+    operator_id UUID REFERENCES public.operators(id) ON DELETE CASCADE NOT NULL,
+    tractor_id UUID REFERENCES public.tractors(id) ON DELETE CASCADE NOT NULL,
+    started_at TIMESTAMPTZ NOT NULL,
+    ended_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    CHECK (ended_at IS NULL OR ended_at > started_at)
+);
+
+-- Operator on shift when the visit started, kept in sync by the triggers below
+ALTER TABLE public.block_visits
+    ADD COLUMN operator_id UUID REFERENCES public.operators(id) ON DELETE SET NULL;
+
+ALTER TABLE public.operators ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.operator_shifts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view tenant operators" ON public.operators
+    FOR SELECT USING (
+        tenant_id IN (SELECT tenant_id FROM public.profiles WHERE user_id = auth.uid())
+    );
+
+CREATE POLICY "Users can manage tenant operators" ON public.operators
+    FOR ALL USING (
+        tenant_id IN (SELECT tenant_id FROM public.profiles WHERE user_id = auth.uid())
+    );
+
+CREATE POLICY "Users can view tenant operator shifts" ON public.operator_shifts
+    FOR SELECT USING (
+        tenant_id IN (SELECT tenant_id FROM public.profiles WHERE user_id = auth.uid())
+    );
+
+CREATE POLICY "Users can manage tenant operator shifts" ON public.operator_shifts
+    FOR ALL USING (
+        tenant_id IN (SELECT tenant_id FROM public.profiles WHERE user_id = auth.uid())
+    );
+
+CREATE TRIGGER update_operators_updated_at
+    BEFORE UPDATE ON public.operators
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_operator_shifts_tractor_started ON public.operator_shifts(tractor_id, started_at);
+CREATE INDEX idx_block_visits_operator ON public.block_visits(operator_id);
+
+-- Operator driving a tractor at a given time; the latest started shift wins when shifts overlap
+CREATE OR REPLACE FUNCTION public.operator_on_shift(_tractor_id UUID, _at TIMESTAMPTZ)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT operator_id
+    FROM public.operator_shifts
+    WHERE tractor_id = _tractor_id
+      AND started_at <= _at
+      AND (ended_at IS NULL OR ended_at > _at)
+    ORDER BY started_at DESC
+    LIMIT 1
+$$;
+
+-- Attribute new visits (from imports, the simulator or reprocessing) to the operator on shift
+CREATE OR REPLACE FUNCTION public.attribute_visit_operator()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.operator_id = public.operator_on_shift(NEW.tractor_id, NEW.started_at);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER attribute_block_visit_operator
+    BEFORE INSERT OR UPDATE OF tractor_id, started_at ON public.block_visits
+    FOR EACH ROW EXECUTE FUNCTION public.attribute_visit_operator();
+
+-- Re-attribute the visits a shift covered before and after it changed
+CREATE OR REPLACE FUNCTION public.reattribute_shift_visits()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP IN ('UPDATE', 'DELETE') THEN
+        UPDATE public.block_visits
+        SET operator_id = public.operator_on_shift(tractor_id, started_at)
+        WHERE tractor_id = OLD.tractor_id
+          AND started_at >= OLD.started_at
+          AND (OLD.ended_at IS NULL OR started_at < OLD.ended_at);
+    END IF;
+
+    IF TG_OP IN ('INSERT', 'UPDATE') THEN
+        UPDATE public.block_visits
+        SET operator_id = public.operator_on_shift(tractor_id, started_at)
+        WHERE tractor_id = NEW.tractor_id
+          AND started_at >= NEW.started_at
+          AND (NEW.ended_at IS NULL OR started_at < NEW.ended_at);
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER reattribute_operator_shift_visits
+    AFTER INSERT OR UPDATE OR DELETE ON public.operator_shifts
+    FOR EACH ROW EXECUTE FUNCTION public.reattribute_shift_visits();
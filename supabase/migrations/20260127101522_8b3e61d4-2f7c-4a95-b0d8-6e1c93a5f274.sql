@@ -0,0 +1,3 @@
+-- Implement work state logged with the position (ISOBUS Actual Work State);
+-- NULL when the source does not report it
+ALTER TABLE public.gps_pings ADD COLUMN work_state BOOLEAN;
@@ -0,0 +1,36 @@
+-- Revocable tokens GPS trackers use to post pings for one tractor. Only the
+-- SHA-256 of the token is stored; the plain token is shown once on creation.
+CREATE TABLE public.tractor_device_tokens (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID REFERENCES public.tenants(id) ON DELETE CASCADE NOT NULL,
+    tractor_id UUID REFERENCES public.tractors(id) ON DELETE CASCADE NOT NULL,
+    -- Label of the tracker using the token
+    name TEXT NOT NULL,
+    token_hash TEXT NOT NULL UNIQUE,
+    -- First characters of the token, to tell tokens apart in the fleet screen
+    token_prefix TEXT NOT NULL,
+    last_used_at TIMESTAMPTZ,
+    revoked_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.tractor_device_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view tenant device tokens" ON public.tractor_device_tokens
+    FOR SELECT USING (
+        tenant_id IN (SELECT tenant_id FROM public.profiles WHERE user_id = auth.uid())
+    );
+
+CREATE POLICY "Users can manage tenant device tokens" ON public.tractor_device_tokens
+    FOR ALL USING (
+        tenant_id IN (SELECT tenant_id FROM public.profiles WHERE user_id = auth.uid())
+    ) WITH CHECK (
+        tenant_id IN (SELECT tenant_id FROM public.profiles WHERE user_id = auth.uid())
+        -- ingest-gps writes with the service role, so the token's tractor must
+        -- be one of the token's tenant
+        AND tractor_id IN (
+            SELECT id FROM public.tractors WHERE tractors.tenant_id = tractor_device_tokens.tenant_id
+        )
+    );
+
+CREATE INDEX idx_tractor_device_tokens_tractor ON public.tractor_device_tokens(tractor_id);
@@ -0,0 +1,15 @@
+-- One ping per tractor and instant. Imports and trackers insert with
+-- ON CONFLICT DO NOTHING, so concurrent writers can't store the same ping twice.
+
+-- Keep the first copy of pings stored twice before the constraint existed
+DELETE FROM public.gps_pings a
+USING public.gps_pings b
+WHERE a.tractor_id = b.tractor_id
+  AND a.ts = b.ts
+  AND a.ctid > b.ctid;
+
+ALTER TABLE public.gps_pings
+    ADD CONSTRAINT gps_pings_tractor_ts_key UNIQUE (tractor_id, ts);
+
+-- The constraint's index serves the same lookups
+DROP INDEX IF EXISTS public.idx_gps_pings_tractor_ts;
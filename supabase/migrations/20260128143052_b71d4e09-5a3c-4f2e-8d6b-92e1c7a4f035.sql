@@ -0,0 +1,4 @@
+-- Pings the import cleaning flagged instead of dropping (see pingCleaning.ts);
+-- NULL for clean pings. Visit detection and visit paths only use clean ones.
+ALTER TABLE public.gps_pings ADD COLUMN quality_flag TEXT
+    CHECK (quality_flag IN ('zero', 'hdop', 'accuracy', 'speed'));
@@ -0,0 +1,101 @@
+-- Files imported through import-gps-data, one batch per tractor of the file,
+-- so a wrong import can be listed and rolled back with the pings it inserted
+CREATE TABLE public.import_batches (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID REFERENCES public.tenants(id) ON DELETE CASCADE NOT NULL,
+    tractor_id UUID REFERENCES public.tractors(id) ON DELETE CASCADE NOT NULL,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    -- Profiles are private to each user, so the importer's email is kept here
+    created_by_email TEXT,
+    file_name TEXT NOT NULL,
+    -- Spreadsheet columns used for each field; NULL for track files (GPX, KML, …)
+    column_mapping JSONB,
+    -- Aggregated ImportStats of useGpsImport, written when the import ends
+    stats JSONB NOT NULL DEFAULT '{}',
+    status TEXT NOT NULL DEFAULT 'importing'
+        CHECK (status IN ('importing', 'completed', 'failed', 'rolled_back')),
+    first_ping_at TIMESTAMPTZ,
+    last_ping_at TIMESTAMPTZ,
+    rolled_back_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.import_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view tenant import batches" ON public.import_batches
+    FOR SELECT USING (
+        tenant_id IN (SELECT tenant_id FROM public.profiles WHERE user_id = auth.uid())
+    );
+
+CREATE POLICY "Users can manage tenant import batches" ON public.import_batches
+    FOR ALL USING (
+        tenant_id IN (SELECT tenant_id FROM public.profiles WHERE user_id = auth.uid())
+    );
+
+CREATE INDEX idx_import_batches_tenant_created ON public.import_batches(tenant_id, created_at DESC);
+
+-- Batch that inserted the ping; NULL for pings from trackers and the simulator
+ALTER TABLE public.gps_pings
+    ADD COLUMN import_batch_id UUID REFERENCES public.import_batches(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_gps_pings_import_batch ON public.gps_pings(import_batch_id)
+    WHERE import_batch_id IS NOT NULL;
+
+-- Delete the pings a batch inserted and mark it rolled back. Users cannot
+-- delete pings directly, so this runs as owner after checking the tenant.
+-- When the tractor's last position came from the batch it falls back to the
+-- latest clean ping left. Returns the number of pings deleted; visits are
+-- rebuilt afterwards by a processing job.
+CREATE OR REPLACE FUNCTION public.rollback_import_batch(_batch_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    batch public.import_batches%ROWTYPE;
+    deleted_count INTEGER;
+    last_seen TIMESTAMPTZ;
+    held_last_position BOOLEAN;
+    latest RECORD;
+BEGIN
+    SELECT * INTO batch
+    FROM public.import_batches
+    WHERE id = _batch_id
+      AND tenant_id IN (SELECT tenant_id FROM public.profiles WHERE user_id = auth.uid())
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Import batch not found';
+    END IF;
+    IF batch.status = 'rolled_back' THEN
+        RAISE EXCEPTION 'Import batch already rolled back';
+    END IF;
+
+    SELECT last_seen_at INTO last_seen FROM public.tractors WHERE id = batch.tractor_id;
+
+    WITH deleted AS (
+        DELETE FROM public.gps_pings WHERE import_batch_id = _batch_id RETURNING ts
+    )
+    SELECT count(*), coalesce(bool_or(ts = last_seen), false) INTO deleted_count, held_last_position
+    FROM deleted;
+
+    IF held_last_position THEN
+        SELECT ts, lat, lon INTO latest
+        FROM public.gps_pings
+        WHERE tractor_id = batch.tractor_id AND quality_flag IS NULL
+        ORDER BY ts DESC
+        LIMIT 1;
+
+        UPDATE public.tractors
+        SET last_lat = latest.lat, last_lon = latest.lon, last_seen_at = latest.ts
+        WHERE id = batch.tractor_id;
+    END IF;
+
+    UPDATE public.import_batches
+    SET status = 'rolled_back', rolled_back_at = now()
+    WHERE id = _batch_id;
+
+    RETURN deleted_count;
+END;
+$$;
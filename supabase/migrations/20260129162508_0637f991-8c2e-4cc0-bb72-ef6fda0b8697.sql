@@ -0,0 +1,50 @@
+-- Large CSV files are uploaded to storage in parts and parsed on the server by
+-- process-gps-file, which keeps its progress on the batch so the import
+-- dialog can follow it across page reloads
+ALTER TABLE public.import_batches DROP CONSTRAINT import_batches_status_check;
+ALTER TABLE public.import_batches ADD CONSTRAINT import_batches_status_check
+    CHECK (status IN ('uploading', 'processing', 'importing', 'completed', 'failed', 'rolled_back'));
+
+ALTER TABLE public.import_batches
+    ADD COLUMN file_size BIGINT,
+    -- Parts of the file in storage, each ending at a line break
+    ADD COLUMN parts_total INTEGER,
+    ADD COLUMN parts_uploaded INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN parts_processed INTEGER NOT NULL DEFAULT 0,
+    -- Delimiter, header row, cleaning and follow-up processing for process-gps-file
+    ADD COLUMN parse_options JSONB,
+    -- Why a server-side import stopped
+    ADD COLUMN error TEXT,
+    ADD COLUMN updated_at TIMESTAMPTZ NOT NULL DEFAULT now();
+
+CREATE TRIGGER update_import_batches_updated_at
+    BEFORE UPDATE ON public.import_batches
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Parts live under <tenant_id>/<import_batch_id>/ and are removed once parsed
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('gps-imports', 'gps-imports', false);
+
+CREATE POLICY "Users can view tenant GPS files" ON storage.objects
+    FOR SELECT USING (
+        bucket_id = 'gps-imports'
+        AND (storage.foldername(name))[1] IN (SELECT tenant_id::text FROM public.profiles WHERE user_id = auth.uid())
+    );
+
+CREATE POLICY "Users can upload tenant GPS files" ON storage.objects
+    FOR INSERT WITH CHECK (
+        bucket_id = 'gps-imports'
+        AND (storage.foldername(name))[1] IN (SELECT tenant_id::text FROM public.profiles WHERE user_id = auth.uid())
+    );
+
+CREATE POLICY "Users can replace tenant GPS files" ON storage.objects
+    FOR UPDATE USING (
+        bucket_id = 'gps-imports'
+        AND (storage.foldername(name))[1] IN (SELECT tenant_id::text FROM public.profiles WHERE user_id = auth.uid())
+    );
+
+CREATE POLICY "Users can delete tenant GPS files" ON storage.objects
+    FOR DELETE USING (
+        bucket_id = 'gps-imports'
+        AND (storage.foldername(name))[1] IN (SELECT tenant_id::text FROM public.profiles WHERE user_id = auth.uid())
+    );
@@ -0,0 +1,36 @@
+-- Column mappings saved for files that come back with the same layout (a
+-- provider's export, a logger's CSV), suggested when a file's headers match
+CREATE TABLE public.import_mapping_profiles (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID REFERENCES public.tenants(id) ON DELETE CASCADE NOT NULL,
+    name TEXT NOT NULL,
+    -- Header fields of the file the profile was saved from, matched against new files
+    headers TEXT[] NOT NULL DEFAULT '{}',
+    header_row INTEGER NOT NULL DEFAULT 0 CHECK (header_row >= 0),
+    -- Column used for each ping field, as the import dialog's ColumnMapping
+    column_mapping JSONB NOT NULL DEFAULT '{}',
+    -- Order of the values in a combined coordinates column
+    coordinate_order TEXT NOT NULL DEFAULT 'lat_lon'
+        CHECK (coordinate_order IN ('lat_lon', 'lon_lat')),
+    decimal_separator TEXT NOT NULL DEFAULT '.'
+        CHECK (decimal_separator IN ('.', ',')),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    UNIQUE (tenant_id, name)
+);
+
+ALTER TABLE public.import_mapping_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view tenant import mapping profiles" ON public.import_mapping_profiles
+    FOR SELECT USING (
+        tenant_id IN (SELECT tenant_id FROM public.profiles WHERE user_id = auth.uid())
+    );
+
+CREATE POLICY "Users can manage tenant import mapping profiles" ON public.import_mapping_profiles
+    FOR ALL USING (
+        tenant_id IN (SELECT tenant_id FROM public.profiles WHERE user_id = auth.uid())
+    );
+
+CREATE TRIGGER update_import_mapping_profiles_updated_at
+    BEFORE UPDATE ON public.import_mapping_profiles
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
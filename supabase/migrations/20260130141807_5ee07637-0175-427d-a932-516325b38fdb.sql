@@ -0,0 +1,7 @@
+-- How the timestamps of a profile's files are written, so they are converted
+-- to UTC the same way on every import (see TimestampOptions in _shared/timestamps.ts)
+ALTER TABLE public.import_mapping_profiles
+    ADD COLUMN timestamp_format TEXT NOT NULL DEFAULT 'auto'
+        CHECK (timestamp_format IN ('auto', 'dmy', 'mdy', 'epoch_s', 'epoch_ms')),
+    -- IANA time zone of timestamps written without an offset
+    ADD COLUMN timezone TEXT NOT NULL DEFAULT 'UTC';
@@ -0,0 +1,18 @@
+-- Tracker telemetry logged with the position; NULL when the source does not
+-- report it. Ignition and PTO tell real work from driving (see WorkSignals in
+-- _shared/pingActivity.ts).
+ALTER TABLE public.gps_pings
+    -- Course over ground, degrees clockwise from north
+    ADD COLUMN heading DOUBLE PRECISION CHECK (heading >= 0 AND heading <= 360),
+    -- Meters above sea level
+    ADD COLUMN altitude DOUBLE PRECISION,
+    ADD COLUMN hdop DOUBLE PRECISION CHECK (hdop >= 0),
+    ADD COLUMN satellites SMALLINT CHECK (satellites >= 0),
+    ADD COLUMN ignition BOOLEAN,
+    -- Power take-off engaged
+    ADD COLUMN pto BOOLEAN;
+
+-- Count only pings with the PTO engaged as work; pings that don't report the
+-- PTO still go by speed. NULL inherits, as the other thresholds.
+ALTER TABLE public.visit_detection_settings
+    ADD COLUMN require_pto_for_work BOOLEAN;
@@ -0,0 +1,6 @@
+-- Background jobs run one tractor per chunk over all their blocks, so each
+-- tractor's pings are read once; the cursor is the last tractor done
+ALTER TABLE public.processing_jobs
+    ADD COLUMN total_tractors INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN processed_tractors INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN last_tractor_id UUID;